@@ -10,10 +10,14 @@ CREATE TABLE IF NOT EXISTS public.certificates (
   user_name TEXT NOT NULL,
   issue_date TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
   expiry_date TIMESTAMP WITH TIME ZONE,
-  certificate_url TEXT,
-  UNIQUE(user_id, course_id)
+  certificate_url TEXT
 );
 
+-- Apenas um certificado válido por aluno e curso (ver 09_all_tables.sql)
+CREATE UNIQUE INDEX IF NOT EXISTS certificates_active_user_course_idx
+  ON public.certificates (user_id, course_id)
+  WHERE revoked_at IS NULL;
+
 -- RLS para certificados
 ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
 
@@ -42,8 +46,21 @@ DECLARE
   course_title TEXT;
   user_full_name TEXT;
 BEGIN
-  -- Só gera certificado se o curso foi concluído (progress = 100)
-  IF NEW.progress = 100 AND NEW.completed_at IS NOT NULL THEN
+  -- Recertificação: o aluno refez o curso e o certificado perto de expirar é renovado
+  -- (ver renew_certificate_internal em 16_certificate_expiry.sql)
+  IF NEW.progress = 100 AND NEW.completed_at IS NOT NULL AND NEW.recertification_started_at IS NOT NULL THEN
+    PERFORM public.renew_certificate_internal(NEW.user_id, NEW.course_id);
+    RETURN NEW;
+  END IF;
+
+  -- Só gera certificado se o curso foi concluído (progress = 100) e as regras do curso foram cumpridas
+  -- Certificados revogados não são reemitidos automaticamente (a reemissão é feita pelo administrador)
+  IF NEW.progress = 100 AND NEW.completed_at IS NOT NULL
+     AND public.is_certificate_eligible(NEW.user_id, NEW.course_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.certificates
+       WHERE user_id = NEW.user_id AND course_id = NEW.course_id
+     ) THEN
     -- Busca o título do curso
     SELECT title INTO course_title FROM public.courses WHERE id = NEW.course_id;
     
@@ -53,7 +70,7 @@ BEGIN
     -- Insere o certificado se não existir
     INSERT INTO public.certificates (user_id, course_id, course_name, user_name)
     VALUES (NEW.user_id, NEW.course_id, course_title, user_full_name)
-    ON CONFLICT (user_id, course_id) DO NOTHING;
+    ON CONFLICT (user_id, course_id) WHERE revoked_at IS NULL DO NOTHING;
   END IF;
   
   RETURN NEW;
@@ -76,6 +93,10 @@ DECLARE
   user_full_name TEXT;
   cert_id UUID;
 BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem gerar certificados para outros usuários';
+  END IF;
+
   -- Busca o título do curso
   SELECT title INTO course_title FROM public.courses WHERE id = p_course_id;
   IF course_title IS NULL THEN
@@ -88,15 +109,20 @@ BEGIN
     RAISE EXCEPTION 'Usuário não encontrado';
   END IF;
   
-  -- Insere ou atualiza o certificado
+  -- Insere o certificado se não existir
+  -- Um certificado existente não é alterado, pois nomes e data de emissão fazem parte da assinatura;
+  -- correções passam por reissue_certificate (15_certificate_audit.sql)
   INSERT INTO public.certificates (user_id, course_id, course_name, user_name)
   VALUES (p_user_id, p_course_id, course_title, user_full_name)
-  ON CONFLICT (user_id, course_id) 
-  DO UPDATE SET 
-    issue_date = now(),
-    course_name = course_title,
-    user_name = user_full_name
+  ON CONFLICT (user_id, course_id) WHERE revoked_at IS NULL
+  DO NOTHING
   RETURNING id INTO cert_id;
+
+  IF cert_id IS NULL THEN
+    SELECT id INTO cert_id
+    FROM public.certificates
+    WHERE user_id = p_user_id AND course_id = p_course_id AND revoked_at IS NULL;
+  END IF;
   
   RETURN cert_id;
 END;
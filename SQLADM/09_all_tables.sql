@@ -84,8 +84,364 @@ CREATE TABLE IF NOT EXISTS public.certificates (
   user_name TEXT NOT NULL,
   issue_date TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
   expiry_date TIMESTAMP WITH TIME ZONE,
-  certificate_url TEXT,
-  UNIQUE(user_id, course_id)
+  certificate_url TEXT
+);
+
+-- Colunas adicionadas depois da criação inicial da tabela de certificados
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS course_hours INTEGER;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS certificate_html TEXT;
+
+-- Tipo de aula e configurações de questionário
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS lesson_type TEXT NOT NULL DEFAULT 'video' CHECK (lesson_type IN ('video', 'quiz'));
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS passing_score INTEGER DEFAULT 70 CHECK (passing_score BETWEEN 0 AND 100);
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS max_attempts INTEGER CHECK (max_attempts IS NULL OR max_attempts > 0);
+
+-- Tabela de questões dos questionários
+CREATE TABLE IF NOT EXISTS public.quiz_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  question_type TEXT NOT NULL CHECK (question_type IN ('multiple_choice', 'true_false', 'short_answer')),
+  prompt TEXT NOT NULL,
+  options JSONB,
+  correct_answer JSONB NOT NULL,
+  points INTEGER NOT NULL DEFAULT 1 CHECK (points > 0),
+  order_number INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Tabela de tentativas dos questionários
+CREATE TABLE IF NOT EXISTS public.quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  answers JSONB NOT NULL,
+  score INTEGER NOT NULL,
+  passed BOOLEAN NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE(user_id, lesson_id, attempt_number)
+);
+
+-- Regras de emissão de certificado por curso (avaliadas por evaluate_certificate_rules)
+-- Chaves aceitas: required_lesson_ids, min_quiz_average, min_watch_time_minutes, waiting_period_days
+ALTER TABLE public.courses ADD COLUMN IF NOT EXISTS certificate_rules JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Tempo assistido por aula, usado pela regra de tempo mínimo de estudo
+ALTER TABLE public.lesson_progress ADD COLUMN IF NOT EXISTS watch_time_seconds INTEGER NOT NULL DEFAULT 0;
+
+-- Tabela de modelos (templates) de certificado
+CREATE TABLE IF NOT EXISTS public.certificate_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  title_text TEXT NOT NULL DEFAULT 'Certificado de Conclusão',
+  intro_text TEXT NOT NULL DEFAULT 'Este documento certifica que',
+  body_text TEXT NOT NULL,
+  background_image_url TEXT,
+  logo_url TEXT,
+  signatures JSONB NOT NULL DEFAULT '[]'::jsonb,
+  primary_color TEXT NOT NULL DEFAULT '#3b82f6',
+  text_color TEXT NOT NULL DEFAULT '#333333',
+  background_color TEXT NOT NULL DEFAULT '#ffffff',
+  font_family TEXT NOT NULL DEFAULT 'Montserrat',
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Modelo de certificado usado por cada curso (NULL = modelo padrão)
+ALTER TABLE public.courses ADD COLUMN IF NOT EXISTS certificate_template_id UUID REFERENCES public.certificate_templates(id) ON DELETE SET NULL;
+
+-- Cópia do modelo usado na emissão, para que edições posteriores não alterem certificados já emitidos
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.certificate_templates(id) ON DELETE SET NULL;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS template_version INTEGER;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS template_snapshot JSONB;
+
+-- Número de série e assinatura dos certificados (preenchidos por trigger em 14_certificate_signatures.sql)
+CREATE SEQUENCE IF NOT EXISTS public.certificate_serial_seq;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS serial_number TEXT UNIQUE;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS signature TEXT;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS signature_key_id INTEGER;
+
+-- Revogação de certificados
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS revocation_reason TEXT;
+
+-- Reemissão: o certificado corrigido aponta para o original e vice-versa
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS supersedes_id UUID REFERENCES public.certificates(id) ON DELETE SET NULL;
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS superseded_by_id UUID REFERENCES public.certificates(id) ON DELETE SET NULL;
+
+-- Apenas um certificado válido (não revogado) por aluno e curso; os revogados ficam no histórico
+ALTER TABLE public.certificates DROP CONSTRAINT IF EXISTS certificates_user_id_course_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS certificates_active_user_course_idx
+  ON public.certificates (user_id, course_id)
+  WHERE revoked_at IS NULL;
+
+-- Histórico de alterações dos certificados (preenchido por trigger em 15_certificate_audit.sql)
+-- Sem chave estrangeira para certificates, para que o registro sobreviva à exclusão
+CREATE TABLE IF NOT EXISTS public.certificate_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  certificate_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('issued', 'reissued', 'updated', 'revoked', 'superseded', 'deleted')),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS certificate_audit_log_certificate_idx
+  ON public.certificate_audit_log (certificate_id, created_at);
+
+-- Validade dos certificados do curso em meses (NULL = não expiram); expiry_date é
+-- preenchida na emissão por trigger em 16_certificate_expiry.sql
+ALTER TABLE public.courses ADD COLUMN IF NOT EXISTS certificate_validity_months INTEGER CHECK (certificate_validity_months > 0);
+
+-- Recertificação em andamento: o aluno refaz o curso e o certificado é renovado ao concluir
+ALTER TABLE public.enrollments ADD COLUMN IF NOT EXISTS recertification_started_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS certificates_expiry_date_idx
+  ON public.certificates (expiry_date)
+  WHERE revoked_at IS NULL AND expiry_date IS NOT NULL;
+
+-- Pré-requisitos do curso: o aluno precisa ter certificado válido de cada curso listado para se matricular
+-- (verificado por trigger em 18_course_prerequisites.sql)
+ALTER TABLE public.courses ADD COLUMN IF NOT EXISTS prerequisite_course_ids UUID[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.courses DROP CONSTRAINT IF EXISTS courses_prerequisite_not_self_check;
+ALTER TABLE public.courses ADD CONSTRAINT courses_prerequisite_not_self_check
+  CHECK (NOT (id = ANY(prerequisite_course_ids)));
+
+-- Acompanhamento do vídeo da aula, em segundos: posição mais avançada alcançada assistindo,
+-- última posição (usada para retomar a aula) e duração do vídeo (a cadastrada na aula)
+-- (registrado por record_lesson_watch_progress em 19_video_watch_progress.sql)
+ALTER TABLE public.lesson_progress ADD COLUMN IF NOT EXISTS furthest_position_seconds INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.lesson_progress ADD COLUMN IF NOT EXISTS last_position_seconds INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.lesson_progress ADD COLUMN IF NOT EXISTS video_duration_seconds INTEGER;
+ALTER TABLE public.lesson_progress ADD COLUMN IF NOT EXISTS last_watched_at TIMESTAMP WITH TIME ZONE;
+
+-- Conclusão automática da aula ao assistir esta porcentagem do vídeo (NULL = desativada)
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS auto_complete_percent INTEGER
+  CHECK (auto_complete_percent IS NULL OR auto_complete_percent BETWEEN 1 AND 100);
+
+-- Visualização obrigatória: a aula só pode ser concluída depois de assistida esta porcentagem do vídeo
+-- (verificado por trigger em 20_mandatory_viewing.sql)
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS mandatory_viewing BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS mandatory_viewing_percent INTEGER NOT NULL DEFAULT 90
+  CHECK (mandatory_viewing_percent BETWEEN 1 AND 100);
+
+-- Liberação do conteúdo do curso: navegação livre, sequencial (cada aula libera a seguinte ao ser
+-- concluída) ou programada (cada módulo é liberado X dias após a matrícula ou em uma data fixa)
+-- (calculada por get_course_content_locks em 21_content_release.sql)
+ALTER TABLE public.courses ADD COLUMN IF NOT EXISTS content_release_mode TEXT NOT NULL DEFAULT 'free'
+  CHECK (content_release_mode IN ('free', 'sequential', 'drip'));
+ALTER TABLE public.modules ADD COLUMN IF NOT EXISTS release_after_days INTEGER
+  CHECK (release_after_days IS NULL OR release_after_days >= 0);
+ALTER TABLE public.modules ADD COLUMN IF NOT EXISTS release_date TIMESTAMP WITH TIME ZONE;
+
+-- Materiais da aula (PDFs, slides, planilhas, arquivos ZIP); o arquivo fica no bucket lesson-attachments,
+-- em <lesson_id>/<arquivo> (bucket e políticas de acesso em 22_lesson_attachments.sql)
+CREATE TABLE IF NOT EXISTS public.lesson_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL CHECK (file_size >= 0),
+  mime_type TEXT NOT NULL DEFAULT 'application/octet-stream',
+  storage_path TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS lesson_attachments_lesson_idx
+  ON public.lesson_attachments (lesson_id);
+
+-- Vídeo enviado para o bucket lesson-videos: video_url e video_thumbnail_url guardam a referência
+-- storage://lesson-videos/<lesson_id>/<arquivo> (bucket e políticas de acesso em 23_lesson_videos.sql)
+-- duration_seconds é lido dos metadados do vídeo; duration continua sendo o texto exibido
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS video_thumbnail_url TEXT;
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS duration_seconds INTEGER
+  CHECK (duration_seconds IS NULL OR duration_seconds >= 0);
+
+-- Legendas da aula (uma por idioma), guardadas em WebVTT; transcript_text é o texto falado,
+-- sem marcações de tempo, usado na busca de cursos (search_lessons_by_transcript em 24_lesson_captions.sql)
+CREATE TABLE IF NOT EXISTS public.lesson_captions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+  label TEXT NOT NULL,
+  vtt_content TEXT NOT NULL,
+  transcript_text TEXT NOT NULL DEFAULT '',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (lesson_id, language)
+);
+
+CREATE INDEX IF NOT EXISTS lesson_captions_transcript_idx
+  ON public.lesson_captions USING GIN (to_tsvector('simple', transcript_text));
+
+-- Anotações pessoais do aluno nas aulas; timestamp_seconds marca o momento do vídeo
+-- (NULL quando a anotação não está ligada a um momento)
+CREATE TABLE IF NOT EXISTS public.lesson_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+  timestamp_seconds INTEGER CHECK (timestamp_seconds IS NULL OR timestamp_seconds >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS lesson_notes_user_lesson_idx ON public.lesson_notes (user_id, lesson_id);
+
+-- Aulas marcadas pelo aluno para rever depois
+CREATE TABLE IF NOT EXISTS public.lesson_bookmarks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, lesson_id)
+);
+
+-- Perguntas e respostas das aulas: parent_id NULL é uma pergunta, senão é uma resposta a ela
+-- is_answered só é usado nas perguntas (marcado pelo autor ou ao receber resposta de instrutor/administrador)
+CREATE TABLE IF NOT EXISTS public.lesson_discussions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.lesson_discussions(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+  is_answered BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS lesson_discussions_lesson_idx ON public.lesson_discussions (lesson_id, parent_id);
+CREATE INDEX IF NOT EXISTS lesson_discussions_unanswered_idx
+  ON public.lesson_discussions (created_at)
+  WHERE parent_id IS NULL AND NOT is_answered;
+
+-- Votos dos alunos nas perguntas e respostas (um por usuário)
+CREATE TABLE IF NOT EXISTS public.lesson_discussion_votes (
+  discussion_id UUID NOT NULL REFERENCES public.lesson_discussions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (discussion_id, user_id)
+);
+
+-- Avaliações dos cursos pelos alunos matriculados (nota de 1 a 5 e comentário)
+-- courses.rating e courses.review_count são recalculados a partir das avaliações visíveis
+-- (27_course_reviews.sql); review_min_progress é o progresso mínimo (%) para avaliar o curso
+ALTER TABLE public.courses ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.courses ADD COLUMN IF NOT EXISTS review_min_progress INTEGER NOT NULL DEFAULT 0
+  CHECK (review_min_progress BETWEEN 0 AND 100);
+
+CREATE TABLE IF NOT EXISTS public.course_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT NOT NULL DEFAULT '',
+  is_hidden BOOLEAN NOT NULL DEFAULT false, -- Ocultada por um administrador (conteúdo abusivo)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (course_id, user_id)
+);
+
+-- Índices das consultas por período do painel de análise (28_admin_analytics.sql)
+CREATE INDEX IF NOT EXISTS enrollments_enrolled_at_idx ON public.enrollments (enrolled_at);
+CREATE INDEX IF NOT EXISTS enrollments_completed_at_idx ON public.enrollments (completed_at)
+  WHERE completed_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS certificates_issue_date_idx ON public.certificates (issue_date);
+
+-- Turmas: grupos de usuários com data de início e instrutor responsável
+CREATE TABLE IF NOT EXISTS public.user_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  start_date DATE,
+  instructor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_groups_name_idx ON public.user_groups (lower(name));
+
+-- Membros da turma (user_id referencia profiles para que o nome venha na mesma consulta)
+CREATE TABLE IF NOT EXISTS public.user_group_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.user_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE(group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_group_members_user_idx ON public.user_group_members (user_id);
+
+-- Cursos da turma: membros atuais e futuros são matriculados neles (32_user_groups.sql)
+CREATE TABLE IF NOT EXISTS public.user_group_courses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.user_groups(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE(group_id, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_group_courses_course_idx ON public.user_group_courses (course_id);
+
+-- Trilhas de aprendizagem: sequência ordenada de cursos
+-- enrollment_mode define se a matrícula na trilha inscreve o aluno só no primeiro curso ou em todos
+CREATE TABLE IF NOT EXISTS public.learning_paths (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT,
+  thumbnail TEXT,
+  enrollment_mode TEXT NOT NULL DEFAULT 'first_course' CHECK (enrollment_mode IN ('first_course', 'all_courses')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Cursos da trilha, em ordem; o pré-requisito é outro curso da mesma trilha
+CREATE TABLE IF NOT EXISTS public.learning_path_courses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  learning_path_id UUID NOT NULL REFERENCES public.learning_paths(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  prerequisite_course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL,
+  UNIQUE(learning_path_id, course_id),
+  CHECK (prerequisite_course_id IS NULL OR prerequisite_course_id <> course_id)
+);
+
+CREATE INDEX IF NOT EXISTS learning_path_courses_course_idx
+  ON public.learning_path_courses (course_id);
+
+-- Matrículas nas trilhas; o progresso vem das matrículas nos cursos (enrollments.progress)
+CREATE TABLE IF NOT EXISTS public.learning_path_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  learning_path_id UUID NOT NULL REFERENCES public.learning_paths(id) ON DELETE CASCADE,
+  enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(user_id, learning_path_id)
+);
+
+-- Certificado de conclusão de trilha: aponta para a trilha em vez de um curso
+ALTER TABLE public.certificates ADD COLUMN IF NOT EXISTS learning_path_id UUID REFERENCES public.learning_paths(id) ON DELETE CASCADE;
+ALTER TABLE public.certificates ALTER COLUMN course_id DROP NOT NULL;
+ALTER TABLE public.certificates DROP CONSTRAINT IF EXISTS certificates_course_or_learning_path_check;
+ALTER TABLE public.certificates ADD CONSTRAINT certificates_course_or_learning_path_check
+  CHECK ((course_id IS NULL) <> (learning_path_id IS NULL));
+
+CREATE UNIQUE INDEX IF NOT EXISTS certificates_active_user_learning_path_idx
+  ON public.certificates (user_id, learning_path_id)
+  WHERE revoked_at IS NULL AND learning_path_id IS NOT NULL;
+
+-- Chaves de assinatura dos certificados, em um schema que não é exposto pela API
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+CREATE SCHEMA IF NOT EXISTS private;
+REVOKE ALL ON SCHEMA private FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS private.certificate_signing_keys (
+  id SERIAL PRIMARY KEY,
+  secret TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
 );
 
 -- Habilitar RLS em todas as tabelas
@@ -96,6 +452,23 @@ ALTER TABLE public.lessons ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.enrollments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.lesson_progress ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.certificate_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.certificate_audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_path_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_path_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_captions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_bookmarks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_discussions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_discussion_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_group_courses ENABLE ROW LEVEL SECURITY;
 
 -- Função para atualizar a data de modificação
 CREATE OR REPLACE FUNCTION public.update_updated_at_column()
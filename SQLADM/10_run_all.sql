@@ -14,6 +14,28 @@
 \i 'SQLADM/06_enrollments.sql'
 \i 'SQLADM/07_certificates.sql'
 \i 'SQLADM/08_admin_functions.sql'
+\i 'SQLADM/11_quizzes.sql'
+\i 'SQLADM/12_certificate_rules.sql'
+\i 'SQLADM/13_certificate_templates.sql'
+\i 'SQLADM/14_certificate_signatures.sql'
+\i 'SQLADM/15_certificate_audit.sql'
+\i 'SQLADM/16_certificate_expiry.sql'
+\i 'SQLADM/17_learning_paths.sql'
+\i 'SQLADM/18_course_prerequisites.sql'
+\i 'SQLADM/19_video_watch_progress.sql'
+\i 'SQLADM/20_mandatory_viewing.sql'
+\i 'SQLADM/21_content_release.sql'
+\i 'SQLADM/22_lesson_attachments.sql'
+\i 'SQLADM/23_lesson_videos.sql'
+\i 'SQLADM/24_lesson_captions.sql'
+\i 'SQLADM/25_lesson_notes.sql'
+\i 'SQLADM/26_lesson_discussions.sql'
+\i 'SQLADM/27_course_reviews.sql'
+\i 'SQLADM/28_admin_analytics.sql'
+\i 'SQLADM/29_course_engagement_report.sql'
+\i 'SQLADM/30_data_export.sql'
+\i 'SQLADM/31_user_import.sql'
+\i 'SQLADM/32_user_groups.sql'
 
 -- Este script pode ser executado no psql para configurar todo o banco de dados:
 -- psql -h <hostname> -U <username> -d <database> -a -f SQLADM/10_run_all.sql
@@ -0,0 +1,194 @@
+
+-- SQL para Questionários (aulas do tipo 'quiz')
+
+-- As tabelas quiz_questions e quiz_attempts e as colunas lesson_type, passing_score
+-- e max_attempts de lessons são criadas em 09_all_tables.sql
+
+-- Políticas para questões: somente administradores acessam a tabela diretamente,
+-- pois ela guarda as respostas corretas. Alunos usam get_quiz_questions.
+CREATE POLICY IF NOT EXISTS "Admins can manage quiz questions"
+  ON public.quiz_questions
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Políticas para tentativas: o aluno vê as próprias tentativas; a criação é feita
+-- apenas por submit_quiz_attempt, que corrige as respostas no servidor
+CREATE POLICY IF NOT EXISTS "Users can view their own quiz attempts"
+  ON public.quiz_attempts
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY IF NOT EXISTS "Admins can manage all quiz attempts"
+  ON public.quiz_attempts
+  FOR ALL
+  USING (public.is_admin());
+
+-- Indica se o usuário autenticado está matriculado no curso da aula (administradores sempre podem)
+CREATE OR REPLACE FUNCTION public.can_take_quiz(p_lesson_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_admin() OR EXISTS (
+    SELECT 1
+    FROM public.lessons l
+    JOIN public.modules m ON m.id = l.module_id
+    JOIN public.enrollments e ON e.course_id = m.course_id
+    WHERE l.id = p_lesson_id
+      AND e.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function para listar as questões de um questionário sem as respostas corretas
+-- (somente para alunos matriculados no curso da aula)
+CREATE OR REPLACE FUNCTION public.get_quiz_questions(p_lesson_id UUID)
+RETURNS TABLE (
+  id UUID,
+  question_type TEXT,
+  prompt TEXT,
+  options JSONB,
+  points INTEGER,
+  order_number INTEGER
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT public.can_take_quiz(p_lesson_id) THEN
+    RAISE EXCEPTION 'Você não está matriculado no curso desta aula';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_type, q.prompt, q.options, q.points, q.order_number
+  FROM public.quiz_questions q
+  WHERE q.lesson_id = p_lesson_id
+  ORDER BY q.order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function para registrar e corrigir uma tentativa do aluno
+-- p_answers: objeto JSON { "<question_id>": resposta }, onde a resposta é o índice da
+-- alternativa (múltipla escolha), um booleano (verdadeiro/falso) ou um texto (resposta curta)
+CREATE OR REPLACE FUNCTION public.submit_quiz_attempt(p_lesson_id UUID, p_answers JSONB)
+RETURNS TABLE (
+  attempt_id UUID,
+  attempt_number INTEGER,
+  score INTEGER,
+  passed BOOLEAN,
+  attempts_remaining INTEGER
+) AS $$
+DECLARE
+  v_user_id UUID;
+  v_lesson RECORD;
+  v_question RECORD;
+  v_attempts_used INTEGER;
+  v_total_points INTEGER := 0;
+  v_earned_points INTEGER := 0;
+  v_score INTEGER;
+  v_passed BOOLEAN;
+  v_attempt_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT l.id, l.lesson_type, COALESCE(l.passing_score, 70) AS passing_score, l.max_attempts
+  INTO v_lesson
+  FROM public.lessons l
+  WHERE l.id = p_lesson_id;
+
+  IF v_lesson.id IS NULL OR v_lesson.lesson_type <> 'quiz' THEN
+    RAISE EXCEPTION 'Questionário não encontrado';
+  END IF;
+
+  IF NOT public.can_take_quiz(p_lesson_id) THEN
+    RAISE EXCEPTION 'Você não está matriculado no curso desta aula';
+  END IF;
+
+  -- Verificar o limite de tentativas
+  SELECT COUNT(*) INTO v_attempts_used
+  FROM public.quiz_attempts qa
+  WHERE qa.user_id = v_user_id AND qa.lesson_id = p_lesson_id;
+
+  IF v_lesson.max_attempts IS NOT NULL AND v_attempts_used >= v_lesson.max_attempts THEN
+    RAISE EXCEPTION 'Limite de tentativas atingido para este questionário';
+  END IF;
+
+  -- Corrigir as respostas
+  FOR v_question IN
+    SELECT q.id, q.question_type, q.correct_answer, q.points
+    FROM public.quiz_questions q
+    WHERE q.lesson_id = p_lesson_id
+  LOOP
+    v_total_points := v_total_points + v_question.points;
+
+    IF p_answers ? v_question.id::TEXT THEN
+      IF v_question.question_type = 'short_answer' THEN
+        IF EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements_text(v_question.correct_answer) AS accepted(answer)
+          WHERE lower(trim(accepted.answer)) = lower(trim(p_answers ->> v_question.id::TEXT))
+        ) THEN
+          v_earned_points := v_earned_points + v_question.points;
+        END IF;
+      ELSIF (p_answers -> v_question.id::TEXT) = v_question.correct_answer THEN
+        v_earned_points := v_earned_points + v_question.points;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_total_points = 0 THEN
+    RAISE EXCEPTION 'Este questionário ainda não possui questões';
+  END IF;
+
+  v_score := ROUND((v_earned_points * 100.0) / v_total_points);
+  v_passed := v_score >= v_lesson.passing_score;
+
+  INSERT INTO public.quiz_attempts (user_id, lesson_id, attempt_number, answers, score, passed)
+  VALUES (v_user_id, p_lesson_id, v_attempts_used + 1, p_answers, v_score, v_passed)
+  RETURNING id INTO v_attempt_id;
+
+  -- Aprovado: concluir a aula e recalcular o progresso do curso
+  IF v_passed THEN
+    PERFORM public.mark_lesson_completed(p_lesson_id);
+  END IF;
+
+  RETURN QUERY SELECT
+    v_attempt_id,
+    v_attempts_used + 1,
+    v_score,
+    v_passed,
+    CASE
+      WHEN v_lesson.max_attempts IS NULL THEN NULL
+      ELSE v_lesson.max_attempts - (v_attempts_used + 1)
+    END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Função de trigger que impede concluir um questionário sem uma tentativa aprovada,
+-- qualquer que seja o caminho usado para gravar o progresso
+CREATE OR REPLACE FUNCTION public.check_quiz_lesson_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.completed
+     AND EXISTS (
+       SELECT 1 FROM public.lessons l
+       WHERE l.id = NEW.lesson_id AND l.lesson_type = 'quiz'
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM public.quiz_attempts qa
+       WHERE qa.user_id = NEW.user_id AND qa.lesson_id = NEW.lesson_id AND qa.passed
+     ) THEN
+    RAISE EXCEPTION 'É necessário ser aprovado no questionário para concluir esta aula';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_quiz_lesson_completion_trigger ON public.lesson_progress;
+CREATE TRIGGER check_quiz_lesson_completion_trigger
+BEFORE INSERT OR UPDATE ON public.lesson_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.check_quiz_lesson_completion();
@@ -0,0 +1,168 @@
+
+-- SQL para Regras de Elegibilidade de Certificados
+
+-- A coluna courses.certificate_rules e lesson_progress.watch_time_seconds são criadas
+-- em 09_all_tables.sql. Esta é a única implementação das regras: o frontend,
+-- check_certificate_eligibility e a geração automática de certificados usam estas funções.
+
+-- Function que avalia cada regra do curso para um aluno
+-- Retorna uma linha por regra aplicável:
+--   enrollment       - o aluno precisa estar matriculado (somente quando não há matrícula)
+--   completion       - concluir todas as aulas (padrão quando não há aulas obrigatórias)
+--   required_lessons - concluir as aulas listadas em required_lesson_ids
+--   quiz_average     - média mínima nos questionários (melhor nota de cada questionário)
+--   watch_time       - tempo mínimo assistido, em minutos
+--   waiting_period   - dias mínimos desde a matrícula
+-- Uso interno (triggers e funções de emissão, que podem rodar sem usuário autenticado);
+-- o frontend consulta por evaluate_certificate_rules
+CREATE OR REPLACE FUNCTION public.evaluate_certificate_rules_internal(p_user_id UUID, p_course_id UUID)
+RETURNS TABLE (
+  rule TEXT,
+  met BOOLEAN,
+  current_value NUMERIC,
+  required_value NUMERIC
+) AS $$
+DECLARE
+  v_rules JSONB;
+  v_enrolled_at TIMESTAMP WITH TIME ZONE;
+  v_total INTEGER;
+  v_completed INTEGER;
+  v_quiz_count INTEGER;
+  v_quiz_average NUMERIC;
+  v_watch_minutes NUMERIC;
+  v_days_enrolled NUMERIC;
+BEGIN
+  SELECT COALESCE(c.certificate_rules, '{}'::jsonb) INTO v_rules
+  FROM public.courses c
+  WHERE c.id = p_course_id;
+
+  SELECT e.enrolled_at INTO v_enrolled_at
+  FROM public.enrollments e
+  WHERE e.user_id = p_user_id AND e.course_id = p_course_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'enrollment'::TEXT, FALSE, 0::NUMERIC, 1::NUMERIC;
+    RETURN;
+  END IF;
+
+  -- Conclusão: todas as aulas ou apenas as obrigatórias
+  v_total := 0;
+
+  IF jsonb_array_length(COALESCE(v_rules -> 'required_lesson_ids', '[]'::jsonb)) > 0 THEN
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE lp.completed)
+    INTO v_total, v_completed
+    FROM public.lessons l
+    JOIN public.modules m ON m.id = l.module_id
+    LEFT JOIN public.lesson_progress lp ON lp.lesson_id = l.id AND lp.user_id = p_user_id
+    WHERE m.course_id = p_course_id
+      AND l.id::TEXT IN (SELECT jsonb_array_elements_text(v_rules -> 'required_lesson_ids'));
+  END IF;
+
+  -- Aulas obrigatórias que não existem mais no curso são ignoradas; sem nenhuma, vale a conclusão de todas as aulas
+  IF v_total > 0 THEN
+    RETURN QUERY SELECT 'required_lessons'::TEXT, v_completed >= v_total, v_completed::NUMERIC, v_total::NUMERIC;
+  ELSE
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE lp.completed)
+    INTO v_total, v_completed
+    FROM public.lessons l
+    JOIN public.modules m ON m.id = l.module_id
+    LEFT JOIN public.lesson_progress lp ON lp.lesson_id = l.id AND lp.user_id = p_user_id
+    WHERE m.course_id = p_course_id;
+
+    RETURN QUERY SELECT
+      'completion'::TEXT,
+      v_total > 0 AND v_completed >= v_total,
+      CASE WHEN v_total > 0 THEN ROUND((v_completed * 100.0) / v_total) ELSE 0 END,
+      100::NUMERIC;
+  END IF;
+
+  -- Média mínima nos questionários (questionários não respondidos contam como zero)
+  IF (v_rules ->> 'min_quiz_average') IS NOT NULL THEN
+    SELECT COUNT(*), COALESCE(ROUND(AVG(COALESCE(best.score, 0))), 0)
+    INTO v_quiz_count, v_quiz_average
+    FROM public.lessons l
+    JOIN public.modules m ON m.id = l.module_id
+    LEFT JOIN LATERAL (
+      SELECT MAX(qa.score) AS score
+      FROM public.quiz_attempts qa
+      WHERE qa.lesson_id = l.id AND qa.user_id = p_user_id
+    ) best ON TRUE
+    WHERE m.course_id = p_course_id AND l.lesson_type = 'quiz';
+
+    -- Cursos sem questionários cumprem a regra automaticamente
+    RETURN QUERY SELECT
+      'quiz_average'::TEXT,
+      v_quiz_count = 0 OR v_quiz_average >= (v_rules ->> 'min_quiz_average')::NUMERIC,
+      v_quiz_average,
+      (v_rules ->> 'min_quiz_average')::NUMERIC;
+  END IF;
+
+  -- Tempo mínimo assistido
+  IF (v_rules ->> 'min_watch_time_minutes') IS NOT NULL THEN
+    SELECT COALESCE(FLOOR(SUM(lp.watch_time_seconds) / 60.0), 0)
+    INTO v_watch_minutes
+    FROM public.lesson_progress lp
+    JOIN public.lessons l ON l.id = lp.lesson_id
+    JOIN public.modules m ON m.id = l.module_id
+    WHERE m.course_id = p_course_id AND lp.user_id = p_user_id;
+
+    RETURN QUERY SELECT
+      'watch_time'::TEXT,
+      v_watch_minutes >= (v_rules ->> 'min_watch_time_minutes')::NUMERIC,
+      v_watch_minutes,
+      (v_rules ->> 'min_watch_time_minutes')::NUMERIC;
+  END IF;
+
+  -- Período de carência após a matrícula
+  IF (v_rules ->> 'waiting_period_days') IS NOT NULL THEN
+    v_days_enrolled := FLOOR(EXTRACT(EPOCH FROM (now() - v_enrolled_at)) / 86400);
+
+    RETURN QUERY SELECT
+      'waiting_period'::TEXT,
+      v_days_enrolled >= (v_rules ->> 'waiting_period_days')::NUMERIC,
+      v_days_enrolled,
+      (v_rules ->> 'waiting_period_days')::NUMERIC;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_certificate_rules_internal(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Regras do curso para um aluno: o próprio aluno autenticado ou, para administradores, qualquer aluno
+CREATE OR REPLACE FUNCTION public.evaluate_certificate_rules(p_user_id UUID, p_course_id UUID)
+RETURNS TABLE (
+  rule TEXT,
+  met BOOLEAN,
+  current_value NUMERIC,
+  required_value NUMERIC
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.evaluate_certificate_rules_internal(p_user_id, p_course_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function que indica se todas as regras do curso foram cumpridas pelo aluno
+-- Uso interno (trigger de conclusão, emissão e renovação); os clientes usam check_certificate_eligibility
+CREATE OR REPLACE FUNCTION public.is_certificate_eligible(p_user_id UUID, p_course_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN NOT EXISTS (
+    SELECT 1
+    FROM public.evaluate_certificate_rules_internal(p_user_id, p_course_id) r
+    WHERE NOT r.met
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.is_certificate_eligible(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.evaluate_certificate_rules(UUID, UUID) TO authenticated;
@@ -0,0 +1,61 @@
+
+-- SQL para Modelos (templates) de Certificado
+
+-- A tabela certificate_templates e as colunas courses.certificate_template_id e
+-- certificates.template_id/template_version/template_snapshot são criadas em 09_all_tables.sql
+
+-- Políticas: qualquer usuário autenticado lê os modelos (o certificado é renderizado
+-- na emissão pelo próprio aluno); somente administradores criam, editam e excluem
+CREATE POLICY IF NOT EXISTS "Authenticated users can view certificate templates"
+  ON public.certificate_templates
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY IF NOT EXISTS "Admins can manage certificate templates"
+  ON public.certificate_templates
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Função de trigger que incrementa a versão do modelo a cada alteração de conteúdo
+-- Certificados emitidos guardam a versão e uma cópia do modelo usado (template_snapshot)
+CREATE OR REPLACE FUNCTION public.bump_certificate_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'version' - 'updated_at' - 'created_at')
+     IS DISTINCT FROM (to_jsonb(OLD) - 'version' - 'updated_at' - 'created_at') THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_certificate_template_version_trigger ON public.certificate_templates;
+CREATE TRIGGER bump_certificate_template_version_trigger
+BEFORE UPDATE ON public.certificate_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_certificate_template_version();
+
+-- Função de trigger que impede alterar a cópia do modelo de um certificado já emitido
+CREATE OR REPLACE FUNCTION public.protect_certificate_template_snapshot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.template_snapshot IS NOT NULL THEN
+    NEW.template_id := OLD.template_id;
+    NEW.template_version := OLD.template_version;
+    NEW.template_snapshot := OLD.template_snapshot;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_certificate_template_snapshot_trigger ON public.certificates;
+CREATE TRIGGER protect_certificate_template_snapshot_trigger
+BEFORE UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_certificate_template_snapshot();
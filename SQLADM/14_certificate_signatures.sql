@@ -0,0 +1,358 @@
+-- SQL para Assinatura, Número de Série e Revogação de Certificados
+
+-- As colunas certificates.serial_number/signature/signature_key_id/revoked_*, a sequência
+-- certificate_serial_seq e a tabela private.certificate_signing_keys são criadas em 09_all_tables.sql
+
+-- Gera a chave de assinatura na primeira execução (a chave nunca sai do banco)
+INSERT INTO private.certificate_signing_keys (secret)
+SELECT encode(extensions.gen_random_bytes(32), 'hex')
+WHERE NOT EXISTS (SELECT 1 FROM private.certificate_signing_keys WHERE active);
+
+-- Campos canônicos assinados: número de série, aluno e seu nome, curso (ou trilha) e seu nome,
+-- carga horária e data de emissão. Correções de nome são feitas por reissue_certificate, que emite um novo certificado
+-- Barras verticais e barras invertidas nos nomes são escapadas para que um nome não se passe por outro campo
+DROP FUNCTION IF EXISTS public.certificate_canonical_payload(TEXT, UUID, UUID, INTEGER, TIMESTAMP WITH TIME ZONE);
+CREATE OR REPLACE FUNCTION public.certificate_canonical_payload(
+  p_serial_number TEXT,
+  p_user_id UUID,
+  p_user_name TEXT,
+  p_course_id UUID,
+  p_course_name TEXT,
+  p_course_hours INTEGER,
+  p_issue_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT AS $$
+  SELECT concat_ws('|',
+    'v2',
+    p_serial_number,
+    p_user_id::TEXT,
+    replace(replace(COALESCE(p_user_name, ''), '\', '\\'), '|', '\|'),
+    p_course_id::TEXT,
+    replace(replace(COALESCE(p_course_name, ''), '\', '\\'), '|', '\|'),
+    COALESCE(p_course_hours, 0)::TEXT,
+    to_char(p_issue_date AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Assinatura HMAC-SHA256 do conteúdo com a chave informada
+-- Não é liberada para os clientes: a chave só é lida por funções SECURITY DEFINER
+CREATE OR REPLACE FUNCTION public.sign_certificate_payload(p_payload TEXT, p_key_id INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+  v_secret TEXT;
+BEGIN
+  SELECT secret INTO v_secret FROM private.certificate_signing_keys WHERE id = p_key_id;
+
+  IF v_secret IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN encode(extensions.hmac(p_payload, v_secret, 'sha256'), 'hex');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION public.sign_certificate_payload(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Confere se a assinatura ainda corresponde aos campos atuais do certificado
+CREATE OR REPLACE FUNCTION public.is_certificate_signature_valid(p_certificate_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_cert public.certificates%ROWTYPE;
+BEGIN
+  SELECT * INTO v_cert FROM public.certificates WHERE id = p_certificate_id;
+
+  IF NOT FOUND OR v_cert.signature IS NULL OR v_cert.signature_key_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN v_cert.signature = public.sign_certificate_payload(
+    public.certificate_canonical_payload(
+      v_cert.serial_number, v_cert.user_id, v_cert.user_name,
+      COALESCE(v_cert.course_id, v_cert.learning_path_id), v_cert.course_name, v_cert.course_hours, v_cert.issue_date
+    ),
+    v_cert.signature_key_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Função de trigger que atribui o número de série e assina o certificado na emissão
+-- Valores enviados pelo cliente para serial_number/signature são sempre descartados
+CREATE OR REPLACE FUNCTION public.sign_certificate()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_key_id INTEGER;
+BEGIN
+  -- Após a emissão, só mudam a revogação, a substituição pela reemissão ou renovação e o link do arquivo;
+  -- correções dos dados emitidos passam por reissue_certificate e a validade só muda pela recertificação
+  IF TG_OP = 'UPDATE' AND OLD.signature IS NOT NULL THEN
+    IF (to_jsonb(NEW) - ARRAY['revoked_at', 'revoked_by', 'revocation_reason', 'superseded_by_id', 'certificate_url'])
+       IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['revoked_at', 'revoked_by', 'revocation_reason', 'superseded_by_id', 'certificate_url']) THEN
+      RAISE EXCEPTION 'Os dados emitidos não podem ser alterados. Reemita o certificado com os dados corrigidos.';
+    END IF;
+
+    -- A revogação e a substituição são definitivas
+    IF OLD.revoked_at IS NOT NULL
+       AND (NEW.revoked_at, NEW.revoked_by, NEW.revocation_reason)
+         IS DISTINCT FROM (OLD.revoked_at, OLD.revoked_by, OLD.revocation_reason) THEN
+      RAISE EXCEPTION 'A revogação do certificado não pode ser alterada';
+    END IF;
+
+    IF OLD.superseded_by_id IS NOT NULL AND NEW.superseded_by_id IS DISTINCT FROM OLD.superseded_by_id THEN
+      RAISE EXCEPTION 'Este certificado já foi substituído por outro';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_key_id
+  FROM private.certificate_signing_keys
+  WHERE active
+  ORDER BY id DESC
+  LIMIT 1;
+
+  IF v_key_id IS NULL THEN
+    RAISE EXCEPTION 'Nenhuma chave de assinatura de certificados configurada';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR OLD.serial_number IS NULL THEN
+    NEW.serial_number := 'CERT-' || to_char(COALESCE(NEW.issue_date, now()), 'YYYY') || '-'
+      || lpad(nextval('public.certificate_serial_seq')::TEXT, 6, '0');
+  ELSE
+    NEW.serial_number := OLD.serial_number;
+  END IF;
+
+  NEW.signature_key_id := v_key_id;
+  NEW.signature := public.sign_certificate_payload(
+    public.certificate_canonical_payload(
+      NEW.serial_number, NEW.user_id, NEW.user_name,
+      COALESCE(NEW.course_id, NEW.learning_path_id), NEW.course_name, NEW.course_hours, COALESCE(NEW.issue_date, now())
+    ),
+    v_key_id
+  );
+
+  -- O HTML é renderizado antes da inserção; o número de série entra no lugar do marcador
+  IF NEW.certificate_html IS NOT NULL THEN
+    NEW.certificate_html := replace(NEW.certificate_html, '{{serialNumber}}', NEW.serial_number);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS sign_certificate_trigger ON public.certificates;
+CREATE TRIGGER sign_certificate_trigger
+BEFORE INSERT OR UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.sign_certificate();
+
+-- Certificados emitidos antes da assinatura: o UPDATE sem alteração dispara o trigger,
+-- que atribui número de série e assina os campos atuais
+UPDATE public.certificates SET signature = NULL WHERE signature IS NULL;
+
+-- Certificados assinados no formato v1 (sem os nomes): os que ainda conferem com a assinatura v1
+-- são reassinados no formato v2; os adulterados continuam inválidos
+ALTER TABLE public.certificates DISABLE TRIGGER sign_certificate_trigger;
+
+UPDATE public.certificates cert
+SET signature = public.sign_certificate_payload(
+  public.certificate_canonical_payload(
+    cert.serial_number, cert.user_id, cert.user_name,
+    COALESCE(cert.course_id, cert.learning_path_id), cert.course_name, cert.course_hours, cert.issue_date
+  ),
+  cert.signature_key_id
+)
+WHERE cert.signature IS NOT NULL
+  AND cert.signature = public.sign_certificate_payload(
+    concat_ws('|',
+      'v1',
+      cert.serial_number,
+      cert.user_id::TEXT,
+      COALESCE(cert.course_id, cert.learning_path_id)::TEXT,
+      COALESCE(cert.course_hours, 0)::TEXT,
+      to_char(cert.issue_date AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')
+    ),
+    cert.signature_key_id
+  );
+
+ALTER TABLE public.certificates ENABLE TRIGGER sign_certificate_trigger;
+
+-- Certificados são emitidos e alterados só pelo banco: pelo trigger de conclusão do curso e pelas funções
+-- SECURITY DEFINER (issue_certificate, generate_student_certificate, admin_generate_certificate, reissue_certificate,
+-- revoke_certificate, renew_certificate e generate_learning_path_certificate). Os clientes apenas leem a tabela;
+-- administradores ainda alteram o link do arquivo (política "Admins can manage all certificates")
+DROP POLICY IF EXISTS "Users can create their own certificates" ON public.certificates;
+DROP POLICY IF EXISTS "Users can update their own certificates" ON public.certificates;
+DROP POLICY IF EXISTS "Users can delete their own certificates" ON public.certificates;
+DROP POLICY IF EXISTS "Authenticated users can create any certificate" ON public.certificates;
+
+REVOKE INSERT, UPDATE, DELETE ON public.certificates FROM anon, authenticated;
+GRANT UPDATE (certificate_url) ON public.certificates TO authenticated;
+
+-- Function para emitir um certificado de curso, com o HTML renderizado pelo frontend (opcional)
+-- Alunos só emitem o próprio certificado e quando elegíveis pelas regras do curso; nomes, carga horária,
+-- data de emissão e modelo vêm do banco. Administradores podem informar nomes, carga horária e data
+-- Retorna o certificado válido já existente, se houver
+CREATE OR REPLACE FUNCTION public.issue_certificate(
+  p_user_id UUID,
+  p_course_id UUID,
+  p_certificate_id UUID DEFAULT NULL,
+  p_certificate_html TEXT DEFAULT NULL,
+  p_user_name TEXT DEFAULT NULL,
+  p_course_name TEXT DEFAULT NULL,
+  p_course_hours INTEGER DEFAULT NULL,
+  p_issue_date TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_is_admin BOOLEAN := public.is_admin();
+  v_course public.courses%ROWTYPE;
+  v_user_name TEXT;
+  v_hours INTEGER;
+  v_template_snapshot JSONB;
+  v_template_version INTEGER;
+  v_certificate_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT v_is_admin AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Você só pode emitir o seu próprio certificado';
+  END IF;
+
+  SELECT * INTO v_course FROM public.courses WHERE id = p_course_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Curso não encontrado';
+  END IF;
+
+  SELECT id INTO v_certificate_id
+  FROM public.certificates
+  WHERE user_id = p_user_id AND course_id = p_course_id AND revoked_at IS NULL;
+
+  IF v_certificate_id IS NOT NULL THEN
+    RETURN v_certificate_id;
+  END IF;
+
+  -- Certificado revogado só é substituído pela reemissão feita pela administração
+  IF EXISTS (
+    SELECT 1 FROM public.certificates
+    WHERE user_id = p_user_id AND course_id = p_course_id
+  ) THEN
+    RAISE EXCEPTION 'Seu certificado deste curso foi revogado. Entre em contato com a administração.';
+  END IF;
+
+  IF NOT v_is_admin AND NOT public.is_certificate_eligible(p_user_id, p_course_id) THEN
+    RAISE EXCEPTION 'Você não é elegível para obter este certificado. Verifique os requisitos pendentes do curso.';
+  END IF;
+
+  SELECT name INTO v_user_name FROM public.profiles WHERE id = p_user_id;
+
+  -- Carga horária do texto de duração do curso (ex.: "40h"), como no frontend
+  v_hours := COALESCE(substring(v_course.duration FROM '(\d+)\s*[hH]')::INTEGER, 40);
+
+  -- Mesmo formato da cópia salva pelo frontend (linha de certificate_templates)
+  SELECT to_jsonb(t), t.version INTO v_template_snapshot, v_template_version
+  FROM public.certificate_templates t
+  WHERE t.id = v_course.certificate_template_id;
+
+  INSERT INTO public.certificates (
+    id,
+    user_id,
+    course_id,
+    course_name,
+    user_name,
+    course_hours,
+    issue_date,
+    certificate_html,
+    template_id,
+    template_version,
+    template_snapshot
+  )
+  VALUES (
+    COALESCE(p_certificate_id, gen_random_uuid()),
+    p_user_id,
+    p_course_id,
+    CASE WHEN v_is_admin THEN COALESCE(NULLIF(trim(p_course_name), ''), v_course.title) ELSE v_course.title END,
+    COALESCE(CASE WHEN v_is_admin THEN NULLIF(trim(p_user_name), '') END, v_user_name, 'Aluno'),
+    CASE WHEN v_is_admin THEN COALESCE(p_course_hours, v_hours) ELSE v_hours END,
+    CASE WHEN v_is_admin THEN COALESCE(p_issue_date, now()) ELSE now() END,
+    p_certificate_html,
+    v_course.certificate_template_id,
+    v_template_version,
+    v_template_snapshot
+  )
+  ON CONFLICT (user_id, course_id) WHERE revoked_at IS NULL DO NOTHING
+  RETURNING id INTO v_certificate_id;
+
+  IF v_certificate_id IS NULL THEN
+    SELECT id INTO v_certificate_id
+    FROM public.certificates
+    WHERE user_id = p_user_id AND course_id = p_course_id AND revoked_at IS NULL;
+  END IF;
+
+  RETURN v_certificate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function para emitir os certificados pendentes do aluno autenticado: cursos concluídos sem certificado
+-- cujas regras só foram cumpridas depois da conclusão (ex.: período de carência), quando o trigger de
+-- conclusão já não emite. Chamada ao abrir a página de certificados; retorna os IDs emitidos
+CREATE OR REPLACE FUNCTION public.issue_pending_certificates()
+RETURNS SETOF UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_course_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  FOR v_course_id IN
+    SELECT e.course_id
+    FROM public.enrollments e
+    WHERE e.user_id = v_user_id
+      AND e.progress = 100
+      AND e.completed_at IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.certificates cert
+        WHERE cert.user_id = e.user_id AND cert.course_id = e.course_id
+      )
+  LOOP
+    IF public.is_certificate_eligible(v_user_id, v_course_id) THEN
+      RETURN NEXT public.issue_certificate(v_user_id, v_course_id);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function para revogar um certificado (somente administradores)
+CREATE OR REPLACE FUNCTION public.revoke_certificate(p_certificate_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem revogar certificados';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo da revogação';
+  END IF;
+
+  UPDATE public.certificates
+  SET
+    revoked_at = now(),
+    revoked_by = auth.uid(),
+    revocation_reason = trim(p_reason)
+  WHERE id = p_certificate_id
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificado não encontrado ou já revogado';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.is_certificate_signature_valid(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_certificate(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_certificate(UUID, UUID, UUID, TEXT, TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_pending_certificates() TO authenticated;
@@ -0,0 +1,158 @@
+-- SQL para Reemissão de Certificados e Histórico de Alterações
+
+-- As colunas certificates.supersedes_id/superseded_by_id, o índice único parcial
+-- (um certificado válido por aluno e curso) e a tabela certificate_audit_log são criados em 09_all_tables.sql
+
+-- Políticas: somente administradores consultam o histórico; os registros são gravados
+-- apenas pelo trigger abaixo
+CREATE POLICY IF NOT EXISTS "Admins can view certificate audit log"
+  ON public.certificate_audit_log
+  FOR SELECT
+  USING (public.is_admin());
+
+-- Função de trigger que registra quem alterou o quê e quando em cada certificado
+-- O HTML, a cópia do modelo e a assinatura ficam de fora da comparação por serem derivados
+CREATE OR REPLACE FUNCTION public.log_certificate_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ignored TEXT[] := ARRAY['certificate_html', 'template_snapshot', 'signature', 'signature_key_id'];
+  v_action TEXT;
+  v_changes JSONB;
+  v_reason TEXT := NULLIF(current_setting('app.certificate_audit_reason', true), '');
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.certificate_audit_log (certificate_id, action, changed_by, changes, reason)
+    VALUES (OLD.id, 'deleted', auth.uid(), to_jsonb(OLD) - v_ignored, v_reason);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := CASE WHEN NEW.supersedes_id IS NOT NULL THEN 'reissued' ELSE 'issued' END;
+    v_changes := to_jsonb(NEW) - v_ignored;
+  ELSE
+    SELECT COALESCE(jsonb_object_agg(n.key, jsonb_build_object('from', o.value, 'to', n.value)), '{}'::jsonb)
+    INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW) - v_ignored) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    -- Atualizações sem mudança efetiva não entram no histórico
+    IF v_changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.revoked_at IS NULL AND NEW.revoked_at IS NOT NULL THEN
+      v_action := 'revoked';
+      v_reason := COALESCE(NEW.revocation_reason, v_reason);
+    ELSIF OLD.superseded_by_id IS NULL AND NEW.superseded_by_id IS NOT NULL THEN
+      v_action := 'superseded';
+    ELSE
+      v_action := 'updated';
+    END IF;
+  END IF;
+
+  INSERT INTO public.certificate_audit_log (certificate_id, action, changed_by, changes, reason)
+  VALUES (NEW.id, v_action, auth.uid(), v_changes, v_reason);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_certificate_change_trigger ON public.certificates;
+CREATE TRIGGER log_certificate_change_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.log_certificate_change();
+
+-- Function para reemitir um certificado corrigido (somente administradores)
+-- Revoga o original, emite o novo apontando para ele e mantém o mesmo modelo do original.
+-- Vale para certificados de curso e de trilha: o novo mantém o curso ou a trilha do original.
+-- O HTML é renderizado pelo cliente com o ID do novo certificado (usado no link de verificação)
+CREATE OR REPLACE FUNCTION public.reissue_certificate(
+  p_certificate_id UUID,
+  p_new_certificate_id UUID,
+  p_reason TEXT,
+  p_user_name TEXT,
+  p_course_name TEXT,
+  p_course_hours INTEGER,
+  p_certificate_html TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_original public.certificates%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem reemitir certificados';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo da reemissão';
+  END IF;
+
+  SELECT * INTO v_original
+  FROM public.certificates
+  WHERE id = p_certificate_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificado não encontrado';
+  END IF;
+
+  IF v_original.superseded_by_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Este certificado já foi substituído por outro';
+  END IF;
+
+  -- O motivo acompanha os registros de histórico gerados nesta transação
+  PERFORM set_config('app.certificate_audit_reason', trim(p_reason), true);
+
+  IF v_original.revoked_at IS NULL THEN
+    UPDATE public.certificates
+    SET
+      revoked_at = now(),
+      revoked_by = auth.uid(),
+      revocation_reason = trim(p_reason)
+    WHERE id = p_certificate_id;
+  END IF;
+
+  INSERT INTO public.certificates (
+    id,
+    user_id,
+    course_id,
+    learning_path_id,
+    course_name,
+    user_name,
+    course_hours,
+    certificate_html,
+    template_id,
+    template_version,
+    template_snapshot,
+    expiry_date,
+    supersedes_id
+  )
+  VALUES (
+    p_new_certificate_id,
+    v_original.user_id,
+    v_original.course_id,
+    v_original.learning_path_id,
+    COALESCE(NULLIF(trim(p_course_name), ''), v_original.course_name),
+    COALESCE(NULLIF(trim(p_user_name), ''), v_original.user_name),
+    COALESCE(p_course_hours, v_original.course_hours),
+    p_certificate_html,
+    v_original.template_id,
+    v_original.template_version,
+    v_original.template_snapshot,
+    -- A reemissão corrige dados e não renova a validade do original
+    v_original.expiry_date,
+    p_certificate_id
+  );
+
+  UPDATE public.certificates
+  SET superseded_by_id = p_new_certificate_id
+  WHERE id = p_certificate_id;
+
+  RETURN p_new_certificate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT SELECT ON public.certificate_audit_log TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reissue_certificate(UUID, UUID, TEXT, TEXT, TEXT, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,196 @@
+-- SQL para Validade de Certificados e Recertificação
+
+-- As colunas courses.certificate_validity_months e enrollments.recertification_started_at
+-- e o índice por data de expiração são criados em 09_all_tables.sql
+
+-- Antecedência com que o aluno é avisado e pode iniciar a recertificação
+-- (o frontend usa o mesmo valor em RECERTIFICATION_WINDOW_DAYS)
+CREATE OR REPLACE FUNCTION public.certificate_renewal_window()
+RETURNS INTERVAL AS $$
+  SELECT INTERVAL '30 days';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Função de trigger que define a data de expiração na emissão, pela validade do curso
+-- Certificados emitidos antes de o curso ter validade continuam sem expiração.
+-- Certificados de trilha (course_id nulo) não têm validade própria.
+-- A validade informada na inserção é descartada, exceto na reemissão (supersedes_id), que mantém a do original;
+-- depois da emissão ela não muda (sign_certificate) e só é estendida pela recertificação
+CREATE OR REPLACE FUNCTION public.set_certificate_expiry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_months INTEGER;
+BEGIN
+  IF NEW.supersedes_id IS NOT NULL AND NEW.expiry_date IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.expiry_date := NULL;
+
+  IF NEW.course_id IS NOT NULL THEN
+    SELECT certificate_validity_months INTO v_months
+    FROM public.courses
+    WHERE id = NEW.course_id;
+
+    IF v_months IS NOT NULL THEN
+      NEW.expiry_date := COALESCE(NEW.issue_date, now()) + make_interval(months => v_months);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_certificate_expiry_trigger ON public.certificates;
+CREATE TRIGGER set_certificate_expiry_trigger
+BEFORE INSERT ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.set_certificate_expiry();
+
+-- Function para o aluno iniciar a recertificação de um curso
+-- Só é permitida quando o certificado válido do curso expira dentro da janela de renovação (ou já expirou);
+-- certificados de trilha não expiram e não passam por recertificação.
+-- A conclusão das aulas é zerada para que o curso seja refeito; o tempo assistido e as notas são mantidos
+CREATE OR REPLACE FUNCTION public.start_recertification(p_course_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.certificates
+    WHERE user_id = v_user_id
+      AND course_id = p_course_id
+      AND revoked_at IS NULL
+      AND expiry_date IS NOT NULL
+      AND expiry_date <= now() + public.certificate_renewal_window()
+  ) THEN
+    RAISE EXCEPTION 'A recertificação só pode ser iniciada quando o certificado estiver perto de expirar';
+  END IF;
+
+  UPDATE public.enrollments
+  SET
+    recertification_started_at = now(),
+    progress = 0,
+    completed_at = NULL
+  WHERE user_id = v_user_id AND course_id = p_course_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Matrícula não encontrada';
+  END IF;
+
+  UPDATE public.lesson_progress lp
+  SET
+    completed = FALSE,
+    completed_at = NULL
+  FROM public.lessons l
+  JOIN public.modules m ON m.id = l.module_id
+  WHERE lp.lesson_id = l.id
+    AND lp.user_id = v_user_id
+    AND m.course_id = p_course_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Renova o certificado ao fim da recertificação: o atual é revogado e substituído por um novo,
+-- com nova data de emissão e expiração e o modelo atual do curso
+-- Retorna o ID do novo certificado, ou NULL quando não há recertificação pendente
+CREATE OR REPLACE FUNCTION public.renew_certificate_internal(p_user_id UUID, p_course_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_current public.certificates%ROWTYPE;
+  v_course public.courses%ROWTYPE;
+  v_user_name TEXT;
+  v_template_snapshot JSONB;
+  v_template_version INTEGER;
+  v_new_id UUID := gen_random_uuid();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE user_id = p_user_id
+      AND course_id = p_course_id
+      AND recertification_started_at IS NOT NULL
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_current
+  FROM public.certificates
+  WHERE user_id = p_user_id AND course_id = p_course_id AND revoked_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_certificate_eligible(p_user_id, p_course_id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_course FROM public.courses WHERE id = p_course_id;
+  SELECT name INTO v_user_name FROM public.profiles WHERE id = p_user_id;
+
+  -- Mesmo formato da cópia salva pelo frontend (linha de certificate_templates)
+  SELECT to_jsonb(t), t.version INTO v_template_snapshot, v_template_version
+  FROM public.certificate_templates t
+  WHERE t.id = v_course.certificate_template_id;
+
+  PERFORM set_config('app.certificate_audit_reason', 'Renovado por recertificação', true);
+
+  UPDATE public.certificates
+  SET
+    revoked_at = now(),
+    revocation_reason = 'Renovado por recertificação'
+  WHERE id = v_current.id;
+
+  INSERT INTO public.certificates (
+    id,
+    user_id,
+    course_id,
+    course_name,
+    user_name,
+    course_hours,
+    template_id,
+    template_version,
+    template_snapshot,
+    supersedes_id
+  )
+  VALUES (
+    v_new_id,
+    p_user_id,
+    p_course_id,
+    COALESCE(v_course.title, v_current.course_name),
+    COALESCE(v_user_name, v_current.user_name),
+    v_current.course_hours,
+    v_course.certificate_template_id,
+    v_template_version,
+    v_template_snapshot,
+    v_current.id
+  );
+
+  UPDATE public.certificates
+  SET superseded_by_id = v_new_id
+  WHERE id = v_current.id;
+
+  UPDATE public.enrollments
+  SET recertification_started_at = NULL
+  WHERE user_id = p_user_id AND course_id = p_course_id;
+
+  RETURN v_new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.renew_certificate_internal(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function para o aluno renovar o próprio certificado após concluir a recertificação
+-- (a renovação também acontece automaticamente pelo trigger de conclusão do curso)
+CREATE OR REPLACE FUNCTION public.renew_certificate(p_course_id UUID)
+RETURNS UUID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  RETURN public.renew_certificate_internal(auth.uid(), p_course_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.start_recertification(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.renew_certificate(UUID) TO authenticated;
@@ -0,0 +1,276 @@
+-- SQL para Trilhas de Aprendizagem
+
+-- As tabelas learning_paths, learning_path_courses e learning_path_enrollments e a coluna
+-- certificates.learning_path_id são criadas em 09_all_tables.sql
+
+-- Políticas: trilhas e seus cursos são visíveis para todos os usuários autenticados;
+-- somente administradores criam, editam e excluem
+CREATE POLICY IF NOT EXISTS "Authenticated users can view learning paths"
+  ON public.learning_paths
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY IF NOT EXISTS "Admins can manage learning paths"
+  ON public.learning_paths
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Authenticated users can view learning path courses"
+  ON public.learning_path_courses
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY IF NOT EXISTS "Admins can manage learning path courses"
+  ON public.learning_path_courses
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- A matrícula do aluno na trilha é feita por enroll_in_learning_path
+CREATE POLICY IF NOT EXISTS "Users can view their own learning path enrollments"
+  ON public.learning_path_enrollments
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY IF NOT EXISTS "Admins can manage learning path enrollments"
+  ON public.learning_path_enrollments
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP TRIGGER IF EXISTS update_learning_paths_updated_at ON public.learning_paths;
+CREATE TRIGGER update_learning_paths_updated_at
+BEFORE UPDATE ON public.learning_paths
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- O player grava só o progresso da matrícula: a data de conclusão é preenchida quando ele chega a 100%.
+-- Roda antes dos triggers AFTER UPDATE de certificado e de trilhas, que já veem completed_at preenchido
+CREATE OR REPLACE FUNCTION public.set_enrollment_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.progress, 0) >= 100 AND NEW.completed_at IS NULL THEN
+    NEW.completed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_enrollment_completed_at_trigger ON public.enrollments;
+CREATE TRIGGER set_enrollment_completed_at_trigger
+BEFORE INSERT OR UPDATE OF progress ON public.enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_enrollment_completed_at();
+
+-- Matrículas já concluídas sem data: usa a conclusão da última aula do curso
+UPDATE public.enrollments e
+SET completed_at = COALESCE((
+  SELECT MAX(lp.completed_at)
+  FROM public.lesson_progress lp
+  JOIN public.lessons l ON l.id = lp.lesson_id
+  JOIN public.modules m ON m.id = l.module_id
+  WHERE lp.user_id = e.user_id AND m.course_id = e.course_id
+), now())
+WHERE e.progress >= 100
+  AND e.completed_at IS NULL;
+
+-- Curso concluído pelo aluno (mesmo critério dos triggers de certificado e de avanço das trilhas)
+CREATE OR REPLACE FUNCTION public.is_course_completed(p_user_id UUID, p_course_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE user_id = p_user_id
+      AND course_id = p_course_id
+      AND progress >= 100
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Trilha concluída: todos os cursos da trilha concluídos
+CREATE OR REPLACE FUNCTION public.is_learning_path_completed(p_user_id UUID, p_learning_path_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.learning_path_courses WHERE learning_path_id = p_learning_path_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.learning_path_courses lpc
+    WHERE lpc.learning_path_id = p_learning_path_id
+      AND NOT public.is_course_completed(p_user_id, lpc.course_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function para o aluno se matricular em uma trilha
+-- No modo 'first_course' o aluno é matriculado só no primeiro curso; os seguintes são liberados
+-- conforme os cursos são concluídos (advance_learning_paths). No modo 'all_courses', em todos
+CREATE OR REPLACE FUNCTION public.enroll_in_learning_path(p_learning_path_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_mode TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT enrollment_mode INTO v_mode
+  FROM public.learning_paths
+  WHERE id = p_learning_path_id;
+
+  IF v_mode IS NULL THEN
+    RAISE EXCEPTION 'Trilha não encontrada';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.learning_path_courses WHERE learning_path_id = p_learning_path_id) THEN
+    RAISE EXCEPTION 'Esta trilha ainda não possui cursos';
+  END IF;
+
+  INSERT INTO public.learning_path_enrollments (user_id, learning_path_id)
+  VALUES (v_user_id, p_learning_path_id)
+  ON CONFLICT (user_id, learning_path_id) DO NOTHING;
+
+  -- No modo 'all_courses', cursos com pré-requisitos pendentes (18_course_prerequisites.sql) ficam
+  -- de fora; no modo 'first_course', o trigger de pré-requisitos recusa a matrícula com a lista pendente
+  INSERT INTO public.enrollments (user_id, course_id, progress)
+  SELECT v_user_id, lpc.course_id, 0
+  FROM public.learning_path_courses lpc
+  WHERE lpc.learning_path_id = p_learning_path_id
+    AND (
+      (v_mode = 'all_courses'
+       AND NOT EXISTS (SELECT 1 FROM public.get_missing_course_prerequisites(v_user_id, lpc.course_id)))
+      OR lpc.position = (
+        SELECT MIN(position) FROM public.learning_path_courses
+        WHERE learning_path_id = p_learning_path_id
+      )
+    )
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Função de trigger que avança as trilhas do aluno quando ele conclui um curso:
+-- no modo 'first_course' matricula no próximo curso (se o pré-requisito estiver cumprido)
+-- e marca a trilha como concluída quando todos os cursos forem concluídos
+CREATE OR REPLACE FUNCTION public.advance_learning_paths()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_path RECORD;
+  v_next_course_id UUID;
+  v_next_prerequisite_id UUID;
+BEGIN
+  FOR v_path IN
+    SELECT lp.id, lp.enrollment_mode, lpc.position
+    FROM public.learning_path_enrollments lpe
+    JOIN public.learning_paths lp ON lp.id = lpe.learning_path_id
+    JOIN public.learning_path_courses lpc ON lpc.learning_path_id = lp.id AND lpc.course_id = NEW.course_id
+    WHERE lpe.user_id = NEW.user_id
+  LOOP
+    IF v_path.enrollment_mode = 'first_course' THEN
+      -- O próximo curso é sempre o da posição seguinte; se o pré-requisito dele na trilha ainda não
+      -- foi concluído, a trilha para aqui (os cursos das posições seguintes não são liberados fora de ordem)
+      SELECT lpc.course_id, lpc.prerequisite_course_id INTO v_next_course_id, v_next_prerequisite_id
+      FROM public.learning_path_courses lpc
+      WHERE lpc.learning_path_id = v_path.id
+        AND lpc.position > v_path.position
+      ORDER BY lpc.position
+      LIMIT 1;
+
+      -- Pré-requisitos do próprio curso pendentes não podem interromper a atualização do progresso;
+      -- o aluno se matricula depois, ao obter os certificados exigidos
+      IF v_next_course_id IS NOT NULL
+         AND (v_next_prerequisite_id IS NULL OR public.is_course_completed(NEW.user_id, v_next_prerequisite_id))
+         AND NOT EXISTS (SELECT 1 FROM public.get_missing_course_prerequisites(NEW.user_id, v_next_course_id)) THEN
+        INSERT INTO public.enrollments (user_id, course_id, progress)
+        VALUES (NEW.user_id, v_next_course_id, 0)
+        ON CONFLICT (user_id, course_id) DO NOTHING;
+      END IF;
+    END IF;
+
+    IF public.is_learning_path_completed(NEW.user_id, v_path.id) THEN
+      UPDATE public.learning_path_enrollments
+      SET completed_at = now()
+      WHERE user_id = NEW.user_id
+        AND learning_path_id = v_path.id
+        AND completed_at IS NULL;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers do mesmo evento disparam em ordem alfabética: este nome garante que o certificado do curso
+-- (generate_certificate_on_course_completion) já exista quando o próximo curso exigir esse certificado
+DROP TRIGGER IF EXISTS advance_learning_paths_on_course_completion ON public.enrollments;
+DROP TRIGGER IF EXISTS on_course_completion_advance_learning_paths ON public.enrollments;
+CREATE TRIGGER on_course_completion_advance_learning_paths
+AFTER UPDATE ON public.enrollments
+FOR EACH ROW
+WHEN (OLD.progress < 100 AND NEW.progress = 100)
+EXECUTE FUNCTION public.advance_learning_paths();
+
+-- Function para emitir o certificado de conclusão da trilha do aluno autenticado
+-- A carga horária é a soma das cargas dos certificados dos cursos da trilha
+CREATE OR REPLACE FUNCTION public.generate_learning_path_certificate(p_learning_path_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_path_title TEXT;
+  v_user_name TEXT;
+  v_hours INTEGER;
+  v_certificate_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT title INTO v_path_title
+  FROM public.learning_paths
+  WHERE id = p_learning_path_id;
+
+  IF v_path_title IS NULL THEN
+    RAISE EXCEPTION 'Trilha não encontrada';
+  END IF;
+
+  SELECT id INTO v_certificate_id
+  FROM public.certificates
+  WHERE user_id = v_user_id AND learning_path_id = p_learning_path_id AND revoked_at IS NULL;
+
+  IF v_certificate_id IS NOT NULL THEN
+    RETURN v_certificate_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.certificates
+    WHERE user_id = v_user_id AND learning_path_id = p_learning_path_id
+  ) THEN
+    RAISE EXCEPTION 'Seu certificado desta trilha foi revogado. Entre em contato com a administração.';
+  END IF;
+
+  IF NOT public.is_learning_path_completed(v_user_id, p_learning_path_id) THEN
+    RAISE EXCEPTION 'Conclua todos os cursos da trilha para obter o certificado';
+  END IF;
+
+  SELECT name INTO v_user_name FROM public.profiles WHERE id = v_user_id;
+
+  SELECT NULLIF(SUM(cert.course_hours), 0) INTO v_hours
+  FROM public.learning_path_courses lpc
+  JOIN public.certificates cert
+    ON cert.course_id = lpc.course_id AND cert.user_id = v_user_id AND cert.revoked_at IS NULL
+  WHERE lpc.learning_path_id = p_learning_path_id;
+
+  INSERT INTO public.certificates (user_id, learning_path_id, course_name, user_name, course_hours)
+  VALUES (v_user_id, p_learning_path_id, v_path_title, COALESCE(v_user_name, 'Aluno'), v_hours)
+  RETURNING id INTO v_certificate_id;
+
+  UPDATE public.learning_path_enrollments
+  SET completed_at = COALESCE(completed_at, now())
+  WHERE user_id = v_user_id AND learning_path_id = p_learning_path_id;
+
+  RETURN v_certificate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT SELECT ON public.learning_paths TO authenticated;
+GRANT SELECT ON public.learning_path_courses TO authenticated;
+GRANT SELECT ON public.learning_path_enrollments TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enroll_in_learning_path(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_learning_path_certificate(UUID) TO authenticated;
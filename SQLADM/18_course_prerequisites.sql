@@ -0,0 +1,57 @@
+-- SQL para Pré-requisitos de Cursos
+
+-- A coluna courses.prerequisite_course_ids é criada em 09_all_tables.sql
+
+-- Certificado válido do aluno no curso: não revogado e não expirado
+CREATE OR REPLACE FUNCTION public.has_valid_certificate(p_user_id UUID, p_course_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.certificates
+    WHERE user_id = p_user_id
+      AND course_id = p_course_id
+      AND revoked_at IS NULL
+      AND (expiry_date IS NULL OR expiry_date > now())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Pré-requisitos que o aluno ainda não cumpriu, na ordem em que foram cadastrados
+-- Cursos excluídos que continuam na lista são ignorados
+CREATE OR REPLACE FUNCTION public.get_missing_course_prerequisites(p_user_id UUID, p_course_id UUID)
+RETURNS TABLE (
+  course_id UUID,
+  title TEXT
+) AS $$
+  SELECT prerequisite.id, prerequisite.title
+  FROM public.courses c
+  CROSS JOIN LATERAL unnest(c.prerequisite_course_ids) WITH ORDINALITY AS p(prerequisite_id, ord)
+  JOIN public.courses prerequisite ON prerequisite.id = p.prerequisite_id
+  WHERE c.id = p_course_id
+    AND NOT public.has_valid_certificate(p_user_id, prerequisite.id)
+  ORDER BY p.ord;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Função de trigger que recusa matrículas com pré-requisitos pendentes
+-- Vale para qualquer origem da matrícula (aluno, administrador ou matrícula automática)
+CREATE OR REPLACE FUNCTION public.check_course_prerequisites()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_missing TEXT;
+BEGIN
+  SELECT string_agg(m.title, ', ') INTO v_missing
+  FROM public.get_missing_course_prerequisites(NEW.user_id, NEW.course_id) m;
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Matrícula não permitida. Obtenha antes o certificado de: %', v_missing;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_course_prerequisites_trigger ON public.enrollments;
+CREATE TRIGGER check_course_prerequisites_trigger
+BEFORE INSERT ON public.enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.check_course_prerequisites();
+
+GRANT EXECUTE ON FUNCTION public.get_missing_course_prerequisites(UUID, UUID) TO authenticated;
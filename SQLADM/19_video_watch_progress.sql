@@ -0,0 +1,126 @@
+-- SQL para Acompanhamento dos Vídeos das Aulas
+
+-- As colunas de posição de lesson_progress e lessons.auto_complete_percent são criadas em 09_all_tables.sql
+
+-- Function para registrar o avanço do aluno autenticado no vídeo de uma aula
+-- p_watched_seconds é o tempo assistido desde o último registro (saltos no vídeo não contam);
+-- cada registro soma no máximo 5 minutos, já que o player envia registros a cada poucos segundos
+-- O tempo somado é limitado pelo tempo decorrido desde o registro anterior (reprodução em até 2x) e a
+-- posição mais distante só avança o que foi somado, para que a visualização obrigatória não possa ser
+-- cumprida só com chamadas diretas. O primeiro registro da aula não tem registro anterior para limitar
+-- o tempo e soma no máximo o intervalo entre os registros do player
+-- A duração considerada é sempre a cadastrada na aula (lessons.duration_seconds); a informada pelo
+-- player não é usada, e aulas sem duração cadastrada não têm a visualização comprovada
+DROP FUNCTION IF EXISTS public.record_lesson_watch_progress(UUID, INTEGER, INTEGER, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION public.record_lesson_watch_progress(
+  p_lesson_id UUID,
+  p_watched_seconds INTEGER,
+  p_position_seconds INTEGER,
+  p_furthest_position_seconds INTEGER
+)
+RETURNS public.lesson_progress AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_watched INTEGER := LEAST(GREATEST(COALESCE(p_watched_seconds, 0), 0), 300);
+  v_position INTEGER := GREATEST(COALESCE(p_position_seconds, 0), 0);
+  v_furthest INTEGER := GREATEST(COALESCE(p_furthest_position_seconds, 0), 0);
+  v_duration INTEGER;
+  v_previous public.lesson_progress;
+  v_progress public.lesson_progress;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT NULLIF(l.duration_seconds, 0) INTO v_duration
+  FROM public.lessons l
+  JOIN public.modules m ON m.id = l.module_id
+  JOIN public.enrollments e ON e.course_id = m.course_id AND e.user_id = v_user_id
+  WHERE l.id = p_lesson_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Você não está matriculado no curso desta aula';
+  END IF;
+
+  SELECT * INTO v_previous
+  FROM public.lesson_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id;
+
+  -- Reprodução acelerada em até 2x; chamadas em sequência não somam tempo
+  IF v_previous.last_watched_at IS NOT NULL THEN
+    v_watched := LEAST(
+      v_watched,
+      FLOOR(EXTRACT(EPOCH FROM (now() - v_previous.last_watched_at)) * 2)::INTEGER
+    );
+  ELSE
+    -- Intervalo entre os registros do player (15 s) em até 2x
+    v_watched := LEAST(v_watched, 30);
+  END IF;
+
+  v_furthest := LEAST(v_furthest, COALESCE(v_previous.furthest_position_seconds, 0) + v_watched);
+
+  IF v_duration > 0 THEN
+    v_position := LEAST(v_position, v_duration);
+    v_furthest := LEAST(v_furthest, v_duration);
+  END IF;
+
+  INSERT INTO public.lesson_progress AS lp (
+    user_id, lesson_id, completed, watch_time_seconds,
+    furthest_position_seconds, last_position_seconds, video_duration_seconds, last_watched_at
+  )
+  VALUES (
+    v_user_id, p_lesson_id, false, v_watched,
+    v_furthest, v_position, v_duration, now()
+  )
+  ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+    watch_time_seconds = lp.watch_time_seconds + v_watched,
+    furthest_position_seconds = GREATEST(lp.furthest_position_seconds, EXCLUDED.furthest_position_seconds),
+    last_position_seconds = EXCLUDED.last_position_seconds,
+    video_duration_seconds = EXCLUDED.video_duration_seconds,
+    last_watched_at = EXCLUDED.last_watched_at
+  RETURNING * INTO v_progress;
+
+  RETURN v_progress;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Função de trigger que impede o aluno de gravar diretamente as colunas de acompanhamento do vídeo
+-- (a política de RLS permite que ele altere a própria linha de lesson_progress): essas colunas só
+-- podem ser gravadas por record_lesson_watch_progress, que roda como dono da função
+-- Não é SECURITY DEFINER, para que current_user seja o papel de quem fez a gravação
+CREATE OR REPLACE FUNCTION public.protect_lesson_watch_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.watch_time_seconds <> 0
+      OR NEW.furthest_position_seconds <> 0
+      OR NEW.last_position_seconds <> 0
+      OR NEW.video_duration_seconds IS NOT NULL
+      OR NEW.last_watched_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'O progresso do vídeo só pode ser registrado pelo player';
+    END IF;
+  ELSIF NEW.watch_time_seconds IS DISTINCT FROM OLD.watch_time_seconds
+    OR NEW.furthest_position_seconds IS DISTINCT FROM OLD.furthest_position_seconds
+    OR NEW.last_position_seconds IS DISTINCT FROM OLD.last_position_seconds
+    OR NEW.video_duration_seconds IS DISTINCT FROM OLD.video_duration_seconds
+    OR NEW.last_watched_at IS DISTINCT FROM OLD.last_watched_at
+  THEN
+    RAISE EXCEPTION 'O progresso do vídeo só pode ser registrado pelo player';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_lesson_watch_progress_trigger ON public.lesson_progress;
+CREATE TRIGGER protect_lesson_watch_progress_trigger
+BEFORE INSERT OR UPDATE ON public.lesson_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_lesson_watch_progress();
+
+GRANT EXECUTE ON FUNCTION public.record_lesson_watch_progress(UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
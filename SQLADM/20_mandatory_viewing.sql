@@ -0,0 +1,106 @@
+-- SQL para Visualização Obrigatória dos Vídeos das Aulas
+
+-- As colunas lessons.mandatory_viewing e lessons.mandatory_viewing_percent são criadas em 09_all_tables.sql
+-- O avanço no vídeo é registrado por record_lesson_watch_progress (19_video_watch_progress.sql), o único
+-- caminho que pode gravar as colunas de acompanhamento (protect_lesson_watch_progress)
+
+-- Cobertura do vídeo assistido, em porcentagem (0-100): o menor entre a posição mais avançada
+-- e o tempo assistido, ambos em relação à duração do vídeo
+CREATE OR REPLACE FUNCTION public.lesson_watch_coverage(
+  p_furthest_position_seconds INTEGER,
+  p_watch_time_seconds INTEGER,
+  p_duration_seconds INTEGER
+)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN COALESCE(p_duration_seconds, 0) <= 0 THEN 0
+    ELSE LEAST(100, FLOOR(
+      LEAST(COALESCE(p_furthest_position_seconds, 0), COALESCE(p_watch_time_seconds, 0)) * 100.0 / p_duration_seconds
+    ))::INTEGER
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Situação da visualização obrigatória da aula para o aluno autenticado
+-- required_percent é NULL quando a aula não exige visualização; sem duração cadastrada na aula,
+-- a cobertura é sempre 0 (a duração informada pelo player não é confiável)
+CREATE OR REPLACE FUNCTION public.get_lesson_viewing_status(p_lesson_id UUID)
+RETURNS TABLE (
+  required_percent INTEGER,
+  coverage_percent INTEGER
+) AS $$
+  SELECT
+    CASE WHEN l.mandatory_viewing THEN l.mandatory_viewing_percent END,
+    public.lesson_watch_coverage(lp.furthest_position_seconds, lp.watch_time_seconds, l.duration_seconds)
+  FROM public.lessons l
+  LEFT JOIN public.lesson_progress lp ON lp.lesson_id = l.id AND lp.user_id = auth.uid()
+  WHERE l.id = p_lesson_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Função de trigger que impede concluir uma aula de visualização obrigatória sem assistir
+-- a porcentagem exigida do vídeo, qualquer que seja o caminho usado para gravar o progresso
+-- (inclusive mark_lesson_completed)
+-- A cobertura é calculada só com o progresso já gravado (nunca com os valores enviados na gravação)
+-- e com a duração cadastrada na aula; sem ela, a aula não pode ser concluída
+CREATE OR REPLACE FUNCTION public.check_mandatory_viewing_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_required INTEGER;
+  v_lesson_duration INTEGER;
+  v_coverage INTEGER;
+  v_stored public.lesson_progress;
+BEGIN
+  IF NOT NEW.completed OR (TG_OP = 'UPDATE' AND COALESCE(OLD.completed, false)) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Em INSERT ... ON CONFLICT (como em mark_lesson_completed) o trigger de INSERT recebe só as colunas
+  -- informadas, então o progresso do vídeo já registrado é lido da linha existente
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO v_stored
+    FROM public.lesson_progress
+    WHERE user_id = NEW.user_id AND lesson_id = NEW.lesson_id;
+
+    IF COALESCE(v_stored.completed, false) THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    v_stored := OLD;
+  END IF;
+
+  SELECT l.mandatory_viewing_percent, NULLIF(l.duration_seconds, 0) INTO v_required, v_lesson_duration
+  FROM public.lessons l
+  WHERE l.id = NEW.lesson_id
+    AND l.mandatory_viewing
+    AND l.lesson_type = 'video'
+    AND COALESCE(l.video_url, '') <> '';
+
+  IF v_required IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_lesson_duration IS NULL THEN
+    RAISE EXCEPTION 'A duração do vídeo desta aula não está cadastrada e a visualização obrigatória não pode ser comprovada. Entre em contato com a administração.';
+  END IF;
+
+  v_coverage := public.lesson_watch_coverage(
+    v_stored.furthest_position_seconds,
+    v_stored.watch_time_seconds,
+    v_lesson_duration
+  );
+
+  IF v_coverage < v_required THEN
+    RAISE EXCEPTION 'Assista a pelo menos % do vídeo para concluir esta aula (assistido: %)',
+      v_required || '%', v_coverage || '%';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_mandatory_viewing_completion_trigger ON public.lesson_progress;
+CREATE TRIGGER check_mandatory_viewing_completion_trigger
+BEFORE INSERT OR UPDATE ON public.lesson_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.check_mandatory_viewing_completion();
+
+GRANT EXECUTE ON FUNCTION public.get_lesson_viewing_status(UUID) TO authenticated;
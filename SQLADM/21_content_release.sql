@@ -0,0 +1,146 @@
+-- SQL para Liberação do Conteúdo dos Cursos (aulas em sequência e módulos programados)
+
+-- As colunas courses.content_release_mode, modules.release_after_days e modules.release_date
+-- são criadas em 09_all_tables.sql
+
+-- Situação de liberação de cada aula do curso para o aluno, na ordem do curso
+-- Módulos sem aulas aparecem com lesson_id NULL
+-- lock_reason: 'previous_lesson' (modo sequencial) ou 'release_date' (modo programado)
+-- module_unlock_at: data em que o módulo será liberado (somente no modo programado, enquanto bloqueado)
+-- Aulas já concluídas nunca ficam bloqueadas
+-- Uso interno (triggers); o frontend consulta por get_course_content_locks
+CREATE OR REPLACE FUNCTION public.get_course_content_locks_internal(p_user_id UUID, p_course_id UUID)
+RETURNS TABLE (
+  module_id UUID,
+  lesson_id UUID,
+  is_locked BOOLEAN,
+  lock_reason TEXT,
+  module_unlock_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH course AS (
+    SELECT c.content_release_mode
+    FROM public.courses c
+    WHERE c.id = p_course_id
+  ),
+  enrollment AS (
+    SELECT e.enrolled_at
+    FROM public.enrollments e
+    WHERE e.user_id = p_user_id AND e.course_id = p_course_id
+  ),
+  course_lessons AS (
+    SELECT
+      m.id AS module_id,
+      l.id AS lesson_id,
+      COALESCE(lp.completed, false) AS completed,
+      CASE WHEN (SELECT content_release_mode FROM course) = 'drip' THEN
+        -- Sem matrícula, a contagem de dias começa agora
+        GREATEST(
+          m.release_date,
+          COALESCE((SELECT enrolled_at FROM enrollment), now()) + make_interval(days => m.release_after_days)
+        )
+      END AS release_at,
+      m.order_number AS module_order,
+      l.order_number AS lesson_order
+    FROM public.modules m
+    LEFT JOIN public.lessons l ON l.module_id = m.id
+    LEFT JOIN public.lesson_progress lp ON lp.lesson_id = l.id AND lp.user_id = p_user_id
+    WHERE m.course_id = p_course_id
+  ),
+  ordered AS (
+    SELECT
+      cl.*,
+      CASE WHEN cl.release_at > now() THEN cl.release_at END AS unlock_at,
+      -- Todas as aulas anteriores do curso concluídas (verdadeiro para a primeira aula)
+      COALESCE(
+        bool_and(cl.completed) FILTER (WHERE cl.lesson_id IS NOT NULL) OVER (
+          ORDER BY cl.module_order, cl.lesson_order, cl.lesson_id
+          ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ),
+        true
+      ) AS previous_completed
+    FROM course_lessons cl
+  )
+  SELECT
+    o.module_id,
+    o.lesson_id,
+    CASE
+      WHEN o.completed THEN false
+      WHEN (SELECT content_release_mode FROM course) = 'sequential' THEN NOT o.previous_completed
+      ELSE o.unlock_at IS NOT NULL
+    END,
+    CASE
+      WHEN o.completed THEN NULL
+      WHEN (SELECT content_release_mode FROM course) = 'sequential' AND NOT o.previous_completed THEN 'previous_lesson'
+      WHEN o.unlock_at IS NOT NULL THEN 'release_date'
+    END,
+    o.unlock_at
+  FROM ordered o
+  ORDER BY o.module_order, o.lesson_order, o.lesson_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_course_content_locks_internal(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Situação de liberação das aulas do curso para um aluno: o próprio aluno autenticado
+-- ou, para administradores, qualquer aluno
+CREATE OR REPLACE FUNCTION public.get_course_content_locks(p_user_id UUID, p_course_id UUID)
+RETURNS TABLE (
+  module_id UUID,
+  lesson_id UUID,
+  is_locked BOOLEAN,
+  lock_reason TEXT,
+  module_unlock_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Você só pode consultar a liberação do seu próprio conteúdo';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.get_course_content_locks_internal(p_user_id, p_course_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Função de trigger que impede concluir uma aula ainda não liberada para o aluno,
+-- qualquer que seja o player ou o caminho usado para gravar o progresso
+CREATE OR REPLACE FUNCTION public.check_content_release_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_course_id UUID;
+  v_lock RECORD;
+BEGIN
+  IF NOT NEW.completed OR (TG_OP = 'UPDATE' AND COALESCE(OLD.completed, false)) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT m.course_id INTO v_course_id
+  FROM public.lessons l
+  JOIN public.modules m ON m.id = l.module_id
+  WHERE l.id = NEW.lesson_id;
+
+  SELECT locks.is_locked, locks.lock_reason, locks.module_unlock_at INTO v_lock
+  FROM public.get_course_content_locks_internal(NEW.user_id, v_course_id) locks
+  WHERE locks.lesson_id = NEW.lesson_id;
+
+  IF COALESCE(v_lock.is_locked, false) THEN
+    IF v_lock.lock_reason = 'release_date' THEN
+      RAISE EXCEPTION 'Esta aula será liberada em %', to_char(v_lock.module_unlock_at, 'DD/MM/YYYY');
+    END IF;
+
+    RAISE EXCEPTION 'Conclua a aula anterior para liberar esta aula';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_content_release_completion_trigger ON public.lesson_progress;
+CREATE TRIGGER check_content_release_completion_trigger
+BEFORE INSERT OR UPDATE ON public.lesson_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.check_content_release_completion();
+
+GRANT EXECUTE ON FUNCTION public.get_course_content_locks(UUID, UUID) TO authenticated;
@@ -0,0 +1,69 @@
+-- SQL para Materiais das Aulas (arquivos para download)
+
+-- A tabela lesson_attachments é criada em 09_all_tables.sql
+-- Os arquivos ficam no bucket privado lesson-attachments, em <lesson_id>/<arquivo>
+
+-- Bucket privado: o download é feito por URL assinada, gerada somente para quem passa nas políticas abaixo
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('lesson-attachments', 'lesson-attachments', false, 52428800)
+ON CONFLICT (id) DO UPDATE SET public = false, file_size_limit = EXCLUDED.file_size_limit;
+
+-- Administradores e alunos matriculados no curso da aula têm acesso aos materiais
+CREATE OR REPLACE FUNCTION public.can_access_lesson_attachments(p_lesson_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_admin() OR EXISTS (
+    SELECT 1
+    FROM public.lessons l
+    JOIN public.modules m ON m.id = l.module_id
+    JOIN public.enrollments e ON e.course_id = m.course_id
+    WHERE l.id = p_lesson_id
+      AND e.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Lesson id da pasta do arquivo no bucket (NULL quando o caminho não começa por um UUID)
+CREATE OR REPLACE FUNCTION public.lesson_attachment_lesson_id(p_object_name TEXT)
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN split_part(p_object_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(p_object_name, '/', 1)::UUID
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Políticas da tabela: alunos matriculados veem os materiais; somente administradores cadastram e excluem
+CREATE POLICY IF NOT EXISTS "Enrolled users can view lesson attachments"
+  ON public.lesson_attachments
+  FOR SELECT
+  USING (public.can_access_lesson_attachments(lesson_id));
+
+CREATE POLICY IF NOT EXISTS "Admins can manage lesson attachments"
+  ON public.lesson_attachments
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Políticas dos arquivos no bucket, com as mesmas regras
+CREATE POLICY IF NOT EXISTS "Enrolled users can download lesson attachments"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'lesson-attachments'
+    AND public.can_access_lesson_attachments(public.lesson_attachment_lesson_id(name))
+  );
+
+CREATE POLICY IF NOT EXISTS "Admins can upload lesson attachments"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'lesson-attachments' AND public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Admins can update lesson attachments"
+  ON storage.objects
+  FOR UPDATE
+  USING (bucket_id = 'lesson-attachments' AND public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Admins can delete lesson attachments"
+  ON storage.objects
+  FOR DELETE
+  USING (bucket_id = 'lesson-attachments' AND public.is_admin());
+
+GRANT EXECUTE ON FUNCTION public.can_access_lesson_attachments(UUID) TO authenticated;
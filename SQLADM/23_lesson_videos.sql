@@ -0,0 +1,35 @@
+-- SQL para Vídeos Enviados para as Aulas
+
+-- As colunas lessons.video_thumbnail_url e lessons.duration_seconds são criadas em 09_all_tables.sql
+-- Os vídeos e as miniaturas ficam no bucket privado lesson-videos, em <lesson_id>/<arquivo>,
+-- e a aula guarda a referência storage://lesson-videos/<lesson_id>/<arquivo>
+
+-- Bucket privado: o player recebe uma URL assinada, gerada somente para quem passa nas políticas abaixo
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('lesson-videos', 'lesson-videos', false, 1073741824)
+ON CONFLICT (id) DO UPDATE SET public = false, file_size_limit = EXCLUDED.file_size_limit;
+
+-- Mesmas regras de acesso dos materiais das aulas (funções em 22_lesson_attachments.sql):
+-- administradores e alunos matriculados no curso da aula
+CREATE POLICY IF NOT EXISTS "Enrolled users can watch lesson videos"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'lesson-videos'
+    AND public.can_access_lesson_attachments(public.lesson_attachment_lesson_id(name))
+  );
+
+CREATE POLICY IF NOT EXISTS "Admins can upload lesson videos"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'lesson-videos' AND public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Admins can update lesson videos"
+  ON storage.objects
+  FOR UPDATE
+  USING (bucket_id = 'lesson-videos' AND public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Admins can delete lesson videos"
+  ON storage.objects
+  FOR DELETE
+  USING (bucket_id = 'lesson-videos' AND public.is_admin());
@@ -0,0 +1,55 @@
+-- SQL para Legendas e Transcrições das Aulas
+
+-- A tabela lesson_captions é criada em 09_all_tables.sql
+
+-- Alunos matriculados (e administradores) veem as legendas; somente administradores cadastram e excluem
+-- (can_access_lesson_attachments em 22_lesson_attachments.sql)
+CREATE POLICY IF NOT EXISTS "Enrolled users can view lesson captions"
+  ON public.lesson_captions
+  FOR SELECT
+  USING (public.can_access_lesson_attachments(lesson_id));
+
+CREATE POLICY IF NOT EXISTS "Admins can manage lesson captions"
+  ON public.lesson_captions
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Busca de aulas pelo que é dito nelas, para a busca do catálogo de cursos
+-- Retorna somente o título da aula e um trecho da transcrição, sem expor a legenda completa
+CREATE OR REPLACE FUNCTION public.search_lessons_by_transcript(p_query TEXT)
+RETURNS TABLE (
+  course_id UUID,
+  lesson_id UUID,
+  lesson_title TEXT,
+  snippet TEXT
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('simple', p_query) AS q
+  ),
+  matches AS (
+    SELECT DISTINCT ON (lc.lesson_id)
+      m.course_id,
+      lc.lesson_id,
+      l.title AS lesson_title,
+      lc.transcript_text,
+      ts_rank(to_tsvector('simple', lc.transcript_text), query.q) AS rank
+    FROM public.lesson_captions lc
+    CROSS JOIN query
+    JOIN public.lessons l ON l.id = lc.lesson_id
+    JOIN public.modules m ON m.id = l.module_id
+    WHERE to_tsvector('simple', lc.transcript_text) @@ query.q
+    ORDER BY lc.lesson_id, rank DESC
+  )
+  SELECT
+    matches.course_id,
+    matches.lesson_id,
+    matches.lesson_title,
+    ts_headline('simple', matches.transcript_text, query.q, 'StartSel=«, StopSel=», MaxWords=20, MinWords=8')
+  FROM matches
+  CROSS JOIN query
+  ORDER BY matches.rank DESC
+  LIMIT 50;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_lessons_by_transcript(TEXT) TO authenticated;
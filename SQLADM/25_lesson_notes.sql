@@ -0,0 +1,88 @@
+-- SQL para Anotações e Aulas Marcadas pelos Alunos
+
+-- As tabelas lesson_notes e lesson_bookmarks são criadas em 09_all_tables.sql
+-- Cada aluno só vê e altera as próprias anotações e marcações
+
+CREATE POLICY IF NOT EXISTS "Users can manage their own lesson notes"
+  ON public.lesson_notes
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY IF NOT EXISTS "Users can manage their own lesson bookmarks"
+  ON public.lesson_bookmarks
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_lesson_notes_updated_at ON public.lesson_notes;
+CREATE TRIGGER update_lesson_notes_updated_at
+BEFORE UPDATE ON public.lesson_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Anotações do aluno autenticado com o curso, o módulo e a aula de cada uma,
+-- na ordem do curso e, dentro da aula, na ordem do vídeo
+CREATE OR REPLACE FUNCTION public.get_user_lesson_notes()
+RETURNS TABLE (
+  id UUID,
+  lesson_id UUID,
+  content TEXT,
+  timestamp_seconds INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  lesson_title TEXT,
+  module_id UUID,
+  module_title TEXT,
+  course_id UUID,
+  course_title TEXT
+) AS $$
+  SELECT
+    n.id,
+    n.lesson_id,
+    n.content,
+    n.timestamp_seconds,
+    n.created_at,
+    n.updated_at,
+    l.title,
+    m.id,
+    m.title,
+    c.id,
+    c.title
+  FROM public.lesson_notes n
+  JOIN public.lessons l ON l.id = n.lesson_id
+  JOIN public.modules m ON m.id = l.module_id
+  JOIN public.courses c ON c.id = m.course_id
+  WHERE n.user_id = auth.uid()
+  ORDER BY c.title, m.order_number, l.order_number, n.timestamp_seconds NULLS LAST, n.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Aulas marcadas pelo aluno autenticado, das mais recentes para as mais antigas
+CREATE OR REPLACE FUNCTION public.get_user_lesson_bookmarks()
+RETURNS TABLE (
+  id UUID,
+  lesson_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  lesson_title TEXT,
+  module_title TEXT,
+  course_id UUID,
+  course_title TEXT
+) AS $$
+  SELECT
+    b.id,
+    b.lesson_id,
+    b.created_at,
+    l.title,
+    m.title,
+    c.id,
+    c.title
+  FROM public.lesson_bookmarks b
+  JOIN public.lessons l ON l.id = b.lesson_id
+  JOIN public.modules m ON m.id = l.module_id
+  JOIN public.courses c ON c.id = m.course_id
+  WHERE b.user_id = auth.uid()
+  ORDER BY b.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_user_lesson_notes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_lesson_bookmarks() TO authenticated;
@@ -0,0 +1,239 @@
+-- SQL para Perguntas e Respostas das Aulas
+
+-- As tabelas lesson_discussions e lesson_discussion_votes são criadas em 09_all_tables.sql
+-- Participam da discussão os administradores e os alunos matriculados no curso da aula
+-- (mesma regra dos materiais, public.can_access_lesson_attachments em 22_lesson_attachments.sql)
+
+-- Papel do usuário (auth.users.raw_user_meta_data->>'role'), exibido como selo nas mensagens
+CREATE OR REPLACE FUNCTION public.get_user_role(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(raw_user_meta_data->>'role', 'student')
+  FROM auth.users
+  WHERE id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Instrutores e administradores respondem oficialmente às perguntas
+CREATE OR REPLACE FUNCTION public.is_discussion_staff(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.get_user_role(p_user_id) IN ('admin', 'instructor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY IF NOT EXISTS "Enrolled users can view lesson discussions"
+  ON public.lesson_discussions
+  FOR SELECT
+  USING (public.can_access_lesson_attachments(lesson_id));
+
+CREATE POLICY IF NOT EXISTS "Enrolled users can post lesson discussions"
+  ON public.lesson_discussions
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND public.can_access_lesson_attachments(lesson_id));
+
+-- O autor continua precisando de acesso à aula; aula, pergunta e autor não mudam na edição
+-- (protect_lesson_discussion_update)
+DROP POLICY IF EXISTS "Users can edit their own lesson discussions" ON public.lesson_discussions;
+CREATE POLICY IF NOT EXISTS "Users can edit their own lesson discussions"
+  ON public.lesson_discussions
+  FOR UPDATE
+  USING (user_id = auth.uid() OR public.is_admin())
+  WITH CHECK ((user_id = auth.uid() AND public.can_access_lesson_attachments(lesson_id)) OR public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Users can delete their own lesson discussions"
+  ON public.lesson_discussions
+  FOR DELETE
+  USING (user_id = auth.uid() OR public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Enrolled users can view discussion votes"
+  ON public.lesson_discussion_votes
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.lesson_discussions d
+    WHERE d.id = discussion_id AND public.can_access_lesson_attachments(d.lesson_id)
+  ));
+
+CREATE POLICY IF NOT EXISTS "Users can manage their own discussion votes"
+  ON public.lesson_discussion_votes
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_lesson_discussions_updated_at ON public.lesson_discussions;
+CREATE TRIGGER update_lesson_discussions_updated_at
+BEFORE UPDATE ON public.lesson_discussions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Função de trigger que mantém as respostas na aula da pergunta, impede respostas a respostas
+-- e marca a pergunta como respondida quando um instrutor ou administrador responde
+CREATE OR REPLACE FUNCTION public.handle_lesson_discussion_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_question public.lesson_discussions;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_question
+  FROM public.lesson_discussions
+  WHERE id = NEW.parent_id;
+
+  IF v_question.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Responda à pergunta, e não a outra resposta';
+  END IF;
+
+  NEW.lesson_id := v_question.lesson_id;
+  NEW.is_answered := false;
+
+  IF public.is_discussion_staff(NEW.user_id) THEN
+    UPDATE public.lesson_discussions
+    SET is_answered = true
+    WHERE id = NEW.parent_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS handle_lesson_discussion_reply_trigger ON public.lesson_discussions;
+CREATE TRIGGER handle_lesson_discussion_reply_trigger
+BEFORE INSERT ON public.lesson_discussions
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_lesson_discussion_reply();
+
+-- Função de trigger que impede mover uma mensagem para outra aula ou pergunta, ou trocar o autor
+CREATE OR REPLACE FUNCTION public.protect_lesson_discussion_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.lesson_id := OLD.lesson_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.user_id := OLD.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_lesson_discussion_update_trigger ON public.lesson_discussions;
+CREATE TRIGGER protect_lesson_discussion_update_trigger
+BEFORE UPDATE ON public.lesson_discussions
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_lesson_discussion_update();
+
+-- Perguntas e respostas da aula com o autor, o papel do autor e os votos
+-- (o nome vem de profiles, que só é visível para o próprio usuário)
+CREATE OR REPLACE FUNCTION public.get_lesson_discussions(p_lesson_id UUID)
+RETURNS TABLE (
+  id UUID,
+  lesson_id UUID,
+  parent_id UUID,
+  user_id UUID,
+  author_name TEXT,
+  author_role TEXT,
+  content TEXT,
+  is_answered BOOLEAN,
+  upvotes INTEGER,
+  has_upvoted BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    d.id,
+    d.lesson_id,
+    d.parent_id,
+    d.user_id,
+    COALESCE(p.name, 'Usuário'),
+    public.get_user_role(d.user_id),
+    d.content,
+    d.is_answered,
+    (SELECT COUNT(*) FROM public.lesson_discussion_votes v WHERE v.discussion_id = d.id)::INTEGER,
+    EXISTS (
+      SELECT 1 FROM public.lesson_discussion_votes v
+      WHERE v.discussion_id = d.id AND v.user_id = auth.uid()
+    ),
+    d.created_at,
+    d.updated_at
+  FROM public.lesson_discussions d
+  LEFT JOIN public.profiles p ON p.id = d.user_id
+  WHERE d.lesson_id = p_lesson_id
+    AND public.can_access_lesson_attachments(p_lesson_id)
+  ORDER BY d.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Fila de moderação: perguntas sem resposta de todos os cursos, das mais antigas para as mais recentes
+CREATE OR REPLACE FUNCTION public.get_unanswered_lesson_questions()
+RETURNS TABLE (
+  id UUID,
+  lesson_id UUID,
+  lesson_title TEXT,
+  course_id UUID,
+  course_title TEXT,
+  user_id UUID,
+  author_name TEXT,
+  content TEXT,
+  reply_count INTEGER,
+  upvotes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem acessar a fila de moderação';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.lesson_id,
+    l.title,
+    c.id,
+    c.title,
+    d.user_id,
+    COALESCE(p.name, 'Usuário'),
+    d.content,
+    (SELECT COUNT(*) FROM public.lesson_discussions r WHERE r.parent_id = d.id)::INTEGER,
+    (SELECT COUNT(*) FROM public.lesson_discussion_votes v WHERE v.discussion_id = d.id)::INTEGER,
+    d.created_at
+  FROM public.lesson_discussions d
+  JOIN public.lessons l ON l.id = d.lesson_id
+  JOIN public.modules m ON m.id = l.module_id
+  JOIN public.courses c ON c.id = m.course_id
+  LEFT JOIN public.profiles p ON p.id = d.user_id
+  WHERE d.parent_id IS NULL
+    AND NOT d.is_answered
+  ORDER BY d.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Marca ou desmarca a pergunta como respondida (somente o autor da pergunta ou administradores)
+CREATE OR REPLACE FUNCTION public.set_lesson_question_answered(p_question_id UUID, p_answered BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.lesson_discussions
+    WHERE id = p_question_id
+      AND parent_id IS NULL
+      AND (user_id = auth.uid() OR public.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Somente o autor da pergunta ou um administrador pode alterar a situação';
+  END IF;
+
+  UPDATE public.lesson_discussions
+  SET is_answered = p_answered
+  WHERE id = p_question_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Novas respostas chegam ao autor da pergunta em tempo real (src/utils/realtimeSubscriptions.ts)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'lesson_discussions'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.lesson_discussions;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_lesson_discussions(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_unanswered_lesson_questions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_lesson_question_answered(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,190 @@
+-- SQL para Avaliações dos Cursos
+
+-- A tabela course_reviews e as colunas courses.review_count e courses.review_min_progress
+-- são criadas em 09_all_tables.sql
+
+-- Avaliações visíveis para todos os usuários autenticados; as ocultadas só para o autor e administradores
+CREATE POLICY IF NOT EXISTS "Authenticated users can view course reviews"
+  ON public.course_reviews
+  FOR SELECT
+  USING (auth.role() = 'authenticated' AND (NOT is_hidden OR user_id = auth.uid() OR public.is_admin()));
+
+CREATE POLICY IF NOT EXISTS "Students can review their courses"
+  ON public.course_reviews
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY IF NOT EXISTS "Students can edit their own reviews"
+  ON public.course_reviews
+  FOR UPDATE
+  USING (user_id = auth.uid() OR public.is_admin())
+  WITH CHECK (user_id = auth.uid() OR public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Students can delete their own reviews"
+  ON public.course_reviews
+  FOR DELETE
+  USING (user_id = auth.uid() OR public.is_admin());
+
+DROP TRIGGER IF EXISTS update_course_reviews_updated_at ON public.course_reviews;
+CREATE TRIGGER update_course_reviews_updated_at
+BEFORE UPDATE ON public.course_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Situação do aluno autenticado para avaliar o curso
+-- can_review é falso sem matrícula ou abaixo do progresso mínimo do curso
+CREATE OR REPLACE FUNCTION public.get_course_review_eligibility(p_course_id UUID)
+RETURNS TABLE (
+  can_review BOOLEAN,
+  is_enrolled BOOLEAN,
+  progress INTEGER,
+  min_progress INTEGER
+) AS $$
+  SELECT
+    e.id IS NOT NULL AND COALESCE(e.progress, 0) >= c.review_min_progress,
+    e.id IS NOT NULL,
+    COALESCE(e.progress, 0),
+    c.review_min_progress
+  FROM public.courses c
+  LEFT JOIN public.enrollments e ON e.course_id = c.id AND e.user_id = auth.uid()
+  WHERE c.id = p_course_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Função de trigger que só aceita avaliações de alunos matriculados com o progresso mínimo
+-- e impede que o aluno altere a moderação (is_hidden) da própria avaliação
+CREATE OR REPLACE FUNCTION public.check_course_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_progress INTEGER;
+  v_min_progress INTEGER;
+BEGIN
+  IF public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_hidden := false;
+  ELSE
+    NEW.is_hidden := OLD.is_hidden;
+    NEW.user_id := OLD.user_id;
+    NEW.course_id := OLD.course_id;
+  END IF;
+
+  SELECT e.progress, c.review_min_progress INTO v_progress, v_min_progress
+  FROM public.courses c
+  LEFT JOIN public.enrollments e ON e.course_id = c.id AND e.user_id = NEW.user_id
+  WHERE c.id = NEW.course_id;
+
+  IF v_progress IS NULL THEN
+    RAISE EXCEPTION 'Somente alunos matriculados podem avaliar o curso';
+  END IF;
+
+  IF v_progress < v_min_progress THEN
+    RAISE EXCEPTION 'Conclua pelo menos % do curso para avaliá-lo', v_min_progress || '%';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_course_review_trigger ON public.course_reviews;
+CREATE TRIGGER check_course_review_trigger
+BEFORE INSERT OR UPDATE ON public.course_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.check_course_review();
+
+-- Recalcula a nota média (uma casa decimal) e a quantidade de avaliações visíveis do curso
+CREATE OR REPLACE FUNCTION public.refresh_course_rating(p_course_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.courses c
+  SET
+    rating = COALESCE(stats.average, 0),
+    review_count = stats.total
+  FROM (
+    SELECT ROUND(AVG(r.rating)::NUMERIC, 1) AS average, COUNT(*)::INTEGER AS total
+    FROM public.course_reviews r
+    WHERE r.course_id = p_course_id AND NOT r.is_hidden
+  ) stats
+  WHERE c.id = p_course_id;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.handle_course_review_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_course_rating(OLD.course_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.course_id <> OLD.course_id) THEN
+    PERFORM public.refresh_course_rating(NEW.course_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS handle_course_review_change_trigger ON public.course_reviews;
+CREATE TRIGGER handle_course_review_change_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.course_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_course_review_change();
+
+-- Avaliações do curso com o nome do autor (profiles só é visível para o próprio usuário)
+-- As ocultadas aparecem apenas para administradores e para o autor
+CREATE OR REPLACE FUNCTION public.get_course_reviews(p_course_id UUID)
+RETURNS TABLE (
+  id UUID,
+  course_id UUID,
+  user_id UUID,
+  author_name TEXT,
+  rating SMALLINT,
+  comment TEXT,
+  is_hidden BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    r.id,
+    r.course_id,
+    r.user_id,
+    COALESCE(p.name, 'Aluno'),
+    r.rating,
+    r.comment,
+    r.is_hidden,
+    r.created_at,
+    r.updated_at
+  FROM public.course_reviews r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.course_id = p_course_id
+    AND (NOT r.is_hidden OR r.user_id = auth.uid() OR public.is_admin())
+  ORDER BY r.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Oculta ou volta a exibir uma avaliação (somente administradores)
+CREATE OR REPLACE FUNCTION public.set_course_review_hidden(p_review_id UUID, p_hidden BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem moderar avaliações';
+  END IF;
+
+  UPDATE public.course_reviews
+  SET is_hidden = p_hidden
+  WHERE id = p_review_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A nota deixa de ser digitada pelo administrador: recalcular todos os cursos a partir das avaliações
+DO $$
+DECLARE
+  v_course_id UUID;
+BEGIN
+  FOR v_course_id IN SELECT id FROM public.courses LOOP
+    PERFORM public.refresh_course_rating(v_course_id);
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_course_review_eligibility(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_course_reviews(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_course_review_hidden(UUID, BOOLEAN) TO authenticated;
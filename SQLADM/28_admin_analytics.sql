@@ -0,0 +1,246 @@
+-- SQL para o Painel de Análise administrativo
+
+-- Todas as agregações são feitas no banco; o navegador recebe apenas os totais já filtrados
+-- por período (p_start a p_end, inclusive) e, opcionalmente, por curso (p_course_id)
+-- Os índices por data de enrollments e certificates são criados em 09_all_tables.sql
+
+-- Data de conclusão da matrícula, com o mesmo critério em todo o painel e no relatório de engajamento
+-- (29_course_engagement_report.sql): a matrícula está concluída com progresso de 100% ou data de conclusão
+-- registrada; sem a data, vale a conclusão da última aula do curso. NULL quando não foi concluída
+CREATE OR REPLACE FUNCTION public.get_enrollment_completion_date(
+  p_user_id UUID,
+  p_course_id UUID,
+  p_progress INTEGER,
+  p_completed_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT CASE
+    WHEN p_completed_at IS NOT NULL THEN p_completed_at
+    WHEN COALESCE(p_progress, 0) >= 100 THEN (
+      SELECT MAX(lp.completed_at)
+      FROM public.lesson_progress lp
+      JOIN public.lessons l ON l.id = lp.lesson_id
+      JOIN public.modules m ON m.id = l.module_id
+      WHERE lp.user_id = p_user_id
+        AND m.course_id = p_course_id
+        AND lp.completed
+    )
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_enrollment_completion_date(UUID, UUID, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Matrículas, conclusões e certificados emitidos por dia, semana ou mês
+CREATE OR REPLACE FUNCTION public.get_analytics_time_series(
+  p_start DATE,
+  p_end DATE,
+  p_granularity TEXT DEFAULT 'day',
+  p_course_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  period_start DATE,
+  enrollments INTEGER,
+  completions INTEGER,
+  certificates INTEGER
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem acessar o painel de análise';
+  END IF;
+
+  IF p_granularity NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Agrupamento inválido: %', p_granularity;
+  END IF;
+
+  IF p_end < p_start THEN
+    RAISE EXCEPTION 'A data final deve ser igual ou posterior à data inicial';
+  END IF;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT generate_series(
+      date_trunc(p_granularity, p_start::TIMESTAMP),
+      date_trunc(p_granularity, p_end::TIMESTAMP),
+      ('1 ' || p_granularity)::INTERVAL
+    )::DATE AS period_start
+  ),
+  enrollment_totals AS (
+    SELECT date_trunc(p_granularity, e.enrolled_at)::DATE AS period_start, COUNT(*) AS total
+    FROM public.enrollments e
+    WHERE e.enrolled_at >= p_start
+      AND e.enrolled_at < p_end + 1
+      AND (p_course_id IS NULL OR e.course_id = p_course_id)
+    GROUP BY 1
+  ),
+  completions AS (
+    SELECT public.get_enrollment_completion_date(e.user_id, e.course_id, e.progress, e.completed_at) AS completed_at
+    FROM public.enrollments e
+    WHERE (e.completed_at IS NOT NULL OR COALESCE(e.progress, 0) >= 100)
+      AND (p_course_id IS NULL OR e.course_id = p_course_id)
+  ),
+  completion_totals AS (
+    SELECT date_trunc(p_granularity, co.completed_at)::DATE AS period_start, COUNT(*) AS total
+    FROM completions co
+    WHERE co.completed_at >= p_start
+      AND co.completed_at < p_end + 1
+    GROUP BY 1
+  ),
+  certificate_totals AS (
+    SELECT date_trunc(p_granularity, c.issue_date)::DATE AS period_start, COUNT(*) AS total
+    FROM public.certificates c
+    WHERE c.issue_date >= p_start
+      AND c.issue_date < p_end + 1
+      AND (p_course_id IS NULL OR c.course_id = p_course_id)
+    GROUP BY 1
+  )
+  SELECT
+    p.period_start,
+    COALESCE(et.total, 0)::INTEGER,
+    COALESCE(ct.total, 0)::INTEGER,
+    COALESCE(cert.total, 0)::INTEGER
+  FROM periods p
+  LEFT JOIN enrollment_totals et ON et.period_start = p.period_start
+  LEFT JOIN completion_totals ct ON ct.period_start = p.period_start
+  LEFT JOIN certificate_totals cert ON cert.period_start = p.period_start
+  ORDER BY p.period_start;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Funil por curso dos alunos matriculados no período:
+-- matriculados → iniciaram → chegaram a 50% → concluíram → receberam certificado
+-- avg_completion_days é o tempo médio (em dias) entre a matrícula e a conclusão
+CREATE OR REPLACE FUNCTION public.get_analytics_course_funnel(
+  p_start DATE,
+  p_end DATE,
+  p_course_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  course_id UUID,
+  course_title TEXT,
+  enrolled INTEGER,
+  started INTEGER,
+  halfway INTEGER,
+  completed INTEGER,
+  certified INTEGER,
+  avg_completion_days NUMERIC
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem acessar o painel de análise';
+  END IF;
+
+  RETURN QUERY
+  WITH cohort AS (
+    SELECT
+      e.course_id,
+      e.user_id,
+      e.enrolled_at,
+      public.get_enrollment_completion_date(e.user_id, e.course_id, e.progress, e.completed_at) AS completed_at,
+      COALESCE(e.progress, 0) AS progress,
+      EXISTS (
+        SELECT 1
+        FROM public.lesson_progress lp
+        JOIN public.lessons l ON l.id = lp.lesson_id
+        JOIN public.modules m ON m.id = l.module_id
+        WHERE lp.user_id = e.user_id
+          AND m.course_id = e.course_id
+          AND (lp.completed OR lp.furthest_position_seconds > 0)
+      ) AS has_activity,
+      EXISTS (
+        SELECT 1
+        FROM public.certificates cert
+        WHERE cert.user_id = e.user_id
+          AND cert.course_id = e.course_id
+      ) AS has_certificate
+    FROM public.enrollments e
+    WHERE e.enrolled_at >= p_start
+      AND e.enrolled_at < p_end + 1
+      AND (p_course_id IS NULL OR e.course_id = p_course_id)
+  )
+  SELECT
+    c.id,
+    c.title,
+    COUNT(co.user_id)::INTEGER,
+    COUNT(co.user_id) FILTER (WHERE co.progress > 0 OR co.has_activity)::INTEGER,
+    COUNT(co.user_id) FILTER (WHERE co.progress >= 50)::INTEGER,
+    COUNT(co.user_id) FILTER (WHERE co.completed_at IS NOT NULL OR co.progress >= 100)::INTEGER,
+    COUNT(co.user_id) FILTER (WHERE co.has_certificate)::INTEGER,
+    ROUND(
+      (AVG(EXTRACT(EPOCH FROM co.completed_at - co.enrolled_at)) FILTER (WHERE co.completed_at IS NOT NULL) / 86400)::NUMERIC,
+      1
+    )
+  FROM public.courses c
+  JOIN cohort co ON co.course_id = c.id
+  GROUP BY c.id, c.title
+  ORDER BY COUNT(co.user_id) DESC, c.title;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Abandono por aula, na ordem do curso, dos alunos matriculados no período:
+-- started_count começaram a aula, completed_count a concluíram e stopped_count pararam nela
+-- (é a última aula concluída e o curso não foi concluído)
+CREATE OR REPLACE FUNCTION public.get_analytics_lesson_dropoff(
+  p_course_id UUID,
+  p_start DATE,
+  p_end DATE
+)
+RETURNS TABLE (
+  lesson_id UUID,
+  lesson_title TEXT,
+  module_title TEXT,
+  lesson_position INTEGER,
+  started_count INTEGER,
+  completed_count INTEGER,
+  stopped_count INTEGER
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem acessar o painel de análise';
+  END IF;
+
+  RETURN QUERY
+  WITH course_lessons AS (
+    SELECT
+      l.id,
+      l.title,
+      m.title AS module_title,
+      ROW_NUMBER() OVER (ORDER BY m.order_number, l.order_number)::INTEGER AS lesson_position
+    FROM public.lessons l
+    JOIN public.modules m ON m.id = l.module_id
+    WHERE m.course_id = p_course_id
+  ),
+  cohort AS (
+    SELECT e.user_id, (e.completed_at IS NOT NULL OR COALESCE(e.progress, 0) >= 100) AS is_completed
+    FROM public.enrollments e
+    WHERE e.course_id = p_course_id
+      AND e.enrolled_at >= p_start
+      AND e.enrolled_at < p_end + 1
+  ),
+  cohort_progress AS (
+    SELECT co.user_id, co.is_completed, cl.id AS lesson_id, cl.lesson_position, lp.completed
+    FROM cohort co
+    JOIN public.lesson_progress lp ON lp.user_id = co.user_id
+    JOIN course_lessons cl ON cl.id = lp.lesson_id
+  ),
+  last_completed AS (
+    SELECT cp.user_id, MAX(cp.lesson_position) AS lesson_position
+    FROM cohort_progress cp
+    WHERE cp.completed AND NOT cp.is_completed
+    GROUP BY cp.user_id
+  )
+  SELECT
+    cl.id,
+    cl.title,
+    cl.module_title,
+    cl.lesson_position,
+    (SELECT COUNT(*) FROM cohort_progress cp WHERE cp.lesson_id = cl.id)::INTEGER,
+    (SELECT COUNT(*) FROM cohort_progress cp WHERE cp.lesson_id = cl.id AND cp.completed)::INTEGER,
+    (SELECT COUNT(*) FROM last_completed lc WHERE lc.lesson_position = cl.lesson_position)::INTEGER
+  FROM course_lessons cl
+  ORDER BY cl.lesson_position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_analytics_time_series(DATE, DATE, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_analytics_course_funnel(DATE, DATE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_analytics_lesson_dropoff(UUID, DATE, DATE) TO authenticated;
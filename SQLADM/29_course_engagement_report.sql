@@ -0,0 +1,89 @@
+-- SQL para o Relatório de Engajamento por Curso
+
+-- Lista todas as aulas do curso na ordem de módulos e aulas (order_number) com, para os alunos matriculados:
+-- completed_count: quantos concluíram a aula
+-- median_interval_seconds: mediana do tempo entre a conclusão anterior do aluno no curso
+--   (ou a matrícula, na primeira conclusão) e a conclusão desta aula
+-- stalled_count: alunos que ainda não concluíram o curso e cuja primeira aula pendente é esta
+CREATE OR REPLACE FUNCTION public.get_course_engagement_report(p_course_id UUID)
+RETURNS TABLE (
+  module_id UUID,
+  module_title TEXT,
+  module_order INTEGER,
+  lesson_id UUID,
+  lesson_title TEXT,
+  lesson_order INTEGER,
+  lesson_position INTEGER,
+  enrolled_count INTEGER,
+  completed_count INTEGER,
+  median_interval_seconds NUMERIC,
+  stalled_count INTEGER
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem acessar o relatório de engajamento';
+  END IF;
+
+  RETURN QUERY
+  WITH course_lessons AS (
+    SELECT
+      m.id AS module_id,
+      m.title AS module_title,
+      m.order_number AS module_order,
+      l.id AS lesson_id,
+      l.title AS lesson_title,
+      l.order_number AS lesson_order,
+      ROW_NUMBER() OVER (ORDER BY m.order_number, l.order_number, l.id)::INTEGER AS lesson_position
+    FROM public.modules m
+    JOIN public.lessons l ON l.module_id = m.id
+    WHERE m.course_id = p_course_id
+  ),
+  students AS (
+    SELECT e.user_id, e.enrolled_at, (e.completed_at IS NOT NULL OR COALESCE(e.progress, 0) >= 100) AS is_completed
+    FROM public.enrollments e
+    WHERE e.course_id = p_course_id
+  ),
+  completions AS (
+    SELECT
+      s.user_id,
+      cl.lesson_id,
+      EXTRACT(EPOCH FROM lp.completed_at - LAG(lp.completed_at, 1, s.enrolled_at) OVER (
+        PARTITION BY s.user_id ORDER BY lp.completed_at
+      )) AS interval_seconds
+    FROM students s
+    JOIN public.lesson_progress lp ON lp.user_id = s.user_id AND lp.completed
+    JOIN course_lessons cl ON cl.lesson_id = lp.lesson_id
+  ),
+  -- Primeira aula pendente, na ordem do curso, de cada aluno que ainda não concluiu o curso
+  stalls AS (
+    SELECT s.user_id, MIN(cl.lesson_position) AS lesson_position
+    FROM students s
+    CROSS JOIN course_lessons cl
+    WHERE NOT s.is_completed
+      AND NOT EXISTS (
+        SELECT 1 FROM completions c WHERE c.user_id = s.user_id AND c.lesson_id = cl.lesson_id
+      )
+    GROUP BY s.user_id
+  )
+  SELECT
+    cl.module_id,
+    cl.module_title,
+    cl.module_order,
+    cl.lesson_id,
+    cl.lesson_title,
+    cl.lesson_order,
+    cl.lesson_position,
+    (SELECT COUNT(*) FROM students)::INTEGER,
+    (SELECT COUNT(*) FROM completions c WHERE c.lesson_id = cl.lesson_id)::INTEGER,
+    (
+      SELECT ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY c.interval_seconds)::NUMERIC)
+      FROM completions c
+      WHERE c.lesson_id = cl.lesson_id AND c.interval_seconds IS NOT NULL
+    ),
+    (SELECT COUNT(*) FROM stalls st WHERE st.lesson_position = cl.lesson_position)::INTEGER
+  FROM course_lessons cl
+  ORDER BY cl.lesson_position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_course_engagement_report(UUID) TO authenticated;
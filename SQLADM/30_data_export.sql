@@ -0,0 +1,202 @@
+-- SQL para a Exportação de Dados (CSV/XLSX) da área administrativa
+
+-- As exportações buscam os dados em páginas (p_limit/p_offset), aplicando no banco os mesmos filtros
+-- ativos na tela. Cursos e aulas são lidos direto das tabelas; usuários e matrículas precisam do
+-- e-mail e do papel em auth.users, e certificados podem ser filtrados pela turma, por isso usam as funções abaixo
+
+-- Usuários com totais de matrículas, cursos concluídos e certificados válidos
+CREATE OR REPLACE FUNCTION public.export_users(
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  email TEXT,
+  role TEXT,
+  job_title TEXT,
+  company TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  enrollment_count INTEGER,
+  completed_count INTEGER,
+  certificate_count INTEGER
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem exportar dados';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    COALESCE(p.name, u.raw_user_meta_data->>'name', '')::TEXT,
+    u.email::TEXT,
+    COALESCE(u.raw_user_meta_data->>'role', 'student')::TEXT,
+    p.job_title,
+    p.company,
+    u.created_at,
+    u.last_sign_in_at,
+    (SELECT COUNT(*) FROM public.enrollments e WHERE e.user_id = u.id)::INTEGER,
+    (SELECT COUNT(*) FROM public.enrollments e WHERE e.user_id = u.id AND e.completed_at IS NOT NULL)::INTEGER,
+    (SELECT COUNT(*) FROM public.certificates c WHERE c.user_id = u.id AND c.revoked_at IS NULL)::INTEGER
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  WHERE p_search IS NULL
+    OR COALESCE(p.name, '') ILIKE '%' || p_search || '%'
+    OR u.email ILIKE '%' || p_search || '%'
+  ORDER BY u.created_at, u.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Matrículas com o progresso do aluno (aulas concluídas) e a situação do certificado
+-- p_group_id restringe aos membros da turma (32_user_groups.sql); a versão anterior, sem o filtro, é removida
+DROP FUNCTION IF EXISTS public.export_enrollments(UUID, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.export_enrollments(
+  p_course_id UUID DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  enrollment_id UUID,
+  user_id UUID,
+  user_name TEXT,
+  user_email TEXT,
+  course_id UUID,
+  course_title TEXT,
+  enrolled_at TIMESTAMP WITH TIME ZONE,
+  progress INTEGER,
+  completed_lessons INTEGER,
+  total_lessons INTEGER,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  last_activity_at TIMESTAMP WITH TIME ZONE,
+  certificate_issued_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem exportar dados';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.user_id,
+    COALESCE(p.name, u.raw_user_meta_data->>'name', '')::TEXT,
+    u.email::TEXT,
+    e.course_id,
+    c.title,
+    e.enrolled_at,
+    COALESCE(e.progress, 0),
+    (
+      SELECT COUNT(*)
+      FROM public.lesson_progress lp
+      JOIN public.lessons l ON l.id = lp.lesson_id
+      JOIN public.modules m ON m.id = l.module_id
+      WHERE lp.user_id = e.user_id AND m.course_id = e.course_id AND lp.completed
+    )::INTEGER,
+    (
+      SELECT COUNT(*)
+      FROM public.lessons l
+      JOIN public.modules m ON m.id = l.module_id
+      WHERE m.course_id = e.course_id
+    )::INTEGER,
+    e.completed_at,
+    (
+      SELECT MAX(GREATEST(lp.completed_at, lp.last_watched_at))
+      FROM public.lesson_progress lp
+      JOIN public.lessons l ON l.id = lp.lesson_id
+      JOIN public.modules m ON m.id = l.module_id
+      WHERE lp.user_id = e.user_id AND m.course_id = e.course_id
+    ),
+    (
+      SELECT MAX(cert.issue_date)
+      FROM public.certificates cert
+      WHERE cert.user_id = e.user_id AND cert.course_id = e.course_id AND cert.revoked_at IS NULL
+    )
+  FROM public.enrollments e
+  JOIN public.courses c ON c.id = e.course_id
+  JOIN auth.users u ON u.id = e.user_id
+  LEFT JOIN public.profiles p ON p.id = e.user_id
+  WHERE (p_course_id IS NULL OR e.course_id = p_course_id)
+    AND (
+      p_group_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.user_group_members gm WHERE gm.group_id = p_group_id AND gm.user_id = e.user_id
+      )
+    )
+    AND (
+      p_search IS NULL
+      OR COALESCE(p.name, '') ILIKE '%' || p_search || '%'
+      OR u.email ILIKE '%' || p_search || '%'
+      OR c.title ILIKE '%' || p_search || '%'
+    )
+  ORDER BY e.enrolled_at, e.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Certificados emitidos, dos mais recentes para os mais antigos
+-- p_group_id restringe aos membros da turma (32_user_groups.sql)
+CREATE OR REPLACE FUNCTION public.export_certificates(
+  p_course_id UUID DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_name TEXT,
+  course_name TEXT,
+  serial_number TEXT,
+  issue_date TIMESTAMP WITH TIME ZONE,
+  expiry_date TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revocation_reason TEXT,
+  superseded_by_id UUID
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem exportar dados';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cert.id,
+    cert.user_name,
+    cert.course_name,
+    cert.serial_number,
+    cert.issue_date,
+    cert.expiry_date,
+    cert.revoked_at,
+    cert.revocation_reason,
+    cert.superseded_by_id
+  FROM public.certificates cert
+  WHERE (p_course_id IS NULL OR cert.course_id = p_course_id)
+    AND (
+      p_group_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.user_group_members gm WHERE gm.group_id = p_group_id AND gm.user_id = cert.user_id
+      )
+    )
+    AND (
+      p_search IS NULL
+      OR cert.user_name ILIKE '%' || p_search || '%'
+      OR cert.course_name ILIKE '%' || p_search || '%'
+    )
+  ORDER BY cert.issue_date DESC, cert.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.export_users(TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.export_enrollments(UUID, TEXT, UUID, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.export_certificates(UUID, TEXT, UUID, INTEGER, INTEGER) TO authenticated;
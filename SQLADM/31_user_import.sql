@@ -0,0 +1,169 @@
+-- SQL para a Importação de Usuários por CSV
+
+-- As contas novas são criadas pelo convite por e-mail do Supabase Auth (enviado pelo navegador);
+-- estas funções fazem a simulação da importação e aplicam perfil, papel, turma e matrículas
+
+-- Configuração do Supabase Auth para os convites:
+--   * inclua <endereço do site>/convite nas URLs de redirecionamento permitidas
+--   * em ambiente local os e-mails ficam no Inbucket (http://localhost:54324); em produção, configure um
+--     SMTP próprio e aumente o limite de e-mails por hora para importar turmas grandes
+
+-- Simulação (dry-run): para cada linha do arquivo ({ "email", "course_ids" }), na mesma ordem,
+-- indica se o usuário já existe, em quais dos cursos listados ele já está matriculado e quais
+-- matrículas seriam recusadas por pré-requisitos pendentes
+CREATE OR REPLACE FUNCTION public.preview_user_import(p_rows JSONB)
+RETURNS TABLE (
+  row_index INTEGER,
+  user_id UUID,
+  current_name TEXT,
+  current_role TEXT,
+  enrolled_course_ids UUID[],
+  blocked_courses TEXT[]
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem importar usuários';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_rows, '[]'::jsonb)) > 2000 THEN
+    RAISE EXCEPTION 'O arquivo pode ter no máximo 2000 linhas por importação';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.idx,
+    u.id,
+    COALESCE(p.name, u.raw_user_meta_data->>'name')::TEXT,
+    CASE WHEN u.id IS NULL THEN NULL ELSE COALESCE(u.raw_user_meta_data->>'role', 'student') END::TEXT,
+    ARRAY(
+      SELECT e.course_id
+      FROM public.enrollments e
+      WHERE e.user_id = u.id AND e.course_id = ANY (r.course_ids)
+    ),
+    ARRAY(
+      SELECT c.title || ' (pré-requisito: ' || missing.titles || ')'
+      FROM unnest(r.course_ids) AS rc(course_id)
+      JOIN public.courses c ON c.id = rc.course_id
+      CROSS JOIN LATERAL (
+        SELECT string_agg(m.title, ', ') AS titles
+        FROM public.get_missing_course_prerequisites(u.id, rc.course_id) m
+      ) missing
+      WHERE missing.titles IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.enrollments e WHERE e.user_id = u.id AND e.course_id = rc.course_id
+        )
+    )
+  FROM (
+    SELECT
+      (item.ordinality - 1)::INTEGER AS idx,
+      lower(trim(item.value->>'email')) AS email,
+      ARRAY(
+        SELECT jsonb_array_elements_text(COALESCE(item.value->'course_ids', '[]'::jsonb))::UUID
+      ) AS course_ids
+    FROM jsonb_array_elements(COALESCE(p_rows, '[]'::jsonb)) WITH ORDINALITY AS item(value, ordinality)
+  ) r
+  LEFT JOIN auth.users u ON lower(u.email) = r.email
+  LEFT JOIN public.profiles p ON p.id = u.id
+  ORDER BY r.idx;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Aplica uma linha da importação a um usuário existente (ou recém-convidado):
+-- atualiza nome e papel (valores vazios mantêm os atuais) e matricula nos cursos listados.
+-- Com p_group_name, o usuário entra na turma de mesmo nome (criada se não existir) e é matriculado
+-- nos cursos dela pelo trigger de 32_user_groups.sql.
+-- Matrículas recusadas (ex.: pré-requisitos pendentes) não interrompem a linha e são devolvidas em skipped_courses
+CREATE OR REPLACE FUNCTION public.import_user(
+  p_email TEXT,
+  p_name TEXT DEFAULT NULL,
+  p_role TEXT DEFAULT NULL,
+  p_group_name TEXT DEFAULT NULL,
+  p_course_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  user_id UUID,
+  enrolled_count INTEGER,
+  skipped_courses TEXT[]
+) AS $$
+DECLARE
+  v_user_id UUID;
+  v_name TEXT := NULLIF(trim(p_name), '');
+  v_group_name TEXT := NULLIF(trim(p_group_name), '');
+  v_group_id UUID;
+  v_course RECORD;
+  v_enrolled INTEGER := 0;
+  v_skipped TEXT[] := '{}';
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem importar usuários';
+  END IF;
+
+  IF p_role IS NOT NULL AND p_role NOT IN ('admin', 'student') THEN
+    RAISE EXCEPTION 'Papel inválido: %', p_role;
+  END IF;
+
+  SELECT u.id INTO v_user_id
+  FROM auth.users u
+  WHERE lower(u.email) = lower(trim(p_email));
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário % não encontrado', p_email;
+  END IF;
+
+  IF v_user_id = auth.uid() AND p_role = 'student' THEN
+    RAISE EXCEPTION 'Você não pode remover o seu próprio acesso de administrador';
+  END IF;
+
+  -- Nome e papel ficam nos metadados do Auth, de onde is_admin() lê o papel
+  UPDATE auth.users u
+  SET raw_user_meta_data = COALESCE(u.raw_user_meta_data, '{}'::jsonb)
+    || jsonb_strip_nulls(jsonb_build_object('name', v_name, 'full_name', v_name, 'role', p_role))
+  WHERE u.id = v_user_id;
+
+  INSERT INTO public.profiles AS p (id, name)
+  VALUES (v_user_id, COALESCE(v_name, p_email))
+  ON CONFLICT (id) DO UPDATE
+  SET name = COALESCE(v_name, p.name);
+
+  FOR v_course IN
+    SELECT c.id, c.title
+    FROM unnest(COALESCE(p_course_ids, '{}')) AS rc(course_id)
+    JOIN public.courses c ON c.id = rc.course_id
+  LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.enrollments e WHERE e.user_id = v_user_id AND e.course_id = v_course.id
+    );
+
+    BEGIN
+      INSERT INTO public.enrollments (user_id, course_id) VALUES (v_user_id, v_course.id);
+      v_enrolled := v_enrolled + 1;
+    EXCEPTION WHEN OTHERS THEN
+      v_skipped := v_skipped || (v_course.title || ': ' || SQLERRM);
+    END;
+  END LOOP;
+
+  -- Depois dos cursos listados, para que enrolled_count conte só as matrículas pedidas no arquivo
+  IF v_group_name IS NOT NULL THEN
+    SELECT g.id INTO v_group_id
+    FROM public.user_groups g
+    WHERE lower(g.name) = lower(v_group_name);
+
+    IF v_group_id IS NULL THEN
+      INSERT INTO public.user_groups (name) VALUES (v_group_name)
+      RETURNING id INTO v_group_id;
+    END IF;
+
+    -- NOT EXISTS em vez de ON CONFLICT (user_id): o nome conflita com a coluna de retorno da função
+    INSERT INTO public.user_group_members (group_id, user_id)
+    SELECT v_group_id, v_user_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.user_group_members gm WHERE gm.group_id = v_group_id AND gm.user_id = v_user_id
+    );
+  END IF;
+
+  RETURN QUERY SELECT v_user_id, v_enrolled, v_skipped;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.preview_user_import(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.import_user(TEXT, TEXT, TEXT, TEXT, UUID[]) TO authenticated;
@@ -0,0 +1,189 @@
+-- SQL para as Turmas (grupos de usuários)
+
+-- As tabelas user_groups, user_group_members e user_group_courses são criadas em 09_all_tables.sql
+
+-- Políticas: somente administradores consultam e gerenciam turmas, membros e cursos das turmas
+CREATE POLICY IF NOT EXISTS "Admins can manage user groups"
+  ON public.user_groups
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Admins can manage user group members"
+  ON public.user_group_members
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY IF NOT EXISTS "Admins can manage user group courses"
+  ON public.user_group_courses
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP TRIGGER IF EXISTS update_user_groups_updated_at ON public.user_groups;
+CREATE TRIGGER update_user_groups_updated_at
+BEFORE UPDATE ON public.user_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Matricula os membros da turma nos cursos da turma (opcionalmente só um membro ou só um curso).
+-- Cursos com pré-requisitos pendentes (18_course_prerequisites.sql) ficam de fora e são
+-- matriculados quando o aluno obtiver os certificados exigidos (trigger em certificates abaixo).
+-- Retorna as matrículas criadas. Uso interno (triggers); o frontend usa enroll_user_group_members
+CREATE OR REPLACE FUNCTION public.enroll_user_group_members_internal(
+  p_group_id UUID,
+  p_user_id UUID,
+  p_course_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_enrolled INTEGER;
+BEGIN
+  INSERT INTO public.enrollments (user_id, course_id, progress)
+  SELECT m.user_id, gc.course_id, 0
+  FROM public.user_group_members m
+  JOIN public.user_group_courses gc ON gc.group_id = m.group_id
+  WHERE m.group_id = p_group_id
+    AND (p_user_id IS NULL OR m.user_id = p_user_id)
+    AND (p_course_id IS NULL OR gc.course_id = p_course_id)
+    AND NOT EXISTS (SELECT 1 FROM public.get_missing_course_prerequisites(m.user_id, gc.course_id))
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_enrolled = ROW_COUNT;
+  RETURN v_enrolled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.enroll_user_group_members_internal(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sincronização das matrículas da turma pela administração
+CREATE OR REPLACE FUNCTION public.enroll_user_group_members(
+  p_group_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_course_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem matricular turmas';
+  END IF;
+
+  RETURN public.enroll_user_group_members_internal(p_group_id, p_user_id, p_course_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Novo membro: matrícula nos cursos que a turma já tem
+CREATE OR REPLACE FUNCTION public.enroll_new_user_group_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.enroll_user_group_members_internal(NEW.group_id, NEW.user_id, NULL);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_user_group_member_added ON public.user_group_members;
+CREATE TRIGGER on_user_group_member_added
+AFTER INSERT ON public.user_group_members
+FOR EACH ROW
+EXECUTE FUNCTION public.enroll_new_user_group_member();
+
+-- Novo curso da turma: matrícula de todos os membros atuais
+-- (remover o curso ou o membro da turma mantém as matrículas já feitas)
+CREATE OR REPLACE FUNCTION public.enroll_user_group_in_new_course()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.enroll_user_group_members_internal(NEW.group_id, NULL, NEW.course_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_user_group_course_added ON public.user_group_courses;
+CREATE TRIGGER on_user_group_course_added
+AFTER INSERT ON public.user_group_courses
+FOR EACH ROW
+EXECUTE FUNCTION public.enroll_user_group_in_new_course();
+
+-- Novo certificado de curso: o aluno pode ter cumprido o pré-requisito de cursos das suas turmas
+-- que ficaram de fora. Cobre a conclusão do curso (o certificado é emitido pelo trigger de conclusão)
+-- e as emissões posteriores (carência, emissão pela administração, renovação)
+CREATE OR REPLACE FUNCTION public.enroll_user_groups_after_certificate()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_group_id UUID;
+BEGIN
+  FOR v_group_id IN
+    SELECT m.group_id FROM public.user_group_members m WHERE m.user_id = NEW.user_id
+  LOOP
+    PERFORM public.enroll_user_group_members_internal(v_group_id, NEW.user_id, NULL);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_certificate_issued_enroll_user_groups ON public.certificates;
+CREATE TRIGGER on_certificate_issued_enroll_user_groups
+AFTER INSERT ON public.certificates
+FOR EACH ROW
+WHEN (NEW.course_id IS NOT NULL AND NEW.revoked_at IS NULL)
+EXECUTE FUNCTION public.enroll_user_groups_after_certificate();
+
+-- Painel da turma: uma linha por membro e curso da turma, com o progresso da matrícula
+-- (enrolled_at nulo indica que o membro ainda não está matriculado, ex.: pré-requisitos pendentes)
+CREATE OR REPLACE FUNCTION public.get_user_group_progress(p_group_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  user_name TEXT,
+  user_email TEXT,
+  course_id UUID,
+  course_title TEXT,
+  enrolled_at TIMESTAMP WITH TIME ZONE,
+  progress INTEGER,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  last_activity_at TIMESTAMP WITH TIME ZONE,
+  certificate_issued_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Apenas administradores podem ver o painel das turmas';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.user_id,
+    COALESCE(p.name, u.raw_user_meta_data->>'name', '')::TEXT,
+    u.email::TEXT,
+    c.id,
+    c.title,
+    e.enrolled_at,
+    COALESCE(e.progress, 0),
+    e.completed_at,
+    (
+      SELECT MAX(GREATEST(lp.completed_at, lp.last_watched_at))
+      FROM public.lesson_progress lp
+      JOIN public.lessons l ON l.id = lp.lesson_id
+      JOIN public.modules mo ON mo.id = l.module_id
+      WHERE lp.user_id = m.user_id AND mo.course_id = c.id
+    ),
+    (
+      SELECT MAX(cert.issue_date)
+      FROM public.certificates cert
+      WHERE cert.user_id = m.user_id AND cert.course_id = c.id AND cert.revoked_at IS NULL
+    )
+  FROM public.user_group_members m
+  JOIN public.user_group_courses gc ON gc.group_id = m.group_id
+  JOIN public.courses c ON c.id = gc.course_id
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  LEFT JOIN public.enrollments e ON e.user_id = m.user_id AND e.course_id = c.id
+  WHERE m.group_id = p_group_id
+  ORDER BY COALESCE(p.name, u.raw_user_meta_data->>'name', u.email), m.user_id, c.title;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT SELECT ON public.user_groups TO authenticated;
+GRANT SELECT ON public.user_group_members TO authenticated;
+GRANT SELECT ON public.user_group_courses TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enroll_user_group_members(UUID, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_group_progress(UUID) TO authenticated;
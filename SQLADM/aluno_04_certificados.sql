@@ -26,19 +26,9 @@ ORDER BY
 -- Function para verificar se um aluno é elegível para receber um certificado
 CREATE OR REPLACE FUNCTION public.check_certificate_eligibility(p_course_id UUID)
 RETURNS BOOLEAN AS $$
-DECLARE
-  v_progress INTEGER;
-  v_eligible BOOLEAN;
 BEGIN
-  -- Get current progress for the course
-  SELECT progress INTO v_progress
-  FROM public.enrollments
-  WHERE user_id = auth.uid() AND course_id = p_course_id;
-  
-  -- Check if eligible (100% progress)
-  v_eligible := (v_progress = 100);
-  
-  RETURN v_eligible;
+  -- As regras do curso são avaliadas por evaluate_certificate_rules (12_certificate_rules.sql)
+  RETURN public.is_certificate_eligible(auth.uid(), p_course_id);
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
@@ -64,9 +54,20 @@ BEGIN
   v_eligible := public.check_certificate_eligibility(p_course_id);
   
   IF NOT v_eligible THEN
-    RAISE EXCEPTION 'Você não é elegível para obter este certificado. É necessário concluir 100%% do curso.';
+    RAISE EXCEPTION 'Você não é elegível para obter este certificado. Verifique os requisitos pendentes do curso.';
   END IF;
-  
+
+  -- Certificado revogado por um administrador não é reemitido automaticamente
+  IF EXISTS (
+    SELECT 1 FROM public.certificates
+    WHERE user_id = v_user_id AND course_id = p_course_id AND revoked_at IS NOT NULL
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.certificates
+    WHERE user_id = v_user_id AND course_id = p_course_id AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Seu certificado deste curso foi revogado. Entre em contato com a administração.';
+  END IF;
+
   -- Get course name
   SELECT title INTO v_course_name
   FROM public.courses
@@ -92,37 +93,72 @@ BEGIN
     v_user_name,
     now()
   )
-  ON CONFLICT (user_id, course_id)
-  DO UPDATE SET
-    issue_date = now()
+  -- Certificado já emitido não é alterado: nomes e data de emissão fazem parte da assinatura,
+  -- e correções passam por reissue_certificate (15_certificate_audit.sql)
+  ON CONFLICT (user_id, course_id) WHERE revoked_at IS NULL
+  DO NOTHING
   RETURNING id INTO v_certificate_id;
+
+  IF v_certificate_id IS NULL THEN
+    SELECT id INTO v_certificate_id
+    FROM public.certificates
+    WHERE user_id = v_user_id AND course_id = p_course_id AND revoked_at IS NULL;
+  END IF;
   
   RETURN v_certificate_id;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Function para verificar a autenticidade de um certificado
+-- Usada pela página pública /verificar/:certificateId, por isso também é liberada para anon
+-- is_valid exige assinatura íntegra (14_certificate_signatures.sql) e certificado não revogado nem expirado
+DROP FUNCTION IF EXISTS public.verify_certificate(UUID);
 CREATE OR REPLACE FUNCTION public.verify_certificate(p_certificate_id UUID)
 RETURNS TABLE (
+  certificate_id UUID,
   is_valid BOOLEAN,
+  found BOOLEAN,
+  signature_valid BOOLEAN,
+  serial_number TEXT,
   course_name TEXT,
   user_name TEXT,
-  issue_date TIMESTAMP WITH TIME ZONE
+  course_hours INTEGER,
+  issue_date TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revocation_reason TEXT,
+  superseded_by_id UUID,
+  expiry_date TIMESTAMP WITH TIME ZONE
 ) AS $$
 BEGIN
   RETURN QUERY
   SELECT
-    TRUE AS is_valid,
+    cert.id AS certificate_id,
+    (public.is_certificate_signature_valid(cert.id)
+      AND cert.revoked_at IS NULL
+      AND (cert.expiry_date IS NULL OR cert.expiry_date > now())) AS is_valid,
+    TRUE AS found,
+    public.is_certificate_signature_valid(cert.id) AS signature_valid,
+    cert.serial_number,
     cert.course_name,
     cert.user_name,
-    cert.issue_date
+    cert.course_hours,
+    cert.issue_date,
+    cert.revoked_at,
+    cert.revocation_reason,
+    cert.superseded_by_id,
+    cert.expiry_date
   FROM
     public.certificates cert
   WHERE
     cert.id = p_certificate_id;
     
   IF NOT FOUND THEN
-    RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN QUERY SELECT
+      p_certificate_id, FALSE, FALSE, FALSE, NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::INTEGER,
+      NULL::TIMESTAMP WITH TIME ZONE, NULL::TIMESTAMP WITH TIME ZONE, NULL::TEXT,
+      NULL::UUID, NULL::TIMESTAMP WITH TIME ZONE;
   END IF;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.verify_certificate(UUID) TO anon, authenticated;
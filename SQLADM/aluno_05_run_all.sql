@@ -11,5 +11,24 @@
 \i 'SQLADM/aluno_03_meus_cursos.sql'
 \i 'SQLADM/aluno_04_certificados.sql'
 
+-- 3. Funcionalidades compartilhadas com a área administrativa:
+\i 'SQLADM/11_quizzes.sql'
+\i 'SQLADM/12_certificate_rules.sql'
+\i 'SQLADM/13_certificate_templates.sql'
+\i 'SQLADM/14_certificate_signatures.sql'
+\i 'SQLADM/15_certificate_audit.sql'
+\i 'SQLADM/16_certificate_expiry.sql'
+\i 'SQLADM/17_learning_paths.sql'
+\i 'SQLADM/18_course_prerequisites.sql'
+\i 'SQLADM/19_video_watch_progress.sql'
+\i 'SQLADM/20_mandatory_viewing.sql'
+\i 'SQLADM/21_content_release.sql'
+\i 'SQLADM/22_lesson_attachments.sql'
+\i 'SQLADM/23_lesson_videos.sql'
+\i 'SQLADM/24_lesson_captions.sql'
+\i 'SQLADM/25_lesson_notes.sql'
+\i 'SQLADM/26_lesson_discussions.sql'
+\i 'SQLADM/27_course_reviews.sql'
+
 -- Este script pode ser executado no psql para configurar todas as funcionalidades da área do aluno:
 -- psql -h <hostname> -U <username> -d <database> -a -f SQLADM/aluno_05_run_all.sql
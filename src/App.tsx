@@ -15,19 +15,31 @@ import NetworkErrorBoundary from "./components/NetworkErrorBoundary";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
+import AcceptInvitation from "./pages/AcceptInvitation";
 import Dashboard from "./pages/Dashboard";
 import CourseCatalog from "./pages/CourseCatalog";
+import LearningPathCatalog from "./pages/LearningPathCatalog";
+import LearningPathDetails from "./pages/LearningPathDetails";
 import CourseDetails from "./pages/CourseDetails";
 import CourseContent from "./pages/CourseContent";
 import Certificate from "./pages/Certificate";
+import VerifyCertificate from "./pages/VerifyCertificate";
 import CoursePlayer from "./pages/aluno/CoursePlayer";
 import MeusCertificados from "./pages/aluno/MeusCertificados";
+import MinhasAnotacoes from "./pages/aluno/MinhasAnotacoes";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import AdminCourses from "./pages/admin/AdminCourses";
 import AdminModules from "./pages/admin/AdminModules";
 import AdminLessons from "./pages/admin/AdminLessons";
 import AdminUsers from "./pages/admin/AdminUsers";
 import AdminCertificates from "./pages/admin/AdminCertificates";
+import AdminCertificateTemplates from "./pages/admin/AdminCertificateTemplates";
+import AdminLearningPaths from "./pages/admin/AdminLearningPaths";
+import AdminGroups from "./pages/admin/AdminGroups";
+import AdminGroupDashboard from "./pages/admin/AdminGroupDashboard";
+import AdminDiscussions from "./pages/admin/AdminDiscussions";
+import AdminAnalytics from "./pages/admin/AdminAnalytics";
+import AdminCourseReport from "./pages/admin/AdminCourseReport";
 import AdminProfiles from "./pages/admin/AdminProfiles";
 import AdminMakeUserAdmin from "./pages/admin/AdminMakeUserAdmin";
 import GerenciadorCertificados from "./pages/admin/GerenciadorCertificados";
@@ -38,19 +50,24 @@ import NotFound from "./pages/NotFound";
 // Wrapper component to initialize real-time subscriptions
 const RealtimeSubscriptionsInitializer = ({ children }: { children: React.ReactNode }) => {
   useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let isUnmounted = false;
+
     // Dynamically import to avoid circular dependencies
     import('./utils/realtimeSubscriptions').then(({ initializeRealtimeSubscriptions }) => {
-      const unsubscribe = initializeRealtimeSubscriptions();
-      
-      // Clean up subscriptions when component unmounts
-      return () => {
-        if (unsubscribe) {
-          unsubscribe();
-        }
-      };
+      if (isUnmounted) return;
+      unsubscribe = initializeRealtimeSubscriptions();
     }).catch(error => {
       console.error('Failed to initialize real-time subscriptions:', error);
     });
+
+    // Clean up subscriptions when component unmounts
+    return () => {
+      isUnmounted = true;
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
   }, []);
   
   return <>{children}</>;
@@ -61,6 +78,7 @@ const App = () => (
     <ThemeProvider>
       <AuthProvider>
         <AppDataProvider>
+          <RealtimeSubscriptionsInitializer>
           <TooltipProvider>
             <Toaster />
             <Sonner />
@@ -72,6 +90,8 @@ const App = () => (
               <Route path="/" element={<Index />} />
               <Route path="/login" element={<Login />} />
               <Route path="/register" element={<Register />} />
+              <Route path="/convite" element={<AcceptInvitation />} />
+              <Route path="/verificar/:certificateId" element={<VerifyCertificate />} />
               
               {/* Protected student routes */}
               <Route element={<ProtectedRoute />}>
@@ -79,8 +99,11 @@ const App = () => (
                 <Route path="/courses" element={<CourseCatalog />} />
                 <Route path="/courses/:courseId" element={<CourseDetails />} />
                 <Route path="/courses/:courseId/content" element={<CourseContent />} />
+                <Route path="/learning-paths" element={<LearningPathCatalog />} />
+                <Route path="/learning-paths/:learningPathId" element={<LearningPathDetails />} />
                 <Route path="/aluno/curso/:id/player" element={<CoursePlayer />} />
                 <Route path="/aluno/certificados" element={<MeusCertificados />} />
+                <Route path="/aluno/anotacoes" element={<MinhasAnotacoes />} />
                 <Route path="/certificates/:certificateId" element={<Certificate />} />
                 <Route path="/aluno/certificado/:certificateId" element={<Certificate />} />
               </Route>
@@ -89,12 +112,19 @@ const App = () => (
               <Route element={<AdminRoute />}>
                 <Route path="/admin" element={<Navigate to="/admin/dashboard" />} />
                 <Route path="/admin/dashboard" element={<AdminDashboard />} />
+                <Route path="/admin/analytics" element={<AdminAnalytics />} />
                 <Route path="/admin/courses" element={<AdminCourses />} />
+                <Route path="/admin/courses/:courseId/report" element={<AdminCourseReport />} />
                 <Route path="/admin/modules" element={<AdminModules />} />
                 <Route path="/admin/lessons" element={<AdminLessons />} />
                 <Route path="/admin/users" element={<AdminUsers />} />
+                <Route path="/admin/groups" element={<AdminGroups />} />
+                <Route path="/admin/groups/:groupId" element={<AdminGroupDashboard />} />
                 <Route path="/admin/make-admin" element={<AdminMakeUserAdmin />} />
                 <Route path="/admin/certificates" element={<AdminCertificates />} />
+                <Route path="/admin/certificate-templates" element={<AdminCertificateTemplates />} />
+                <Route path="/admin/learning-paths" element={<AdminLearningPaths />} />
+                <Route path="/admin/discussions" element={<AdminDiscussions />} />
                 <Route path="/admin/profiles" element={<AdminProfiles />} />
                 <Route path="/admin/gerenciador-certificados" element={<GerenciadorCertificados />} />
               </Route>
@@ -105,6 +135,7 @@ const App = () => (
               </BrowserRouter>
             </div>
           </TooltipProvider>
+          </RealtimeSubscriptionsInitializer>
         </AppDataProvider>
       </AuthProvider>
     </ThemeProvider>
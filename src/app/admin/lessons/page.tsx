@@ -329,6 +329,7 @@ export default function AdminLessons() {
         <LessonForm
           formData={formData}
           handleInputChange={handleInputChange}
+          handleContentChange={(content) => setFormData((prev) => ({ ...prev, content }))}
           handleSubmit={handleSubmit}
           isSubmitting={isSubmitting}
           editingLessonId={editingLesson?.id || null}
@@ -1,7 +1,7 @@
 
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
-import { BookOpen, GraduationCap, LayoutDashboard, Users, Award, List, ShieldCheck, Menu, X } from "lucide-react";
+import { BookOpen, GraduationCap, LayoutDashboard, Users, Award, List, ShieldCheck, Menu, X, Palette, Route, MessageSquare, BarChart3, School } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Button } from "./ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "./ui/sheet";
@@ -31,11 +31,21 @@ const AdminSidebar = () => {
       icon: <LayoutDashboard size={20} />,
       href: "/admin/dashboard",
     },
+    {
+      title: "Análises",
+      icon: <BarChart3 size={20} />,
+      href: "/admin/analytics",
+    },
     {
       title: "Cursos",
       icon: <BookOpen size={20} />,
       href: "/admin/courses",
     },
+    {
+      title: "Trilhas",
+      icon: <Route size={20} />,
+      href: "/admin/learning-paths",
+    },
     {
       title: "Módulos",
       icon: <List size={20} />,
@@ -46,11 +56,21 @@ const AdminSidebar = () => {
       icon: <GraduationCap size={20} />,
       href: "/admin/lessons",
     },
+    {
+      title: "Perguntas",
+      icon: <MessageSquare size={20} />,
+      href: "/admin/discussions",
+    },
     {
       title: "Usuários",
       icon: <Users size={20} />,
       href: "/admin/users",
     },
+    {
+      title: "Turmas",
+      icon: <School size={20} />,
+      href: "/admin/groups",
+    },
     {
       title: "Definir Admin",
       icon: <ShieldCheck size={20} />,
@@ -61,6 +81,11 @@ const AdminSidebar = () => {
       icon: <Award size={20} />,
       href: "/admin/certificates",
     },
+    {
+      title: "Modelos de Certificado",
+      icon: <Palette size={20} />,
+      href: "/admin/certificate-templates",
+    },
   ];
   
   // Componente de navegação que é reutilizado tanto na versão desktop quanto na móvel
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CourseReview, CourseReviewEligibility } from "@/types";
+import { courseReviewService } from "@/services";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Eye, EyeOff, Star, Trash2 } from "lucide-react";
+
+interface CourseReviewsProps {
+  courseId: string;
+  userId: string | null;
+  isAdmin: boolean;
+  onReviewsChange?: () => void; // Avisa a página para recarregar a nota média do curso
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+const StarRating = ({ value, onChange }: { value: number; onChange?: (value: number) => void }) => (
+  <div className="flex items-center gap-0.5">
+    {STARS.map((star) => (
+      <button
+        key={star}
+        type="button"
+        onClick={() => onChange?.(star)}
+        disabled={!onChange}
+        className={onChange ? "cursor-pointer" : "cursor-default"}
+        title={onChange ? `${star} ${star === 1 ? "estrela" : "estrelas"}` : undefined}
+      >
+        <Star className={`h-4 w-4 ${star <= value ? "fill-yellow-500 text-yellow-500" : "text-muted-foreground"}`} />
+      </button>
+    ))}
+  </div>
+);
+
+// Avaliações do curso, exibidas na aba "Avaliações" da página de detalhes
+const CourseReviews = ({ courseId, userId, isAdmin, onReviewsChange }: CourseReviewsProps) => {
+  const [reviews, setReviews] = useState<CourseReview[]>([]);
+  const [eligibility, setEligibility] = useState<CourseReviewEligibility | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  const ownReview = reviews.find((review) => review.userId === userId);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      const [courseReviews, reviewEligibility] = await Promise.all([
+        courseReviewService.getCourseReviews(courseId),
+        userId ? courseReviewService.getReviewEligibility(courseId) : Promise.resolve(null),
+      ]);
+      setReviews(courseReviews);
+      setEligibility(reviewEligibility);
+
+      const currentReview = courseReviews.find((review) => review.userId === userId);
+      setRating(currentReview?.rating || 0);
+      setComment(currentReview?.comment || "");
+    } catch (error) {
+      console.error("Erro ao carregar avaliações do curso:", error);
+      setReviews([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId, userId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleSave = async () => {
+    if (!userId) return;
+
+    setIsSubmitting(true);
+    try {
+      await courseReviewService.saveReview(userId, courseId, rating, comment);
+      toast.success(ownReview ? "Avaliação atualizada" : "Obrigado pela sua avaliação!");
+      await loadReviews();
+      onReviewsChange?.();
+    } catch (error) {
+      console.error("Erro ao salvar avaliação:", error);
+      toast.error(error instanceof Error ? error.message : "Não foi possível salvar a avaliação");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (review: CourseReview) => {
+    if (!confirm("Tem certeza que deseja excluir esta avaliação?")) return;
+
+    try {
+      await courseReviewService.deleteReview(review.id);
+      await loadReviews();
+      onReviewsChange?.();
+    } catch (error) {
+      console.error("Erro ao excluir avaliação:", error);
+      toast.error("Não foi possível excluir a avaliação");
+    }
+  };
+
+  const handleToggleHidden = async (review: CourseReview) => {
+    try {
+      await courseReviewService.setReviewHidden(review.id, !review.isHidden);
+      toast.success(review.isHidden ? "Avaliação exibida novamente" : "Avaliação ocultada");
+      await loadReviews();
+      onReviewsChange?.();
+    } catch (error) {
+      console.error("Erro ao moderar avaliação:", error);
+      toast.error("Não foi possível moderar a avaliação");
+    }
+  };
+
+  const renderReviewForm = () => {
+    if (!userId || !eligibility?.isEnrolled) return null;
+
+    if (!eligibility.canReview) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          Você poderá avaliar este curso ao concluir {eligibility.minProgress}% do conteúdo (seu progresso atual é{" "}
+          {eligibility.progress}%).
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2 rounded-md border p-4">
+        <p className="font-medium">{ownReview ? "Sua avaliação" : "Avalie este curso"}</p>
+        <StarRating value={rating} onChange={setRating} />
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Conte o que achou do curso (opcional)..."
+          rows={3}
+          disabled={isSubmitting}
+        />
+        {ownReview?.isHidden && (
+          <p className="text-xs text-muted-foreground">
+            Sua avaliação foi ocultada por um administrador e não aparece para os outros alunos.
+          </p>
+        )}
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={isSubmitting || rating === 0}>
+            {ownReview ? "Atualizar avaliação" : "Enviar avaliação"}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {renderReviewForm()}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando avaliações...</p>
+      ) : reviews.length === 0 ? (
+        <p className="text-muted-foreground">Este curso ainda não recebeu avaliações</p>
+      ) : (
+        <ul className="space-y-3">
+          {reviews.map((review) => (
+            <li key={review.id} className={`rounded-md border p-3 space-y-1 ${review.isHidden ? "opacity-60" : ""}`}>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{review.authorName}</span>
+                <StarRating value={review.rating} />
+                <span className="text-xs text-muted-foreground">
+                  {new Date(review.createdAt).toLocaleDateString("pt-BR")}
+                </span>
+                {review.isHidden && <Badge variant="secondary">Oculta</Badge>}
+                <div className="ml-auto flex items-center gap-1">
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => handleToggleHidden(review)}
+                      title={review.isHidden ? "Exibir avaliação" : "Ocultar avaliação"}
+                    >
+                      {review.isHidden ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                    </Button>
+                  )}
+                  {(review.userId === userId || isAdmin) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => handleDelete(review)}
+                      title="Excluir"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {review.comment && <p className="text-sm whitespace-pre-wrap">{review.comment}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CourseReviews;
@@ -3,6 +3,8 @@ import { ReactNode } from "react";
 import Navbar from "./Navbar";
 import Sidebar from "./Sidebar";
 import { useTheme } from "@/contexts/ThemeContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDiscussionReplyNotifications } from "@/hooks/useDiscussionReplyNotifications";
 
 interface LayoutProps {
   children: ReactNode;
@@ -10,6 +12,10 @@ interface LayoutProps {
 
 const Layout = ({ children }: LayoutProps) => {
   const { theme } = useTheme();
+  const { user } = useAuth();
+
+  // Respostas às perguntas do aluno nas aulas chegam em qualquer página da área do aluno
+  useDiscussionReplyNotifications(user?.id);
   
   return (
     <div className="min-h-screen bg-background dark:bg-gray-950 transition-colors duration-300">
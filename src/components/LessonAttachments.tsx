@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { LessonAttachment } from "@/types";
+import { lessonAttachmentService } from "@/services";
+import { formatFileSize } from "@/utils/attachments";
+import { Button } from "@/components/ui/button";
+import { Download, FileText } from "lucide-react";
+
+interface LessonAttachmentsProps {
+  lessonId: string;
+}
+
+// Materiais da aula para download, exibidos na aba "Materiais" dos players
+const LessonAttachments = ({ lessonId }: LessonAttachmentsProps) => {
+  const [attachments, setAttachments] = useState<LessonAttachment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    lessonAttachmentService.getAttachmentsByLessonId(lessonId)
+      .then(setAttachments)
+      .catch((error) => {
+        console.error("Erro ao carregar materiais da aula:", error);
+        setAttachments([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [lessonId]);
+
+  const handleDownload = async (attachment: LessonAttachment) => {
+    setDownloadingId(attachment.id);
+    try {
+      const url = await lessonAttachmentService.getDownloadUrl(attachment);
+      window.open(url, "_blank", "noopener");
+    } catch (error) {
+      console.error("Erro ao baixar material:", error);
+      toast.error("Não foi possível baixar o material");
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Carregando materiais...</p>;
+  }
+
+  if (attachments.length === 0) {
+    return <p className="text-muted-foreground">Nenhum material disponível para esta aula</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {attachments.map((attachment) => (
+        <li key={attachment.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <FileText className="h-5 w-5 shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{attachment.fileName}</p>
+              <p className="text-xs text-muted-foreground">{formatFileSize(attachment.fileSize)}</p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleDownload(attachment)}
+            disabled={downloadingId === attachment.id}
+            className="flex items-center gap-1"
+          >
+            <Download className="h-4 w-4" />
+            Baixar
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default LessonAttachments;
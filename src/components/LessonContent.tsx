@@ -0,0 +1,17 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { renderLessonContent } from "@/utils/richText";
+
+interface LessonContentProps {
+  content: string;
+  className?: string;
+}
+
+// Renderizador único do conteúdo das aulas, compartilhado pelos players
+const LessonContent = ({ content, className }: LessonContentProps) => {
+  const html = useMemo(() => renderLessonContent(content), [content]);
+
+  return <div className={cn("lesson-content", className)} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default LessonContent;
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { LessonDiscussionPost, LessonQuestion } from "@/types";
+import { DISCUSSION_ROLE_LABELS, lessonDiscussionService } from "@/services/lessonDiscussionService";
+import { realtimeEvents } from "@/utils/realtimeSubscriptions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, MessageSquare, ThumbsUp, Trash2 } from "lucide-react";
+
+interface LessonDiscussionProps {
+  lessonId: string;
+  userId: string;
+  isAdmin: boolean;
+}
+
+const formatPostDate = (date: string) =>
+  new Date(date).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+
+// Perguntas e respostas da aula, exibidas na aba "Perguntas" do player
+const LessonDiscussion = ({ lessonId, userId, isAdmin }: LessonDiscussionProps) => {
+  const [questions, setQuestions] = useState<LessonQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [newQuestion, setNewQuestion] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState("");
+
+  const loadQuestions = useCallback(async () => {
+    try {
+      setQuestions(await lessonDiscussionService.getLessonQuestions(lessonId));
+    } catch (error) {
+      console.error("Erro ao carregar perguntas da aula:", error);
+      setQuestions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [lessonId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setReplyingTo(null);
+    loadQuestions();
+
+    // Novas perguntas e respostas de outros alunos aparecem sem recarregar a página
+    return realtimeEvents.subscribe("lesson-discussions-changed", (event: { lessonId: string }) => {
+      if (event.lessonId === lessonId) loadQuestions();
+    });
+  }, [lessonId, loadQuestions]);
+
+  const handleAsk = async () => {
+    setIsSubmitting(true);
+    try {
+      await lessonDiscussionService.askQuestion(userId, lessonId, newQuestion);
+      setNewQuestion("");
+      await loadQuestions();
+    } catch (error) {
+      console.error("Erro ao enviar pergunta:", error);
+      toast.error("Não foi possível enviar a pergunta");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReply = async (question: LessonQuestion) => {
+    setIsSubmitting(true);
+    try {
+      await lessonDiscussionService.replyToQuestion(userId, question, replyContent);
+      setReplyContent("");
+      setReplyingTo(null);
+      await loadQuestions();
+    } catch (error) {
+      console.error("Erro ao enviar resposta:", error);
+      toast.error("Não foi possível enviar a resposta");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleUpvote = async (post: LessonDiscussionPost) => {
+    try {
+      await lessonDiscussionService.setUpvoted(userId, post.id, !post.hasUpvoted);
+      await loadQuestions();
+    } catch (error) {
+      console.error("Erro ao registrar voto:", error);
+      toast.error("Não foi possível registrar o voto");
+    }
+  };
+
+  const handleToggleAnswered = async (question: LessonQuestion) => {
+    try {
+      await lessonDiscussionService.setQuestionAnswered(question.id, !question.isAnswered);
+      await loadQuestions();
+    } catch (error) {
+      console.error("Erro ao atualizar situação da pergunta:", error);
+      toast.error("Não foi possível atualizar a situação da pergunta");
+    }
+  };
+
+  const handleDelete = async (post: LessonDiscussionPost) => {
+    const message = post.parentId
+      ? "Tem certeza que deseja excluir esta resposta?"
+      : "Tem certeza que deseja excluir esta pergunta? As respostas também serão excluídas.";
+    if (!confirm(message)) return;
+
+    try {
+      await lessonDiscussionService.deletePost(post.id);
+      await loadQuestions();
+    } catch (error) {
+      console.error("Erro ao excluir mensagem:", error);
+      toast.error("Não foi possível excluir a mensagem");
+    }
+  };
+
+  const renderPost = (post: LessonDiscussionPost) => (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{post.authorName}</span>
+        {DISCUSSION_ROLE_LABELS[post.authorRole] && (
+          <Badge variant="secondary">{DISCUSSION_ROLE_LABELS[post.authorRole]}</Badge>
+        )}
+        <span className="text-xs text-muted-foreground">{formatPostDate(post.createdAt)}</span>
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{post.content}</p>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-7 px-2 gap-1 ${post.hasUpvoted ? "text-primary" : ""}`}
+          onClick={() => handleToggleUpvote(post)}
+          disabled={post.userId === userId}
+          title={post.userId === userId ? "Você não pode votar na própria mensagem" : "Útil"}
+        >
+          <ThumbsUp className="h-3 w-3" />
+          {post.upvotes}
+        </Button>
+        {(post.userId === userId || isAdmin) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => handleDelete(post)}
+            title="Excluir"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Textarea
+          value={newQuestion}
+          onChange={(e) => setNewQuestion(e.target.value)}
+          placeholder="Tem alguma dúvida sobre esta aula? Pergunte aqui..."
+          rows={3}
+          disabled={isSubmitting}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAsk} disabled={isSubmitting || !newQuestion.trim()}>
+            Enviar pergunta
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando perguntas...</p>
+      ) : questions.length === 0 ? (
+        <p className="text-muted-foreground">Nenhuma pergunta sobre esta aula ainda</p>
+      ) : (
+        <ul className="space-y-3">
+          {questions.map((question) => (
+            <li key={question.id} className="rounded-md border p-3 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                {renderPost(question)}
+                {question.isAnswered && (
+                  <Badge className="shrink-0 gap-1 bg-green-600 hover:bg-green-600">
+                    <CheckCircle className="h-3 w-3" />
+                    Respondida
+                  </Badge>
+                )}
+              </div>
+
+              {question.replies.length > 0 && (
+                <ul className="space-y-3 border-l-2 pl-4">
+                  {question.replies.map((reply) => (
+                    <li key={reply.id}>{renderPost(reply)}</li>
+                  ))}
+                </ul>
+              )}
+
+              {replyingTo === question.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={replyContent}
+                    onChange={(e) => setReplyContent(e.target.value)}
+                    placeholder="Escreva sua resposta..."
+                    rows={2}
+                    disabled={isSubmitting}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setReplyingTo(null)} disabled={isSubmitting}>
+                      Cancelar
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleReply(question)}
+                      disabled={isSubmitting || !replyContent.trim()}
+                    >
+                      Responder
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => {
+                      setReplyingTo(question.id);
+                      setReplyContent("");
+                    }}
+                  >
+                    <MessageSquare className="h-4 w-4" />
+                    Responder
+                  </Button>
+                  {(question.userId === userId || isAdmin) && (
+                    <Button variant="ghost" size="sm" onClick={() => handleToggleAnswered(question)}>
+                      {question.isAnswered ? "Reabrir pergunta" : "Marcar como respondida"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LessonDiscussion;
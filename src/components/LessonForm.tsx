@@ -10,6 +10,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useState, useEffect } from "react";
+import LessonAttachmentsEditor from "@/components/admin/lessons/LessonAttachmentsEditor";
+import RichTextEditor from "@/components/RichTextEditor";
 
 interface LessonFormData {
   title: string;
@@ -23,6 +25,7 @@ interface LessonFormData {
 interface LessonFormProps {
   formData: LessonFormData;
   handleInputChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  handleContentChange: (content: string) => void;
   handleSubmit: (e: React.FormEvent) => void;
   isSubmitting: boolean;
   editingLessonId: string | null;
@@ -31,6 +34,7 @@ interface LessonFormProps {
 const LessonForm = ({
   formData,
   handleInputChange,
+  handleContentChange,
   handleSubmit,
   isSubmitting,
   editingLessonId,
@@ -137,17 +141,19 @@ const LessonForm = ({
 
           <div className="space-y-2">
             <Label htmlFor="content" className="text-sm font-medium">Conteúdo</Label>
-            <Textarea
+            <RichTextEditor
               id="content"
-              name="content"
               value={formData.content}
-              onChange={handleInputChange}
-              placeholder="Conteúdo da aula em markdown"
-              rows={8}
-              className="min-h-[200px] resize-y"
-              maxLength={10000}
+              onChange={handleContentChange}
+              placeholder="Conteúdo da aula"
+              disabled={isSubmitting}
             />
           </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Materiais</Label>
+            <LessonAttachmentsEditor lessonId={editingLessonId} disabled={isSubmitting} />
+          </div>
         </div>
 
         <DialogFooter className="mt-6 flex flex-col sm:flex-row sm:justify-end gap-2">
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { LessonNote } from "@/types";
+import { lessonNoteService } from "@/services";
+import { compareLessonNotes, formatNoteTimestamp } from "@/utils/lessonNotes";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Clock, Pencil, Trash2 } from "lucide-react";
+
+interface LessonNotesProps {
+  lessonId: string;
+  userId: string;
+  // Posição atual do vídeo; ausente quando a aula não tem vídeo
+  getCurrentTime?: () => number;
+  onSeek: (seconds: number) => void;
+}
+
+// Anotações pessoais do aluno na aula, exibidas na aba "Anotações" do player
+const LessonNotes = ({ lessonId, userId, getCurrentTime, onSeek }: LessonNotesProps) => {
+  const [notes, setNotes] = useState<LessonNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [content, setContent] = useState("");
+  const [pinToVideo, setPinToVideo] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState("");
+
+  useEffect(() => {
+    setIsLoading(true);
+    setEditingId(null);
+    lessonNoteService.getNotesByLessonId(lessonId)
+      .then(setNotes)
+      .catch((error) => {
+        console.error("Erro ao carregar anotações da aula:", error);
+        setNotes([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [lessonId]);
+
+  const handleCreate = async () => {
+    if (!content.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const timestamp = getCurrentTime && pinToVideo ? getCurrentTime() : null;
+      const note = await lessonNoteService.createNote(userId, lessonId, content, timestamp);
+      setNotes((current) => [...current, note].sort(compareLessonNotes));
+      setContent("");
+    } catch (error) {
+      console.error("Erro ao salvar anotação:", error);
+      toast.error("Não foi possível salvar a anotação");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async (noteId: string) => {
+    if (!editingContent.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await lessonNoteService.updateNote(noteId, editingContent);
+      setNotes((current) => current.map((note) => (note.id === noteId ? updated : note)));
+      setEditingId(null);
+    } catch (error) {
+      console.error("Erro ao atualizar anotação:", error);
+      toast.error("Não foi possível atualizar a anotação");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (noteId: string) => {
+    if (!confirm("Tem certeza que deseja excluir esta anotação?")) return;
+
+    try {
+      await lessonNoteService.deleteNote(noteId);
+      setNotes((current) => current.filter((note) => note.id !== noteId));
+    } catch (error) {
+      console.error("Erro ao excluir anotação:", error);
+      toast.error("Não foi possível excluir a anotação");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Escreva uma anotação sobre esta aula..."
+          rows={3}
+          disabled={isSaving}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {getCurrentTime ? (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="pinNoteToVideo"
+                checked={pinToVideo}
+                onCheckedChange={(checked) => setPinToVideo(checked === true)}
+                disabled={isSaving}
+              />
+              <Label htmlFor="pinNoteToVideo" className="font-normal">
+                Marcar no momento atual do vídeo
+              </Label>
+            </div>
+          ) : (
+            <span />
+          )}
+          <Button size="sm" onClick={handleCreate} disabled={isSaving || !content.trim()}>
+            Salvar anotação
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando anotações...</p>
+      ) : notes.length === 0 ? (
+        <p className="text-muted-foreground">Você ainda não fez anotações nesta aula</p>
+      ) : (
+        <ul className="space-y-2">
+          {notes.map((note) => (
+            <li key={note.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                {note.timestampSeconds !== null && getCurrentTime ? (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 flex items-center gap-1 tabular-nums"
+                    onClick={() => onSeek(note.timestampSeconds as number)}
+                  >
+                    <Clock className="h-3 w-3" />
+                    {formatNoteTimestamp(note.timestampSeconds)}
+                  </Button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(note.createdAt).toLocaleDateString("pt-BR")}
+                  </span>
+                )}
+                {editingId !== note.id && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Editar anotação"
+                      onClick={() => {
+                        setEditingId(note.id);
+                        setEditingContent(note.content);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Excluir anotação"
+                      onClick={() => handleDelete(note.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {editingId === note.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editingContent}
+                    onChange={(e) => setEditingContent(e.target.value)}
+                    rows={3}
+                    disabled={isSaving}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={isSaving}>
+                      Cancelar
+                    </Button>
+                    <Button size="sm" onClick={() => handleUpdate(note.id)} disabled={isSaving || !editingContent.trim()}>
+                      Salvar
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LessonNotes;
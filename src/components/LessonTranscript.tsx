@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { LessonCaption } from "@/types";
+import { parseVttCues } from "@/utils/captions";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface LessonTranscriptProps {
+  captions: LessonCaption[];
+  currentTime: number; // Posição atual do vídeo, em segundos
+  onSeek: (seconds: number) => void;
+}
+
+// Posição do trecho no formato m:ss
+const formatCueTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+// Transcrição interativa da aula: destaca o trecho em reprodução e leva o vídeo ao trecho clicado
+const LessonTranscript = ({ captions, currentTime, onSeek }: LessonTranscriptProps) => {
+  const [captionId, setCaptionId] = useState<string | null>(null);
+  const activeCueRef = useRef<HTMLButtonElement>(null);
+
+  const selectedCaption = captions.find((caption) => caption.id === captionId)
+    || captions.find((caption) => caption.isDefault)
+    || captions[0];
+  const cues = useMemo(() => (selectedCaption ? parseVttCues(selectedCaption.vttContent) : []), [selectedCaption]);
+  const activeIndex = cues.findIndex((cue) => currentTime >= cue.start && currentTime < cue.end);
+
+  useEffect(() => {
+    activeCueRef.current?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (!selectedCaption) {
+    return <p className="text-muted-foreground">Nenhuma transcrição disponível para esta aula</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {captions.length > 1 && (
+        <Select value={selectedCaption.id} onValueChange={setCaptionId}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {captions.map((caption) => (
+              <SelectItem key={caption.id} value={caption.id}>
+                {caption.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <div className="max-h-80 overflow-y-auto space-y-1 pr-1">
+        {cues.map((cue, index) => (
+          <button
+            key={`${cue.start}-${index}`}
+            ref={index === activeIndex ? activeCueRef : undefined}
+            type="button"
+            onClick={() => onSeek(cue.start)}
+            className={`w-full text-left px-2 py-1 rounded-md flex gap-3 text-sm ${
+              index === activeIndex ? "bg-accent font-medium" : "hover:bg-accent/50"
+            }`}
+          >
+            <span className="text-xs text-muted-foreground tabular-nums pt-0.5 shrink-0">
+              {formatCueTime(cue.start)}
+            </span>
+            <span>{cue.text}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LessonTranscript;
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { Lesson, QuizAnswer, QuizAttempt, QuizAttemptResult, QuizQuestion } from "@/types";
+import { quizService } from "@/services";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { toast } from "sonner";
+import { CheckCircle, XCircle } from "lucide-react";
+
+interface QuizPlayerProps {
+  lesson: Lesson;
+  userId: string;
+  onPassed: () => void;
+}
+
+// Questionário de uma aula: o aluno responde, o servidor corrige e registra a tentativa
+const QuizPlayer = ({ lesson, userId, onPassed }: QuizPlayerProps) => {
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [result, setResult] = useState<QuizAttemptResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadQuiz = async () => {
+      try {
+        setLoading(true);
+        setAnswers({});
+        setResult(null);
+        const [quizQuestions, previousAttempts] = await Promise.all([
+          quizService.getQuestionsForStudent(lesson.id),
+          quizService.getAttempts(userId, lesson.id)
+        ]);
+        setQuestions(quizQuestions);
+        setAttempts(previousAttempts);
+      } catch (error) {
+        console.error("Erro ao carregar questionário:", error);
+        toast.error("Erro ao carregar o questionário");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQuiz();
+  }, [lesson.id, userId]);
+
+  const passingScore = lesson.passingScore ?? 70;
+  const hasPassed = attempts.some(attempt => attempt.passed);
+  const attemptsRemaining = lesson.maxAttempts ? Math.max(lesson.maxAttempts - attempts.length, 0) : null;
+  const canAttempt = !hasPassed && attemptsRemaining !== 0;
+  const allAnswered = questions.every(question => {
+    const answer = answers[question.id];
+    return answer !== undefined && (typeof answer !== "string" || answer.trim() !== "");
+  });
+
+  const setAnswer = (questionId: string, answer: QuizAnswer) => {
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+  };
+
+  const handleSubmit = async () => {
+    if (!allAnswered) {
+      toast.error("Responda todas as questões antes de enviar");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const attemptResult = await quizService.submitAttempt(lesson.id, answers);
+      setResult(attemptResult);
+      setAttempts(await quizService.getAttempts(userId, lesson.id));
+
+      if (attemptResult.passed) {
+        toast.success(`Aprovado com ${attemptResult.score}%!`);
+        onPassed();
+      } else {
+        toast.error(`Você obteve ${attemptResult.score}%. A nota mínima é ${passingScore}%.`);
+        setAnswers({});
+      }
+    } catch (error) {
+      console.error("Erro ao enviar questionário:", error);
+      toast.error(error.message || "Erro ao enviar o questionário");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="mt-4 p-4 border rounded bg-muted">
+        <p>Carregando questionário...</p>
+      </div>
+    );
+  }
+
+  if (questions.length === 0) {
+    return (
+      <div className="mt-4 p-4 border rounded bg-muted">
+        <p>Este questionário ainda não possui questões.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-6">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">Nota mínima: {passingScore}%</Badge>
+        <Badge variant="outline">
+          {attemptsRemaining === null ? "Tentativas ilimitadas" : `Tentativas restantes: ${attemptsRemaining}`}
+        </Badge>
+      </div>
+
+      {result && (
+        <Alert variant={result.passed ? "default" : "destructive"}>
+          {result.passed ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+          <AlertTitle>{result.passed ? "Aprovado!" : "Não foi desta vez"}</AlertTitle>
+          <AlertDescription>
+            Sua nota na tentativa {result.attemptNumber} foi {result.score}%.
+            {!result.passed && result.attemptsRemaining === 0 && " Você não possui mais tentativas."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {hasPassed && !result && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertTitle>Questionário concluído</AlertTitle>
+          <AlertDescription>Você já foi aprovado neste questionário.</AlertDescription>
+        </Alert>
+      )}
+
+      {!hasPassed && attemptsRemaining === 0 && !result && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertTitle>Tentativas esgotadas</AlertTitle>
+          <AlertDescription>Você utilizou todas as tentativas disponíveis para este questionário.</AlertDescription>
+        </Alert>
+      )}
+
+      {canAttempt && (
+        <>
+          {questions.map((question, index) => (
+            <div key={question.id} className="space-y-3">
+              <p className="font-medium">
+                {index + 1}. {question.prompt}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  ({question.points} {question.points === 1 ? "ponto" : "pontos"})
+                </span>
+              </p>
+
+              {question.type === "multiple_choice" && (
+                <RadioGroup
+                  value={answers[question.id] !== undefined ? String(answers[question.id]) : ""}
+                  onValueChange={(value) => setAnswer(question.id, Number(value))}
+                >
+                  {question.options.map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-center gap-2">
+                      <RadioGroupItem value={String(optionIndex)} id={`${question.id}-${optionIndex}`} />
+                      <Label htmlFor={`${question.id}-${optionIndex}`} className="font-normal">{option}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+
+              {question.type === "true_false" && (
+                <RadioGroup
+                  value={answers[question.id] !== undefined ? String(answers[question.id]) : ""}
+                  onValueChange={(value) => setAnswer(question.id, value === "true")}
+                  className="flex gap-6"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="true" id={`${question.id}-true`} />
+                    <Label htmlFor={`${question.id}-true`} className="font-normal">Verdadeiro</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="false" id={`${question.id}-false`} />
+                    <Label htmlFor={`${question.id}-false`} className="font-normal">Falso</Label>
+                  </div>
+                </RadioGroup>
+              )}
+
+              {question.type === "short_answer" && (
+                <Input
+                  value={(answers[question.id] as string) || ""}
+                  onChange={(e) => setAnswer(question.id, e.target.value)}
+                  placeholder="Sua resposta"
+                />
+              )}
+            </div>
+          ))}
+
+          <Button onClick={handleSubmit} disabled={submitting || !allAnswered}>
+            {submitting ? "Enviando..." : "Enviar respostas"}
+          </Button>
+        </>
+      )}
+
+      {attempts.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">Suas tentativas</h3>
+          <ul className="space-y-1 text-sm">
+            {attempts.map(attempt => (
+              <li key={attempt.id} className="flex items-center gap-2">
+                {attempt.passed ? (
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-red-600" />
+                )}
+                Tentativa {attempt.attemptNumber}: {attempt.score}% em{" "}
+                {new Date(attempt.submittedAt).toLocaleString("pt-BR")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizPlayer;
@@ -0,0 +1,200 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { CalloutType, sanitizeLessonContent } from "@/utils/richText";
+import {
+  Bold,
+  Code,
+  Heading2,
+  Heading3,
+  Image,
+  Italic,
+  Link,
+  List,
+  ListOrdered,
+  MessageSquare,
+  Quote,
+  Table,
+} from "lucide-react";
+
+interface RichTextEditorProps {
+  id?: string;
+  value: string;
+  // Recebe o HTML já sanitizado
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const calloutLabels: Record<CalloutType, string> = {
+  info: "Informação",
+  tip: "Dica",
+  warning: "Atenção",
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const isHttpUrl = (url: string) => /^https?:\/\//i.test(url);
+
+const TABLE_TEMPLATE =
+  "<table><thead><tr><th>Coluna 1</th><th>Coluna 2</th><th>Coluna 3</th></tr></thead>" +
+  "<tbody><tr><td></td><td></td><td></td></tr><tr><td></td><td></td><td></td></tr></tbody></table><p><br></p>";
+
+// Editor de conteúdo das aulas; gera o mesmo HTML exibido pelo LessonContent nos players
+const RichTextEditor = ({ id, value, onChange, placeholder, disabled = false, className }: RichTextEditorProps) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const lastValueRef = useRef<string | null>(null);
+  const savedRangeRef = useRef<Range | null>(null);
+
+  // Só reescreve o editor quando o valor muda por fora (ex.: ao abrir outra aula),
+  // para não mover o cursor durante a digitação
+  useEffect(() => {
+    if (!editorRef.current || value === lastValueRef.current) return;
+    editorRef.current.innerHTML = sanitizeLessonContent(value);
+    lastValueRef.current = value;
+  }, [value]);
+
+  const emitChange = () => {
+    if (!editorRef.current) return;
+    const html = sanitizeLessonContent(editorRef.current.innerHTML);
+    lastValueRef.current = html;
+    onChange(html);
+  };
+
+  const runCommand = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  const insertHtml = (html: string) => runCommand("insertHTML", html);
+
+  const getSelectedText = () => window.getSelection()?.toString() || "";
+
+  const handleCodeBlock = () => {
+    const language = prompt("Linguagem do código (opcional, ex.: javascript, python, sql)")?.trim() || "";
+    const code = escapeHtml(getSelectedText()) || "código";
+    const languageAttribute = language ? ` data-language="${escapeHtml(language)}"` : "";
+    insertHtml(`<pre${languageAttribute}><code>${code}</code></pre><p><br></p>`);
+  };
+
+  const handleImage = () => {
+    const url = prompt("URL da imagem")?.trim();
+    if (!url) return;
+    if (!isHttpUrl(url)) {
+      alert("Informe uma URL começando com http:// ou https://");
+      return;
+    }
+    insertHtml(`<img src="${escapeHtml(url)}" alt="">`);
+  };
+
+  const handleLink = () => {
+    const url = prompt("URL do link")?.trim();
+    if (!url) return;
+    if (!isHttpUrl(url)) {
+      alert("Informe uma URL começando com http:// ou https://");
+      return;
+    }
+    runCommand("createLink", url);
+  };
+
+  // O menu de destaques tira o foco do editor; a seleção é guardada ao abri-lo e restaurada ao inserir
+  const saveSelection = () => {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    savedRangeRef.current = range && editorRef.current?.contains(range.commonAncestorContainer) ? range : null;
+  };
+
+  const restoreSelection = () => {
+    editorRef.current?.focus();
+    const selection = window.getSelection();
+    if (selection && savedRangeRef.current) {
+      selection.removeAllRanges();
+      selection.addRange(savedRangeRef.current);
+    }
+  };
+
+  const handleCallout = (type: CalloutType) => {
+    restoreSelection();
+    const text = escapeHtml(getSelectedText()) || calloutLabels[type];
+    insertHtml(`<div class="callout callout-${type}"><p>${text}</p></div><p><br></p>`);
+  };
+
+  const toolbarButton = (title: string, icon: React.ReactNode, onClick: () => void) => (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8"
+      title={title}
+      disabled={disabled}
+      // Mantém a seleção do editor ao clicar na barra de ferramentas
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onClick}
+    >
+      {icon}
+    </Button>
+  );
+
+  return (
+    <div className={cn("rounded-md border", className)}>
+      <div className="flex flex-wrap items-center gap-1 border-b p-1">
+        {toolbarButton("Negrito", <Bold className="h-4 w-4" />, () => runCommand("bold"))}
+        {toolbarButton("Itálico", <Italic className="h-4 w-4" />, () => runCommand("italic"))}
+        {toolbarButton("Título", <Heading2 className="h-4 w-4" />, () => runCommand("formatBlock", "h2"))}
+        {toolbarButton("Subtítulo", <Heading3 className="h-4 w-4" />, () => runCommand("formatBlock", "h3"))}
+        {toolbarButton("Lista", <List className="h-4 w-4" />, () => runCommand("insertUnorderedList"))}
+        {toolbarButton("Lista numerada", <ListOrdered className="h-4 w-4" />, () => runCommand("insertOrderedList"))}
+        {toolbarButton("Citação", <Quote className="h-4 w-4" />, () => runCommand("formatBlock", "blockquote"))}
+        {toolbarButton("Bloco de código", <Code className="h-4 w-4" />, handleCodeBlock)}
+        {toolbarButton("Link", <Link className="h-4 w-4" />, handleLink)}
+        {toolbarButton("Imagem", <Image className="h-4 w-4" />, handleImage)}
+        {toolbarButton("Tabela", <Table className="h-4 w-4" />, () => insertHtml(TABLE_TEMPLATE))}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Destaque"
+              disabled={disabled}
+              onPointerDown={saveSelection}
+            >
+              <MessageSquare className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+            {(Object.keys(calloutLabels) as CalloutType[]).map((type) => (
+              <DropdownMenuItem key={type} onSelect={() => handleCallout(type)}>
+                {calloutLabels[type]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div
+        id={id}
+        ref={editorRef}
+        role="textbox"
+        aria-multiline="true"
+        contentEditable={!disabled}
+        suppressContentEditableWarning
+        data-placeholder={placeholder}
+        onInput={emitChange}
+        onBlur={emitChange}
+        className="rich-text-editor lesson-content min-h-[200px] max-h-[500px] overflow-y-auto p-3 focus:outline-none"
+      />
+    </div>
+  );
+};
+
+export default RichTextEditor;
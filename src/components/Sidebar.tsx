@@ -1,7 +1,7 @@
 
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
-import { BookOpen, GraduationCap, LayoutDashboard, Award, Menu, X } from "lucide-react";
+import { BookOpen, GraduationCap, LayoutDashboard, Award, Menu, X, Route, NotebookPen } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Button } from "./ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "./ui/sheet";
@@ -36,6 +36,11 @@ const Sidebar = () => {
       icon: <BookOpen size={20} />,
       href: "/courses",
     },
+    {
+      title: "Trilhas",
+      icon: <Route size={20} />,
+      href: "/learning-paths",
+    },
     {
       title: "Meus Cursos",
       icon: <GraduationCap size={20} />,
@@ -46,6 +51,11 @@ const Sidebar = () => {
       icon: <Award size={20} />,
       href: "/aluno/certificados",
     },
+    {
+      title: "Anotações",
+      icon: <NotebookPen size={20} />,
+      href: "/aluno/anotacoes",
+    },
   ];
   
   // Componente de navegação que é reutilizado tanto na versão desktop quanto na móvel
@@ -1,64 +1,364 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
+import type Hls from 'hls.js';
 import VideoErrorFallback from './VideoErrorFallback';
+import { lessonVideoService } from '@/services/lessonVideoService';
+import { LessonCaption } from '@/types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
 interface VideoPlayerProps {
   url: string;
   title?: string;
   width?: string | number;
   height?: string | number;
+  startAt?: number; // Posição inicial em segundos (retomada da aula)
+  onTimeUpdate?: (positionSeconds: number, durationSeconds: number) => void; // Chamado durante a reprodução
+  onPause?: () => void; // Chamado ao pausar ou terminar o vídeo
+  preventSeekingAhead?: boolean; // Impede avançar além do trecho já assistido (somente vídeos diretos)
+  furthestPosition?: number; // Posição mais avançada já assistida, em segundos
+  poster?: string | null; // Miniatura exibida antes da reprodução (URL ou referência do bucket de vídeos)
+  captions?: LessonCaption[]; // Legendas WebVTT exibidas nos vídeos diretos
+  seekRequest?: { seconds: number } | null; // Pedido de salto para uma posição (um novo objeto a cada pedido)
 }
 
+// Tipos mínimos das APIs de player do YouTube (IFrame API) e do Vimeo (Player API)
+interface YouTubePlayer {
+  getCurrentTime(): number;
+  getDuration(): number;
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+}
+
+interface YouTubeApi {
+  Player: new (
+    element: HTMLIFrameElement,
+    options: { events: { onStateChange?: (event: { data: number; target: YouTubePlayer }) => void } }
+  ) => YouTubePlayer;
+  PlayerState: { PLAYING: number; PAUSED: number; ENDED: number };
+}
+
+interface VimeoPlayer {
+  on(event: string, callback: (data: { seconds: number; duration: number }) => void): void;
+  off(event: string): void;
+  setCurrentTime(seconds: number): Promise<number>;
+}
+
+interface VimeoApi {
+  Player: new (element: HTMLIFrameElement) => VimeoPlayer;
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeApi;
+    onYouTubeIframeAPIReady?: () => void;
+    Vimeo?: VimeoApi;
+  }
+}
+
+// Qualidade disponível no manifesto HLS; o índice corresponde ao nível do hls.js
+interface QualityLevel {
+  index: number;
+  label: string;
+}
+
+// Nível do hls.js que ativa a troca automática de qualidade
+const AUTO_QUALITY = -1;
+
+const isHlsUrl = (url: string) => /\.m3u8(\?|#|$)/i.test(url);
+
+// URLs assinadas do bucket terminam com parâmetros, por isso a extensão pode vir antes de ? ou #
+const isDirectVideoUrl = (url: string) => /\.(mp4|webm|ogg)(\?|#|$)/i.test(url);
+
+// Intervalo de leitura da posição do player do YouTube, que não emite eventos de tempo
+const YOUTUBE_POLL_INTERVAL_MS = 1000;
+
+const scriptPromises = new Map<string, Promise<void>>();
+
+// Carrega um script externo uma única vez
+const loadScript = (src: string): Promise<void> => {
+  if (!scriptPromises.has(src)) {
+    scriptPromises.set(src, new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptPromises.delete(src);
+        reject(new Error(`Falha ao carregar ${src}`));
+      };
+      document.body.appendChild(script);
+    }));
+  }
+  return scriptPromises.get(src);
+};
+
+const loadYouTubeApi = (): Promise<YouTubeApi> => {
+  if (window.YT?.Player) return Promise.resolve(window.YT);
+
+  return new Promise((resolve, reject) => {
+    // A IFrame API avisa que está pronta por um callback global
+    const previousCallback = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      previousCallback?.();
+      resolve(window.YT);
+    };
+    loadScript('https://www.youtube.com/iframe_api').catch(reject);
+  });
+};
+
+const loadVimeoApi = async (): Promise<VimeoApi> => {
+  await loadScript('https://player.vimeo.com/api/player.js');
+  return window.Vimeo;
+};
+
+// O hls.js (usado para reproduzir manifestos HLS fora do Safari) fica em um chunk separado,
+// baixado só quando uma aula usa HLS
+const loadHlsApi = async (): Promise<typeof Hls> => (await import('hls.js')).default;
+
 /**
  * Componente de player de vídeo que suporta diferentes formatos de URL
- * (YouTube, Vimeo, URLs diretas, etc.)
+ * (YouTube, Vimeo, URLs diretas, manifestos HLS, vídeos enviados para o bucket, etc.)
  */
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
   url,
   title = 'Video Player',
   width = '100%',
-  height = 360
+  height = 360,
+  startAt = 0,
+  onTimeUpdate,
+  onPause,
+  preventSeekingAhead = false,
+  furthestPosition = 0,
+  poster,
+  captions,
+  seekRequest
 }) => {
   const [videoUrl, setVideoUrl] = useState<string>('');
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [retryCount, setRetryCount] = useState(0);
+  const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([]);
+  const [selectedQuality, setSelectedQuality] = useState<number>(AUTO_QUALITY);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const hlsRef = useRef<Hls | null>(null);
+  // Salto nos players do YouTube e do Vimeo, definido quando a API do player fica pronta
+  const seekEmbedRef = useRef<((seconds: number) => void) | null>(null);
+  // Callbacks em refs para que a troca de função a cada render não recrie os players
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  const onPauseRef = useRef(onPause);
+  onTimeUpdateRef.current = onTimeUpdate;
+  onPauseRef.current = onPause;
+  const isTracking = Boolean(onTimeUpdate || onPause);
+  const startSeconds = Math.max(0, Math.floor(startAt));
+  // Até onde o aluno pode ir no vídeo direto quando o avanço é bloqueado
+  const allowedPositionRef = useRef(Math.max(0, furthestPosition));
 
   useEffect(() => {
+    // Processar a URL do vídeo quando o componente montar, a URL mudar ou o aluno tentar novamente
+    let cancelled = false;
     setLoading(true);
     setError(null);
-    try {
-      // Processar a URL do vídeo quando o componente montar ou a URL mudar
-      processVideoUrl(url);
-    } catch (err) {
-      console.error('Erro ao processar URL do vídeo:', err);
-      setError('Não foi possível carregar o vídeo. URL inválida.');
-    } finally {
+
+    // Limpar a URL (remover espaços, etc.)
+    const cleanUrl = url?.trim();
+    if (!cleanUrl) {
+      setError('URL do vídeo não fornecida');
       setLoading(false);
+      return;
     }
-  }, [url]);
 
-  const processVideoUrl = (inputUrl: string) => {
-    if (!inputUrl) {
-      setError('URL do vídeo não fornecida');
+    // Vídeos enviados para o bucket recebem uma URL assinada
+    lessonVideoService.getPlaybackUrl(cleanUrl)
+      .then(resolved => {
+        if (!cancelled) setVideoUrl(resolved);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Erro ao processar URL do vídeo:', err);
+        setError(err instanceof Error ? err.message : 'Não foi possível carregar o vídeo. URL inválida.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, retryCount]);
+
+  // As legendas ficam no banco; o elemento <track> recebe uma URL local com o conteúdo WebVTT
+  const captionTracks = useMemo(() => (captions || []).map(caption => ({
+    caption,
+    src: URL.createObjectURL(new Blob([caption.vttContent], { type: 'text/vtt' }))
+  })), [captions]);
+
+  useEffect(() => () => {
+    captionTracks.forEach(track => URL.revokeObjectURL(track.src));
+  }, [captionTracks]);
+
+  useEffect(() => {
+    if (!seekRequest) return;
+
+    const video = videoRef.current;
+    if (video) {
+      // Com o avanço bloqueado, o onSeeking devolve o vídeo ao trecho já assistido
+      video.currentTime = seekRequest.seconds;
+      video.play().catch(() => undefined);
+    } else {
+      seekEmbedRef.current?.(seekRequest.seconds);
+    }
+  }, [seekRequest]);
+
+  // Miniatura enviada para o bucket também precisa de URL assinada
+  useEffect(() => {
+    let cancelled = false;
+    setPosterUrl(null);
+    if (poster) {
+      lessonVideoService.getPlaybackUrl(poster)
+        .then(resolved => {
+          if (!cancelled) setPosterUrl(resolved);
+        })
+        .catch(err => console.error('Erro ao carregar miniatura do vídeo:', err));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [poster]);
+
+  // Manifestos HLS: reprodução nativa no Safari; nos demais navegadores pelo hls.js,
+  // que também expõe as qualidades disponíveis para troca manual
+  useEffect(() => {
+    const video = videoRef.current;
+    if (loading || error || !video || !isHlsUrl(videoUrl)) return;
+
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = videoUrl;
       return;
     }
-    
-    // Limpar a URL (remover espaços, etc.)
-    const cleanUrl = inputUrl.trim();
-    setVideoUrl(cleanUrl);
-  };
+
+    let cancelled = false;
+    loadHlsApi()
+      .then(Hls => {
+        if (cancelled) return;
+        if (!Hls.isSupported()) {
+          setError('Seu navegador não suporta este formato de vídeo.');
+          return;
+        }
+
+        const hls = new Hls();
+        hlsRef.current = hls;
+        hls.on(Hls.Events.MANIFEST_PARSED, () => {
+          setQualityLevels(hls.levels.map((level, index) => ({
+            index,
+            label: level.height ? `${level.height}p` : `${Math.round(level.bitrate / 1000)} kbps`
+          })));
+        });
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          if (data.fatal) {
+            console.error('Erro fatal na reprodução HLS:', data);
+            setError('Não foi possível carregar o vídeo.');
+          }
+        });
+        hls.loadSource(videoUrl);
+        hls.attachMedia(video);
+      })
+      .catch(err => {
+        console.error('Erro ao carregar o hls.js:', err);
+        if (!cancelled) setError('Não foi possível carregar o vídeo.');
+      });
+
+    return () => {
+      cancelled = true;
+      hlsRef.current?.destroy();
+      hlsRef.current = null;
+      setQualityLevels([]);
+      setSelectedQuality(AUTO_QUALITY);
+    };
+  }, [videoUrl, loading, error]);
+
+  // Acompanhar a reprodução dos vídeos do YouTube e do Vimeo pelas APIs dos players
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!isTracking || loading || error || !iframe) return;
+
+    let cancelled = false;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let vimeoPlayer: VimeoPlayer | null = null;
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    if (videoUrl.includes('youtube.com') || videoUrl.includes('youtu.be')) {
+      loadYouTubeApi()
+        .then(YT => {
+          if (cancelled) return;
+          const player = new YT.Player(iframe, {
+            events: {
+              onStateChange: ({ data, target }) => {
+                const report = () => onTimeUpdateRef.current?.(target.getCurrentTime(), target.getDuration());
+
+                if (data === YT.PlayerState.PLAYING) {
+                  stopPolling();
+                  report();
+                  pollTimer = setInterval(report, YOUTUBE_POLL_INTERVAL_MS);
+                } else {
+                  stopPolling();
+                  if (data === YT.PlayerState.PAUSED || data === YT.PlayerState.ENDED) {
+                    report();
+                    onPauseRef.current?.();
+                  }
+                }
+              }
+            }
+          });
+          seekEmbedRef.current = seconds => player.seekTo(seconds, true);
+        })
+        .catch(err => console.error('Erro ao carregar a API do YouTube:', err));
+    } else if (videoUrl.includes('vimeo.com')) {
+      loadVimeoApi()
+        .then(Vimeo => {
+          if (cancelled) return;
+          vimeoPlayer = new Vimeo.Player(iframe);
+          vimeoPlayer.on('timeupdate', ({ seconds, duration }) => onTimeUpdateRef.current?.(seconds, duration));
+          vimeoPlayer.on('pause', () => onPauseRef.current?.());
+          vimeoPlayer.on('ended', () => onPauseRef.current?.());
+          seekEmbedRef.current = seconds => {
+            vimeoPlayer?.setCurrentTime(seconds).catch(() => undefined);
+          };
+        })
+        .catch(err => console.error('Erro ao carregar a API do Vimeo:', err));
+    }
+
+    return () => {
+      cancelled = true;
+      seekEmbedRef.current = null;
+      stopPolling();
+      if (vimeoPlayer) {
+        vimeoPlayer.off('timeupdate');
+        vimeoPlayer.off('pause');
+        vimeoPlayer.off('ended');
+      }
+    };
+  }, [videoUrl, loading, error, isTracking]);
 
   // Tentar novamente carregar o vídeo
   const handleRetry = () => {
-    setLoading(true);
-    setError(null);
-    try {
-      processVideoUrl(url);
-    } catch (err) {
-      console.error('Erro ao processar URL do vídeo durante retry:', err);
-      setError('Não foi possível carregar o vídeo. URL inválida.');
-    } finally {
-      setLoading(false);
-    }
+    setRetryCount(count => count + 1);
+  };
+
+  const handleQualityChange = (value: string) => {
+    const level = Number(value);
+    setSelectedQuality(level);
+    if (hlsRef.current) hlsRef.current.currentLevel = level;
   };
 
   // Função para determinar o tipo de vídeo e retornar o player apropriado
@@ -118,13 +418,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         if (videoId) {
           // Garantir que a URL seja HTTPS e usar o domínio youtube-nocookie.com para evitar problemas de cookies
           // Adicionar parâmetros para melhor compatibilidade
-          const embedUrl = `https://www.youtube-nocookie.com/embed/${videoId}?origin=${encodeURIComponent(window.location.origin)}&enablejsapi=1&rel=0`;
+          const embedUrl = `https://www.youtube-nocookie.com/embed/${videoId}?origin=${encodeURIComponent(window.location.origin)}&enablejsapi=1&rel=0${startSeconds > 0 ? `&start=${startSeconds}` : ''}`;
           
           // Remover log desnecessário
           
           return (
             <div className="video-container" style={{ position: 'relative', paddingBottom: '56.25%', height: 0, overflow: 'hidden', maxWidth: '100%' }}>
               <iframe
+                ref={iframeRef}
                 src={embedUrl}
                 title={title}
                 style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%' }}
@@ -156,7 +457,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
           return (
             <div className="video-container" style={{ position: 'relative', paddingBottom: '56.25%', height: 0, overflow: 'hidden', maxWidth: '100%' }}>
               <iframe
-                src={`https://player.vimeo.com/video/${vimeoId}?dnt=1`}
+                ref={iframeRef}
+                src={`https://player.vimeo.com/video/${vimeoId}?dnt=1${startSeconds > 0 ? `#t=${startSeconds}s` : ''}`}
                 title={title}
                 style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%' }}
                 frameBorder="0"
@@ -176,21 +478,78 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
       }
     }
 
-    // Para URLs diretas de vídeo (mp4, webm, etc)
-    if (videoUrl.match(/\.(mp4|webm|ogg)$/i)) {
-      console.log('Renderizando vídeo direto:', videoUrl);
+    // Para URLs diretas de vídeo (mp4, webm, etc) e manifestos HLS (m3u8)
+    const isHls = isHlsUrl(videoUrl);
+    if (isHls || isDirectVideoUrl(videoUrl)) {
       return (
-        <div className="video-container" style={{ position: 'relative', paddingBottom: '56.25%', height: 0, overflow: 'hidden', maxWidth: '100%' }}>
-          <video
-            controls
-            style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%' }}
-            title={title}
-            preload="metadata"
-          >
-            <source src={videoUrl} />
-            Seu navegador não suporta a tag de vídeo.
-          </video>
-        </div>
+        <>
+          <div className="video-container" style={{ position: 'relative', paddingBottom: '56.25%', height: 0, overflow: 'hidden', maxWidth: '100%' }}>
+            <video
+              ref={videoRef}
+              controls
+              poster={posterUrl || undefined}
+              style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%' }}
+              title={title}
+              preload="metadata"
+              onLoadedMetadata={(e) => {
+                if (startSeconds > 0 && startSeconds < e.currentTarget.duration) {
+                  e.currentTarget.currentTime = startSeconds;
+                }
+              }}
+              onTimeUpdate={(e) => {
+                const video = e.currentTarget;
+                // A reprodução contínua amplia o trecho liberado; saltos não
+                if (!video.seeking && video.currentTime <= allowedPositionRef.current + 2) {
+                  allowedPositionRef.current = Math.max(allowedPositionRef.current, video.currentTime);
+                }
+                if (!video.paused) {
+                  onTimeUpdateRef.current?.(video.currentTime, video.duration);
+                }
+              }}
+              onSeeking={(e) => {
+                const video = e.currentTarget;
+                if (preventSeekingAhead && video.currentTime > allowedPositionRef.current + 1) {
+                  video.currentTime = allowedPositionRef.current;
+                  toast.info('Não é possível avançar além do trecho já assistido');
+                }
+              }}
+              onPause={() => onPauseRef.current?.()}
+              onEnded={() => onPauseRef.current?.()}
+            >
+              {/* Manifestos HLS são carregados pelo hls.js ou pelo próprio navegador */}
+              {!isHls && <source src={videoUrl} />}
+              {captionTracks.map(({ caption, src }) => (
+                <track
+                  key={caption.id}
+                  kind="subtitles"
+                  src={src}
+                  srcLang={caption.language}
+                  label={caption.label}
+                  default={caption.isDefault}
+                />
+              ))}
+              Seu navegador não suporta a tag de vídeo.
+            </video>
+          </div>
+          {qualityLevels.length > 1 && (
+            <div className="flex items-center justify-end gap-2 p-2 text-sm text-white">
+              <span>Qualidade</span>
+              <Select value={String(selectedQuality)} onValueChange={handleQualityChange}>
+                <SelectTrigger className="h-8 w-[140px] border-gray-600 bg-black text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={String(AUTO_QUALITY)}>Automática</SelectItem>
+                  {qualityLevels.map(level => (
+                    <SelectItem key={level.index} value={String(level.index)}>
+                      {level.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </>
       );
     }
 
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { dataExportService } from "@/services/api";
+import { ExportDataset } from "@/services/dataExportService";
+import { EXPORT_FORMAT_LABELS, ExportFormat } from "@/utils/spreadsheetExport";
+
+interface DataExportButtonProps<T> {
+  dataset: ExportDataset<T>;
+  filters?: string[]; // Descrição dos filtros ativos na tela, aplicados também à exportação
+  label?: string;
+  size?: ButtonProps["size"];
+  disabled?: boolean;
+}
+
+// Botão e diálogo de exportação das tabelas administrativas: formato, colunas e filtros ativos
+const DataExportButton = <T,>({
+  dataset,
+  filters = [],
+  label = "Exportar",
+  size,
+  disabled,
+}: DataExportButtonProps<T>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportedRows, setExportedRows] = useState(0);
+
+  const allKeys = dataset.columns.map((column) => column.key);
+
+  const handleOpenChange = (open: boolean) => {
+    if (isExporting) return;
+
+    if (open) {
+      setSelectedKeys(allKeys);
+      setExportedRows(0);
+    }
+    setIsOpen(open);
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Mantém a ordem original das colunas ao marcar novamente
+    setSelectedKeys((current) =>
+      checked
+        ? allKeys.filter((columnKey) => columnKey === key || current.includes(columnKey))
+        : current.filter((columnKey) => columnKey !== key)
+    );
+  };
+
+  const handleExport = async () => {
+    if (selectedKeys.length === 0) {
+      toast.error("Selecione ao menos uma coluna");
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      setExportedRows(0);
+      const total = await dataExportService.exportDataset(dataset, format, selectedKeys, setExportedRows);
+      toast.success(`${total} ${total === 1 ? "linha exportada" : "linhas exportadas"}`);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Erro ao exportar dados:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao exportar dados");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size={size} disabled={disabled}>
+          <Download className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exportar {dataset.name.toLowerCase()}</DialogTitle>
+          <DialogDescription>
+            Escolha o formato e as colunas da planilha. Os dados são buscados em páginas, então a exportação de
+            tabelas grandes pode levar alguns instantes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Formato</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)} disabled={isExporting}>
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {EXPORT_FORMAT_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Colunas ({selectedKeys.length} de {allKeys.length})</Label>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedKeys(allKeys)}
+                  disabled={isExporting}
+                >
+                  Todas
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedKeys([])}
+                  disabled={isExporting}
+                >
+                  Nenhuma
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 rounded-md border p-3">
+              {dataset.columns.map((column) => (
+                <div key={column.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export-column-${column.key}`}
+                    checked={selectedKeys.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    disabled={isExporting}
+                  />
+                  <Label htmlFor={`export-column-${column.key}`} className="font-normal">
+                    {column.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <p className="font-medium">Filtros aplicados</p>
+            {filters.length === 0 ? (
+              <p className="text-muted-foreground">Nenhum filtro: todos os registros serão exportados.</p>
+            ) : (
+              <ul className="list-disc pl-5 text-muted-foreground">
+                {filters.map((filter) => (
+                  <li key={filter}>{filter}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isExporting}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleExport} disabled={isExporting || selectedKeys.length === 0}>
+            {isExporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {exportedRows} linhas...
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4 mr-2" />
+                Exportar
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DataExportButton;
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { Certificate, CertificateAuditEntry } from "@/types";
+import { certificateService } from "@/services/api";
+
+interface CertificateHistoryDialogProps {
+  certificate: Certificate | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_LABELS: Record<CertificateAuditEntry["action"], string> = {
+  issued: "Emitido",
+  reissued: "Reemitido",
+  updated: "Alterado",
+  revoked: "Revogado",
+  superseded: "Substituído",
+  deleted: "Excluído",
+};
+
+// Campos exibidos nas alterações; os demais são técnicos e ficam de fora
+const FIELD_LABELS: Record<string, string> = {
+  user_name: "Nome do aluno",
+  course_name: "Curso",
+  course_hours: "Carga horária",
+  issue_date: "Data de emissão",
+  expiry_date: "Validade",
+  certificate_url: "URL",
+  serial_number: "Série",
+  revocation_reason: "Motivo da revogação",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "-";
+  return String(value);
+};
+
+const CertificateHistoryDialog = ({ certificate, onOpenChange }: CertificateHistoryDialogProps) => {
+  const [entries, setEntries] = useState<CertificateAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!certificate) {
+      setEntries([]);
+      return;
+    }
+
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        setEntries(await certificateService.getCertificateHistory(certificate));
+      } catch (err) {
+        console.error("Erro ao carregar histórico do certificado:", err);
+        setError("Não foi possível carregar o histórico");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [certificate]);
+
+  // Emissão e exclusão guardam o registro inteiro; alterações guardam { from, to } por campo
+  const renderChanges = (entry: CertificateAuditEntry) => {
+    const fields = Object.keys(entry.changes).filter((field) => FIELD_LABELS[field]);
+    if (fields.length === 0 || entry.action === "revoked") return null;
+
+    return (
+      <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+        {fields.map((field) => {
+          const change = entry.changes[field];
+          const diff = change as { from?: unknown; to?: unknown };
+          const isDiff = (entry.action === "updated" || entry.action === "superseded")
+            && change !== null && typeof change === "object";
+          return (
+            <li key={field}>
+              <span className="font-medium">{FIELD_LABELS[field]}:</span>{" "}
+              {isDiff ? `${formatValue(diff.from)} → ${formatValue(diff.to)}` : formatValue(change)}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <Dialog open={Boolean(certificate)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Histórico do Certificado</DialogTitle>
+          <DialogDescription>
+            {certificate
+              ? `${certificate.userName} - ${certificate.courseName}${certificate.serialNumber ? ` (${certificate.serialNumber})` : ""}`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive py-4">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">Nenhum registro no histórico.</p>
+        ) : (
+          <ol className="max-h-96 overflow-y-auto space-y-3">
+            {entries.map((entry) => (
+              <li key={entry.id} className="rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.action === "revoked" ? "destructive" : "outline"}>
+                      {ACTION_LABELS[entry.action] || entry.action}
+                    </Badge>
+                    {certificate && entry.certificateId !== certificate.id && (
+                      <span className="text-xs text-muted-foreground">
+                        {entry.certificateId === certificate.supersedesId ? "Certificado original" : "Certificado reemitido"}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleString("pt-BR")}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm">
+                  Por: {entry.changedByName || (entry.changedBy ? entry.changedBy : "Sistema")}
+                </p>
+                {entry.reason && <p className="text-sm">Motivo: {entry.reason}</p>}
+                {renderChanges(entry)}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CertificateHistoryDialog;
@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import { CertificateStatus } from "@/types";
+
+interface CertificateStatusBadgeProps {
+  status: CertificateStatus;
+}
+
+const CertificateStatusBadge = ({ status }: CertificateStatusBadgeProps) => {
+  if (status === "superseded") {
+    return <Badge variant="secondary">Substituído</Badge>;
+  }
+
+  if (status === "revoked") {
+    return <Badge variant="destructive">Revogado</Badge>;
+  }
+
+  if (status === "expired") {
+    return <Badge variant="outline" className="border-amber-500 text-amber-600">Expirado</Badge>;
+  }
+
+  return <Badge variant="outline">Válido</Badge>;
+};
+
+export default CertificateStatusBadge;
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Certificate } from "@/types";
+import { certificateService } from "@/services/api";
+
+const DEFAULT_DAYS = 30;
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const getDaysRemaining = (expiryDate: string) =>
+  Math.max(0, Math.ceil((new Date(expiryDate).getTime() - Date.now()) / DAY_IN_MS));
+
+const ExpiringCertificatesReport = () => {
+  const [days, setDays] = useState(String(DEFAULT_DAYS));
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchExpiring = async (period: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setCertificates(await certificateService.getExpiringCertificates(period));
+    } catch (err) {
+      console.error("Erro ao carregar certificados a expirar:", err);
+      setError("Não foi possível carregar os certificados a expirar");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExpiring(DEFAULT_DAYS);
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const period = Number(days);
+    if (!Number.isInteger(period) || period < 1) {
+      setError("Informe um número de dias válido");
+      return;
+    }
+    fetchExpiring(period);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Certificados a Expirar</CardTitle>
+        <CardDescription>Certificados válidos que expiram nos próximos dias</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="expiring-days">Próximos dias</Label>
+            <Input
+              id="expiring-days"
+              type="number"
+              min={1}
+              className="w-32"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={isLoading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Atualizar
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : certificates.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            Nenhum certificado expira neste período.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Aluno</TableHead>
+                  <TableHead>Curso</TableHead>
+                  <TableHead>Série</TableHead>
+                  <TableHead>Expira em</TableHead>
+                  <TableHead className="text-right">Dias restantes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {certificates.map((certificate) => (
+                  <TableRow key={certificate.id}>
+                    <TableCell>{certificate.userName}</TableCell>
+                    <TableCell>{certificate.courseName}</TableCell>
+                    <TableCell className="font-mono text-xs">{certificate.serialNumber || "-"}</TableCell>
+                    <TableCell>{new Date(certificate.expiryDate).toLocaleDateString("pt-BR")}</TableCell>
+                    <TableCell className="text-right">{getDaysRemaining(certificate.expiryDate)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExpiringCertificatesReport;
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Certificate } from "@/types";
+import { certificateService } from "@/services/api";
+
+interface ReissueCertificateDialogProps {
+  certificate: Certificate | null;
+  onOpenChange: (open: boolean) => void;
+  onReissued: (certificate: Certificate) => void;
+}
+
+const ReissueCertificateDialog = ({ certificate, onOpenChange, onReissued }: ReissueCertificateDialogProps) => {
+  const [userName, setUserName] = useState("");
+  const [courseName, setCourseName] = useState("");
+  const [courseHours, setCourseHours] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setUserName(certificate?.userName || "");
+    setCourseName(certificate?.courseName || "");
+    setCourseHours(certificate?.courseHours ? String(certificate.courseHours) : "");
+    setReason("");
+  }, [certificate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!certificate) return;
+
+    if (!reason.trim()) {
+      toast.error("Informe o motivo da reemissão");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const reissued = await certificateService.reissueCertificate(
+        certificate.id,
+        {
+          userName,
+          courseName,
+          courseHours: courseHours ? Number(courseHours) : undefined,
+        },
+        reason
+      );
+      toast.success("Certificado reemitido com sucesso!");
+      onReissued(reissued);
+    } catch (err) {
+      console.error("Error reissuing certificate:", err);
+      toast.error(err instanceof Error ? err.message : "Erro ao reemitir certificado");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(certificate)} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reemitir Certificado</DialogTitle>
+          <DialogDescription>
+            O certificado atual será revogado e um novo certificado, com os dados corrigidos, será emitido em seu lugar.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="reissue-user-name">Nome do aluno</Label>
+              <Input
+                id="reissue-user-name"
+                value={userName}
+                onChange={(e) => setUserName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reissue-course-name">Curso</Label>
+              <Input
+                id="reissue-course-name"
+                value={courseName}
+                onChange={(e) => setCourseName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reissue-course-hours">Carga horária (horas)</Label>
+              <Input
+                id="reissue-course-hours"
+                type="number"
+                min={1}
+                value={courseHours}
+                onChange={(e) => setCourseHours(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reissue-reason">Motivo da reemissão</Label>
+              <Textarea
+                id="reissue-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Ex.: correção do nome do aluno"
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Reemitindo...
+                </>
+              ) : (
+                "Reemitir"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReissueCertificateDialog;
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { CertificateRules, Module } from "@/types";
+import { moduleService } from "@/services/api";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface CertificateRulesEditorProps {
+  courseId: string | null;
+  rules: CertificateRules;
+  onChange: (rules: CertificateRules) => void;
+}
+
+// Converte o valor do campo numérico; vazio desativa a regra
+const parseRuleValue = (value: string): number | null => (value === "" ? null : Number(value));
+
+const CertificateRulesEditor = ({ courseId, rules, onChange }: CertificateRulesEditorProps) => {
+  const [modules, setModules] = useState<Module[]>([]);
+  const [isLoadingLessons, setIsLoadingLessons] = useState(false);
+  const requiredLessonIds = rules.requiredLessonIds || [];
+
+  useEffect(() => {
+    if (!courseId) {
+      setModules([]);
+      return;
+    }
+
+    const fetchLessons = async () => {
+      setIsLoadingLessons(true);
+      try {
+        setModules(await moduleService.getModulesByCourseId(courseId));
+      } catch (error) {
+        console.error("Erro ao carregar aulas do curso:", error);
+        setModules([]);
+      } finally {
+        setIsLoadingLessons(false);
+      }
+    };
+
+    fetchLessons();
+  }, [courseId]);
+
+  const toggleRequiredLesson = (lessonId: string, checked: boolean) => {
+    onChange({
+      ...rules,
+      requiredLessonIds: checked
+        ? [...requiredLessonIds, lessonId]
+        : requiredLessonIds.filter((id) => id !== lessonId),
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <h3 className="font-medium">Regras do certificado</h3>
+        <p className="text-sm text-muted-foreground">
+          Por padrão, o certificado é emitido ao concluir todas as aulas. Deixe um campo em branco para desativar a regra.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="minQuizAverage">Média mínima nos questionários (%)</Label>
+          <Input
+            id="minQuizAverage"
+            type="number"
+            min={1}
+            max={100}
+            value={rules.minQuizAverage ?? ""}
+            onChange={(e) => onChange({ ...rules, minQuizAverage: parseRuleValue(e.target.value) })}
+            placeholder="Sem mínimo"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="minWatchTimeMinutes">Tempo mínimo assistido (min)</Label>
+          <Input
+            id="minWatchTimeMinutes"
+            type="number"
+            min={1}
+            value={rules.minWatchTimeMinutes ?? ""}
+            onChange={(e) => onChange({ ...rules, minWatchTimeMinutes: parseRuleValue(e.target.value) })}
+            placeholder="Sem mínimo"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="waitingPeriodDays">Carência após a matrícula (dias)</Label>
+          <Input
+            id="waitingPeriodDays"
+            type="number"
+            min={1}
+            value={rules.waitingPeriodDays ?? ""}
+            onChange={(e) => onChange({ ...rules, waitingPeriodDays: parseRuleValue(e.target.value) })}
+            placeholder="Sem carência"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Aulas obrigatórias</Label>
+        <p className="text-xs text-muted-foreground">
+          Se alguma aula for marcada, apenas as aulas marcadas precisam ser concluídas.
+        </p>
+        {!courseId ? (
+          <p className="text-sm text-muted-foreground">
+            Salve o curso e cadastre as aulas para escolher as aulas obrigatórias.
+          </p>
+        ) : isLoadingLessons ? (
+          <p className="text-sm text-muted-foreground">Carregando aulas...</p>
+        ) : modules.every((module) => !module.lessons?.length) ? (
+          <p className="text-sm text-muted-foreground">Este curso ainda não possui aulas.</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto space-y-3">
+            {modules.map((module) => (
+              <div key={module.id}>
+                <p className="text-sm font-medium">{module.title}</p>
+                {module.lessons?.map((lesson) => (
+                  <div key={lesson.id} className="flex items-center gap-2 ml-2 mt-1">
+                    <Checkbox
+                      id={`required-lesson-${lesson.id}`}
+                      checked={requiredLessonIds.includes(lesson.id)}
+                      onCheckedChange={(checked) => toggleRequiredLesson(lesson.id, checked === true)}
+                    />
+                    <Label htmlFor={`required-lesson-${lesson.id}`} className="font-normal">
+                      {lesson.title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CertificateRulesEditor;
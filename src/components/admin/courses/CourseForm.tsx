@@ -1,8 +1,9 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   DialogContent,
   DialogDescription,
@@ -10,6 +11,16 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CertificateRules, CertificateTemplate, ContentReleaseMode, Course } from "@/types";
+import { certificateTemplateService } from "@/services/api";
+import CertificateRulesEditor from "./CertificateRulesEditor";
 
 interface CourseFormProps {
   formData: {
@@ -18,24 +29,82 @@ interface CourseFormProps {
     instructor: string;
     duration: string;
     thumbnail: string;
+    certificateRules: CertificateRules;
+    certificateTemplateId: string | null;
+    certificateValidityMonths: number | null;
+    prerequisiteCourseIds: string[];
+    contentReleaseMode: ContentReleaseMode;
+    reviewMinProgress: number;
   };
+  courses: Pick<Course, "id" | "title">[];
   handleInputChange: (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => void;
+  handleCertificateRulesChange: (rules: CertificateRules) => void;
+  handleCertificateTemplateChange: (templateId: string | null) => void;
+  handleCertificateValidityChange: (months: number | null) => void;
+  handlePrerequisitesChange: (courseIds: string[]) => void;
+  handleContentReleaseModeChange: (mode: ContentReleaseMode) => void;
   handleSubmit: (e: React.FormEvent) => void;
   isSubmitting: boolean;
   editingCourseId: string | null;
 }
 
+// O Select não aceita valor vazio; representa o curso sem modelo atribuído
+const DEFAULT_TEMPLATE_VALUE = "default";
+
+// Validade do certificado em meses; "never" = certificado sem data de expiração
+const NO_EXPIRY_VALUE = "never";
+const VALIDITY_OPTIONS = [6, 12, 24, 36];
+
+const CONTENT_RELEASE_OPTIONS: { value: ContentReleaseMode; label: string; description: string }[] = [
+  { value: "free", label: "Livre", description: "O aluno pode assistir às aulas em qualquer ordem." },
+  { value: "sequential", label: "Sequencial", description: "Cada aula é liberada quando a anterior é concluída." },
+  {
+    value: "drip",
+    label: "Programada",
+    description: "Cada módulo é liberado após os dias ou na data definidos em Gerenciar Módulos.",
+  },
+];
+
 const CourseForm = ({
   formData,
+  courses,
   handleInputChange,
+  handleCertificateRulesChange,
+  handleCertificateTemplateChange,
+  handleCertificateValidityChange,
+  handlePrerequisitesChange,
+  handleContentReleaseModeChange,
   handleSubmit,
   isSubmitting,
   editingCourseId,
 }: CourseFormProps) => {
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+
+  useEffect(() => {
+    certificateTemplateService
+      .getTemplates()
+      .then(setTemplates)
+      .catch((error) => {
+        console.error("Erro ao carregar modelos de certificado:", error);
+        setTemplates([]);
+      });
+  }, []);
+
+  // Um curso não pode ser pré-requisito de si mesmo
+  const prerequisiteOptions = courses.filter((course) => course.id !== editingCourseId);
+
+  const togglePrerequisite = (courseId: string, checked: boolean) => {
+    handlePrerequisitesChange(
+      checked
+        ? [...formData.prerequisiteCourseIds, courseId]
+        : formData.prerequisiteCourseIds.filter((id) => id !== courseId)
+    );
+  };
+
   return (
-    <DialogContent className="sm:max-w-[600px]">
+    <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
       <DialogHeader>
         <DialogTitle>
           {editingCourseId ? "Editar Curso" : "Criar Novo Curso"}
@@ -112,6 +181,124 @@ const CourseForm = ({
               rows={5}
             />
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="certificateTemplate">Modelo de certificado</Label>
+              <Select
+                value={formData.certificateTemplateId || DEFAULT_TEMPLATE_VALUE}
+                onValueChange={(value) =>
+                  handleCertificateTemplateChange(value === DEFAULT_TEMPLATE_VALUE ? null : value)
+                }
+              >
+                <SelectTrigger id="certificateTemplate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_TEMPLATE_VALUE}>Modelo padrão</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="certificateValidity">Validade do certificado</Label>
+              <Select
+                value={formData.certificateValidityMonths ? String(formData.certificateValidityMonths) : NO_EXPIRY_VALUE}
+                onValueChange={(value) =>
+                  handleCertificateValidityChange(value === NO_EXPIRY_VALUE ? null : Number(value))
+                }
+              >
+                <SelectTrigger id="certificateValidity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_EXPIRY_VALUE}>Não expira</SelectItem>
+                  {[...new Set([...VALIDITY_OPTIONS, formData.certificateValidityMonths || VALIDITY_OPTIONS[0]])]
+                    .sort((a, b) => a - b)
+                    .map((months) => (
+                      <SelectItem key={months} value={String(months)}>
+                        {months} meses
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <CertificateRulesEditor
+            courseId={editingCourseId}
+            rules={formData.certificateRules}
+            onChange={handleCertificateRulesChange}
+          />
+
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="contentReleaseMode">Liberação do conteúdo</Label>
+            <Select
+              value={formData.contentReleaseMode}
+              onValueChange={(value) => handleContentReleaseModeChange(value as ContentReleaseMode)}
+            >
+              <SelectTrigger id="contentReleaseMode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONTENT_RELEASE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {CONTENT_RELEASE_OPTIONS.find((option) => option.value === formData.contentReleaseMode)?.description}
+            </p>
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="reviewMinProgress">Progresso mínimo para avaliar (%)</Label>
+            <Input
+              id="reviewMinProgress"
+              name="reviewMinProgress"
+              type="number"
+              min={0}
+              max={100}
+              value={formData.reviewMinProgress}
+              onChange={handleInputChange}
+              className="w-32"
+            />
+            <p className="text-xs text-muted-foreground">
+              Alunos matriculados podem avaliar o curso ao atingir este progresso. Use 0 para liberar a avaliação desde a matrícula.
+            </p>
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <Label>Pré-requisitos</Label>
+            <p className="text-xs text-muted-foreground">
+              O aluno só consegue se matricular se tiver certificado válido de todos os cursos marcados.
+            </p>
+            {prerequisiteOptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Não há outros cursos cadastrados.</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {prerequisiteOptions.map((course) => (
+                  <div key={course.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`prerequisite-${course.id}`}
+                      checked={formData.prerequisiteCourseIds.includes(course.id)}
+                      onCheckedChange={(checked) => togglePrerequisite(course.id, checked === true)}
+                    />
+                    <Label htmlFor={`prerequisite-${course.id}`} className="font-normal">
+                      {course.title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         <DialogFooter>
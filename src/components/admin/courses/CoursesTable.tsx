@@ -17,7 +17,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Course } from "@/types";
-import { MoreHorizontal, Edit, Trash, BookOpen } from "lucide-react";
+import { MoreHorizontal, Edit, Trash, BookOpen, BarChart3 } from "lucide-react";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 
 interface CoursesTableProps {
@@ -100,6 +100,12 @@ const CoursesTable: React.FC<CoursesTableProps> = ({
                           <BookOpen className="h-4 w-4 mr-2" />
                           Gerenciar Módulos
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => navigate(`/admin/courses/${course.id}/report`)}
+                        >
+                          <BarChart3 className="h-4 w-4 mr-2" />
+                          Relatório de Engajamento
+                        </DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </TableCell>
@@ -167,6 +173,14 @@ const CoursesTable: React.FC<CoursesTableProps> = ({
                 <BookOpen className="h-4 w-4 mr-2" />
                 Módulos
               </Button>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => navigate(`/admin/courses/${course.id}/report`)}
+              >
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Relatório
+              </Button>
             </CardFooter>
           </Card>
         ))
@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { LessonAttachment } from "@/types";
+import { ATTACHMENT_EXTENSIONS, lessonAttachmentService } from "@/services/lessonAttachmentService";
+import { formatFileSize } from "@/utils/attachments";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2, Trash, Upload } from "lucide-react";
+
+interface LessonAttachmentsEditorProps {
+  // Os materiais só podem ser anexados a uma aula já salva
+  lessonId: string | null;
+  disabled?: boolean;
+}
+
+const LessonAttachmentsEditor = ({ lessonId, disabled = false }: LessonAttachmentsEditorProps) => {
+  const [attachments, setAttachments] = useState<LessonAttachment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!lessonId) {
+      setAttachments([]);
+      return;
+    }
+
+    setIsLoading(true);
+    lessonAttachmentService.getAttachmentsByLessonId(lessonId)
+      .then(setAttachments)
+      .catch((error) => {
+        console.error("Erro ao carregar materiais da aula:", error);
+        toast.error("Erro ao carregar materiais da aula");
+      })
+      .finally(() => setIsLoading(false));
+  }, [lessonId]);
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (!lessonId || files.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      // Um arquivo por vez, para que a falha de um não descarte os demais
+      for (const file of files) {
+        try {
+          const attachment = await lessonAttachmentService.uploadAttachment(lessonId, file);
+          setAttachments((prev) => [...prev, attachment]);
+          toast.success(`Arquivo ${file.name} anexado`);
+        } catch (error) {
+          console.error("Erro ao anexar material:", error);
+          toast.error(error instanceof Error ? error.message : `Falha ao enviar o arquivo ${file.name}`);
+        }
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: LessonAttachment) => {
+    if (!confirm(`Tem certeza que deseja excluir o arquivo ${attachment.fileName}?`)) return;
+
+    try {
+      await lessonAttachmentService.deleteAttachment(attachment);
+      setAttachments((prev) => prev.filter((item) => item.id !== attachment.id));
+      toast.success("Material excluído com sucesso");
+    } catch (error) {
+      console.error("Erro ao excluir material:", error);
+      toast.error("Erro ao excluir material");
+    }
+  };
+
+  if (!lessonId) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Salve a aula para anexar materiais
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando materiais...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum material anexado</p>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <FileText className="h-4 w-4 shrink-0" />
+                <span className="text-sm truncate">{attachment.fileName}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(attachment.fileSize)}</span>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(attachment)}
+                disabled={disabled || isUploading}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ATTACHMENT_EXTENSIONS.join(",")}
+        className="hidden"
+        onChange={handleFilesSelected}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full sm:w-auto"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isUploading}
+      >
+        {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+        {isUploading ? "Enviando..." : "Anexar arquivos"}
+      </Button>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        PDF, documentos, apresentações, planilhas e arquivos ZIP de até 50 MB
+      </p>
+    </div>
+  );
+};
+
+export default LessonAttachmentsEditor;
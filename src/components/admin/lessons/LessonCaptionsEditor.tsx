@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { LessonCaption } from "@/types";
+import { lessonCaptionService } from "@/services/lessonCaptionService";
+import { CAPTION_EXTENSIONS } from "@/utils/captions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Captions, Loader2, Trash, Upload } from "lucide-react";
+
+interface LessonCaptionsEditorProps {
+  // As legendas só podem ser cadastradas em uma aula já salva
+  lessonId: string | null;
+  disabled?: boolean;
+}
+
+const LessonCaptionsEditor = ({ lessonId, disabled = false }: LessonCaptionsEditorProps) => {
+  const [captions, setCaptions] = useState<LessonCaption[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [language, setLanguage] = useState("pt-BR");
+  const [label, setLabel] = useState("Português");
+  const [isDefault, setIsDefault] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!lessonId) {
+      setCaptions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    lessonCaptionService.getCaptionsByLessonId(lessonId)
+      .then((data) => {
+        setCaptions(data);
+        setIsDefault(data.length === 0);
+      })
+      .catch((error) => {
+        console.error("Erro ao carregar legendas da aula:", error);
+        toast.error("Erro ao carregar legendas da aula");
+      })
+      .finally(() => setIsLoading(false));
+  }, [lessonId]);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!lessonId || !file) return;
+
+    setIsUploading(true);
+    try {
+      const caption = await lessonCaptionService.addCaption(lessonId, file, { language, label, isDefault });
+      setCaptions((prev) => [
+        ...prev.map((item) => (caption.isDefault ? { ...item, isDefault: false } : item)),
+        caption,
+      ]);
+      setIsDefault(false);
+      toast.success(`Legenda ${caption.label} adicionada`);
+    } catch (error) {
+      console.error("Erro ao adicionar legenda:", error);
+      toast.error(error instanceof Error ? error.message : "Falha ao salvar legenda");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (caption: LessonCaption) => {
+    if (!confirm(`Tem certeza que deseja excluir a legenda ${caption.label}?`)) return;
+
+    try {
+      await lessonCaptionService.deleteCaption(caption.id);
+      setCaptions((prev) => prev.filter((item) => item.id !== caption.id));
+      toast.success("Legenda excluída com sucesso");
+    } catch (error) {
+      console.error("Erro ao excluir legenda:", error);
+      toast.error("Erro ao excluir legenda");
+    }
+  };
+
+  if (!lessonId) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Salve a aula para adicionar legendas
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando legendas...</p>
+      ) : captions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma legenda cadastrada</p>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {captions.map((caption) => (
+            <li key={caption.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <Captions className="h-4 w-4 shrink-0" />
+                <span className="text-sm truncate">{caption.label}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{caption.language}</span>
+                {caption.isDefault && <Badge variant="outline">Padrão</Badge>}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(caption)}
+                disabled={disabled || isUploading}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="captionLanguage" className="text-xs">Idioma</Label>
+          <Input
+            id="captionLanguage"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            placeholder="Ex: pt-BR, en, es"
+            disabled={disabled || isUploading}
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="captionLabel" className="text-xs">Nome exibido</Label>
+          <Input
+            id="captionLabel"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Ex: Português"
+            disabled={disabled || isUploading}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="captionDefault"
+          checked={isDefault}
+          onCheckedChange={(checked) => setIsDefault(checked === true)}
+          disabled={disabled || isUploading}
+        />
+        <Label htmlFor="captionDefault" className="font-normal">
+          Ativar esta legenda automaticamente
+        </Label>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={CAPTION_EXTENSIONS.join(",")}
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full sm:w-auto"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isUploading || !language.trim() || !label.trim()}
+      >
+        {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+        {isUploading ? "Enviando..." : "Adicionar legenda"}
+      </Button>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Arquivos WebVTT (.vtt) ou SRT (.srt), uma legenda por idioma. O texto das legendas também é usado na busca de cursos
+      </p>
+    </div>
+  );
+};
+
+export default LessonCaptionsEditor;
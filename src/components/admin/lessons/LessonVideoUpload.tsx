@@ -0,0 +1,69 @@
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { UploadedLessonVideo, VIDEO_EXTENSIONS, lessonVideoService } from "@/services/lessonVideoService";
+import { Button } from "@/components/ui/button";
+import { Loader2, Upload } from "lucide-react";
+
+interface LessonVideoUploadProps {
+  // O vídeo só pode ser enviado para uma aula já salva
+  lessonId: string | null;
+  onUploaded: (video: UploadedLessonVideo) => void;
+  disabled?: boolean;
+}
+
+const LessonVideoUpload = ({ lessonId, onUploaded, disabled = false }: LessonVideoUploadProps) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!lessonId || !file) return;
+
+    setIsUploading(true);
+    try {
+      onUploaded(await lessonVideoService.uploadVideo(lessonId, file));
+      toast.success("Vídeo enviado. Salve a aula para aplicar a alteração");
+    } catch (error) {
+      console.error("Erro ao enviar vídeo da aula:", error);
+      toast.error(error instanceof Error ? error.message : "Falha ao enviar o vídeo");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (!lessonId) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Salve a aula para enviar um vídeo
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={VIDEO_EXTENSIONS.join(",")}
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full sm:w-auto"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isUploading}
+      >
+        {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+        {isUploading ? "Enviando vídeo..." : "Enviar vídeo"}
+      </Button>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        MP4, WebM ou OGG de até 1 GB; a duração e a miniatura são lidas do próprio vídeo
+      </p>
+    </div>
+  );
+};
+
+export default LessonVideoUpload;
@@ -0,0 +1,234 @@
+import { QuizQuestion, QuizQuestionType } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash, X } from "lucide-react";
+
+interface QuizEditorProps {
+  questions: QuizQuestion[];
+  onChange: (questions: QuizQuestion[]) => void;
+  disabled?: boolean;
+}
+
+const questionTypeLabels: Record<QuizQuestionType, string> = {
+  multiple_choice: "Múltipla escolha",
+  true_false: "Verdadeiro ou falso",
+  short_answer: "Resposta curta",
+};
+
+// Questão em branco com os valores padrão de cada tipo
+const createEmptyQuestion = (type: QuizQuestionType, order: number): QuizQuestion => ({
+  type,
+  prompt: "",
+  options: type === "multiple_choice" ? ["", ""] : [],
+  correctAnswer: type === "short_answer" ? [] : type === "true_false" ? true : undefined,
+  points: 1,
+  order,
+});
+
+const QuizEditor = ({ questions, onChange, disabled = false }: QuizEditorProps) => {
+  const updateQuestion = (index: number, changes: Partial<QuizQuestion>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const handleAddQuestion = () => {
+    onChange([...questions, createEmptyQuestion("multiple_choice", questions.length + 1)]);
+  };
+
+  const handleRemoveQuestion = (index: number) => {
+    onChange(
+      questions
+        .filter((_, i) => i !== index)
+        .map((question, i) => ({ ...question, order: i + 1 }))
+    );
+  };
+
+  const handleTypeChange = (index: number, type: QuizQuestionType) => {
+    const current = questions[index];
+    updateQuestion(index, { ...createEmptyQuestion(type, current.order), id: current.id, prompt: current.prompt, points: current.points });
+  };
+
+  const handleOptionChange = (index: number, optionIndex: number, value: string) => {
+    const options = questions[index].options.map((option, i) => (i === optionIndex ? value : option));
+    updateQuestion(index, { options });
+  };
+
+  const handleRemoveOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    const options = question.options.filter((_, i) => i !== optionIndex);
+    let correctAnswer = question.correctAnswer;
+    if (typeof correctAnswer === "number") {
+      // Manter a alternativa correta apontando para o mesmo texto após a remoção
+      if (correctAnswer === optionIndex) correctAnswer = undefined;
+      else if (correctAnswer > optionIndex) correctAnswer = correctAnswer - 1;
+    }
+    updateQuestion(index, { options, correctAnswer });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Nenhuma questão adicionada. Um questionário precisa de ao menos uma questão para ser respondido.
+        </p>
+      )}
+
+      {questions.map((question, index) => (
+        <Card key={question.id || `new-${index}`} className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">Questão {index + 1}</span>
+            <div className="flex items-center gap-2">
+              <Select
+                value={question.type}
+                onValueChange={(value) => handleTypeChange(index, value as QuizQuestionType)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(questionTypeLabels).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemoveQuestion(index)}
+                disabled={disabled}
+                title="Remover questão"
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor={`question-prompt-${index}`}>Enunciado</Label>
+            <Textarea
+              id={`question-prompt-${index}`}
+              value={question.prompt}
+              onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+              placeholder="Digite a pergunta"
+              rows={2}
+              disabled={disabled}
+            />
+          </div>
+
+          {question.type === "multiple_choice" && (
+            <div className="flex flex-col gap-2">
+              <Label>Alternativas (marque a correta)</Label>
+              <RadioGroup
+                value={typeof question.correctAnswer === "number" ? String(question.correctAnswer) : ""}
+                onValueChange={(value) => updateQuestion(index, { correctAnswer: Number(value) })}
+                disabled={disabled}
+              >
+                {question.options.map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <RadioGroupItem value={String(optionIndex)} id={`question-${index}-option-${optionIndex}`} />
+                    <Input
+                      value={option}
+                      onChange={(e) => handleOptionChange(index, optionIndex, e.target.value)}
+                      placeholder={`Alternativa ${optionIndex + 1}`}
+                      disabled={disabled}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveOption(index, optionIndex)}
+                      disabled={disabled || question.options.length <= 2}
+                      title="Remover alternativa"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </RadioGroup>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="self-start"
+                onClick={() => updateQuestion(index, { options: [...question.options, ""] })}
+                disabled={disabled}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Adicionar alternativa
+              </Button>
+            </div>
+          )}
+
+          {question.type === "true_false" && (
+            <div className="flex flex-col gap-2">
+              <Label>Resposta correta</Label>
+              <RadioGroup
+                value={question.correctAnswer === false ? "false" : "true"}
+                onValueChange={(value) => updateQuestion(index, { correctAnswer: value === "true" })}
+                className="flex gap-6"
+                disabled={disabled}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="true" id={`question-${index}-true`} />
+                  <Label htmlFor={`question-${index}-true`}>Verdadeiro</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="false" id={`question-${index}-false`} />
+                  <Label htmlFor={`question-${index}-false`}>Falso</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          {question.type === "short_answer" && (
+            <div className="flex flex-col gap-2">
+              <Label htmlFor={`question-answers-${index}`}>Respostas aceitas (uma por linha)</Label>
+              <Textarea
+                id={`question-answers-${index}`}
+                value={Array.isArray(question.correctAnswer) ? question.correctAnswer.join("\n") : ""}
+                onChange={(e) => updateQuestion(index, { correctAnswer: e.target.value.split("\n") })}
+                placeholder="A comparação ignora maiúsculas, minúsculas e espaços nas pontas"
+                rows={2}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`question-points-${index}`}>Pontos</Label>
+            <Input
+              id={`question-points-${index}`}
+              type="number"
+              min={1}
+              className="w-24"
+              value={question.points}
+              onChange={(e) => updateQuestion(index, { points: Number(e.target.value) || 1 })}
+              disabled={disabled}
+            />
+          </div>
+        </Card>
+      ))}
+
+      <Button type="button" variant="outline" onClick={handleAddQuestion} disabled={disabled}>
+        <Plus className="h-4 w-4 mr-2" />
+        Adicionar questão
+      </Button>
+    </div>
+  );
+};
+
+export default QuizEditor;
@@ -0,0 +1,340 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileDown, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { UserImportAction, UserImportResult, UserImportRow } from "@/types";
+import { userImportService } from "@/services/api";
+import { useAppData } from "@/contexts/AppDataContext";
+import { USER_IMPORT_TEMPLATE, parseUserImportFile } from "@/utils/userImport";
+import { downloadBlob } from "@/utils/spreadsheetExport";
+import DataExportButton from "@/components/admin/DataExportButton";
+
+type WizardStep = "upload" | "preview" | "importing" | "done";
+
+interface UserImportWizardProps {
+  onImported: () => void;
+}
+
+const ACTION_LABELS: Record<UserImportAction, string> = {
+  create: "Criar",
+  update: "Atualizar",
+  error: "Erro",
+};
+
+const ACTION_VARIANTS: Record<UserImportAction, "default" | "secondary" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  error: "destructive",
+};
+
+const ROLE_LABELS = { admin: "Administrador", student: "Aluno" };
+
+// Assistente de importação de usuários por CSV: arquivo → simulação → importação → relatório
+const UserImportWizard = ({ onImported }: UserImportWizardProps) => {
+  const { courses } = useAppData();
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<UserImportRow[]>([]);
+  const [results, setResults] = useState<UserImportResult[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const countByAction = (action: UserImportAction) => rows.filter((row) => row.action === action).length;
+  const rowsToImport = rows.filter((row) => row.action !== "error");
+  const countByStatus = (status: UserImportResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+
+  const resetWizard = () => {
+    setStep("upload");
+    setFileName("");
+    setRows([]);
+    setResults([]);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // A importação em andamento não pode ser interrompida fechando o diálogo
+    if (step === "importing") return;
+    if (!open) resetWizard();
+    setIsOpen(open);
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadBlob(
+      new Blob(["\uFEFF" + USER_IMPORT_TEMPLATE], { type: "text/csv;charset=utf-8" }),
+      "modelo-importacao-usuarios.csv"
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setIsPreviewing(true);
+      const parsedRows = parseUserImportFile(await file.text(), courses);
+      setRows(await userImportService.previewImport(parsedRows));
+      setFileName(file.name);
+      setStep("preview");
+    } catch (error) {
+      console.error("Erro ao ler arquivo de importação:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao ler o arquivo");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const createCount = countByAction("create");
+    if (
+      createCount > 0 &&
+      !confirm(`Serão criadas ${createCount} contas e enviados ${createCount} convites por e-mail. Deseja continuar?`)
+    ) {
+      return;
+    }
+
+    setStep("importing");
+    setResults([]);
+
+    // Uma linha por vez: cada convite e matrícula tem seu próprio resultado no relatório
+    const importResults: UserImportResult[] = [];
+    const invitationRedirectUrl = `${window.location.origin}/convite`;
+    for (const row of rows) {
+      importResults.push(await userImportService.importRow(row, invitationRedirectUrl));
+      setResults([...importResults]);
+    }
+
+    const failed = importResults.filter((result) => result.status === "failed").length;
+    if (failed > 0) {
+      toast.warning(`Importação concluída com ${failed} ${failed === 1 ? "falha" : "falhas"}`);
+    } else {
+      toast.success("Importação concluída");
+    }
+
+    setStep("done");
+    onImported();
+  };
+
+  const processedCount = results.length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Importar CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar usuários</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Envie um arquivo CSV com um usuário por linha. Nada é gravado antes da sua confirmação."}
+            {step === "preview" && `Simulação da importação de ${fileName}. Linhas com erro serão ignoradas.`}
+            {step === "importing" && "Criando contas, enviando convites e matriculando os usuários..."}
+            {step === "done" && "Importação concluída. Baixe o relatório com o resultado de cada linha."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="rounded-md border p-4 text-sm space-y-2">
+              <p className="font-medium">Colunas do arquivo</p>
+              <ul className="list-disc pl-5 text-muted-foreground space-y-1">
+                <li><strong>email</strong> (obrigatória): identifica o usuário; e-mails já cadastrados são atualizados</li>
+                <li><strong>nome</strong>: obrigatório para novos usuários</li>
+                <li><strong>papel</strong>: "aluno" ou "administrador" (vazio cria alunos e mantém o papel de quem já existe)</li>
+                <li><strong>cursos</strong>: títulos ou IDs dos cursos para matricular, separados por "|"</li>
+                <li><strong>turma</strong>: nome da turma (criada se não existir); o usuário é matriculado nos cursos dela</li>
+              </ul>
+              <p className="text-muted-foreground">
+                Separador ";" ou ",", com a primeira linha de cabeçalho. Novos usuários recebem um convite por e-mail
+                para definir a senha.
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="user-import-file">Arquivo CSV</Label>
+                <Input
+                  id="user-import-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileChange}
+                  disabled={isPreviewing}
+                />
+              </div>
+              <Button type="button" variant="ghost" onClick={handleDownloadTemplate}>
+                <FileDown className="h-4 w-4 mr-2" />
+                Baixar modelo
+              </Button>
+            </div>
+
+            {isPreviewing && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Validando o arquivo...
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge>{countByAction("create")} a criar</Badge>
+              <Badge variant="secondary">{countByAction("update")} a atualizar</Badge>
+              <Badge variant="destructive">{countByAction("error")} com erro</Badge>
+              <Badge variant="outline">
+                {rowsToImport.reduce((total, row) => total + row.newEnrollments, 0)} matrículas novas
+              </Badge>
+            </div>
+
+            <div className="max-h-[50vh] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Linha</TableHead>
+                    <TableHead>Usuário</TableHead>
+                    <TableHead>Papel</TableHead>
+                    <TableHead>Turma</TableHead>
+                    <TableHead>Cursos</TableHead>
+                    <TableHead>Ação</TableHead>
+                    <TableHead>Observações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.name || "—"}</div>
+                        <div className="text-xs text-muted-foreground">{row.email || "—"}</div>
+                      </TableCell>
+                      <TableCell>{row.role ? ROLE_LABELS[row.role] : "—"}</TableCell>
+                      <TableCell>{row.group || "—"}</TableCell>
+                      <TableCell className="text-sm">
+                        {row.courseTitles.length > 0 ? row.courseTitles.join(", ") : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[row.action]}>{ACTION_LABELS[row.action]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.errors.map((message) => (
+                          <p key={message} className="text-destructive">{message}</p>
+                        ))}
+                        {row.warnings.map((message) => (
+                          <p key={message} className="text-amber-600">{message}</p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {step === "importing" && (
+          <div className="space-y-2 py-4">
+            <Progress value={rows.length > 0 ? (processedCount / rows.length) * 100 : 0} />
+            <p className="text-sm text-muted-foreground">
+              {processedCount} de {rows.length} linhas processadas
+            </p>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge>{countByStatus("created")} criados e convidados</Badge>
+              <Badge variant="secondary">{countByStatus("updated")} atualizados</Badge>
+              <Badge variant="destructive">{countByStatus("failed")} falharam</Badge>
+              <Badge variant="outline">{countByStatus("skipped")} ignorados</Badge>
+              <Badge variant="outline">
+                {results.reduce((total, result) => total + result.enrolledCount, 0)} matrículas criadas
+              </Badge>
+            </div>
+
+            {results.some((result) => result.status === "failed" || result.message) && (
+              <div className="max-h-[40vh] overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[60px]">Linha</TableHead>
+                      <TableHead>E-mail</TableHead>
+                      <TableHead>Observações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results
+                      .filter((result) => result.status === "failed" || result.message)
+                      .map((result) => (
+                        <TableRow key={result.line}>
+                          <TableCell className="text-muted-foreground">{result.line}</TableCell>
+                          <TableCell>{result.email || "—"}</TableCell>
+                          <TableCell className={result.status === "failed" ? "text-destructive text-sm" : "text-sm"}>
+                            {result.message}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "preview" && (
+            <>
+              <Button type="button" variant="outline" onClick={resetWizard}>
+                Escolher outro arquivo
+              </Button>
+              <Button type="button" onClick={handleImport} disabled={rowsToImport.length === 0}>
+                Importar {rowsToImport.length} {rowsToImport.length === 1 ? "usuário" : "usuários"}
+              </Button>
+            </>
+          )}
+          {step === "importing" && (
+            <Button type="button" disabled>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Importando...
+            </Button>
+          )}
+          {step === "done" && (
+            <>
+              <DataExportButton dataset={userImportService.getResultDataset(results)} label="Baixar relatório" />
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                Concluir
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserImportWizard;
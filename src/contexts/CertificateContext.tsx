@@ -624,13 +624,11 @@ export function CertificateProvider({ children }: { children: React.ReactNode })
           
           // Primeira tentativa: criar uma versão simulada da função SQL na nossa aplicação
           // Esta abordagem cria um certificado para o usuário autenticado atual
-          const { error: insertError } = await supabase
-            .from('certificates')
-            .insert({
-              user_id: user?.id || validUserId, // Usar o ID do usuário autenticado se disponível
-              course_id: data.courseId,
-              course_name: courseData.title,
-              user_name: userName
+          // A emissão passa pelo banco, que confere a elegibilidade do aluno
+          const { data: issuedId, error: insertError } = await supabase
+            .rpc('issue_certificate', {
+              p_user_id: user?.id || validUserId, // Usar o ID do usuário autenticado se disponível
+              p_course_id: data.courseId
             });
           
           if (insertError) {
@@ -642,9 +640,7 @@ export function CertificateProvider({ children }: { children: React.ReactNode })
           const { data: createdCert } = await supabase
             .from('certificates')
             .select('*')
-            .eq('user_id', user?.id || validUserId)
-            .eq('course_id', data.courseId)
-            .order('issue_date', { ascending: false })
+            .eq('id', issuedId as unknown as string)
             .limit(1);
           
           if (!createdCert || createdCert.length === 0) {
@@ -675,16 +671,25 @@ export function CertificateProvider({ children }: { children: React.ReactNode })
           toast.success("Certificado criado com sucesso");
           return certificate;
         } else {
-          // Se é administrador, pode inserir diretamente
-          const { data: result, error: insertError } = await supabase
-            .from('certificates')
-            .insert(certificateData)
-            .select();
+          // Administradores podem informar nome, curso e data do certificado
+          const { data: issuedId, error: insertError } = await supabase
+            .rpc('issue_certificate', {
+              p_user_id: certificateData.user_id,
+              p_course_id: certificateData.course_id,
+              p_user_name: certificateData.user_name,
+              p_course_name: certificateData.course_name,
+              p_issue_date: certificateData.issue_date
+            });
           
           if (insertError) {
             throw new Error(`Erro ao inserir certificado: ${insertError.message}`);
           }
           
+          const { data: result } = await supabase
+            .from('certificates')
+            .select('*')
+            .eq('id', issuedId as unknown as string);
+          
           if (!result || result.length === 0) {
             throw new Error('Nenhum certificado retornado após inserção');
           }
@@ -803,8 +808,10 @@ export function CertificateProvider({ children }: { children: React.ReactNode })
       const success = await certificateService.deleteCertificate(id);
       
       if (success) {
-        dispatch({ type: 'DELETE_CERTIFICATE', payload: id });
-        toast.success("Certificado excluído com sucesso");
+        // A exclusão revoga o certificado, que continua na lista como revogado
+        const certificate = await certificateService.getCertificateById(id);
+        dispatch({ type: 'UPDATE_CERTIFICATE', payload: { id, certificate } });
+        toast.success("Certificado revogado com sucesso");
       }
       
       return success;
@@ -200,12 +200,17 @@ export function useCertificado() {
         issue_date: now
       };
       
-      // Tentar inserir o certificado
-      const { data: newCertificate, error } = await supabase
-        .from('certificates')
-        .insert(certificateData)
-        .select('id')
-        .single();
+      // Emitir o certificado pela função do banco
+      const { data: issuedId, error } = await supabase
+        .rpc('issue_certificate', {
+          p_user_id: certificateData.user_id,
+          p_course_id: certificateData.course_id,
+          p_user_name: certificateData.user_name,
+          p_course_name: certificateData.course_name,
+          p_course_hours: certificateData.course_hours,
+          p_issue_date: certificateData.issue_date
+        });
+      const newCertificate = issuedId ? { id: issuedId as unknown as string } : null;
       
       if (error) {
         console.error('[CERTIFICADO] Erro ao criar certificado:', error);
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Course } from "@/types";
+import { CertificateRules, ContentReleaseMode, Course } from "@/types";
 import { courseService } from "@/services/api";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
@@ -13,7 +13,12 @@ export interface CourseFormData {
   duration: string;
   thumbnail: string;
   enrolledCount: number;
-  rating: number;
+  reviewMinProgress: number;
+  certificateRules: CertificateRules;
+  certificateTemplateId: string | null;
+  certificateValidityMonths: number | null;
+  prerequisiteCourseIds: string[];
+  contentReleaseMode: ContentReleaseMode;
 }
 
 const defaultFormData: CourseFormData = {
@@ -23,7 +28,12 @@ const defaultFormData: CourseFormData = {
   duration: "",
   thumbnail: "/placeholder.svg",
   enrolledCount: 0,
-  rating: 0,
+  reviewMinProgress: 0,
+  certificateRules: {},
+  certificateTemplateId: null,
+  certificateValidityMonths: null,
+  prerequisiteCourseIds: [],
+  contentReleaseMode: "free",
 };
 
 export function useCourseManagement() {
@@ -97,11 +107,35 @@ export function useCourseManagement() {
       // Garantir que seja um número válido
       const numericValue = value === '' ? '' : String(parseInt(value) || 0);
       setFormData((prev) => ({ ...prev, [name]: numericValue }));
+    } else if (name === 'reviewMinProgress') {
+      // Percentual de 0 a 100
+      const percent = Math.min(100, Math.max(0, parseInt(value) || 0));
+      setFormData((prev) => ({ ...prev, reviewMinProgress: percent }));
     } else {
       setFormData((prev) => ({ ...prev, [name]: value }));
     }
   };
 
+  const handleCertificateRulesChange = (certificateRules: CertificateRules) => {
+    setFormData((prev) => ({ ...prev, certificateRules }));
+  };
+
+  const handleCertificateTemplateChange = (certificateTemplateId: string | null) => {
+    setFormData((prev) => ({ ...prev, certificateTemplateId }));
+  };
+
+  const handleCertificateValidityChange = (certificateValidityMonths: number | null) => {
+    setFormData((prev) => ({ ...prev, certificateValidityMonths }));
+  };
+
+  const handlePrerequisitesChange = (prerequisiteCourseIds: string[]) => {
+    setFormData((prev) => ({ ...prev, prerequisiteCourseIds }));
+  };
+
+  const handleContentReleaseModeChange = (contentReleaseMode: ContentReleaseMode) => {
+    setFormData((prev) => ({ ...prev, contentReleaseMode }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -118,7 +152,6 @@ export function useCourseManagement() {
     const courseData = {
       ...formData,
       enrolledCount: formData.enrolledCount || 0,
-      rating: formData.rating || 0,
       isEnrolled: false,
       progress: 0
     };
@@ -138,7 +171,12 @@ export function useCourseManagement() {
       duration: course.duration,
       thumbnail: course.thumbnail,
       enrolledCount: course.enrolledCount,
-      rating: course.rating,
+      reviewMinProgress: course.reviewMinProgress || 0,
+      certificateRules: course.certificateRules || {},
+      certificateTemplateId: course.certificateTemplateId || null,
+      certificateValidityMonths: course.certificateValidityMonths || null,
+      prerequisiteCourseIds: course.prerequisiteCourseIds || [],
+      contentReleaseMode: course.contentReleaseMode || "free",
     });
     setEditingCourseId(course.id);
     setIsDialogOpen(true);
@@ -171,6 +209,11 @@ export function useCourseManagement() {
     editingCourseId,
     isSubmitting: createCourseMutation.isPending || updateCourseMutation.isPending,
     handleInputChange,
+    handleCertificateRulesChange,
+    handleCertificateTemplateChange,
+    handleCertificateValidityChange,
+    handlePrerequisitesChange,
+    handleContentReleaseModeChange,
     handleEditCourse,
     handleDeleteCourse,
     handleSubmit,
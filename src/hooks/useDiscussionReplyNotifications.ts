@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { lessonDiscussionService } from "@/services";
+import { realtimeEvents } from "@/utils/realtimeSubscriptions";
+
+interface LessonDiscussionEvent {
+  lessonId: string;
+  parentId: string | null;
+  userId: string;
+}
+
+/**
+ * Avisa o aluno quando alguém responde a uma pergunta dele, a partir dos eventos
+ * 'lesson-discussions-changed' publicados em realtimeSubscriptions
+ */
+export function useDiscussionReplyNotifications(userId: string | null | undefined) {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return realtimeEvents.subscribe('lesson-discussions-changed', async (event: LessonDiscussionEvent) => {
+      // Só interessam respostas escritas por outras pessoas
+      if (!event.parentId || event.userId === userId) return;
+
+      const question = await lessonDiscussionService.getQuestionContext(event.parentId);
+      if (!question || question.userId !== userId) return;
+
+      toast.info(`Nova resposta na sua pergunta sobre "${question.lessonTitle}"`, {
+        action: question.courseId
+          ? {
+              label: 'Ver resposta',
+              onClick: () => navigate(`/aluno/curso/${question.courseId}/player?lesson=${question.lessonId}&tab=discussion`)
+            }
+          : undefined
+      });
+    });
+  }, [userId, navigate]);
+}
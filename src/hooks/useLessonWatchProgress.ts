@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { lessonProgressService } from "@/services";
+
+// Intervalo entre os registros do tempo assistido durante a reprodução
+const FLUSH_INTERVAL_MS = 15000;
+
+// Maior avanço entre duas leituras de posição considerado reprodução contínua (acima disso é um salto)
+const MAX_PLAYBACK_STEP_SECONDS = 5;
+
+// Aulas paradas a menos disso do fim recomeçam do início
+const RESUME_END_MARGIN_SECONDS = 5;
+
+interface UseLessonWatchProgressOptions {
+  lessonId: string | null;
+  userId: string | null;
+  isCompleted: boolean;
+  autoCompletePercent?: number | null;
+  onAutoComplete: () => void;
+}
+
+interface WatchState {
+  lessonId: string | null;
+  previousPosition: number | null;
+  position: number;
+  furthestPosition: number;
+  duration: number;
+  pendingWatchedSeconds: number;
+  lastFlushAt: number;
+  hasPendingPosition: boolean;
+  autoCompleted: boolean;
+}
+
+const createWatchState = (lessonId: string | null, furthestPosition = 0): WatchState => ({
+  lessonId,
+  previousPosition: null,
+  position: 0,
+  furthestPosition,
+  duration: 0,
+  pendingWatchedSeconds: 0,
+  lastFlushAt: Date.now(),
+  hasPendingPosition: false,
+  autoCompleted: false
+});
+
+/**
+ * Acompanha o vídeo da aula selecionada: carrega a posição para retomar a aula,
+ * soma o tempo efetivamente assistido, registra o avanço periodicamente e
+ * conclui a aula automaticamente quando a porcentagem configurada é assistida
+ */
+export function useLessonWatchProgress({
+  lessonId,
+  userId,
+  isCompleted,
+  autoCompletePercent,
+  onAutoComplete
+}: UseLessonWatchProgressOptions) {
+  // null enquanto a posição salva ainda está sendo carregada
+  const [savedPosition, setSavedPosition] = useState<{ resume: number; furthest: number } | null>(null);
+  const watchState = useRef<WatchState>(createWatchState(lessonId));
+  const options = useRef({ isCompleted, autoCompletePercent, onAutoComplete });
+  options.current = { isCompleted, autoCompletePercent, onAutoComplete };
+
+  const flush = useCallback((): Promise<void> => {
+    const state = watchState.current;
+    if (!state.lessonId || (!state.hasPendingPosition && state.pendingWatchedSeconds < 1)) return Promise.resolve();
+
+    const watchedSeconds = Math.floor(state.pendingWatchedSeconds);
+    state.pendingWatchedSeconds -= watchedSeconds;
+    state.hasPendingPosition = false;
+    state.lastFlushAt = Date.now();
+
+    return lessonProgressService
+      .recordWatchProgress(state.lessonId, {
+        watchedSeconds,
+        positionSeconds: state.position,
+        furthestPositionSeconds: state.furthestPosition
+      })
+      .catch(error => console.error('Erro ao registrar progresso do vídeo:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!lessonId || !userId) {
+      watchState.current = createWatchState(null);
+      setSavedPosition({ resume: 0, furthest: 0 });
+      return;
+    }
+
+    let cancelled = false;
+    watchState.current = createWatchState(lessonId);
+    setSavedPosition(null);
+
+    lessonProgressService
+      .getLessonProgressByLessonId(userId, lessonId)
+      .then(progress => {
+        if (cancelled) return;
+
+        const furthest = progress?.furthestPositionSeconds || 0;
+        watchState.current = createWatchState(lessonId, furthest);
+        const lastPosition = progress?.lastPositionSeconds || 0;
+        const duration = progress?.videoDurationSeconds || 0;
+        setSavedPosition({
+          resume: duration > 0 && lastPosition >= duration - RESUME_END_MARGIN_SECONDS ? 0 : lastPosition,
+          furthest
+        });
+      })
+      .catch(error => {
+        console.error('Erro ao carregar posição do vídeo:', error);
+        if (!cancelled) setSavedPosition({ resume: 0, furthest: 0 });
+      });
+
+    // Registrar o que falta ao sair da aula ou ao esconder a página
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, [lessonId, userId, flush]);
+
+  const handleTimeUpdate = useCallback((positionSeconds: number, durationSeconds: number) => {
+    const state = watchState.current;
+    if (!state.lessonId || !Number.isFinite(positionSeconds)) return;
+
+    if (Number.isFinite(durationSeconds) && durationSeconds > 0) {
+      state.duration = durationSeconds;
+    }
+
+    if (state.previousPosition !== null) {
+      const step = positionSeconds - state.previousPosition;
+
+      // Só a reprodução contínua conta como tempo assistido e faz avançar a posição mais distante
+      if (step > 0 && step <= MAX_PLAYBACK_STEP_SECONDS) {
+        state.pendingWatchedSeconds += step;
+        if (state.previousPosition <= state.furthestPosition + MAX_PLAYBACK_STEP_SECONDS) {
+          state.furthestPosition = Math.max(state.furthestPosition, positionSeconds);
+        }
+      }
+    }
+
+    state.previousPosition = positionSeconds;
+    state.position = positionSeconds;
+    state.hasPendingPosition = true;
+
+    const { isCompleted, autoCompletePercent, onAutoComplete } = options.current;
+    if (
+      autoCompletePercent &&
+      !isCompleted &&
+      !state.autoCompleted &&
+      state.duration > 0 &&
+      (state.furthestPosition / state.duration) * 100 >= autoCompletePercent
+    ) {
+      state.autoCompleted = true;
+      flush().finally(onAutoComplete);
+      return;
+    }
+
+    if (Date.now() - state.lastFlushAt >= FLUSH_INTERVAL_MS) flush();
+  }, [flush]);
+
+  return {
+    resumePosition: savedPosition ? savedPosition.resume : null,
+    // Posição mais avançada já registrada, de onde o aluno pode continuar sem pular trechos
+    furthestPosition: savedPosition ? savedPosition.furthest : 0,
+    handleTimeUpdate,
+    handlePause: flush,
+    flush
+  };
+}
@@ -10,14 +10,38 @@ export interface ModuleFormData {
   title: string;
   description: string;
   order: number;
+  releaseAfterDays: string; // Vazio = sem liberação por dias após a matrícula
+  releaseDate: string; // Data no formato do campo (AAAA-MM-DD); vazio = sem data fixa
 }
 
 const defaultFormData: ModuleFormData = {
   title: '',
   description: '',
   order: 1, // Começa com 1 como valor padrão
+  releaseAfterDays: '',
+  releaseDate: '',
 };
 
+// Converte a data de liberação salva para o valor do campo de data, no fuso local
+const toDateInputValue = (date?: string | null) => {
+  if (!date) return '';
+  const parsed = new Date(date);
+  return [
+    parsed.getFullYear(),
+    String(parsed.getMonth() + 1).padStart(2, '0'),
+    String(parsed.getDate()).padStart(2, '0')
+  ].join('-');
+};
+
+// Dados do formulário no formato do moduleService; a data fixa libera o módulo à meia-noite local
+const toModuleData = (formData: ModuleFormData) => ({
+  title: formData.title,
+  description: formData.description,
+  order: formData.order,
+  releaseAfterDays: formData.releaseAfterDays !== '' ? Number(formData.releaseAfterDays) : null,
+  releaseDate: formData.releaseDate ? new Date(`${formData.releaseDate}T00:00:00`).toISOString() : null
+});
+
 export function useModuleManagement(courseId: string) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [formData, setFormData] = useState<ModuleFormData>(defaultFormData);
@@ -60,7 +84,7 @@ export function useModuleManagement(courseId: string) {
 
   // Mutação para criar módulo
   const createModuleMutation = useMutation({
-    mutationFn: (moduleData: ModuleFormData) => moduleService.createModule(courseId, moduleData),
+    mutationFn: (moduleData: ReturnType<typeof toModuleData>) => moduleService.createModule(courseId, moduleData),
     onSuccess: (newModule) => {
       toast.success('Módulo criado com sucesso');
       // Adicionar o novo módulo ao estado local imediatamente
@@ -139,10 +163,18 @@ export function useModuleManagement(courseId: string) {
       return;
     }
 
+    const releaseAfterDays = Number(formData.releaseAfterDays);
+    if (formData.releaseAfterDays !== '' && (!Number.isInteger(releaseAfterDays) || releaseAfterDays < 0)) {
+      toast.error('Os dias para liberação devem ser um número inteiro maior ou igual a zero');
+      return;
+    }
+
+    const moduleData = toModuleData(formData);
+
     if (editingModuleId) {
-      updateModuleMutation.mutate({ moduleId: editingModuleId, moduleData: formData });
+      updateModuleMutation.mutate({ moduleId: editingModuleId, moduleData });
     } else {
-      createModuleMutation.mutate(formData);
+      createModuleMutation.mutate(moduleData);
     }
   };
 
@@ -151,6 +183,8 @@ export function useModuleManagement(courseId: string) {
       title: module.title,
       description: module.description,
       order: module.order,
+      releaseAfterDays: module.releaseAfterDays != null ? String(module.releaseAfterDays) : '',
+      releaseDate: toDateInputValue(module.releaseDate),
     });
     setEditingModuleId(module.id);
     setIsDialogOpen(true);
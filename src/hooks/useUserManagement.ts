@@ -224,5 +224,6 @@ export function useUserManagement() {
     handleSubmit,
     resetForm,
     openNewUserDialog,
+    fetchUsers,
   };
 }
@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { Database } from '@/types/database';
 import { requestThrottler } from '@/utils/requestThrottler';
 
@@ -302,3 +302,23 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseKey, {
     });
   }
 });
+
+// Cliente usado apenas para enviar convites por e-mail (importação de usuários). Não guarda sessão,
+// então não substitui a sessão do administrador, e usa o fluxo implícito: o link do convite precisa
+// abrir em qualquer navegador, e o PKCE só funciona no navegador que fez o pedido
+let invitationClient: SupabaseClient<Database> | null = null;
+
+export const getInvitationClient = () => {
+  if (!invitationClient) {
+    invitationClient = createClient<Database>(supabaseUrl, supabaseKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+        detectSessionInUrl: false,
+        storageKey: 'lms-invitation',
+        flowType: 'implicit',
+      },
+    });
+  }
+  return invitationClient;
+};
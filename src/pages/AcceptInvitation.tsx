@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+
+const passwordSchema = z.object({
+  password: z.string().min(6, { message: "A senha deve ter pelo menos 6 caracteres" }),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type PasswordFormValues = z.infer<typeof passwordSchema>;
+
+// Página de destino do convite enviado na importação de usuários: o link traz a sessão no
+// fragmento da URL (fluxo implícito) e o usuário define a senha no primeiro acesso
+const AcceptInvitation = () => {
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<"loading" | "ready" | "invalid">("loading");
+  const [invalidReason, setInvalidReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  useEffect(() => {
+    const acceptInvitation = async () => {
+      const params = new URLSearchParams(window.location.hash.replace(/^#/, ""));
+      const accessToken = params.get("access_token");
+      const refreshToken = params.get("refresh_token");
+
+      if (!accessToken || !refreshToken) {
+        setInvalidReason(params.get("error_description") || "O link do convite é inválido ou já foi utilizado.");
+        setStatus("invalid");
+        return;
+      }
+
+      const { error } = await supabase.auth.setSession({ access_token: accessToken, refresh_token: refreshToken });
+      // Remove os tokens da barra de endereços
+      window.history.replaceState(null, "", window.location.pathname);
+
+      if (error) {
+        console.error("Erro ao aceitar convite:", error);
+        setInvalidReason("O link do convite expirou. Peça um novo convite ao administrador.");
+        setStatus("invalid");
+        return;
+      }
+
+      setStatus("ready");
+    };
+
+    acceptInvitation();
+  }, []);
+
+  const onSubmit = async (data: PasswordFormValues) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password: data.password });
+      if (error) throw error;
+
+      toast.success("Senha definida com sucesso!");
+      navigate("/dashboard");
+    } catch (error) {
+      console.error("Erro ao definir senha:", error);
+      toast.error("Falha ao definir a senha. Tente novamente.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-8 px-2 sm:px-4">
+      <Card className="w-full max-w-md shadow-lg dark:bg-gray-800">
+        <CardHeader className="space-y-1">
+          <div className="flex justify-center mb-4">
+            <img src="/placeholder.svg" alt="Logo" className="h-12 w-12 rounded-full bg-blue-600 p-2 dark:bg-gray-700" />
+          </div>
+          <CardTitle className="text-2xl text-center font-bold text-blue-700 dark:text-gray-100">Bem-vindo(a)!</CardTitle>
+          <CardDescription className="text-center text-gray-600 dark:text-gray-300">
+            {status === "loading" && "Validando o convite..."}
+            {status === "ready" && "Defina a senha que você usará para entrar na plataforma"}
+            {status === "invalid" && invalidReason}
+          </CardDescription>
+        </CardHeader>
+        {status === "ready" && (
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="dark:text-gray-200">Senha</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Crie uma senha forte" {...field} className="dark:bg-gray-700 dark:text-gray-100" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="dark:text-gray-200">Confirmar Senha</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Confirme sua senha" {...field} className="dark:bg-gray-700 dark:text-gray-100" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full bg-blue-600 text-white dark:bg-blue-700 dark:text-gray-100 hover:bg-blue-700 dark:hover:bg-blue-800" disabled={isSaving}>
+                  {isSaving ? "Salvando..." : "Definir senha e entrar"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        )}
+        <CardFooter className="flex justify-center">
+          <div className="text-xs sm:text-sm text-gray-500 dark:text-gray-300">
+            Já definiu sua senha?{" "}
+            <Link to="/login" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Entrar
+            </Link>
+          </div>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
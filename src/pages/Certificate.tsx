@@ -1,14 +1,13 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
 import { Certificate as CertificateType } from "@/types";
-import { certificateService } from "@/services";
+import { certificateService, certificatePdfService } from "@/services";
 import { toast } from "sonner";
 import { Download, Printer, ChevronLeft, Award, Share2 } from "lucide-react";
-import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
+import { QRCodeSVG } from "qrcode.react";
 
 const Certificate = () => {
   const { certificateId } = useParams<{ certificateId: string }>();
@@ -16,7 +15,6 @@ const Certificate = () => {
   const { user } = useAuth();
   const [certificate, setCertificate] = useState<CertificateType | null>(null);
   const [loading, setLoading] = useState(true);
-  const certificateRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const fetchCertificate = async () => {
@@ -50,28 +48,13 @@ const Certificate = () => {
   }, [certificateId, navigate]);
 
   const downloadPDF = async () => {
-    if (!certificateRef.current || !certificate) return;
+    if (!certificate) return;
 
     toast.info("Preparando o download do certificado...");
     
     try {
-      const canvas = await html2canvas(certificateRef.current, {
-        scale: 2,
-        logging: false,
-        useCORS: true
-      });
-      
-      const imgData = canvas.toDataURL('image/jpeg', 1.0);
-      const pdf = new jsPDF({
-        orientation: 'landscape',
-        unit: 'mm',
-        format: 'a4'
-      });
-      
-      const width = pdf.internal.pageSize.getWidth();
-      const height = pdf.internal.pageSize.getHeight();
-      pdf.addImage(imgData, 'JPEG', 0, 0, width, height);
-      pdf.save(`certificado-${certificate.userName.replace(/\s+/g, '_').toLowerCase()}.pdf`);
+      // PDF vetorial gerado a partir do modelo salvo na emissão (texto selecionável)
+      await certificatePdfService.downloadCertificatePdf(certificate);
       
       toast.success("Certificado baixado com sucesso!");
     } catch (error) {
@@ -88,7 +71,8 @@ const Certificate = () => {
     if (!certificateId) return;
     
     try {
-      const shareUrl = `${window.location.origin}/aluno/certificado/${certificateId}`;
+      // Compartilhar a página pública de verificação, acessível sem login
+      const shareUrl = certificateService.getVerificationUrl(certificateId);
       
       if (navigator.share) {
         await navigator.share({
@@ -165,12 +149,11 @@ const Certificate = () => {
         <div className="bg-white rounded-lg shadow-lg overflow-hidden print:shadow-none">
           {certificate.certificateHtml ? (
             <div 
-              ref={certificateRef} 
               className="certificate-container"
               dangerouslySetInnerHTML={{ __html: certificate.certificateHtml }}
             />
           ) : (
-            <div ref={certificateRef} className="p-8 md:p-12 certificate-legacy">
+            <div className="p-8 md:p-12 certificate-legacy">
               <div className="border-8 border-double border-primary/20 p-6 md:p-10 text-center">
                 <div className="mb-6">
                   <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold mb-2">Certificado de Conclusão</h1>
@@ -192,6 +175,11 @@ const Certificate = () => {
                   <p className="font-medium">
                     Emitido em: {new Date(certificate.issueDate).toLocaleDateString('pt-BR')}
                   </p>
+                  <QRCodeSVG
+                    value={certificateService.getVerificationUrl(certificate.id)}
+                    size={96}
+                    className="mx-auto mt-4"
+                  />
                   <p className="text-sm text-muted-foreground mt-2">
                     ID do certificado para verificação: {certificate.id}
                   </p>
@@ -214,7 +202,24 @@ const Certificate = () => {
         
         <div className="mt-6 text-sm text-muted-foreground">
           <p>Este certificado foi emitido para {certificate.userName} em {new Date(certificate.issueDate).toLocaleDateString('pt-BR')}.</p>
-          <p>Para verificar a autenticidade deste certificado, entre em contato com o suporte.</p>
+          {certificate.expiryDate && (
+            <p className={certificateService.getCertificateStatus(certificate) === 'expired' ? 'text-destructive' : undefined}>
+              {certificateService.getCertificateStatus(certificate) === 'expired' ? 'Expirou em' : 'Válido até'}{" "}
+              {new Date(certificate.expiryDate).toLocaleDateString('pt-BR')}.
+            </p>
+          )}
+          <p>
+            Para verificar a autenticidade deste certificado, acesse{" "}
+            <a
+              href={certificateService.getVerificationUrl(certificate.id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary underline"
+            >
+              a página de verificação
+            </a>{" "}
+            ou escaneie o QR code.
+          </p>
         </div>
       </div>
     </div>
@@ -4,25 +4,38 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Course } from "@/types";
-import { courseService } from "@/services/api";
-import { Search } from "lucide-react";
+import { Course, TranscriptSearchResult } from "@/types";
+import { courseService, lessonCaptionService } from "@/services/api";
+import { MIN_TRANSCRIPT_QUERY_LENGTH } from "@/services/lessonCaptionService";
+import { Lock, Search } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 
+// Espera após a digitação antes de buscar nas transcrições das aulas
+const TRANSCRIPT_SEARCH_DELAY_MS = 400;
 
 const CourseCatalog = () => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [enrollingCourseId, setEnrollingCourseId] = useState<string | null>(null);
+  const [transcriptMatches, setTranscriptMatches] = useState<TranscriptSearchResult[]>([]);
   const { user } = useAuth();
 
   useEffect(() => {
     const fetchCourses = async () => {
       try {
         const coursesData = await courseService.getCourses();
-        setCourses(coursesData);
+
+        // Marcar os cursos bloqueados por pré-requisitos pendentes do aluno
+        const missingByCourse = user
+          ? await courseService.getMissingPrerequisitesByCourse(user.id, coursesData)
+          : new Map();
+
+        setCourses(coursesData.map(course => ({
+          ...course,
+          missingPrerequisites: missingByCourse.get(course.id) || []
+        })));
       } catch (error) {
         console.error("Error fetching courses:", error);
         toast.error("Erro ao carregar cursos");
@@ -32,7 +45,30 @@ const CourseCatalog = () => {
     };
 
     fetchCourses();
-  }, []);
+  }, [user]);
+
+  // Busca também pelo que é dito nas aulas (transcrições das legendas)
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (query.length < MIN_TRANSCRIPT_QUERY_LENGTH) {
+      setTranscriptMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      lessonCaptionService.searchLessonsByTranscript(query)
+        .then(results => {
+          if (!cancelled) setTranscriptMatches(results);
+        })
+        .catch(error => console.error("Erro ao buscar nas transcrições das aulas:", error));
+    }, TRANSCRIPT_SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm]);
 
   const handleEnroll = async (courseId: string) => {
     if (!user) {
@@ -59,10 +95,16 @@ const CourseCatalog = () => {
     }
   };
 
+  const transcriptMatchesByCourse = new Map<string, TranscriptSearchResult[]>();
+  transcriptMatches.forEach(match => {
+    transcriptMatchesByCourse.set(match.courseId, [...(transcriptMatchesByCourse.get(match.courseId) || []), match]);
+  });
+
   const filteredCourses = courses.filter((course) =>
     course.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     course.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    course.instructor.toLowerCase().includes(searchTerm.toLowerCase())
+    course.instructor.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    transcriptMatchesByCourse.has(course.id)
   );
 
   return (
@@ -78,7 +120,7 @@ const CourseCatalog = () => {
         <div className="relative flex-1">
           <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Buscar cursos..."
+            placeholder="Buscar cursos ou assuntos das aulas..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-8"
@@ -110,16 +152,38 @@ const CourseCatalog = () => {
                 <CardHeader className="pb-2">
                   <div className="flex justify-between items-start">
                     <CardTitle>{course.title}</CardTitle>
-                    <Badge variant="outline">{course.duration}</Badge>
+                    {course.missingPrerequisites?.length ? (
+                      <Badge variant="secondary">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Bloqueado
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">{course.duration}</Badge>
+                    )}
                   </div>
                   <CardDescription>por {course.instructor}</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <p className="text-sm text-muted-foreground line-clamp-2">{course.description}</p>
+                  {course.missingPrerequisites?.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Requer certificado de: {course.missingPrerequisites.map(prerequisite => prerequisite.title).join(", ")}
+                    </p>
+                  )}
+                  {transcriptMatchesByCourse.has(course.id) && (
+                    <div className="text-xs text-muted-foreground mt-2 space-y-1">
+                      {transcriptMatchesByCourse.get(course.id).slice(0, 2).map(match => (
+                        <p key={match.lessonId}>
+                          Dito na aula <span className="font-medium text-foreground">{match.lessonTitle}</span>: "{match.snippet}"
+                        </p>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex items-center gap-2 mt-4">
                     <div className="flex items-center">
                       <div className="mr-1 text-yellow-500">★</div>
                       <span className="text-sm font-medium">{course.rating.toFixed(1)}</span>
+                      <span className="ml-1 text-sm text-muted-foreground">({course.reviewCount || 0})</span>
                     </div>
                     <div className="text-sm text-muted-foreground">
                       {course.enrolledCount} alunos
@@ -138,9 +202,13 @@ const CourseCatalog = () => {
                     <Button 
                       className="w-full" 
                       onClick={() => handleEnroll(course.id)}
-                      disabled={enrollingCourseId === course.id}
+                      disabled={enrollingCourseId === course.id || course.missingPrerequisites?.length > 0}
                     >
-                      {enrollingCourseId === course.id ? "Matriculando..." : "Matricular-se"}
+                      {enrollingCourseId === course.id
+                        ? "Matriculando..."
+                        : course.missingPrerequisites?.length > 0
+                          ? "Pré-requisitos pendentes"
+                          : "Matricular-se"}
                     </Button>
                   )}
                 </CardFooter>
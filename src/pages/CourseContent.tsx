@@ -7,11 +7,18 @@ import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Course, Lesson, Module } from "@/types";
-import { courseService } from "@/services/api";
-import { CheckCircle, Clock, PlayCircle } from "lucide-react";
+import { courseService, moduleService } from "@/services/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { findFirstAvailableLesson, getLessonUnlockCondition, getModuleUnlockCondition } from "@/utils/contentRelease";
+import { toast } from "sonner";
+import { CheckCircle, Clock, Lock, PlayCircle } from "lucide-react";
+import LessonAttachments from "@/components/LessonAttachments";
+import LessonContent from "@/components/LessonContent";
+import VideoPlayer from "@/components/VideoPlayer";
 
 const CourseContent = () => {
   const { courseId } = useParams<{ courseId: string }>();
+  const { user } = useAuth();
   const [course, setCourse] = useState<Course | null>(null);
   const [activeModule, setActiveModule] = useState<string | null>(null);
   const [activeLesson, setActiveLesson] = useState<string | null>(null);
@@ -20,22 +27,28 @@ const CourseContent = () => {
 
   useEffect(() => {
     if (courseId) {
-      fetchCourse(courseId);
+      fetchCourse(courseId, user?.id);
     }
-  }, [courseId]);
+  }, [courseId, user?.id]);
 
-  const fetchCourse = async (id: string) => {
+  const fetchCourse = async (id: string, userId?: string) => {
     try {
-      const courseData = await courseService.getCourseById(id);
+      // Módulos com a liberação do conteúdo para o aluno (modo sequencial ou programado do curso)
+      const [courseData, modules] = await Promise.all([
+        courseService.getCourseById(id),
+        moduleService.getModulesByCourseId(id, userId)
+      ]);
+      courseData.modules = modules;
       setCourse(courseData);
       
-      // Set first module and lesson as active by default
-      if (courseData.modules.length > 0) {
-        setActiveModule(courseData.modules[0].id);
-        
-        if (courseData.modules[0].lessons.length > 0) {
-          setActiveLesson(courseData.modules[0].lessons[0].id);
-        }
+      // Set first available module and lesson as active by default
+      const firstAvailable = findFirstAvailableLesson(modules);
+      if (firstAvailable) {
+        setActiveModule(firstAvailable.module.id);
+        setActiveLesson(firstAvailable.lesson.id);
+      } else if (modules.length > 0) {
+        setActiveModule(modules[0].id);
+        setActiveLesson(null);
       }
       
       // Calculate progress (this would typically come from user progress data)
@@ -63,17 +76,18 @@ const CourseContent = () => {
   const handleModuleClick = (moduleId: string) => {
     setActiveModule(moduleId);
     
-    // Set first lesson of the module as active
+    // Set first available lesson of the module as active
     const module = course?.modules.find(m => m.id === moduleId);
-    if (module && module.lessons.length > 0) {
-      setActiveLesson(module.lessons[0].id);
-    } else {
-      setActiveLesson(null);
-    }
+    const firstAvailable = module?.lessons.find(lesson => !lesson.isLocked);
+    setActiveLesson(firstAvailable ? firstAvailable.id : null);
   };
 
-  const handleLessonClick = (lessonId: string) => {
-    setActiveLesson(lessonId);
+  const handleLessonClick = (lesson: Lesson) => {
+    if (lesson.isLocked) {
+      toast.info(getLessonUnlockCondition(lesson));
+      return;
+    }
+    setActiveLesson(lesson.id);
   };
 
   const getActiveLesson = (): Lesson | null => {
@@ -82,7 +96,8 @@ const CourseContent = () => {
     const module = course.modules.find(m => m.id === activeModule);
     if (!module) return null;
     
-    return module.lessons.find(l => l.id === activeLesson) || null;
+    const lesson = module.lessons.find(l => l.id === activeLesson);
+    return lesson && !lesson.isLocked ? lesson : null;
   };
 
   const isLessonCompleted = (lessonId: string) => {
@@ -143,9 +158,12 @@ const CourseContent = () => {
                           activeModule === module.id ? "bg-accent" : ""
                         }`}
                       >
-                        <div className="font-medium">{module.title}</div>
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{module.title}</span>
+                          {module.isLocked && <Lock className="h-4 w-4 shrink-0" />}
+                        </div>
                         <div className="text-sm text-muted-foreground">
-                          {module.lessons.length} aulas
+                          {module.isLocked ? getModuleUnlockCondition(module) : `${module.lessons.length} aulas`}
                         </div>
                       </button>
                       
@@ -156,15 +174,20 @@ const CourseContent = () => {
                             return (
                               <button
                                 key={lesson.id}
-                                onClick={() => handleLessonClick(lesson.id)}
+                                onClick={() => handleLessonClick(lesson)}
+                                title={lesson.isLocked ? getLessonUnlockCondition(lesson) : undefined}
                                 className={`w-full text-left px-3 py-2 text-sm rounded-md flex items-center justify-between ${
-                                  activeLesson === lesson.id
-                                    ? "bg-accent"
-                                    : "hover:bg-accent/50"
+                                  lesson.isLocked
+                                    ? "cursor-not-allowed text-muted-foreground"
+                                    : activeLesson === lesson.id
+                                      ? "bg-accent"
+                                      : "hover:bg-accent/50"
                                 }`}
                               >
                                 <div className="flex items-center gap-2">
-                                  {isCompleted ? (
+                                  {lesson.isLocked ? (
+                                    <Lock className="h-4 w-4" />
+                                  ) : isCompleted ? (
                                     <CheckCircle className="h-4 w-4 text-primary" />
                                   ) : (
                                     <PlayCircle className="h-4 w-4" />
@@ -211,16 +234,16 @@ const CourseContent = () => {
                     <TabsList>
                       <TabsTrigger value="video">Vídeo</TabsTrigger>
                       <TabsTrigger value="content">Conteúdo</TabsTrigger>
+                      <TabsTrigger value="attachments">Materiais</TabsTrigger>
                     </TabsList>
                     <TabsContent value="video" className="mt-4">
                       {currentLesson.videoUrl ? (
-                        <div className="aspect-video bg-black rounded-md flex items-center justify-center">
-                          <iframe
-                            src={currentLesson.videoUrl}
-                            className="w-full h-full rounded-md"
-                            allowFullScreen
-                          ></iframe>
-                        </div>
+                        <VideoPlayer
+                          key={currentLesson.id}
+                          url={currentLesson.videoUrl}
+                          title={currentLesson.title}
+                          poster={currentLesson.videoThumbnailUrl}
+                        />
                       ) : (
                         <div className="aspect-video bg-muted rounded-md flex items-center justify-center">
                           <p className="text-muted-foreground">
@@ -231,15 +254,16 @@ const CourseContent = () => {
                     </TabsContent>
                     <TabsContent value="content" className="mt-4">
                       {currentLesson.content ? (
-                        <div className="prose max-w-none">
-                          <p>{currentLesson.content}</p>
-                        </div>
+                        <LessonContent content={currentLesson.content} />
                       ) : (
                         <p className="text-muted-foreground">
                           Nenhum conteúdo adicional disponível para esta aula
                         </p>
                       )}
                     </TabsContent>
+                    <TabsContent value="attachments" className="mt-4">
+                      <LessonAttachments lessonId={currentLesson.id} />
+                    </TabsContent>
                   </Tabs>
                 </CardContent>
                 <Separator />
@@ -294,7 +318,8 @@ const CourseContent = () => {
     const currentIndex = allLessons.findIndex(l => l.id === activeLesson);
     
     if (currentIndex <= 0) return null;
-    return allLessons[currentIndex - 1];
+    const previous = allLessons[currentIndex - 1];
+    return previous.isLocked ? null : previous;
   }
   
   function getNextLesson(): Lesson | null {
@@ -304,7 +329,8 @@ const CourseContent = () => {
     const currentIndex = allLessons.findIndex(l => l.id === activeLesson);
     
     if (currentIndex === -1 || currentIndex >= allLessons.length - 1) return null;
-    return allLessons[currentIndex + 1];
+    const next = allLessons[currentIndex + 1];
+    return next.isLocked ? null : next;
   }
   
   function getAllLessonsFlat(): Lesson[] {
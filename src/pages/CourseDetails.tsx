@@ -7,22 +7,24 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useAuth } from "@/contexts/AuthContext";
-import { Course } from "@/types";
+import { Course, CoursePrerequisite } from "@/types";
 import { courseService } from "@/services";
-import { enrollCourse, getEnrolledCourses, checkEnrollment } from "@/services/courses/enrollmentService";
-import { GraduationCap, Clock, Users, BookOpen, Play } from "lucide-react";
+import { enrollCourse, getEnrolledCourses, checkEnrollment, getMissingPrerequisites } from "@/services/courses/enrollmentService";
+import { GraduationCap, Clock, Users, BookOpen, Play, Lock } from "lucide-react";
 import { toast } from "sonner";
 import LoadingWithFeedback from "@/components/LoadingWithFeedback";
+import CourseReviews from "@/components/CourseReviews";
 import { supabase } from "@/integrations/supabase/client";
 
 const CourseDetails = () => {
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const [course, setCourse] = useState<Course | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isEnrolling, setIsEnrolling] = useState(false);
   const [isEnrolled, setIsEnrolled] = useState(false);
+  const [missingPrerequisites, setMissingPrerequisites] = useState<CoursePrerequisite[]>([]);
 
   useEffect(() => {
     const fetchCourse = async () => {
@@ -58,6 +60,13 @@ const CourseDetails = () => {
               // Se houver erro, assumimos que o usuário não está matriculado
               setIsEnrolled(false);
             }
+
+            try {
+              setMissingPrerequisites(await getMissingPrerequisites(courseId, user.id));
+            } catch (prerequisitesError) {
+              console.error("Erro ao verificar pré-requisitos:", prerequisitesError);
+              setMissingPrerequisites([]);
+            }
           }
         }
       } catch (error) {
@@ -72,6 +81,18 @@ const CourseDetails = () => {
     fetchCourse();
   }, [courseId, navigate, user]);
 
+  // A nota média e a quantidade de avaliações são recalculadas no banco a cada avaliação
+  const handleReviewsChange = async () => {
+    if (!courseId) return;
+
+    try {
+      const courseData = await courseService.getCourseById(courseId);
+      setCourse((prev) => prev && { ...prev, rating: courseData.rating, reviewCount: courseData.reviewCount });
+    } catch (error) {
+      console.error("Erro ao atualizar a nota do curso:", error);
+    }
+  };
+
   const handleEnroll = async () => {
     if (!user) {
       navigate("/login");
@@ -153,6 +174,9 @@ const CourseDetails = () => {
             <div className="flex items-center">
               <div className="text-yellow-500 mr-1">★</div>
               <span>{course.rating.toFixed(1)}</span>
+              <span className="ml-1 text-muted-foreground">
+                ({course.reviewCount || 0} {course.reviewCount === 1 ? "avaliação" : "avaliações"})
+              </span>
             </div>
           </div>
         </div>
@@ -170,6 +194,29 @@ const CourseDetails = () => {
                 <Button className="w-full" onClick={startCourse}>
                   Continuar Curso
                 </Button>
+              ) : missingPrerequisites.length > 0 ? (
+                <div className="space-y-3">
+                  <Button className="w-full" disabled>
+                    <Lock className="h-4 w-4 mr-2" />
+                    Curso bloqueado
+                  </Button>
+                  <div className="text-sm text-muted-foreground">
+                    <p>Para se matricular, obtenha antes o certificado de:</p>
+                    <ul className="list-disc list-inside mt-1">
+                      {missingPrerequisites.map((prerequisite) => (
+                        <li key={prerequisite.courseId}>
+                          <button
+                            type="button"
+                            className="underline hover:text-foreground"
+                            onClick={() => navigate(`/courses/${prerequisite.courseId}`)}
+                          >
+                            {prerequisite.title}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
               ) : (
                 <Button
                   className="w-full"
@@ -200,6 +247,7 @@ const CourseDetails = () => {
         <TabsList>
           <TabsTrigger value="modules">Conteúdo do Curso</TabsTrigger>
           <TabsTrigger value="description">Sobre o Curso</TabsTrigger>
+          <TabsTrigger value="reviews">Avaliações</TabsTrigger>
         </TabsList>
         
         <TabsContent value="modules" className="space-y-4 mt-4">
@@ -261,6 +309,18 @@ const CourseDetails = () => {
             </ul>
           </div>
         </TabsContent>
+
+        <TabsContent value="reviews" className="space-y-4 mt-4">
+          <h2 className="text-2xl font-semibold">Avaliações dos Alunos</h2>
+          {/* Remonta após a matrícula para liberar o formulário de avaliação */}
+          <CourseReviews
+            key={String(isEnrolled)}
+            courseId={course.id}
+            userId={user?.id || null}
+            isAdmin={isAdmin()}
+            onReviewsChange={handleReviewsChange}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
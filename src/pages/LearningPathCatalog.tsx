@@ -0,0 +1,153 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { LearningPath } from "@/types";
+import { learningPathService } from "@/services/api";
+import { Search } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+
+const LearningPathCatalog = () => {
+  const [learningPaths, setLearningPaths] = useState<LearningPath[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [enrollingPathId, setEnrollingPathId] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const fetchLearningPaths = async () => {
+      try {
+        const pathsData = await learningPathService.getLearningPaths(user?.id);
+        setLearningPaths(pathsData);
+      } catch (error) {
+        console.error("Error fetching learning paths:", error);
+        toast.error("Erro ao carregar trilhas");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLearningPaths();
+  }, [user?.id]);
+
+  const handleEnroll = async (learningPath: LearningPath) => {
+    if (!user) {
+      toast.error("Você precisa estar logado para se matricular");
+      return;
+    }
+
+    setEnrollingPathId(learningPath.id);
+    try {
+      await learningPathService.enrollInLearningPath(learningPath.id);
+      toast.success(
+        learningPath.enrollmentMode === "all_courses"
+          ? "Matrícula realizada em todos os cursos da trilha!"
+          : "Matrícula realizada! Comece pelo primeiro curso da trilha."
+      );
+      setLearningPaths(learningPaths.map(path =>
+        path.id === learningPath.id ? { ...path, isEnrolled: true } : path
+      ));
+    } catch (error) {
+      console.error("Error enrolling in learning path:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao realizar matrícula na trilha");
+    } finally {
+      setEnrollingPathId(null);
+    }
+  };
+
+  const filteredPaths = learningPaths.filter((path) =>
+    path.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (path.description || "").toLowerCase().includes(searchTerm.toLowerCase()) ||
+    path.courses.some(course => course.course?.title.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  return (
+    <div className="space-y-8">
+      {/* Header Section */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Trilhas de Aprendizagem</h1>
+        <p className="text-muted-foreground">Siga uma sequência de cursos e conquiste o certificado da trilha</p>
+      </div>
+
+      {/* Search */}
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar trilhas..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+      </div>
+
+      {/* Learning Path List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <p>Carregando trilhas...</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filteredPaths.length === 0 ? (
+            <div className="col-span-full text-center py-12">
+              <p className="text-muted-foreground">Nenhuma trilha encontrada</p>
+            </div>
+          ) : (
+            filteredPaths.map((path) => (
+              <Card key={path.id} className="h-full flex flex-col">
+                {path.thumbnail && (
+                  <div className="aspect-video">
+                    <img
+                      src={path.thumbnail}
+                      alt={path.title}
+                      className="w-full h-full object-cover rounded-t-lg"
+                    />
+                  </div>
+                )}
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start gap-2">
+                    <CardTitle>{path.title}</CardTitle>
+                    <Badge variant="outline">{path.courses.length} cursos</Badge>
+                  </div>
+                  {path.description && (
+                    <CardDescription className="line-clamp-2">{path.description}</CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="flex-1">
+                  <ol className="space-y-1 text-sm text-muted-foreground list-decimal list-inside">
+                    {path.courses.map((course) => (
+                      <li key={course.courseId} className="truncate">
+                        {course.course?.title || "Curso indisponível"}
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+                <CardFooter className="flex flex-col gap-2">
+                  <Link to={`/learning-paths/${path.id}`} className="w-full">
+                    <Button variant="outline" className="w-full">Ver Trilha</Button>
+                  </Link>
+                  {!path.isEnrolled && (
+                    <Button
+                      className="w-full"
+                      onClick={() => handleEnroll(path)}
+                      disabled={enrollingPathId === path.id || path.courses.length === 0}
+                    >
+                      {enrollingPathId === path.id ? "Matriculando..." : "Matricular-se na trilha"}
+                    </Button>
+                  )}
+                </CardFooter>
+              </Card>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearningPathCatalog;
@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { LearningPath, LearningPathProgress } from "@/types";
+import { certificateService, courseService, learningPathService } from "@/services/api";
+import { Award, CheckCircle2, ChevronLeft, Loader2, Lock } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+const LearningPathDetails = () => {
+  const { learningPathId } = useParams<{ learningPathId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [learningPath, setLearningPath] = useState<LearningPath | null>(null);
+  const [pathProgress, setPathProgress] = useState<LearningPathProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [enrollingCourseId, setEnrollingCourseId] = useState<string | null>(null);
+  const [isGeneratingCertificate, setIsGeneratingCertificate] = useState(false);
+
+  const fetchLearningPath = useCallback(async () => {
+    if (!learningPathId) return;
+
+    try {
+      const pathData = await learningPathService.getLearningPathById(learningPathId, user?.id);
+      setLearningPath(pathData);
+
+      if (pathData && user) {
+        setPathProgress(await learningPathService.getLearningPathProgress(pathData, user.id));
+      }
+    } catch (error) {
+      console.error("Error fetching learning path:", error);
+      toast.error("Erro ao carregar trilha");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [learningPathId, user]);
+
+  useEffect(() => {
+    fetchLearningPath();
+  }, [fetchLearningPath]);
+
+  const handleEnrollPath = async () => {
+    if (!learningPath) return;
+
+    setIsEnrolling(true);
+    try {
+      await learningPathService.enrollInLearningPath(learningPath.id);
+      toast.success("Matrícula na trilha realizada com sucesso!");
+      await fetchLearningPath();
+    } catch (error) {
+      console.error("Error enrolling in learning path:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao realizar matrícula na trilha");
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  const handleEnrollCourse = async (courseId: string) => {
+    if (!user) return;
+
+    setEnrollingCourseId(courseId);
+    try {
+      const result = await courseService.enrollCourse(courseId, user.id);
+      if (result.success) {
+        toast.success(result.message);
+        await fetchLearningPath();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      console.error("Error enrolling in course:", error);
+      toast.error("Erro ao realizar matrícula");
+    } finally {
+      setEnrollingCourseId(null);
+    }
+  };
+
+  const handleGenerateCertificate = async () => {
+    if (!learningPath) return;
+
+    setIsGeneratingCertificate(true);
+    try {
+      const certificate = await certificateService.generateLearningPathCertificate(learningPath.id);
+      toast.success("Certificado da trilha emitido com sucesso!");
+      navigate(`/aluno/certificado/${certificate.id}`);
+    } catch (error) {
+      console.error("Error generating learning path certificate:", error);
+      toast.error(error instanceof Error ? error.message : "Erro ao emitir certificado da trilha");
+    } finally {
+      setIsGeneratingCertificate(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p>Carregando trilha...</p>
+      </div>
+    );
+  }
+
+  if (!learningPath) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <p className="text-muted-foreground">Trilha não encontrada</p>
+        <Link to="/learning-paths">
+          <Button variant="outline">Voltar para as trilhas</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const courseTitle = (courseId: string) =>
+    learningPath.courses.find(course => course.courseId === courseId)?.course?.title || "curso anterior";
+
+  return (
+    <div className="space-y-8">
+      <Link to="/learning-paths">
+        <Button variant="outline" size="sm">
+          <ChevronLeft className="h-4 w-4 mr-2" />
+          Trilhas
+        </Button>
+      </Link>
+
+      {/* Header Section */}
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{learningPath.title}</h1>
+          {learningPath.description && (
+            <p className="text-muted-foreground mt-1">{learningPath.description}</p>
+          )}
+        </div>
+        {!learningPath.isEnrolled && (
+          <Button onClick={handleEnrollPath} disabled={isEnrolling || learningPath.courses.length === 0}>
+            {isEnrolling ? "Matriculando..." : "Matricular-se na trilha"}
+          </Button>
+        )}
+      </div>
+
+      {/* Progresso da trilha */}
+      {learningPath.isEnrolled && pathProgress && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Seu progresso</CardTitle>
+            <CardDescription>
+              {pathProgress.completedCourses} de {pathProgress.totalCourses} cursos concluídos
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-4">
+              <Progress value={pathProgress.progress} className="flex-1" />
+              <span className="text-sm font-medium">{pathProgress.progress}%</span>
+            </div>
+            {pathProgress.isCompleted && (
+              <Button onClick={handleGenerateCertificate} disabled={isGeneratingCertificate}>
+                {isGeneratingCertificate ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Award className="h-4 w-4 mr-2" />
+                )}
+                Obter certificado da trilha
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cursos da trilha */}
+      <div className="space-y-4">
+        {learningPath.courses.map((pathCourse, index) => {
+          const courseProgress = pathProgress?.courses.find(course => course.courseId === pathCourse.courseId);
+
+          return (
+            <Card key={pathCourse.courseId}>
+              <CardHeader className="pb-2">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <CardDescription>Curso {index + 1}</CardDescription>
+                    <CardTitle className="text-lg">{pathCourse.course?.title || "Curso indisponível"}</CardTitle>
+                  </div>
+                  {courseProgress?.isCompleted ? (
+                    <Badge variant="outline" className="border-green-500 text-green-600">
+                      <CheckCircle2 className="h-3 w-3 mr-1" />
+                      Concluído
+                    </Badge>
+                  ) : courseProgress?.isLocked ? (
+                    <Badge variant="secondary">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Bloqueado
+                    </Badge>
+                  ) : pathCourse.course?.duration ? (
+                    <Badge variant="outline">{pathCourse.course.duration}</Badge>
+                  ) : null}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {pathCourse.course?.description && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">{pathCourse.course.description}</p>
+                )}
+                {pathCourse.prerequisiteCourseId && (
+                  <p className="text-xs text-muted-foreground">
+                    Pré-requisito: {courseTitle(pathCourse.prerequisiteCourseId)}
+                  </p>
+                )}
+                {courseProgress?.isEnrolled && !courseProgress.isCompleted && (
+                  <div className="flex items-center gap-4">
+                    <Progress value={courseProgress.progress} className="flex-1" />
+                    <span className="text-xs text-muted-foreground">{courseProgress.progress}%</span>
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Link to={`/courses/${pathCourse.courseId}`}>
+                    <Button variant="outline" size="sm">Ver Detalhes</Button>
+                  </Link>
+                  {learningPath.isEnrolled && courseProgress && !courseProgress.isLocked && (
+                    courseProgress.isEnrolled ? (
+                      <Link to={`/aluno/curso/${pathCourse.courseId}/player`}>
+                        <Button size="sm">
+                          {courseProgress.isCompleted ? "Revisar Curso" : "Continuar Curso"}
+                        </Button>
+                      </Link>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => handleEnrollCourse(pathCourse.courseId)}
+                        disabled={enrollingCourseId === pathCourse.courseId}
+                      >
+                        {enrollingCourseId === pathCourse.courseId ? "Matriculando..." : "Matricular-se"}
+                      </Button>
+                    )
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LearningPathDetails;
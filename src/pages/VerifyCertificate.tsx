@@ -0,0 +1,196 @@
+import { useState, useEffect } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CertificateVerification } from "@/types";
+import { certificateService } from "@/services";
+import { ShieldCheck, ShieldX, ShieldAlert, AlertTriangle, Ban, CalendarX, RefreshCw } from "lucide-react";
+
+// Página pública (sem login) usada por empregadores para conferir um certificado
+const VerifyCertificate = () => {
+  const { certificateId } = useParams<{ certificateId: string }>();
+  const [verification, setVerification] = useState<CertificateVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const verify = async () => {
+      if (!certificateId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await certificateService.verifyCertificate(certificateId);
+        setVerification(result);
+      } catch (err) {
+        console.error("Erro ao verificar certificado:", err);
+        setError("Não foi possível verificar o certificado agora. Tente novamente em instantes.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    verify();
+  }, [certificateId]);
+
+  const formatDate = (date?: string) => {
+    if (!date) return "-";
+    return new Date(date).toLocaleDateString("pt-BR", {
+      day: "2-digit",
+      month: "long",
+      year: "numeric"
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="bg-blue-600 dark:bg-gray-900 p-4">
+        <div className="container mx-auto flex justify-between items-center">
+          <Link to="/" className="text-white dark:text-gray-100 text-2xl font-bold">EduFactory</Link>
+          <span className="text-white/80 text-sm">Verificação de certificado</span>
+        </div>
+      </header>
+
+      <main className="flex-grow flex items-center justify-center p-4">
+        {loading ? (
+          <div className="text-center">
+            <div className="animate-spin h-12 w-12 border-4 border-primary rounded-full border-t-transparent mx-auto"></div>
+            <p className="mt-4 text-lg">Verificando certificado...</p>
+          </div>
+        ) : error ? (
+          <Card className="p-8 max-w-lg w-full text-center">
+            <AlertTriangle className="h-16 w-16 text-yellow-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Verificação indisponível</h2>
+            <p className="text-muted-foreground">{error}</p>
+          </Card>
+        ) : verification?.isValid ? (
+          <Card className="max-w-lg w-full">
+            <CardHeader className="text-center">
+              <ShieldCheck className="h-16 w-16 text-green-600 mx-auto mb-2" />
+              <CardTitle className="text-2xl">Certificado válido</CardTitle>
+              <div>
+                <Badge className="bg-green-600 hover:bg-green-600">Autêntico</Badge>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <dl className="space-y-3">
+                <div>
+                  <dt className="text-sm text-muted-foreground">Aluno</dt>
+                  <dd className="text-lg font-semibold">{verification.userName}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">Curso</dt>
+                  <dd className="text-lg font-semibold">{verification.courseName}</dd>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <dt className="text-sm text-muted-foreground">Carga horária</dt>
+                    <dd className="font-medium">
+                      {verification.courseHours ? `${verification.courseHours} horas` : "-"}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm text-muted-foreground">Emitido em</dt>
+                    <dd className="font-medium">{formatDate(verification.issueDate)}</dd>
+                  </div>
+                </div>
+                {verification.expiryDate && (
+                  <div>
+                    <dt className="text-sm text-muted-foreground">Válido até</dt>
+                    <dd className="font-medium">{formatDate(verification.expiryDate)}</dd>
+                  </div>
+                )}
+                {verification.serialNumber && (
+                  <div>
+                    <dt className="text-sm text-muted-foreground">Número de série</dt>
+                    <dd className="font-mono font-medium">{verification.serialNumber}</dd>
+                  </div>
+                )}
+                <div>
+                  <dt className="text-sm text-muted-foreground">ID do certificado</dt>
+                  <dd className="font-mono text-xs break-all">{verification.certificateId}</dd>
+                </div>
+              </dl>
+            </CardContent>
+          </Card>
+        ) : verification?.status === "superseded" ? (
+          <Card className="p-8 max-w-lg w-full text-center">
+            <RefreshCw className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Certificado substituído</h2>
+            <p className="text-muted-foreground mb-4">
+              Este certificado de {verification.userName} no curso {verification.courseName} foi substituído
+              por um certificado mais recente em {formatDate(verification.revokedAt)} e não é mais válido.
+            </p>
+            {verification.revocationReason && (
+              <p className="mb-4">
+                <span className="text-sm text-muted-foreground">Motivo: </span>
+                {verification.revocationReason}
+              </p>
+            )}
+            <Link to={`/verificar/${verification.supersededById}`} className="text-primary underline">
+              Verificar o certificado atual
+            </Link>
+          </Card>
+        ) : verification?.status === "expired" ? (
+          <Card className="p-8 max-w-lg w-full text-center">
+            <CalendarX className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Certificado expirado</h2>
+            <p className="text-muted-foreground mb-4">
+              Este certificado foi emitido para {verification.userName} no curso {verification.courseName}
+              em {formatDate(verification.issueDate)} e expirou em {formatDate(verification.expiryDate)}.
+            </p>
+            {verification.serialNumber && (
+              <p className="font-mono text-xs text-muted-foreground">{verification.serialNumber}</p>
+            )}
+          </Card>
+        ) : verification?.status === "revoked" ? (
+          <Card className="p-8 max-w-lg w-full text-center">
+            <Ban className="h-16 w-16 text-red-600 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Certificado revogado</h2>
+            <p className="text-muted-foreground mb-4">
+              Este certificado foi emitido para {verification.userName} no curso {verification.courseName},
+              mas foi revogado em {formatDate(verification.revokedAt)} e não é mais válido.
+            </p>
+            {verification.revocationReason && (
+              <p className="mb-4">
+                <span className="text-sm text-muted-foreground">Motivo: </span>
+                {verification.revocationReason}
+              </p>
+            )}
+            {verification.serialNumber && (
+              <p className="font-mono text-xs text-muted-foreground">{verification.serialNumber}</p>
+            )}
+          </Card>
+        ) : verification?.status === "tampered" ? (
+          <Card className="p-8 max-w-lg w-full text-center">
+            <ShieldAlert className="h-16 w-16 text-red-600 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Certificado adulterado</h2>
+            <p className="text-muted-foreground mb-2">
+              Os dados deste certificado foram alterados após a emissão e não conferem com a assinatura
+              original. Não considere as informações deste registro como autênticas.
+            </p>
+            {certificateId && (
+              <p className="font-mono text-xs break-all text-muted-foreground">{certificateId}</p>
+            )}
+          </Card>
+        ) : (
+          <Card className="p-8 max-w-lg w-full text-center">
+            <ShieldX className="h-16 w-16 text-red-600 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Certificado não encontrado</h2>
+            <p className="text-muted-foreground mb-2">
+              Não existe nenhum certificado emitido com este identificador.
+            </p>
+            {certificateId && (
+              <p className="font-mono text-xs break-all text-muted-foreground">{certificateId}</p>
+            )}
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default VerifyCertificate;
@@ -0,0 +1,387 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Award, BookOpen, CheckCircle, Clock } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AnalyticsFilters,
+  AnalyticsGranularity,
+  AnalyticsTimeSeriesPoint,
+  CourseFunnel,
+  LessonDropoff,
+} from "@/types";
+import { analyticsService } from "@/services/api";
+import { useAppData } from "@/contexts/AppDataContext";
+
+// O Select não aceita valor vazio; representa o filtro sem curso
+const ALL_COURSES_VALUE = "all";
+
+const GRANULARITY_OPTIONS: { value: AnalyticsGranularity; label: string }[] = [
+  { value: "day", label: "Por dia" },
+  { value: "week", label: "Por semana" },
+  { value: "month", label: "Por mês" },
+];
+
+const FUNNEL_STAGES: { key: keyof Pick<CourseFunnel, "enrolled" | "started" | "halfway" | "completed" | "certified">; label: string }[] = [
+  { key: "enrolled", label: "Matriculados" },
+  { key: "started", label: "Iniciaram" },
+  { key: "halfway", label: "50% do curso" },
+  { key: "completed", label: "Concluíram" },
+  { key: "certified", label: "Certificados" },
+];
+
+const timeSeriesConfig = {
+  enrollments: { label: "Matrículas", color: "#2563eb" },
+  completions: { label: "Conclusões", color: "#16a34a" },
+  certificates: { label: "Certificados", color: "#d97706" },
+} satisfies ChartConfig;
+
+const funnelConfig = {
+  total: { label: "Alunos", color: "#2563eb" },
+} satisfies ChartConfig;
+
+const dropoffConfig = {
+  completedCount: { label: "Concluíram a aula", color: "#16a34a" },
+  stoppedCount: { label: "Pararam nesta aula", color: "#dc2626" },
+} satisfies ChartConfig;
+
+// Data local no formato YYYY-MM-DD usado pelo <input type="date"> e pelas funções do banco
+const toDateValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Evita new Date("YYYY-MM-DD"), que é interpretado em UTC e pode mostrar o dia anterior
+const formatPeriod = (value: string, granularity: AnalyticsGranularity) => {
+  const [year, month, day] = value.split("-");
+  return granularity === "month" ? `${month}/${year}` : `${day}/${month}`;
+};
+
+const formatPercent = (value: number, total: number) =>
+  total > 0 ? `${Math.round((value / total) * 100)}%` : "—";
+
+const getDefaultFilters = (): AnalyticsFilters => {
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setDate(endDate.getDate() - 29);
+  return { startDate: toDateValue(startDate), endDate: toDateValue(endDate), courseId: null };
+};
+
+// Painel de análise: séries por período, funil por curso e abandono por aula
+const AdminAnalytics = () => {
+  const { courses } = useAppData();
+  const [filters, setFilters] = useState<AnalyticsFilters>(getDefaultFilters);
+  const [granularity, setGranularity] = useState<AnalyticsGranularity>("day");
+  const [timeSeries, setTimeSeries] = useState<AnalyticsTimeSeriesPoint[]>([]);
+  const [funnels, setFunnels] = useState<CourseFunnel[]>([]);
+  const [dropoff, setDropoff] = useState<LessonDropoff[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!filters.startDate || !filters.endDate) return;
+    if (filters.endDate < filters.startDate) {
+      toast.error("A data final deve ser igual ou posterior à data inicial");
+      return;
+    }
+
+    let isCurrent = true;
+
+    const fetchAnalytics = async () => {
+      setIsLoading(true);
+      try {
+        const [series, courseFunnels, lessonDropoff] = await Promise.all([
+          analyticsService.getTimeSeries(filters, granularity),
+          analyticsService.getCourseFunnels(filters),
+          filters.courseId ? analyticsService.getLessonDropoff(filters.courseId, filters) : Promise.resolve([]),
+        ]);
+        if (!isCurrent) return;
+
+        setTimeSeries(series);
+        setFunnels(courseFunnels);
+        setDropoff(lessonDropoff);
+      } catch (error) {
+        console.error("Erro ao carregar análises:", error);
+        toast.error("Erro ao carregar análises");
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+
+    // Descarta respostas de filtros que já foram trocados
+    return () => {
+      isCurrent = false;
+    };
+  }, [filters, granularity]);
+
+  const totals = useMemo(() => {
+    const completedCount = funnels.reduce((sum, funnel) => sum + (funnel.avgCompletionDays !== null ? funnel.completed : 0), 0);
+    // Média ponderada pelo número de conclusões de cada curso
+    const weightedDays = funnels.reduce(
+      (sum, funnel) => sum + (funnel.avgCompletionDays !== null ? funnel.avgCompletionDays * funnel.completed : 0),
+      0
+    );
+
+    return {
+      enrollments: timeSeries.reduce((sum, point) => sum + point.enrollments, 0),
+      completions: timeSeries.reduce((sum, point) => sum + point.completions, 0),
+      certificates: timeSeries.reduce((sum, point) => sum + point.certificates, 0),
+      avgCompletionDays: completedCount > 0 ? weightedDays / completedCount : null,
+    };
+  }, [timeSeries, funnels]);
+
+  const selectedFunnel = filters.courseId ? funnels.find((funnel) => funnel.courseId === filters.courseId) : null;
+  const funnelChartData = selectedFunnel
+    ? FUNNEL_STAGES.map((stage) => ({ stage: stage.label, total: selectedFunnel[stage.key] }))
+    : [];
+
+  const summaryCards = [
+    { title: "Matrículas", value: totals.enrollments, icon: BookOpen },
+    { title: "Conclusões", value: totals.completions, icon: CheckCircle },
+    { title: "Certificados emitidos", value: totals.certificates, icon: Award },
+    {
+      title: "Tempo médio até a conclusão",
+      value: totals.avgCompletionDays !== null ? `${totals.avgCompletionDays.toFixed(1)} dias` : "—",
+      icon: Clock,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Análises</h1>
+        <p className="text-muted-foreground">
+          Matrículas, conclusões e certificados no período, funil por curso e abandono por aula
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="analyticsStart">Data inicial</Label>
+            <Input
+              id="analyticsStart"
+              type="date"
+              value={filters.startDate}
+              max={filters.endDate}
+              onChange={(e) => setFilters((prev) => ({ ...prev, startDate: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="analyticsEnd">Data final</Label>
+            <Input
+              id="analyticsEnd"
+              type="date"
+              value={filters.endDate}
+              min={filters.startDate}
+              onChange={(e) => setFilters((prev) => ({ ...prev, endDate: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="analyticsCourse">Curso</Label>
+            <Select
+              value={filters.courseId || ALL_COURSES_VALUE}
+              onValueChange={(value) =>
+                setFilters((prev) => ({ ...prev, courseId: value === ALL_COURSES_VALUE ? null : value }))
+              }
+            >
+              <SelectTrigger id="analyticsCourse">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_COURSES_VALUE}>Todos os cursos</SelectItem>
+                {courses.map((course) => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="analyticsGranularity">Agrupamento</Label>
+            <Select value={granularity} onValueChange={(value) => setGranularity(value as AnalyticsGranularity)}>
+              <SelectTrigger id="analyticsGranularity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRANULARITY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map((card) => (
+          <Card key={card.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+              <card.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{isLoading ? "…" : card.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Evolução no período</CardTitle>
+          <CardDescription>Matrículas, conclusões e certificados emitidos</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={timeSeriesConfig} className="h-[300px] w-full aspect-auto">
+            <LineChart data={timeSeries}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="periodStart"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value: string) => formatPeriod(value, granularity)}
+              />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent labelFormatter={(value: string) => formatPeriod(value, granularity)} />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="enrollments" type="monotone" stroke="var(--color-enrollments)" strokeWidth={2} dot={false} />
+              <Line dataKey="completions" type="monotone" stroke="var(--color-completions)" strokeWidth={2} dot={false} />
+              <Line dataKey="certificates" type="monotone" stroke="var(--color-certificates)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Funil por curso</CardTitle>
+          <CardDescription>Alunos matriculados no período e até onde chegaram</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {selectedFunnel && (
+            <ChartContainer config={funnelConfig} className="h-[220px] w-full aspect-auto">
+              <BarChart data={funnelChartData} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="stage" tickLine={false} axisLine={false} width={100} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Curso</TableHead>
+                {FUNNEL_STAGES.map((stage) => (
+                  <TableHead key={stage.key}>{stage.label}</TableHead>
+                ))}
+                <TableHead>Tempo médio até a conclusão</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {funnels.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={FUNNEL_STAGES.length + 2} className="text-center py-6 text-muted-foreground">
+                    {isLoading ? "Carregando..." : "Nenhuma matrícula no período"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                funnels.map((funnel) => (
+                  <TableRow key={funnel.courseId}>
+                    <TableCell className="font-medium">{funnel.courseTitle}</TableCell>
+                    {FUNNEL_STAGES.map((stage) => (
+                      <TableCell key={stage.key}>
+                        {funnel[stage.key]}
+                        {stage.key !== "enrolled" && (
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            ({formatPercent(funnel[stage.key], funnel.enrolled)})
+                          </span>
+                        )}
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {funnel.avgCompletionDays !== null ? `${funnel.avgCompletionDays.toFixed(1)} dias` : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Abandono por aula</CardTitle>
+          <CardDescription>
+            Alunos matriculados no período que concluíram cada aula e os que pararam nela sem concluir o curso
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!filters.courseId ? (
+            <p className="text-muted-foreground">Selecione um curso para ver o abandono por aula</p>
+          ) : dropoff.length === 0 ? (
+            <p className="text-muted-foreground">{isLoading ? "Carregando..." : "Este curso ainda não possui aulas"}</p>
+          ) : (
+            <ChartContainer config={dropoffConfig} className="h-[320px] w-full aspect-auto">
+              <BarChart data={dropoff}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="position" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => {
+                        const lesson = payload?.[0]?.payload as LessonDropoff | undefined;
+                        return lesson ? `${lesson.position}. ${lesson.lessonTitle} (${lesson.moduleTitle})` : "";
+                      }}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="completedCount" fill="var(--color-completedCount)" radius={4} />
+                <Bar dataKey="stoppedCount" fill="var(--color-stoppedCount)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminAnalytics;
@@ -0,0 +1,426 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Edit, Trash } from "lucide-react";
+import { toast } from "sonner";
+import { CertificateSignature, CertificateTemplate, CertificateTemplateData } from "@/types";
+import { certificateService, certificateTemplateService } from "@/services/api";
+import { CERTIFICATE_FONTS, DEFAULT_CERTIFICATE_TEMPLATE } from "@/services/certificateTemplateService";
+
+const MAX_SIGNATURES = 3;
+
+// Novo modelo parte do layout padrão da plataforma
+const emptyFormData = (): CertificateTemplateData => ({
+  name: "",
+  titleText: DEFAULT_CERTIFICATE_TEMPLATE.titleText,
+  introText: DEFAULT_CERTIFICATE_TEMPLATE.introText,
+  bodyText: DEFAULT_CERTIFICATE_TEMPLATE.bodyText,
+  backgroundImageUrl: "",
+  logoUrl: "",
+  signatures: DEFAULT_CERTIFICATE_TEMPLATE.signatures.map(signature => ({ ...signature })),
+  primaryColor: DEFAULT_CERTIFICATE_TEMPLATE.primaryColor,
+  textColor: DEFAULT_CERTIFICATE_TEMPLATE.textColor,
+  backgroundColor: DEFAULT_CERTIFICATE_TEMPLATE.backgroundColor,
+  fontFamily: DEFAULT_CERTIFICATE_TEMPLATE.fontFamily,
+});
+
+// Dados fictícios usados na pré-visualização do modelo
+const previewData = {
+  certificateId: "00000000-0000-0000-0000-000000000000",
+  userName: "Maria da Silva",
+  courseName: "Curso de Exemplo",
+  courseHours: 40,
+  issueDate: new Date().toISOString(),
+};
+
+const AdminCertificateTemplates = () => {
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CertificateTemplateData>(emptyFormData);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    try {
+      setIsLoading(true);
+      setTemplates(await certificateTemplateService.getTemplates());
+    } catch (error) {
+      console.error("Erro ao carregar modelos de certificado:", error);
+      toast.error("Erro ao carregar modelos de certificado");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyFormData());
+    setEditingTemplateId(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSignatureChange = (index: number, changes: Partial<CertificateSignature>) => {
+    setFormData(prev => ({
+      ...prev,
+      signatures: prev.signatures.map((signature, i) => (i === index ? { ...signature, ...changes } : signature)),
+    }));
+  };
+
+  const handleAddSignature = () => {
+    setFormData(prev => ({ ...prev, signatures: [...prev.signatures, { name: "", title: "" }] }));
+  };
+
+  const handleRemoveSignature = (index: number) => {
+    setFormData(prev => ({ ...prev, signatures: prev.signatures.filter((_, i) => i !== index) }));
+  };
+
+  const handleEditTemplate = (template: CertificateTemplate) => {
+    setFormData({
+      name: template.name,
+      titleText: template.titleText,
+      introText: template.introText,
+      bodyText: template.bodyText,
+      backgroundImageUrl: template.backgroundImageUrl || "",
+      logoUrl: template.logoUrl || "",
+      signatures: template.signatures.map(signature => ({ ...signature })),
+      primaryColor: template.primaryColor,
+      textColor: template.textColor,
+      backgroundColor: template.backgroundColor,
+      fontFamily: template.fontFamily,
+    });
+    setEditingTemplateId(template.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!confirm("Tem certeza que deseja excluir este modelo? Os cursos que o utilizam voltarão ao modelo padrão.")) {
+      return;
+    }
+
+    try {
+      await certificateTemplateService.deleteTemplate(templateId);
+      setTemplates(prev => prev.filter(template => template.id !== templateId));
+      toast.success("Modelo excluído com sucesso");
+    } catch (error) {
+      console.error("Erro ao excluir modelo de certificado:", error);
+      toast.error(error.message || "Erro ao excluir modelo");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      if (editingTemplateId) {
+        await certificateTemplateService.updateTemplate(editingTemplateId, formData);
+        toast.success("Modelo atualizado com sucesso");
+      } else {
+        await certificateTemplateService.createTemplate(formData);
+        toast.success("Modelo criado com sucesso");
+      }
+      setIsDialogOpen(false);
+      resetForm();
+      fetchTemplates();
+    } catch (error) {
+      console.error("Erro ao salvar modelo de certificado:", error);
+      toast.error(error.message || "Erro ao salvar modelo");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const previewHtml = certificateService.createCertificateTemplate(previewData, {
+    ...DEFAULT_CERTIFICATE_TEMPLATE,
+    ...formData,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Modelos de Certificado</h1>
+          <p className="text-muted-foreground">
+            Cursos sem modelo atribuído usam o modelo padrão. Certificados já emitidos não mudam ao editar um modelo.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            resetForm();
+            setIsDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Modelo
+        </Button>
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <p className="text-lg text-muted-foreground">Carregando modelos...</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Título</TableHead>
+                <TableHead>Fonte</TableHead>
+                <TableHead>Versão</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                    Nenhum modelo cadastrado
+                  </TableCell>
+                </TableRow>
+              ) : (
+                templates.map(template => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">
+                      <span className="inline-flex items-center gap-2">
+                        <span
+                          className="h-3 w-3 rounded-full border"
+                          style={{ backgroundColor: template.primaryColor }}
+                        />
+                        {template.name}
+                      </span>
+                    </TableCell>
+                    <TableCell>{template.titleText}</TableCell>
+                    <TableCell>{template.fontFamily}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">v{template.version}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleEditTemplate(template)} title="Editar">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteTemplate(template.id)}
+                        title="Excluir"
+                      >
+                        <Trash className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <Dialog
+        open={isDialogOpen}
+        onOpenChange={open => {
+          setIsDialogOpen(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent className="sm:max-w-[1200px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplateId ? "Editar Modelo" : "Criar Novo Modelo"}</DialogTitle>
+            <DialogDescription>
+              Use {"{{userName}}"}, {"{{courseName}}"}, {"{{courseHours}}"} e {"{{issueDate}}"} nos textos para
+              inserir os dados do certificado.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <form id="certificate-template-form" onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Nome do modelo</Label>
+                <Input id="name" name="name" value={formData.name} onChange={handleInputChange} required />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="titleText">Título</Label>
+                <Input id="titleText" name="titleText" value={formData.titleText} onChange={handleInputChange} required />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="introText">Texto antes do nome do aluno</Label>
+                <Input id="introText" name="introText" value={formData.introText} onChange={handleInputChange} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bodyText">Texto após o nome do aluno</Label>
+                <Textarea
+                  id="bodyText"
+                  name="bodyText"
+                  value={formData.bodyText}
+                  onChange={handleInputChange}
+                  rows={4}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="logoUrl">URL do logotipo</Label>
+                  <Input id="logoUrl" name="logoUrl" value={formData.logoUrl || ""} onChange={handleInputChange} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backgroundImageUrl">URL da imagem de fundo</Label>
+                  <Input
+                    id="backgroundImageUrl"
+                    name="backgroundImageUrl"
+                    value={formData.backgroundImageUrl || ""}
+                    onChange={handleInputChange}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="primaryColor">Cor principal</Label>
+                  <Input
+                    id="primaryColor"
+                    name="primaryColor"
+                    type="color"
+                    value={formData.primaryColor}
+                    onChange={handleInputChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="textColor">Cor do texto</Label>
+                  <Input id="textColor" name="textColor" type="color" value={formData.textColor} onChange={handleInputChange} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backgroundColor">Cor de fundo</Label>
+                  <Input
+                    id="backgroundColor"
+                    name="backgroundColor"
+                    type="color"
+                    value={formData.backgroundColor}
+                    onChange={handleInputChange}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fontFamily">Fonte</Label>
+                <Select
+                  value={formData.fontFamily}
+                  onValueChange={value => setFormData(prev => ({ ...prev, fontFamily: value }))}
+                >
+                  <SelectTrigger id="fontFamily">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CERTIFICATE_FONTS.map(font => (
+                      <SelectItem key={font.value} value={font.value}>
+                        {font.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Assinaturas</Label>
+                {formData.signatures.map((signature, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                    <Input
+                      value={signature.name}
+                      onChange={e => handleSignatureChange(index, { name: e.target.value })}
+                      placeholder="Nome"
+                    />
+                    <Input
+                      value={signature.title}
+                      onChange={e => handleSignatureChange(index, { title: e.target.value })}
+                      placeholder="Cargo"
+                    />
+                    <Input
+                      value={signature.imageUrl || ""}
+                      onChange={e => handleSignatureChange(index, { imageUrl: e.target.value })}
+                      placeholder="URL da assinatura"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveSignature(index)}
+                      title="Remover assinatura"
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddSignature}
+                  disabled={formData.signatures.length >= MAX_SIGNATURES}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar assinatura
+                </Button>
+              </div>
+            </form>
+
+            <div className="space-y-2">
+              <Label>Pré-visualização</Label>
+              <iframe
+                title="Pré-visualização do certificado"
+                srcDoc={previewHtml}
+                className="w-full h-[640px] rounded-md border bg-white"
+                sandbox=""
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" form="certificate-template-form" disabled={isSubmitting}>
+              {isSubmitting ? "Salvando..." : editingTemplateId ? "Atualizar" : "Criar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminCertificateTemplates;
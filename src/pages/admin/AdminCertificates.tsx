@@ -39,10 +39,16 @@ import { Certificate, User, Course } from "@/types";
 import { certificateService } from "@/services";
 import { userService } from "@/services";
 import { courseService } from "@/services";
+import { dataExportService } from "@/services";
 import { getEnrolledUsers } from "@/services/courses/enrollmentService";
 import { toast } from "sonner";
-import { Plus, Download, Search, RefreshCw, Loader2, MoreHorizontal, Eye, Edit, Trash } from "lucide-react";
+import { Plus, Download, Search, RefreshCw, Loader2, MoreHorizontal, Eye, Ban, FilePen, History } from "lucide-react";
 import { CreateCertificateData } from "@/services/certificateService";
+import CertificateStatusBadge from "@/components/admin/certificates/CertificateStatusBadge";
+import CertificateHistoryDialog from "@/components/admin/certificates/CertificateHistoryDialog";
+import ReissueCertificateDialog from "@/components/admin/certificates/ReissueCertificateDialog";
+import ExpiringCertificatesReport from "@/components/admin/certificates/ExpiringCertificatesReport";
+import DataExportButton from "@/components/admin/DataExportButton";
 
 // Interface para usuários com status de certificado
 interface EnrolledUser extends User {
@@ -82,7 +88,8 @@ const AdminCertificates = () => {
   const [filterCourse, setFilterCourse] = useState<string>('all');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [editingCertificateId, setEditingCertificateId] = useState<string | null>(null);
+  const [reissuingCertificate, setReissuingCertificate] = useState<Certificate | null>(null);
+  const [historyCertificate, setHistoryCertificate] = useState<Certificate | null>(null);
   const [showEnrolledUsers, setShowEnrolledUsers] = useState(false);
 
   // Carregar dados iniciais
@@ -195,8 +202,10 @@ const AdminCertificates = () => {
         return;
       }
       
-      // Criar um conjunto com os IDs dos usuários que têm certificados
-      const userIdsWithCertificates = new Set(certificates.map(cert => cert.userId));
+      // Criar um conjunto com os IDs dos usuários que têm certificados válidos (revogados não contam)
+      const userIdsWithCertificates = new Set(
+        certificates.filter(cert => !cert.revokedAt).map(cert => cert.userId)
+      );
       console.log('IDs de usuários com certificados:', [...userIdsWithCertificates]);
       
       // Marcar os usuários que têm certificados
@@ -261,7 +270,6 @@ const AdminCertificates = () => {
 
   const resetForm = () => {
     setFormData(defaultFormData);
-    setEditingCertificateId(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -275,15 +283,9 @@ const AdminCertificates = () => {
     try {
       setIsSubmitting(true);
       
-      if (editingCertificateId) {
-        // Editar certificado existente
-        await certificateService.updateCertificate(editingCertificateId, formData);
-        toast.success("Certificado atualizado com sucesso!");
-      } else {
-        // Criar novo certificado
-        await certificateService.createCertificate(formData);
-        toast.success("Certificado criado com sucesso!");
-      }
+      // Certificados emitidos não são editados: correções são feitas pela reemissão
+      await certificateService.createCertificate(formData);
+      toast.success("Certificado criado com sucesso!");
       
       // Recarregar certificados e resetar formulário
       fetchCertificates();
@@ -308,30 +310,25 @@ const AdminCertificates = () => {
     }
   };
 
-  const handleEditCertificate = (certificate: Certificate) => {
-    setFormData({
-      userId: certificate.userId,
-      courseId: certificate.courseId,
-      userName: certificate.userName,
-      courseName: certificate.courseName,
-    });
-    setEditingCertificateId(certificate.id);
-    setIsDialogOpen(true);
-  };
-
-  const handleDeleteCertificate = async (certificateId: string) => {
-    if (!confirm("Tem certeza que deseja excluir este certificado?")) return;
+  const handleRevokeCertificate = async (certificate: Certificate) => {
+    const reason = prompt(`Informe o motivo da revogação do certificado de ${certificate.userName}. A revogação não pode ser desfeita.`);
+    if (reason === null) return;
     
     try {
-      await certificateService.deleteCertificate(certificateId);
-      toast.success("Certificado excluído com sucesso!");
+      await certificateService.revokeCertificate(certificate.id, reason);
+      toast.success("Certificado revogado com sucesso!");
       fetchCertificates();
     } catch (err) {
-      console.error("Error deleting certificate:", err);
-      toast.error("Erro ao excluir certificado");
+      console.error("Error revoking certificate:", err);
+      toast.error(err.message || "Erro ao revogar certificado");
     }
   };
 
+  const handleCertificateReissued = () => {
+    setReissuingCertificate(null);
+    fetchCertificates();
+  };
+
   const handleDownloadCertificate = (certificateUrl: string) => {
     window.open(certificateUrl, "_blank");
   };
@@ -349,11 +346,9 @@ const AdminCertificates = () => {
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>{editingCertificateId ? "Editar" : "Novo"} Certificado</DialogTitle>
+              <DialogTitle>Novo Certificado</DialogTitle>
               <DialogDescription>
-                {editingCertificateId
-                  ? "Edite os detalhes do certificado."
-                  : "Preencha os detalhes para criar um novo certificado."}
+                Preencha os detalhes para criar um novo certificado.
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit}>
@@ -474,6 +469,16 @@ const AdminCertificates = () => {
               <RefreshCw className="h-4 w-4 mr-2" />
               Limpar
             </Button>
+            <DataExportButton
+              dataset={dataExportService.getCertificatesDataset({
+                courseId: filterCourse === 'all' ? null : filterCourse,
+                search: searchTerm,
+              })}
+              filters={[
+                filterCourse !== 'all' && `Curso: ${courses.find(c => c.id === filterCourse)?.title || filterCourse}`,
+                searchTerm.trim() && `Pesquisa: "${searchTerm.trim()}"`,
+              ].filter(Boolean)}
+            />
           </div>
         </CardContent>
       </Card>
@@ -515,7 +520,10 @@ const AdminCertificates = () => {
                   <TableRow>
                     <TableHead>Aluno</TableHead>
                     <TableHead>Curso</TableHead>
+                    <TableHead>Série</TableHead>
                     <TableHead>Data de Emissão</TableHead>
+                    <TableHead>Validade</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead className="text-right">Ações</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -524,9 +532,18 @@ const AdminCertificates = () => {
                     <TableRow key={certificate.id}>
                       <TableCell>{certificate.userName}</TableCell>
                       <TableCell>{certificate.courseName}</TableCell>
+                      <TableCell className="font-mono text-xs">{certificate.serialNumber || "-"}</TableCell>
                       <TableCell>
                         {new Date(certificate.issueDate).toLocaleDateString("pt-BR")}
                       </TableCell>
+                      <TableCell>
+                        {certificate.expiryDate
+                          ? new Date(certificate.expiryDate).toLocaleDateString("pt-BR")
+                          : "Não expira"}
+                      </TableCell>
+                      <TableCell>
+                        <CertificateStatusBadge status={certificateService.getCertificateStatus(certificate)} />
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           {certificate.certificateUrl && (
@@ -545,11 +562,18 @@ const AdminCertificates = () => {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem onClick={() => handleEditCertificate(certificate)}>
-                                <Edit className="h-4 w-4 mr-2" /> Editar
-                              </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => handleDeleteCertificate(certificate.id)}>
-                                <Trash className="h-4 w-4 mr-2" /> Excluir
+                              {!certificate.supersededById && (
+                                <DropdownMenuItem onClick={() => setReissuingCertificate(certificate)}>
+                                  <FilePen className="h-4 w-4 mr-2" /> Reemitir
+                                </DropdownMenuItem>
+                              )}
+                              {!certificate.revokedAt && (
+                                <DropdownMenuItem onClick={() => handleRevokeCertificate(certificate)}>
+                                  <Ban className="h-4 w-4 mr-2" /> Revogar
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onClick={() => setHistoryCertificate(certificate)}>
+                                <History className="h-4 w-4 mr-2" /> Histórico
                               </DropdownMenuItem>
                             </DropdownMenuContent>
                           </DropdownMenu>
@@ -564,6 +588,19 @@ const AdminCertificates = () => {
         </CardContent>
       </Card>
 
+      <ExpiringCertificatesReport />
+
+      <ReissueCertificateDialog
+        certificate={reissuingCertificate}
+        onOpenChange={(open) => !open && setReissuingCertificate(null)}
+        onReissued={handleCertificateReissued}
+      />
+
+      <CertificateHistoryDialog
+        certificate={historyCertificate}
+        onOpenChange={(open) => !open && setHistoryCertificate(null)}
+      />
+
       {/* Tabela de alunos matriculados */}
       {showEnrolledUsers && (
         <Card className="mt-8">
@@ -0,0 +1,171 @@
+import { Fragment, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, Users } from "lucide-react";
+import { toast } from "sonner";
+import { LessonEngagement } from "@/types";
+import { courseEngagementService } from "@/services/api";
+import { useAppData } from "@/contexts/AppDataContext";
+import DataExportButton from "@/components/admin/DataExportButton";
+import { findMostStalledLesson, formatEngagementInterval, getCompletionRate } from "@/utils/courseEngagement";
+
+// Relatório de engajamento do curso: conclusões, tempo mediano e onde os alunos travam, aula a aula
+const AdminCourseReport = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const { courses } = useAppData();
+  const [lessons, setLessons] = useState<LessonEngagement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const courseTitle = courses.find((course) => course.id === courseId)?.title || "Curso";
+  const mostStalled = findMostStalledLesson(lessons);
+  const enrolledCount = lessons[0]?.enrolledCount || 0;
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      if (!courseId) return;
+
+      setIsLoading(true);
+      try {
+        setLessons(await courseEngagementService.getReport(courseId));
+      } catch (error) {
+        console.error("Erro ao carregar relatório de engajamento:", error);
+        toast.error("Erro ao carregar relatório de engajamento");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [courseId]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate("/admin/courses")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar para cursos
+          </Button>
+          <h1 className="text-3xl font-bold">Relatório de engajamento</h1>
+          <p className="text-muted-foreground">{courseTitle}</p>
+        </div>
+        <DataExportButton
+          dataset={courseEngagementService.getReportDataset(courseTitle, lessons)}
+          disabled={isLoading || lessons.length === 0}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Alunos matriculados</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? "…" : enrolledCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Aula com mais alunos travados</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {mostStalled ? (
+              <>
+                <div className="text-lg font-bold">
+                  {mostStalled.position}. {mostStalled.lessonTitle}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {mostStalled.moduleTitle} — {mostStalled.stalledCount}{" "}
+                  {mostStalled.stalledCount === 1 ? "aluno parado" : "alunos parados"} nesta aula
+                </p>
+              </>
+            ) : (
+              <div className="text-lg font-bold">{isLoading ? "…" : "Nenhum aluno travado"}</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <p className="text-lg text-muted-foreground">Carregando relatório...</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[60px]">#</TableHead>
+                <TableHead>Aula</TableHead>
+                <TableHead className="w-[220px]">Concluíram</TableHead>
+                <TableHead>Tempo mediano desde a conclusão anterior</TableHead>
+                <TableHead className="text-right">Alunos travados</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lessons.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                    Este curso ainda não possui aulas
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lessons.map((lesson, index) => (
+                  <Fragment key={lesson.lessonId}>
+                    {lesson.moduleId !== lessons[index - 1]?.moduleId && (
+                      <TableRow className="bg-muted/50 hover:bg-muted/50">
+                        <TableCell colSpan={5} className="font-semibold">
+                          {lesson.moduleTitle}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    <TableRow>
+                      <TableCell className="text-muted-foreground">{lesson.position}</TableCell>
+                      <TableCell>{lesson.lessonTitle}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={getCompletionRate(lesson)} className="h-2 flex-1" />
+                          <span className="text-sm whitespace-nowrap">
+                            {lesson.completedCount} ({getCompletionRate(lesson)}%)
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatEngagementInterval(lesson.medianIntervalSeconds)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {mostStalled?.lessonId === lesson.lessonId && (
+                          <Badge variant="destructive" className="mr-2">Mais travados</Badge>
+                        )}
+                        {lesson.stalledCount}
+                      </TableCell>
+                    </TableRow>
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <p className="text-xs text-muted-foreground">
+        O tempo mediano considera, para cada aluno, o intervalo entre a conclusão anterior no curso (ou a matrícula) e a
+        conclusão da aula. Um aluno está travado na primeira aula que ainda não concluiu, enquanto não concluir o curso.
+      </p>
+    </div>
+  );
+};
+
+export default AdminCourseReport;
@@ -7,6 +7,8 @@ import CourseForm from "@/components/admin/courses/CourseForm";
 import CoursesTable from "@/components/admin/courses/CoursesTable";
 import { useCourseManagement } from "@/hooks/useCourseManagement";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import DataExportButton from "@/components/admin/DataExportButton";
+import { dataExportService } from "@/services/api";
 
 const AdminCourses = () => {
   const [viewMode, setViewMode] = useState<"table" | "grid">("table");
@@ -20,6 +22,11 @@ const AdminCourses = () => {
     editingCourseId,
     isSubmitting,
     handleInputChange,
+    handleCertificateRulesChange,
+    handleCertificateTemplateChange,
+    handleCertificateValidityChange,
+    handlePrerequisitesChange,
+    handleContentReleaseModeChange,
     handleEditCourse,
     handleDeleteCourse,
     handleSubmit,
@@ -43,6 +50,9 @@ const AdminCourses = () => {
               </TabsTrigger>
             </TabsList>
           </Tabs>
+
+          <DataExportButton dataset={dataExportService.getCoursesDataset()} label="Exportar cursos" />
+          <DataExportButton dataset={dataExportService.getEnrollmentsDataset()} label="Exportar matrículas" />
           
           <Dialog 
             open={isDialogOpen} 
@@ -62,7 +72,13 @@ const AdminCourses = () => {
             </DialogTrigger>
             <CourseForm
               formData={formData}
+              courses={courses}
               handleInputChange={handleInputChange}
+              handleCertificateRulesChange={handleCertificateRulesChange}
+              handleCertificateTemplateChange={handleCertificateTemplateChange}
+              handleCertificateValidityChange={handleCertificateValidityChange}
+              handlePrerequisitesChange={handlePrerequisitesChange}
+              handleContentReleaseModeChange={handleContentReleaseModeChange}
               handleSubmit={handleSubmit}
               isSubmitting={isSubmitting}
               editingCourseId={editingCourseId}
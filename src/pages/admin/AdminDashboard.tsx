@@ -5,7 +5,7 @@ import { courseService } from "@/services/api";
 import { moduleService } from "@/services/moduleService";
 import { lessonService } from "@/services/lessonService";
 import { supabase } from "@/integrations/supabase/client";
-import { BookOpen, Award, Users, FileText, Layers } from "lucide-react";
+import { BookOpen, Award, Users, FileText, Layers, BarChart3 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 
@@ -199,6 +199,15 @@ const AdminDashboard = () => {
               <Users className="h-6 w-6" />
               <span>Gerenciar Usuários</span>
             </Button>
+
+            <Button 
+              variant="outline" 
+              className="h-24 flex flex-col items-center justify-center gap-2"
+              onClick={() => navigate("/admin/analytics")}
+            >
+              <BarChart3 className="h-6 w-6" />
+              <span>Análises</span>
+            </Button>
             
             <Button 
               variant="outline" 
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle, MessageSquare, Trash } from "lucide-react";
+import { toast } from "sonner";
+import { UnansweredLessonQuestion } from "@/types";
+import { lessonDiscussionService } from "@/services/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { realtimeEvents } from "@/utils/realtimeSubscriptions";
+
+// Fila de moderação: perguntas dos alunos ainda sem resposta, de todos os cursos
+const AdminDiscussions = () => {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<UnansweredLessonQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [answeringQuestion, setAnsweringQuestion] = useState<UnansweredLessonQuestion | null>(null);
+  const [replyContent, setReplyContent] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchQuestions();
+
+    // Novas perguntas entram na fila sem recarregar a página
+    return realtimeEvents.subscribe("lesson-discussions-changed", (event: { parentId: string | null }) => {
+      if (!event.parentId) fetchQuestions();
+    });
+  }, []);
+
+  const fetchQuestions = async () => {
+    try {
+      setQuestions(await lessonDiscussionService.getUnansweredQuestions());
+    } catch (error) {
+      console.error("Erro ao carregar perguntas sem resposta:", error);
+      toast.error("Erro ao carregar perguntas sem resposta");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReply = async () => {
+    if (!answeringQuestion || !user) return;
+
+    setIsSubmitting(true);
+    try {
+      // A resposta de um administrador marca a pergunta como respondida
+      await lessonDiscussionService.replyToQuestion(user.id, answeringQuestion, replyContent);
+      toast.success("Resposta enviada");
+      setAnsweringQuestion(null);
+      setReplyContent("");
+      await fetchQuestions();
+    } catch (error) {
+      console.error("Erro ao responder pergunta:", error);
+      toast.error("Erro ao enviar resposta");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMarkAnswered = async (question: UnansweredLessonQuestion) => {
+    try {
+      await lessonDiscussionService.setQuestionAnswered(question.id, true);
+      setQuestions(prev => prev.filter(item => item.id !== question.id));
+      toast.success("Pergunta marcada como respondida");
+    } catch (error) {
+      console.error("Erro ao marcar pergunta como respondida:", error);
+      toast.error("Erro ao marcar pergunta como respondida");
+    }
+  };
+
+  const handleDelete = async (question: UnansweredLessonQuestion) => {
+    if (!confirm("Tem certeza que deseja excluir esta pergunta? As respostas também serão excluídas.")) return;
+
+    try {
+      await lessonDiscussionService.deletePost(question.id);
+      setQuestions(prev => prev.filter(item => item.id !== question.id));
+      toast.success("Pergunta excluída");
+    } catch (error) {
+      console.error("Erro ao excluir pergunta:", error);
+      toast.error("Erro ao excluir pergunta");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Perguntas sem resposta</h1>
+        <p className="text-muted-foreground">
+          Perguntas dos alunos nas aulas que ainda não foram respondidas por um instrutor ou administrador
+        </p>
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <p className="text-lg text-muted-foreground">Carregando perguntas...</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pergunta</TableHead>
+                <TableHead>Curso / Aula</TableHead>
+                <TableHead>Aluno</TableHead>
+                <TableHead>Votos</TableHead>
+                <TableHead>Respostas</TableHead>
+                <TableHead>Enviada em</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {questions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                    Nenhuma pergunta aguardando resposta
+                  </TableCell>
+                </TableRow>
+              ) : (
+                questions.map(question => (
+                  <TableRow key={question.id}>
+                    <TableCell className="max-w-xs">
+                      <p className="line-clamp-3 whitespace-pre-wrap">{question.content}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{question.courseTitle}</p>
+                      <Link
+                        to={`/aluno/curso/${question.courseId}/player?lesson=${question.lessonId}&tab=discussion`}
+                        className="text-sm text-muted-foreground hover:underline"
+                      >
+                        {question.lessonTitle}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{question.authorName}</TableCell>
+                    <TableCell>{question.upvotes}</TableCell>
+                    <TableCell>{question.replyCount}</TableCell>
+                    <TableCell>{new Date(question.createdAt).toLocaleDateString("pt-BR")}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setAnsweringQuestion(question);
+                          setReplyContent("");
+                        }}
+                        title="Responder"
+                      >
+                        <MessageSquare className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleMarkAnswered(question)}
+                        title="Marcar como respondida"
+                      >
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(question)} title="Excluir">
+                        <Trash className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <Dialog open={!!answeringQuestion} onOpenChange={open => !open && setAnsweringQuestion(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Responder pergunta</DialogTitle>
+            <DialogDescription>
+              {answeringQuestion && `${answeringQuestion.courseTitle} — ${answeringQuestion.lessonTitle}`}
+            </DialogDescription>
+          </DialogHeader>
+          {answeringQuestion && (
+            <div className="space-y-4">
+              <div className="rounded-md bg-muted p-3">
+                <p className="text-sm font-medium">{answeringQuestion.authorName}</p>
+                <p className="text-sm whitespace-pre-wrap">{answeringQuestion.content}</p>
+              </div>
+              <Textarea
+                value={replyContent}
+                onChange={e => setReplyContent(e.target.value)}
+                placeholder="Escreva a resposta..."
+                rows={5}
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAnsweringQuestion(null)} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+            <Button onClick={handleReply} disabled={isSubmitting || !replyContent.trim()}>
+              Enviar resposta
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminDiscussions;
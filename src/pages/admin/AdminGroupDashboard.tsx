@@ -0,0 +1,414 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Award, BookOpen, CheckCircle, RefreshCw, Trash, UserMinus, Users } from "lucide-react";
+import { toast } from "sonner";
+import { User, UserGroup, UserGroupCourse, UserGroupMember, UserGroupProgress } from "@/types";
+import { userGroupService, userService } from "@/services/api";
+import { useAppData } from "@/contexts/AppDataContext";
+import DataExportButton from "@/components/admin/DataExportButton";
+import { formatGroupStartDate, getGroupAverageProgress, summarizeGroupMembers } from "@/utils/userGroupProgress";
+
+const progressChartConfig = {
+  averageProgress: { label: "Progresso médio (%)", color: "#2563eb" },
+} satisfies ChartConfig;
+
+// Painel da turma: cursos e membros da turma e o progresso de cada membro, lado a lado
+const AdminGroupDashboard = () => {
+  const { groupId } = useParams<{ groupId: string }>();
+  const navigate = useNavigate();
+  const { courses } = useAppData();
+  const [group, setGroup] = useState<UserGroup | null>(null);
+  const [members, setMembers] = useState<UserGroupMember[]>([]);
+  const [groupCourses, setGroupCourses] = useState<UserGroupCourse[]>([]);
+  const [progressRows, setProgressRows] = useState<UserGroupProgress[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const summaries = summarizeGroupMembers(members, progressRows);
+  const averageProgress = getGroupAverageProgress(summaries);
+  const completedCount = progressRows.filter((row) => row.completedAt).length;
+  const certificateCount = progressRows.filter((row) => row.certificateIssuedAt).length;
+  const progressByMemberCourse = new Map(progressRows.map((row) => [`${row.userId}:${row.courseId}`, row]));
+
+  const availableCourses = courses.filter(
+    (course) => !groupCourses.some((groupCourse) => groupCourse.courseId === course.id)
+  );
+  const availableUsers = users.filter((user) => !members.some((member) => member.userId === user.id));
+
+  const fetchDashboard = useCallback(async () => {
+    if (!groupId) return;
+
+    try {
+      setIsLoading(true);
+      const [groupData, membersData, coursesData, progressData] = await Promise.all([
+        userGroupService.getGroupById(groupId),
+        userGroupService.getMembers(groupId),
+        userGroupService.getCourses(groupId),
+        userGroupService.getProgress(groupId),
+      ]);
+      setGroup(groupData);
+      setMembers(membersData);
+      setGroupCourses(coursesData);
+      setProgressRows(progressData);
+    } catch (error) {
+      console.error("Erro ao carregar painel da turma:", error);
+      toast.error("Erro ao carregar painel da turma");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    fetchDashboard();
+  }, [fetchDashboard]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      setUsers(await userService.getUsers());
+    } catch (error) {
+      console.error("Erro ao carregar usuários:", error);
+      toast.error("Erro ao carregar usuários");
+    }
+  };
+
+  // Executa uma alteração na turma e recarrega o painel (as matrículas são feitas pelo banco)
+  const runUpdate = async (update: () => Promise<void>, successMessage: string) => {
+    if (!groupId) return;
+
+    try {
+      setIsUpdating(true);
+      await update();
+      toast.success(successMessage);
+      await fetchDashboard();
+    } catch (error) {
+      console.error("Erro ao atualizar turma:", error);
+      toast.error(error.message || "Erro ao atualizar turma");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleAddCourse = (courseId: string) =>
+    runUpdate(() => userGroupService.addCourse(groupId, courseId), "Turma matriculada no curso");
+
+  const handleRemoveCourse = (groupCourse: UserGroupCourse) => {
+    if (!confirm(`Remover "${groupCourse.title}" da turma? As matrículas já feitas são mantidas.`)) return;
+    runUpdate(() => userGroupService.removeCourse(groupId, groupCourse.courseId), "Curso removido da turma");
+  };
+
+  const handleAddMember = (userId: string) =>
+    runUpdate(() => userGroupService.addMembers(groupId, [userId]), "Membro adicionado à turma");
+
+  const handleRemoveMember = (userId: string, name: string) => {
+    if (!confirm(`Remover ${name} da turma? As matrículas já feitas são mantidas.`)) return;
+    runUpdate(() => userGroupService.removeMember(groupId, userId), "Membro removido da turma");
+  };
+
+  const handleSyncEnrollments = async () => {
+    if (!groupId) return;
+
+    try {
+      setIsUpdating(true);
+      const enrolled = await userGroupService.syncEnrollments(groupId);
+      toast.success(
+        enrolled > 0
+          ? `${enrolled} ${enrolled === 1 ? "matrícula criada" : "matrículas criadas"}`
+          : "Todos os membros já estão matriculados nos cursos liberados"
+      );
+      if (enrolled > 0) await fetchDashboard();
+    } catch (error) {
+      console.error("Erro ao sincronizar matrículas:", error);
+      toast.error(error.message || "Erro ao sincronizar matrículas");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (!isLoading && !group) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" size="sm" className="-ml-2" onClick={() => navigate("/admin/groups")}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Voltar para turmas
+        </Button>
+        <p className="text-muted-foreground">Turma não encontrada.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => navigate("/admin/groups")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar para turmas
+          </Button>
+          <h1 className="text-3xl font-bold">{group?.name || "Turma"}</h1>
+          <p className="text-muted-foreground">
+            Início: {formatGroupStartDate(group?.startDate || null)} · Instrutor: {group?.instructorName || "—"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={handleSyncEnrollments}
+            disabled={isLoading || isUpdating || groupCourses.length === 0}
+            title="Matricula os membros nos cursos que ainda faltam (ex.: pré-requisitos cumpridos depois)"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Sincronizar matrículas
+          </Button>
+          <DataExportButton
+            dataset={userGroupService.getProgressDataset(group?.name || "", summaries)}
+            disabled={isLoading || summaries.length === 0}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Membros</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? "…" : members.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Progresso médio</CardTitle>
+            <BookOpen className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? "…" : `${averageProgress}%`}</div>
+            <p className="text-xs text-muted-foreground">nos {groupCourses.length} cursos da turma</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Cursos concluídos</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? "…" : completedCount}</div>
+            <p className="text-xs text-muted-foreground">de {progressRows.length} matrículas esperadas</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Certificados válidos</CardTitle>
+            <Award className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? "…" : certificateCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Cursos da turma</CardTitle>
+            <CardDescription>Membros atuais e futuros são matriculados nestes cursos</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {groupCourses.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhum curso adicionado</p>
+            )}
+            {groupCourses.map((groupCourse) => (
+              <div key={groupCourse.courseId} className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{groupCourse.title}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemoveCourse(groupCourse)}
+                  disabled={isUpdating}
+                  title="Remover curso da turma"
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {/* key força o Select a voltar ao placeholder depois de cada curso adicionado */}
+            <Select
+              key={groupCourses.length}
+              onValueChange={handleAddCourse}
+              disabled={isUpdating || availableCourses.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Matricular a turma em um curso..." />
+              </SelectTrigger>
+              <SelectContent>
+                {availableCourses.map((course) => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Progresso dos membros</CardTitle>
+            <CardDescription>Média de cada membro nos cursos da turma</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {summaries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">A turma ainda não tem membros</p>
+            ) : (
+              <ChartContainer
+                config={progressChartConfig}
+                className="w-full aspect-auto"
+                style={{ height: Math.max(160, summaries.length * 32) }}
+              >
+                <BarChart data={summaries} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={140} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="averageProgress" fill="var(--color-averageProgress)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle>Comparativo por membro</CardTitle>
+            <CardDescription>
+              Progresso em cada curso da turma; "—" indica que o membro ainda não foi matriculado
+            </CardDescription>
+          </div>
+          {/* key força o Select a voltar ao placeholder depois de cada membro adicionado */}
+          <div className="md:w-72">
+            <Select key={members.length} onValueChange={handleAddMember} disabled={isUpdating || availableUsers.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder="Adicionar membro..." />
+              </SelectTrigger>
+              <SelectContent>
+                {availableUsers.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name || user.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <p className="text-lg text-muted-foreground">Carregando painel...</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Membro</TableHead>
+                    <TableHead className="w-[180px]">Média</TableHead>
+                    {groupCourses.map((groupCourse) => (
+                      <TableHead key={groupCourse.courseId} className="text-right whitespace-nowrap">
+                        {groupCourse.title}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Certificados</TableHead>
+                    <TableHead>Última atividade</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={groupCourses.length + 5} className="text-center py-6 text-muted-foreground">
+                        Nenhum membro nesta turma
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    summaries.map((summary) => (
+                      <TableRow key={summary.userId}>
+                        <TableCell>
+                          <div className="font-medium">{summary.name}</div>
+                          {summary.email && <div className="text-xs text-muted-foreground">{summary.email}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Progress value={summary.averageProgress} className="h-2 flex-1" />
+                            <span className="text-sm whitespace-nowrap">{summary.averageProgress}%</span>
+                          </div>
+                        </TableCell>
+                        {groupCourses.map((groupCourse) => {
+                          const row = progressByMemberCourse.get(`${summary.userId}:${groupCourse.courseId}`);
+                          return (
+                            <TableCell key={groupCourse.courseId} className="text-right">
+                              {row?.enrolledAt ? (
+                                <span className={row.completedAt ? "text-green-600 font-medium" : undefined}>
+                                  {row.progress}%
+                                </span>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="text-right">{summary.certificateCount}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {summary.lastActivityAt ? new Date(summary.lastActivityAt).toLocaleDateString("pt-BR") : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemoveMember(summary.userId, summary.name)}
+                            disabled={isUpdating}
+                            title="Remover da turma"
+                          >
+                            <UserMinus className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminGroupDashboard;
@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BarChart3, Edit, Plus, Trash } from "lucide-react";
+import { toast } from "sonner";
+import { CreateUserGroupData, User, UserGroup } from "@/types";
+import { userGroupService, userService } from "@/services/api";
+import { formatGroupStartDate } from "@/utils/userGroupProgress";
+
+const NO_INSTRUCTOR_VALUE = "none";
+
+const emptyFormData = (): CreateUserGroupData => ({
+  name: "",
+  description: "",
+  startDate: "",
+  instructorId: null,
+});
+
+const AdminGroups = () => {
+  const [groups, setGroups] = useState<UserGroup[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateUserGroupData>(emptyFormData);
+
+  useEffect(() => {
+    fetchGroups();
+    fetchUsers();
+  }, []);
+
+  const fetchGroups = async () => {
+    try {
+      setIsLoading(true);
+      setGroups(await userGroupService.getGroups());
+    } catch (error) {
+      console.error("Erro ao carregar turmas:", error);
+      toast.error("Erro ao carregar turmas");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchUsers = async () => {
+    try {
+      setUsers(await userService.getUsers());
+    } catch (error) {
+      console.error("Erro ao carregar usuários:", error);
+      toast.error("Erro ao carregar usuários");
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyFormData());
+    setEditingGroupId(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleEditGroup = (group: UserGroup) => {
+    setFormData({
+      name: group.name,
+      description: group.description || "",
+      startDate: group.startDate || "",
+      instructorId: group.instructorId,
+    });
+    setEditingGroupId(group.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteGroup = async (group: UserGroup) => {
+    if (!confirm(`Tem certeza que deseja excluir a turma "${group.name}"? As matrículas dos membros são mantidas.`)) {
+      return;
+    }
+
+    try {
+      await userGroupService.deleteGroup(group.id);
+      setGroups(prev => prev.filter(item => item.id !== group.id));
+      toast.success("Turma excluída com sucesso");
+    } catch (error) {
+      console.error("Erro ao excluir turma:", error);
+      toast.error(error.message || "Erro ao excluir turma");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      if (editingGroupId) {
+        await userGroupService.updateGroup(editingGroupId, formData);
+        toast.success("Turma atualizada com sucesso");
+      } else {
+        await userGroupService.createGroup(formData);
+        toast.success("Turma criada com sucesso");
+      }
+      setIsDialogOpen(false);
+      resetForm();
+      fetchGroups();
+    } catch (error) {
+      console.error("Erro ao salvar turma:", error);
+      toast.error(error.message || "Erro ao salvar turma");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Turmas</h1>
+          <p className="text-muted-foreground">
+            Agrupe usuários em turmas. Ao matricular a turma em um curso, os membros atuais e os que entrarem depois
+            são matriculados.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            resetForm();
+            setIsDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Turma
+        </Button>
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <p className="text-lg text-muted-foreground">Carregando turmas...</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Turma</TableHead>
+                <TableHead>Início</TableHead>
+                <TableHead>Instrutor responsável</TableHead>
+                <TableHead className="text-right">Membros</TableHead>
+                <TableHead className="text-right">Cursos</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                    Nenhuma turma cadastrada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map(group => (
+                  <TableRow key={group.id}>
+                    <TableCell>
+                      <Link to={`/admin/groups/${group.id}`} className="font-medium hover:underline">
+                        {group.name}
+                      </Link>
+                      {group.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-1">{group.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatGroupStartDate(group.startDate)}</TableCell>
+                    <TableCell>{group.instructorName || "—"}</TableCell>
+                    <TableCell className="text-right">{group.memberCount}</TableCell>
+                    <TableCell className="text-right">{group.courseCount}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" asChild title="Painel da turma">
+                        <Link to={`/admin/groups/${group.id}`}>
+                          <BarChart3 className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleEditGroup(group)} title="Editar">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDeleteGroup(group)} title="Excluir">
+                        <Trash className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <Dialog
+        open={isDialogOpen}
+        onOpenChange={open => {
+          setIsDialogOpen(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>{editingGroupId ? "Editar Turma" : "Criar Nova Turma"}</DialogTitle>
+            <DialogDescription>
+              Membros e cursos da turma são gerenciados no painel da turma.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form id="user-group-form" onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Nome</Label>
+              <Input id="name" name="name" value={formData.name} onChange={handleInputChange} required />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Descrição</Label>
+              <Textarea
+                id="description"
+                name="description"
+                value={formData.description || ""}
+                onChange={handleInputChange}
+                rows={3}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startDate">Data de início</Label>
+                <Input
+                  id="startDate"
+                  name="startDate"
+                  type="date"
+                  value={formData.startDate || ""}
+                  onChange={handleInputChange}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="instructorId">Instrutor responsável</Label>
+                <Select
+                  value={formData.instructorId || NO_INSTRUCTOR_VALUE}
+                  onValueChange={value =>
+                    setFormData(prev => ({ ...prev, instructorId: value === NO_INSTRUCTOR_VALUE ? null : value }))
+                  }
+                >
+                  <SelectTrigger id="instructorId">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_INSTRUCTOR_VALUE}>Sem instrutor</SelectItem>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name || user.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </form>
+
+          <DialogFooter>
+            <Button type="submit" form="user-group-form" disabled={isSubmitting}>
+              {isSubmitting ? "Salvando..." : editingGroupId ? "Atualizar" : "Criar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminGroups;
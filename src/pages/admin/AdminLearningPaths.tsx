@@ -0,0 +1,422 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Edit, Plus, Trash } from "lucide-react";
+import { toast } from "sonner";
+import { Course, CreateLearningPathData, LearningPath, LearningPathEnrollmentMode } from "@/types";
+import { courseService, learningPathService } from "@/services/api";
+
+const NO_PREREQUISITE_VALUE = "none";
+
+const ENROLLMENT_MODE_LABELS: Record<LearningPathEnrollmentMode, string> = {
+  first_course: "Primeiro curso",
+  all_courses: "Todos os cursos",
+};
+
+const emptyFormData = (): CreateLearningPathData => ({
+  title: "",
+  description: "",
+  thumbnail: "",
+  enrollmentMode: "first_course",
+  courses: [],
+});
+
+const AdminLearningPaths = () => {
+  const [learningPaths, setLearningPaths] = useState<LearningPath[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingPathId, setEditingPathId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateLearningPathData>(emptyFormData);
+
+  useEffect(() => {
+    fetchLearningPaths();
+    fetchCourses();
+  }, []);
+
+  const fetchLearningPaths = async () => {
+    try {
+      setIsLoading(true);
+      setLearningPaths(await learningPathService.getLearningPaths());
+    } catch (error) {
+      console.error("Erro ao carregar trilhas:", error);
+      toast.error("Erro ao carregar trilhas");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchCourses = async () => {
+    try {
+      setCourses(await courseService.getCourses());
+    } catch (error) {
+      console.error("Erro ao carregar cursos:", error);
+      toast.error("Erro ao carregar cursos");
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyFormData());
+    setEditingPathId(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddCourse = (courseId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      courses: [...prev.courses, { courseId, position: prev.courses.length + 1, prerequisiteCourseId: null }],
+    }));
+  };
+
+  const handleRemoveCourse = (courseId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      courses: prev.courses
+        .filter(course => course.courseId !== courseId)
+        // Pré-requisitos que apontavam para o curso removido deixam de existir
+        .map(course => (course.prerequisiteCourseId === courseId ? { ...course, prerequisiteCourseId: null } : course)),
+    }));
+  };
+
+  // Ao mover um curso, pré-requisitos que deixariam de ser anteriores a ele são removidos
+  const handleMoveCourse = (index: number, direction: -1 | 1) => {
+    setFormData(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.courses.length) return prev;
+
+      const reordered = [...prev.courses];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+      return {
+        ...prev,
+        courses: reordered.map((course, i) => ({
+          ...course,
+          position: i + 1,
+          prerequisiteCourseId: reordered.slice(0, i).some(previous => previous.courseId === course.prerequisiteCourseId)
+            ? course.prerequisiteCourseId
+            : null,
+        })),
+      };
+    });
+  };
+
+  const handlePrerequisiteChange = (courseId: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      courses: prev.courses.map(course =>
+        course.courseId === courseId
+          ? { ...course, prerequisiteCourseId: value === NO_PREREQUISITE_VALUE ? null : value }
+          : course
+      ),
+    }));
+  };
+
+  const handleEditPath = (learningPath: LearningPath) => {
+    setFormData({
+      title: learningPath.title,
+      description: learningPath.description || "",
+      thumbnail: learningPath.thumbnail || "",
+      enrollmentMode: learningPath.enrollmentMode,
+      courses: learningPath.courses.map(({ courseId, position, prerequisiteCourseId }) => ({
+        courseId,
+        position,
+        prerequisiteCourseId,
+      })),
+    });
+    setEditingPathId(learningPath.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleDeletePath = async (learningPathId: string) => {
+    if (!confirm("Tem certeza que deseja excluir esta trilha? As matrículas nos cursos são mantidas.")) {
+      return;
+    }
+
+    try {
+      await learningPathService.deleteLearningPath(learningPathId);
+      setLearningPaths(prev => prev.filter(path => path.id !== learningPathId));
+      toast.success("Trilha excluída com sucesso");
+    } catch (error) {
+      console.error("Erro ao excluir trilha:", error);
+      toast.error(error.message || "Erro ao excluir trilha");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      if (editingPathId) {
+        await learningPathService.updateLearningPath(editingPathId, formData);
+        toast.success("Trilha atualizada com sucesso");
+      } else {
+        await learningPathService.createLearningPath(formData);
+        toast.success("Trilha criada com sucesso");
+      }
+      setIsDialogOpen(false);
+      resetForm();
+      fetchLearningPaths();
+    } catch (error) {
+      console.error("Erro ao salvar trilha:", error);
+      toast.error(error.message || "Erro ao salvar trilha");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const courseTitle = (courseId: string) =>
+    courses.find(course => course.id === courseId)?.title || "Curso removido";
+
+  const availableCourses = courses.filter(
+    course => !formData.courses.some(pathCourse => pathCourse.courseId === course.id)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Trilhas de Aprendizagem</h1>
+          <p className="text-muted-foreground">
+            Agrupe cursos em uma sequência. Ao concluir todos os cursos, o aluno recebe o certificado da trilha.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            resetForm();
+            setIsDialogOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Trilha
+        </Button>
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <p className="text-lg text-muted-foreground">Carregando trilhas...</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Título</TableHead>
+                <TableHead>Cursos</TableHead>
+                <TableHead>Matrícula</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {learningPaths.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                    Nenhuma trilha cadastrada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                learningPaths.map(learningPath => (
+                  <TableRow key={learningPath.id}>
+                    <TableCell className="font-medium">{learningPath.title}</TableCell>
+                    <TableCell>
+                      {learningPath.courses.map(course => course.course?.title || "Curso removido").join(" → ")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ENROLLMENT_MODE_LABELS[learningPath.enrollmentMode]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleEditPath(learningPath)} title="Editar">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeletePath(learningPath.id)}
+                        title="Excluir"
+                      >
+                        <Trash className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <Dialog
+        open={isDialogOpen}
+        onOpenChange={open => {
+          setIsDialogOpen(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPathId ? "Editar Trilha" : "Criar Nova Trilha"}</DialogTitle>
+            <DialogDescription>
+              Os cursos são feitos na ordem da lista. O pré-requisito deve ser um curso anterior da trilha.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form id="learning-path-form" onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="title">Título</Label>
+              <Input id="title" name="title" value={formData.title} onChange={handleInputChange} required />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Descrição</Label>
+              <Textarea
+                id="description"
+                name="description"
+                value={formData.description || ""}
+                onChange={handleInputChange}
+                rows={3}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="thumbnail">URL da imagem</Label>
+                <Input id="thumbnail" name="thumbnail" value={formData.thumbnail || ""} onChange={handleInputChange} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="enrollmentMode">Matrícula na trilha</Label>
+                <Select
+                  value={formData.enrollmentMode}
+                  onValueChange={value =>
+                    setFormData(prev => ({ ...prev, enrollmentMode: value as LearningPathEnrollmentMode }))
+                  }
+                >
+                  <SelectTrigger id="enrollmentMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="first_course">Matricular no primeiro curso</SelectItem>
+                    <SelectItem value="all_courses">Matricular em todos os cursos</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Cursos da trilha</Label>
+              {formData.courses.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nenhum curso adicionado</p>
+              )}
+              {formData.courses.map((pathCourse, index) => (
+                <div key={pathCourse.courseId} className="grid grid-cols-[auto_1fr_1fr_auto] items-center gap-2">
+                  <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                  <span className="text-sm font-medium truncate">{courseTitle(pathCourse.courseId)}</span>
+                  <Select
+                    value={pathCourse.prerequisiteCourseId || NO_PREREQUISITE_VALUE}
+                    onValueChange={value => handlePrerequisiteChange(pathCourse.courseId, value)}
+                    disabled={index === 0}
+                  >
+                    <SelectTrigger aria-label="Pré-requisito">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PREREQUISITE_VALUE}>Sem pré-requisito</SelectItem>
+                      {formData.courses.slice(0, index).map(previous => (
+                        <SelectItem key={previous.courseId} value={previous.courseId}>
+                          Requer: {courseTitle(previous.courseId)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleMoveCourse(index, -1)}
+                      disabled={index === 0}
+                      title="Mover para cima"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleMoveCourse(index, 1)}
+                      disabled={index === formData.courses.length - 1}
+                      title="Mover para baixo"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveCourse(pathCourse.courseId)}
+                      title="Remover curso"
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {/* key força o Select a voltar ao placeholder depois de cada curso adicionado */}
+              <Select key={formData.courses.length} onValueChange={handleAddCourse} disabled={availableCourses.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Adicionar curso..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableCourses.map(course => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {course.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </form>
+
+          <DialogFooter>
+            <Button type="submit" form="learning-path-form" disabled={isSubmitting}>
+              {isSubmitting ? "Salvando..." : editingPathId ? "Atualizar" : "Criar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminLearningPaths;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import {
@@ -15,6 +15,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -30,7 +31,17 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
-import { lessonService, moduleService, courseService } from "@/services/api";
+import { lessonService, moduleService, courseService, quizService, dataExportService } from "@/services/api";
+import { LESSON_COLUMNS } from "@/services/lessonService";
+import { LessonType, QuizQuestion } from "@/types";
+import QuizEditor from "@/components/admin/lessons/QuizEditor";
+import LessonAttachmentsEditor from "@/components/admin/lessons/LessonAttachmentsEditor";
+import RichTextEditor from "@/components/RichTextEditor";
+import LessonVideoUpload from "@/components/admin/lessons/LessonVideoUpload";
+import LessonCaptionsEditor from "@/components/admin/lessons/LessonCaptionsEditor";
+import DataExportButton from "@/components/admin/DataExportButton";
+import { UploadedLessonVideo, lessonVideoService } from "@/services/lessonVideoService";
+import { formatLessonDuration, readVideoMetadata } from "@/utils/videoMetadata";
 import { toast } from "sonner";
 import { Plus, MoreHorizontal, Edit, Trash } from "lucide-react";
 import {
@@ -49,8 +60,19 @@ const defaultFormData = {
   videoUrl: "",
   content: "",
   moduleId: "",
+  type: "video",
+  passingScore: 70,
+  maxAttempts: "",
+  autoCompletePercent: "",
+  mandatoryViewing: false,
+  mandatoryViewingPercent: 90,
+  videoThumbnailUrl: "",
+  durationSeconds: null,
 };
 
+// Vídeos diretos e manifestos HLS, cuja duração pode ser lida pelo navegador
+const READABLE_VIDEO_URL = /\.(mp4|webm|ogg|m3u8)(\?|#|$)/i;
+
 const AdminLessons = () => {
   const location = useLocation();
   const queryParams = new URLSearchParams(location.search);
@@ -68,6 +90,11 @@ const AdminLessons = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [formData, setFormData] = useState({ ...defaultFormData });
   const [editingLessonId, setEditingLessonId] = useState(null);
+  const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
+  // Situação do carregamento das questões do questionário em edição: salvar antes de terminar
+  // (ou depois de uma falha) substituiria as questões gravadas por uma lista vazia
+  const [quizQuestionsStatus, setQuizQuestionsStatus] = useState<"loaded" | "loading" | "error">("loaded");
+  const quizLessonIdRef = useRef<string | null>(null);
 
   // Carregar todos os cursos - otimizado para carregar mais rápido
   useEffect(() => {
@@ -183,23 +210,14 @@ const AdminLessons = () => {
       // Buscar aulas diretamente do Supabase para melhor performance
       const { data: lessonsData, error: lessonsError } = await supabase
         .from('lessons')
-        .select('id, title, description, video_url, content, order_number, module_id, duration')
+        .select(LESSON_COLUMNS)
         .eq('module_id', moduleId)
         .order('order_number');
       
       if (lessonsError) throw lessonsError;
       
       // Mapear para o formato esperado
-      const lessons = (lessonsData || []).map(lesson => ({
-        id: lesson.id,
-        title: lesson.title,
-        description: lesson.description || '',
-        videoUrl: lesson.video_url || '',
-        content: lesson.content || '',
-        order: lesson.order_number,
-        moduleId: lesson.module_id,
-        duration: lesson.duration || ''
-      }));
+      const lessons = (lessonsData || []).map(lesson => lessonService.mapLessonData(lesson));
       
       setLessons(lessons);
       console.log(`Carregadas ${lessons.length} aulas para o módulo ${moduleId}`);
@@ -215,7 +233,40 @@ const AdminLessons = () => {
 
   const handleInputChange = (e) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+      // Outro vídeo: a miniatura e a duração lidas do vídeo anterior deixam de valer
+      ...(name === "videoUrl" ? { videoThumbnailUrl: "", durationSeconds: null } : {}),
+    }));
+  };
+
+  // Preenche a duração a partir dos metadados quando a URL é de um vídeo direto
+  const handleVideoUrlBlur = async () => {
+    const videoUrl = formData.videoUrl?.trim();
+    if (!videoUrl || formData.durationSeconds !== null || !READABLE_VIDEO_URL.test(videoUrl)) return;
+
+    try {
+      const { durationSeconds } = await readVideoMetadata(videoUrl);
+      if (durationSeconds > 0) {
+        setFormData((prev) => prev.videoUrl.trim() === videoUrl
+          ? { ...prev, durationSeconds, duration: formatLessonDuration(durationSeconds) }
+          : prev);
+      }
+    } catch (error) {
+      // Sem metadados (ex.: servidor sem CORS), a duração continua podendo ser informada manualmente
+      console.warn("Não foi possível ler a duração do vídeo:", error);
+    }
+  };
+
+  const handleVideoUploaded = (video: UploadedLessonVideo) => {
+    setFormData((prev) => ({
+      ...prev,
+      videoUrl: video.videoUrl,
+      videoThumbnailUrl: video.videoThumbnailUrl || "",
+      durationSeconds: video.durationSeconds,
+      duration: formatLessonDuration(video.durationSeconds),
+    }));
   };
 
   const handleCourseSelect = (value) => {
@@ -244,7 +295,7 @@ const AdminLessons = () => {
     fetchModuleAndLessons(value);
   };
 
-  const handleEditLesson = (lesson) => {
+  const handleEditLesson = async (lesson) => {
     setFormData({
       title: lesson.title,
       description: lesson.description,
@@ -253,9 +304,42 @@ const AdminLessons = () => {
       videoUrl: lesson.video_url || lesson.videoUrl || "",
       content: lesson.content || "",
       moduleId: lesson.module_id || lesson.moduleId || moduleIdFromUrl,
+      type: lesson.type || "video",
+      passingScore: lesson.passingScore ?? 70,
+      maxAttempts: lesson.maxAttempts ? String(lesson.maxAttempts) : "",
+      autoCompletePercent: lesson.autoCompletePercent ? String(lesson.autoCompletePercent) : "",
+      mandatoryViewing: Boolean(lesson.mandatoryViewing),
+      mandatoryViewingPercent: lesson.mandatoryViewingPercent ?? 90,
+      videoThumbnailUrl: lesson.videoThumbnailUrl || "",
+      durationSeconds: lesson.durationSeconds ?? null,
     });
     setEditingLessonId(lesson.id);
+    setQuizQuestions([]);
     setIsDialogOpen(true);
+
+    if (lesson.type === "quiz") {
+      await loadQuizQuestions(lesson.id);
+    } else {
+      quizLessonIdRef.current = null;
+      setQuizQuestionsStatus("loaded");
+    }
+  };
+
+  const loadQuizQuestions = async (lessonId: string) => {
+    quizLessonIdRef.current = lessonId;
+    setQuizQuestionsStatus("loading");
+    try {
+      const questions = await quizService.getQuestions(lessonId);
+      // Ignorar a resposta se, enquanto isso, outra aula foi aberta para edição
+      if (quizLessonIdRef.current !== lessonId) return;
+      setQuizQuestions(questions);
+      setQuizQuestionsStatus("loaded");
+    } catch (error) {
+      if (quizLessonIdRef.current !== lessonId) return;
+      console.error('Erro ao carregar questões do questionário:', error);
+      toast.error("Erro ao carregar as questões do questionário");
+      setQuizQuestionsStatus("error");
+    }
   };
 
   const handleDeleteLesson = async (lessonId) => {
@@ -297,9 +381,58 @@ const AdminLessons = () => {
       toast.error(`Já existe uma aula com a ordem ${formData.order} neste módulo: ${existingLessonWithSameOrder.title}`);
       return;
     }
+
+    const isQuiz = formData.type === "quiz";
+    const passingScore = Number(formData.passingScore);
+    if (isQuiz && (isNaN(passingScore) || passingScore < 0 || passingScore > 100)) {
+      toast.error("A nota mínima deve estar entre 0 e 100");
+      return;
+    }
+    const autoCompletePercent = Number(formData.autoCompletePercent);
+    if (!isQuiz && formData.autoCompletePercent !== "" && (isNaN(autoCompletePercent) || autoCompletePercent < 1 || autoCompletePercent > 100)) {
+      toast.error("A porcentagem para conclusão automática deve estar entre 1 e 100");
+      return;
+    }
+    const mandatoryViewingPercent = Number(formData.mandatoryViewingPercent);
+    if (!isQuiz && formData.mandatoryViewing && (isNaN(mandatoryViewingPercent) || mandatoryViewingPercent < 1 || mandatoryViewingPercent > 100)) {
+      toast.error("A porcentagem de visualização obrigatória deve estar entre 1 e 100");
+      return;
+    }
+    // A cobertura do vídeo é calculada com a duração cadastrada na aula (lessons.duration_seconds)
+    if (!isQuiz && formData.mandatoryViewing && !formData.durationSeconds) {
+      toast.error("A visualização obrigatória exige a duração do vídeo. Envie o vídeo ou use um link direto para que a duração seja lida automaticamente");
+      return;
+    }
+    if (isQuiz && quizQuestionsStatus !== "loaded") {
+      toast.error(
+        quizQuestionsStatus === "loading"
+          ? "Aguarde o carregamento das questões do questionário"
+          : "As questões do questionário não foram carregadas. Tente carregá-las novamente antes de salvar"
+      );
+      return;
+    }
+    if (isQuiz) {
+      try {
+        quizService.validateQuestions(quizQuestions);
+      } catch (error) {
+        toast.error(error.message);
+        return;
+      }
+    }
+    const lessonTypeSettings = {
+      type: formData.type as LessonType,
+      passingScore: isQuiz ? passingScore : 70,
+      maxAttempts: isQuiz && Number(formData.maxAttempts) > 0 ? Number(formData.maxAttempts) : null,
+      autoCompletePercent: !isQuiz && formData.autoCompletePercent !== "" ? autoCompletePercent : null,
+      mandatoryViewing: !isQuiz && formData.mandatoryViewing,
+      mandatoryViewingPercent: !isQuiz && formData.mandatoryViewing ? mandatoryViewingPercent : 90,
+      videoThumbnailUrl: formData.videoThumbnailUrl || null,
+      durationSeconds: formData.durationSeconds ?? null,
+    };
     
     setIsLoading(true);
     try {
+      let savedLessonId = editingLessonId;
       if (editingLessonId) {
         const updatedLesson = await lessonService.updateLesson(editingLessonId, {
           title: formData.title.trim(),
@@ -309,6 +442,7 @@ const AdminLessons = () => {
           videoUrl: formData.videoUrl?.trim() || '',
           content: formData.content?.trim() || '',
           moduleId: selectedModuleId,
+          ...lessonTypeSettings,
         });
         toast.success("Aula atualizada com sucesso");
         
@@ -326,15 +460,23 @@ const AdminLessons = () => {
           order: Number(formData.order) || 1,
           videoUrl: formData.videoUrl?.trim() || '',
           content: formData.content?.trim() || '',
+          ...lessonTypeSettings,
         });
+        savedLessonId = newLesson.id;
         toast.success("Aula criada com sucesso");
         
         // Adicionar a nova aula ao estado local imediatamente
         setLessons(prevLessons => [...prevLessons, newLesson]);
       }
+
+      if (isQuiz) {
+        await quizService.saveQuestions(savedLessonId, quizQuestions);
+      }
+
       setIsDialogOpen(false);
       setFormData({ ...defaultFormData });
       setEditingLessonId(null);
+      setQuizQuestions([]);
     } catch (error) {
       // Exibir mensagem de erro mais detalhada
       const errorMessage = error.message || "Erro ao salvar a aula";
@@ -362,6 +504,9 @@ const AdminLessons = () => {
     
     setFormData({ ...defaultFormData, order: nextOrder });
     setEditingLessonId(null);
+    setQuizQuestions([]);
+    quizLessonIdRef.current = null;
+    setQuizQuestionsStatus("loaded");
   };
 
   return (
@@ -410,6 +555,20 @@ const AdminLessons = () => {
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Exportação das aulas do curso e módulo selecionados */}
+            <div className="flex items-end">
+              <DataExportButton
+                dataset={dataExportService.getLessonsDataset({
+                  courseId: selectedCourseId,
+                  moduleId: selectedModuleId,
+                })}
+                filters={[
+                  selectedCourseId && `Curso: ${courses.find((course) => course.id === selectedCourseId)?.title || selectedCourseId}`,
+                  selectedModuleId && `Módulo: ${filteredModules.find((mod) => mod.id === selectedModuleId)?.title || selectedModuleId}`,
+                ].filter(Boolean)}
+              />
+            </div>
           </div>
         </div>
         <Dialog open={isDialogOpen} onOpenChange={(open) => {
@@ -510,6 +669,68 @@ const AdminLessons = () => {
                   </p>
                 </div>
               </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="lessonType">Tipo de aula</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, type: value }))}
+                >
+                  <SelectTrigger id="lessonType" className="w-full min-w-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="video">Vídeo / conteúdo</SelectItem>
+                    <SelectItem value="quiz">Questionário</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.type === "quiz" && (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="flex flex-col gap-2">
+                      <Label htmlFor="passingScore">Nota mínima para aprovação (%)</Label>
+                      <Input
+                        id="passingScore"
+                        name="passingScore"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={formData.passingScore}
+                        onChange={handleInputChange}
+                        className="w-full min-w-0"
+                      />
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      <Label htmlFor="maxAttempts">Máximo de tentativas</Label>
+                      <Input
+                        id="maxAttempts"
+                        name="maxAttempts"
+                        type="number"
+                        min={1}
+                        value={formData.maxAttempts}
+                        onChange={handleInputChange}
+                        placeholder="Ilimitadas"
+                        className="w-full min-w-0"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Label>Questões</Label>
+                    {quizQuestionsStatus === "loading" ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Carregando questões...</p>
+                    ) : quizQuestionsStatus === "error" ? (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="text-sm text-red-600">Não foi possível carregar as questões.</p>
+                        <Button type="button" variant="outline" size="sm" onClick={() => loadQuizQuestions(editingLessonId)}>
+                          Tentar novamente
+                        </Button>
+                      </div>
+                    ) : (
+                      <QuizEditor questions={quizQuestions} onChange={setQuizQuestions} disabled={isLoading} />
+                    )}
+                  </div>
+                </>
+              )}
               <div className="flex flex-col gap-2">
                 <Label htmlFor="videoUrl">URL do Vídeo</Label>
                 <Input
@@ -517,22 +738,92 @@ const AdminLessons = () => {
                   name="videoUrl"
                   value={formData.videoUrl}
                   onChange={handleInputChange}
-                  placeholder="Link do vídeo (opcional)"
+                  onBlur={handleVideoUrlBlur}
+                  placeholder="Link do vídeo, vídeo direto ou manifesto HLS .m3u8 (opcional)"
                   className="w-full min-w-0"
                 />
+                {lessonVideoService.isStoredVideo(formData.videoUrl) && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Vídeo enviado para o armazenamento da plataforma
+                  </p>
+                )}
+                {formData.type !== "quiz" && (
+                  <LessonVideoUpload lessonId={editingLessonId} onUploaded={handleVideoUploaded} disabled={isLoading} />
+                )}
               </div>
+              {formData.type !== "quiz" && (
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="autoCompletePercent">Concluir automaticamente ao assistir (%)</Label>
+                  <Input
+                    id="autoCompletePercent"
+                    name="autoCompletePercent"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={formData.autoCompletePercent}
+                    onChange={handleInputChange}
+                    placeholder="Desativado"
+                    className="w-full min-w-0"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Deixe em branco para o aluno concluir a aula manualmente
+                  </p>
+                </div>
+              )}
+              {formData.type !== "quiz" && (
+                <div className="flex flex-col gap-2">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="mandatoryViewing"
+                      checked={formData.mandatoryViewing}
+                      onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, mandatoryViewing: checked === true }))}
+                    />
+                    <Label htmlFor="mandatoryViewing" className="font-normal">
+                      Visualização obrigatória
+                    </Label>
+                  </div>
+                  {formData.mandatoryViewing && (
+                    <>
+                      <Label htmlFor="mandatoryViewingPercent">Porcentagem mínima assistida (%)</Label>
+                      <Input
+                        id="mandatoryViewingPercent"
+                        name="mandatoryViewingPercent"
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={formData.mandatoryViewingPercent}
+                        onChange={handleInputChange}
+                        className="w-full min-w-0"
+                      />
+                    </>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    O aluno só conclui a aula depois de assistir a essa porcentagem do vídeo e não pode avançar além do trecho já assistido.
+                    Exige a duração lida do vídeo enviado ou do link direto
+                  </p>
+                </div>
+              )}
               <div className="flex flex-col gap-2">
                 <Label htmlFor="content">Conteúdo</Label>
-                <Textarea
+                <RichTextEditor
                   id="content"
-                  name="content"
                   value={formData.content}
-                  onChange={handleInputChange}
+                  onChange={(content) => setFormData((prev) => ({ ...prev, content }))}
                   placeholder="Conteúdo adicional (opcional)"
-                  className="w-full min-w-0 resize-y"
-                  rows={2}
+                  disabled={isLoading}
+                  className="w-full min-w-0"
                 />
               </div>
+              <div className="flex flex-col gap-2">
+                <Label>Materiais</Label>
+                <LessonAttachmentsEditor lessonId={editingLessonId} disabled={isLoading} />
+              </div>
+              {formData.type !== "quiz" && (
+                <div className="flex flex-col gap-2">
+                  <Label>Legendas</Label>
+                  <LessonCaptionsEditor lessonId={editingLessonId} disabled={isLoading} />
+                </div>
+              )}
               <div className="flex flex-col gap-2">
                 <Label htmlFor="duration">Duração</Label>
                 <Input
@@ -542,10 +833,20 @@ const AdminLessons = () => {
                   onChange={handleInputChange}
                   placeholder="Ex: 10min, 1h, etc. (opcional)"
                   className="w-full min-w-0"
+                  readOnly={formData.durationSeconds !== null}
                 />
+                {formData.durationSeconds !== null && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Preenchida automaticamente a partir do vídeo
+                  </p>
+                )}
               </div>
               <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-4 w-full">
-                <Button type="submit" className="w-full sm:w-auto" disabled={isLoading}>
+                <Button
+                  type="submit"
+                  className="w-full sm:w-auto"
+                  disabled={isLoading || (formData.type === "quiz" && quizQuestionsStatus !== "loaded")}
+                >
                   {editingLessonId ? "Salvar Alterações" : "Criar Aula"}
                 </Button>
                 <Button type="button" variant="outline" className="w-full sm:w-auto" onClick={() => setIsDialogOpen(false)}>
@@ -568,6 +869,7 @@ const AdminLessons = () => {
                 <TableRow>
                   <TableHead>Ordem</TableHead>
                   <TableHead>Título</TableHead>
+                  <TableHead>Tipo</TableHead>
                   <TableHead>Descrição</TableHead>
                   <TableHead>Vídeo</TableHead>
                   <TableHead>Conteúdo</TableHead>
@@ -577,7 +879,7 @@ const AdminLessons = () => {
               <TableBody>
                 {lessons.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center">
+                    <TableCell colSpan={7} className="text-center">
                       Nenhuma aula encontrada para este módulo
                     </TableCell>
                   </TableRow>
@@ -586,9 +888,18 @@ const AdminLessons = () => {
                     <TableRow key={lesson.id}>
                       <TableCell>{lesson.order_number || lesson.order}</TableCell>
                       <TableCell className="font-medium">{lesson.title}</TableCell>
+                      <TableCell>
+                        {lesson.type === "quiz" ? (
+                          <Badge>Questionário</Badge>
+                        ) : (
+                          <Badge variant="outline">Vídeo</Badge>
+                        )}
+                      </TableCell>
                       <TableCell>{lesson.description}</TableCell>
                       <TableCell>
-                        {lesson.video_url || lesson.videoUrl ? (
+                        {lessonVideoService.isStoredVideo(lesson.video_url || lesson.videoUrl) ? (
+                          <Badge variant="outline">Vídeo enviado</Badge>
+                        ) : lesson.video_url || lesson.videoUrl ? (
                           <a href={lesson.video_url || lesson.videoUrl} target="_blank" rel="noopener noreferrer">
                             <Badge variant="outline">Ver vídeo</Badge>
                           </a>
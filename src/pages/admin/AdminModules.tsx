@@ -225,6 +225,40 @@ const AdminModules = () => {
                   </p>
                 </div>
               </div>
+              {courses.find(c => c.id === selectedCourseId)?.contentReleaseMode === "drip" && (
+                <div className="space-y-2">
+                  <Label>Liberação programada</Label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="releaseAfterDays" className="font-normal text-sm">Dias após a matrícula</Label>
+                      <Input
+                        id="releaseAfterDays"
+                        name="releaseAfterDays"
+                        type="number"
+                        min="0"
+                        value={formData.releaseAfterDays}
+                        onChange={handleInputChange}
+                        placeholder="Imediata"
+                        className="rounded-md"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="releaseDate" className="font-normal text-sm">Data de liberação</Label>
+                      <Input
+                        id="releaseDate"
+                        name="releaseDate"
+                        type="date"
+                        value={formData.releaseDate}
+                        onChange={handleInputChange}
+                        className="rounded-md"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Com os dois preenchidos, o módulo é liberado quando ambas as condições forem atendidas
+                  </p>
+                </div>
+              )}
               <DialogFooter>
                 <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg">
                   {editingModuleId ? "Atualizar" : "Criar"}
@@ -6,6 +6,9 @@ import { Plus } from "lucide-react";
 import { useUserManagement } from "@/hooks/useUserManagement";
 import UsersTable from "@/components/admin/users/UsersTable";
 import UserForm from "@/components/admin/users/UserForm";
+import UserImportWizard from "@/components/admin/users/UserImportWizard";
+import DataExportButton from "@/components/admin/DataExportButton";
+import { dataExportService } from "@/services/api";
 
 const AdminUsers = () => {
   const {
@@ -20,33 +23,38 @@ const AdminUsers = () => {
     handleSubmit,
     resetForm,
     openNewUserDialog,
+    fetchUsers,
   } = useUserManagement();
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold tracking-tight">Gerenciar Usuários</h1>
-        <Dialog open={isDialogOpen} onOpenChange={(open) => {
-          setIsDialogOpen(open);
-          if (!open) resetForm();
-        }}>
-          <DialogTrigger asChild>
-            <Button onClick={openNewUserDialog}>
-              <Plus className="h-4 w-4 mr-2" />
-              Novo Usuário
-            </Button>
-          </DialogTrigger>
-          <UserForm 
-            initialData={formData} 
-            isEditing={!!editingUserId} 
-            onSubmit={async (data) => {
-              const success = await handleSubmit(data);
-              if (success) {
-                setIsDialogOpen(false);
-              }
-            }}
-          />
-        </Dialog>
+        <div className="flex items-center gap-2">
+          <UserImportWizard onImported={fetchUsers} />
+          <DataExportButton dataset={dataExportService.getUsersDataset()} />
+          <Dialog open={isDialogOpen} onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            <DialogTrigger asChild>
+              <Button onClick={openNewUserDialog}>
+                <Plus className="h-4 w-4 mr-2" />
+                Novo Usuário
+              </Button>
+            </DialogTrigger>
+            <UserForm 
+              initialData={formData} 
+              isEditing={!!editingUserId} 
+              onSubmit={async (data) => {
+                const success = await handleSubmit(data);
+                if (success) {
+                  setIsDialogOpen(false);
+                }
+              }}
+            />
+          </Dialog>
+        </div>
       </div>
 
       <Card>
@@ -3,6 +3,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { certificadoService } from "@/services/certificadoService";
+import { certificateService, certificatePdfService, dataExportService, userGroupService } from "@/services";
 import { 
   Card, 
   CardContent, 
@@ -58,12 +59,18 @@ import {
   Loader2, 
   Search, 
   AlertTriangle, 
-  RefreshCw 
+  RefreshCw,
+  FileDown,
+  Ban,
+  FilePen
 } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
+import { CertificateStatus, UserGroup } from "@/types";
+import CertificateStatusBadge from "@/components/admin/certificates/CertificateStatusBadge";
+import DataExportButton from "@/components/admin/DataExportButton";
 
 interface Aluno {
   id: string;
@@ -86,11 +93,31 @@ interface Matricula {
   progress: number;
   userName?: string;
   courseTitle?: string;
-  hasCertificate?: boolean;
+  hasCertificate?: boolean; // Certificado válido (revogados não contam)
+  certificateRevoked?: boolean; // Só há certificado revogado; a reemissão é feita em Certificados
   certificateId?: string;
   selected?: boolean;
 }
 
+// Linha de certificates usada para saber se a matrícula tem certificado válido
+interface CertificadoMatriculaRow {
+  id: string;
+  user_id: string;
+  course_id: string;
+  revoked_at: string | null;
+}
+
+interface CertificadoRow extends CertificadoMatriculaRow {
+  issue_date: string;
+  user_name: string;
+  course_name: string;
+  superseded_by_id: string | null;
+  expiry_date: string | null;
+}
+
+// O Select não aceita valor vazio; representa o filtro sem turma
+const TODAS_TURMAS = "todas";
+
 interface Certificado {
   id: string;
   user_id: string;
@@ -98,6 +125,7 @@ interface Certificado {
   created_at: string;
   userName?: string;
   courseTitle?: string;
+  status: CertificateStatus;
 }
 
 export default function GerenciadorCertificados() {
@@ -114,6 +142,10 @@ export default function GerenciadorCertificados() {
   const [totalSelecionados, setTotalSelecionados] = useState<number>(0);
   const [todosSelecionados, setTodosSelecionados] = useState<boolean>(false);
   const [abaAtiva, setAbaAtiva] = useState<string>("matriculas");
+  const [exportando, setExportando] = useState<boolean>(false);
+  const [turmas, setTurmas] = useState<UserGroup[]>([]);
+  const [turmaSelecionada, setTurmaSelecionada] = useState<string>(TODAS_TURMAS);
+  const [membrosTurma, setMembrosTurma] = useState<Set<string> | null>(null);
   
   // Carregar dados iniciais
   useEffect(() => {
@@ -149,6 +181,14 @@ export default function GerenciadorCertificados() {
           setAlunos(alunosData || []);
         }
         
+        // Carregar turmas para o filtro por turma
+        try {
+          setTurmas(await userGroupService.getGroups());
+        } catch (turmasError) {
+          console.error("Erro ao carregar turmas:", turmasError);
+          toast.error("Erro ao carregar turmas");
+        }
+        
         // Carregar certificados
         await carregarCertificados();
       } catch (error) {
@@ -198,7 +238,7 @@ export default function GerenciadorCertificados() {
         // Buscar certificados existentes para este curso
         const { data: certificadosData, error: certificadosError } = await supabase
           .from('certificates')
-          .select('id, user_id, course_id')
+          .select('id, user_id, course_id, revoked_at')
           .eq('course_id', cursoSelecionado);
         
         if (certificadosError) {
@@ -216,16 +256,18 @@ export default function GerenciadorCertificados() {
             // Encontrar o aluno correspondente
             const aluno = alunos.find(a => a.id === matricula.user_id);
             
-            // Verificar se já existe certificado
-            const certificado = (certificadosData || []).find(
+            // Verificar se já existe certificado válido
+            const certificadosAluno = ((certificadosData || []) as unknown as CertificadoMatriculaRow[]).filter(
               c => c.user_id === matricula.user_id && c.course_id === matricula.course_id
             );
+            const certificado = certificadosAluno.find(c => !c.revoked_at);
             
             matriculasProcessadas.push({
               ...matricula,
               userName: aluno?.name || 'Aluno não encontrado',
               courseTitle: cursos.find(c => c.id === matricula.course_id)?.title || 'Curso não encontrado',
               hasCertificate: !!certificado,
+              certificateRevoked: !certificado && certificadosAluno.length > 0,
               certificateId: certificado?.id,
               selected: false
             });
@@ -247,6 +289,33 @@ export default function GerenciadorCertificados() {
     carregarMatriculas();
   }, [cursoSelecionado, alunos, cursos]);
   
+  // Carregar os membros da turma selecionada (null quando não há filtro por turma)
+  useEffect(() => {
+    const carregarMembrosTurma = async () => {
+      if (turmaSelecionada === TODAS_TURMAS) {
+        setMembrosTurma(null);
+        return;
+      }
+      
+      try {
+        const membros = await userGroupService.getMembers(turmaSelecionada);
+        setMembrosTurma(new Set(membros.map(membro => membro.userId)));
+      } catch (error) {
+        console.error("Erro ao carregar membros da turma:", error);
+        toast.error("Erro ao carregar membros da turma");
+        setTurmaSelecionada(TODAS_TURMAS);
+      }
+    };
+    
+    // Seleções feitas com outro filtro de turma não valem mais
+    setMatriculas(prev => prev.map(matricula => ({ ...matricula, selected: false })));
+    setTotalSelecionados(0);
+    setTodosSelecionados(false);
+    carregarMembrosTurma();
+  }, [turmaSelecionada]);
+  
+  const pertenceATurma = (userId: string) => !membrosTurma || membrosTurma.has(userId);
+  
   // Carregar certificados
   const carregarCertificados = async () => {
     try {
@@ -255,7 +324,7 @@ export default function GerenciadorCertificados() {
       // Consulta simplificada para evitar erros 400
       const { data: certificadosData, error: certificadosError } = await supabase
         .from('certificates')
-        .select('id, user_id, course_id, issue_date, user_name, course_name')
+        .select('id, user_id, course_id, issue_date, user_name, course_name, revoked_at, superseded_by_id, expiry_date')
         .order('issue_date', { ascending: false });
       
       if (certificadosError) {
@@ -269,7 +338,7 @@ export default function GerenciadorCertificados() {
       // Processar certificados um por um para evitar problemas
       const certificadosProcessados = [];
       
-      for (const certificado of (certificadosData || [])) {
+      for (const certificado of ((certificadosData || []) as unknown as CertificadoRow[])) {
         try {
           // Usar os campos user_name e course_name que já existem na tabela certificates
           // Se não existirem, tentar buscar dos arrays de alunos e cursos
@@ -280,7 +349,12 @@ export default function GerenciadorCertificados() {
             ...certificado,
             userName: certificado.user_name || aluno?.name || 'Aluno não encontrado',
             courseTitle: certificado.course_name || curso?.title || 'Curso não encontrado',
-            created_at: certificado.issue_date // Usando issue_date como created_at
+            created_at: certificado.issue_date, // Usando issue_date como created_at
+            status: certificateService.getCertificateStatus({
+              revokedAt: certificado.revoked_at,
+              supersededById: certificado.superseded_by_id,
+              expiryDate: certificado.expiry_date
+            })
           });
         } catch (itemError) {
           console.error("Erro ao processar certificado:", itemError);
@@ -300,13 +374,14 @@ export default function GerenciadorCertificados() {
     const novoEstado = !todosSelecionados;
     setTodosSelecionados(novoEstado);
     
+    // Com filtro por turma, só os membros da turma são selecionados
     const matriculasAtualizadas = matriculas.map(matricula => ({
       ...matricula,
-      selected: novoEstado
+      selected: novoEstado && pertenceATurma(matricula.user_id)
     }));
     
     setMatriculas(matriculasAtualizadas);
-    setTotalSelecionados(novoEstado ? matriculasAtualizadas.length : 0);
+    setTotalSelecionados(matriculasAtualizadas.filter(m => m.selected).length);
   };
   
   // Selecionar/deselecionar um aluno específico
@@ -328,11 +403,14 @@ export default function GerenciadorCertificados() {
     setTotalSelecionados(novoTotalSelecionados);
     
     // Verificar se todos estão selecionados
-    setTodosSelecionados(novoTotalSelecionados === matriculasAtualizadas.length);
+    setTodosSelecionados(
+      novoTotalSelecionados === matriculasAtualizadas.filter(m => pertenceATurma(m.user_id)).length
+    );
   };
   
   // Filtrar matrículas com base na pesquisa
   const matriculasFiltradas = matriculas.filter(matricula => {
+    if (!pertenceATurma(matricula.user_id)) return false;
     if (!pesquisa) return true;
     
     const termoPesquisa = pesquisa.toLowerCase();
@@ -344,6 +422,7 @@ export default function GerenciadorCertificados() {
   
   // Filtrar certificados com base na pesquisa
   const certificadosFiltrados = certificados.filter(certificado => {
+    if (!pertenceATurma(certificado.user_id)) return false;
     if (!pesquisa) return true;
     
     const termoPesquisa = pesquisa.toLowerCase();
@@ -353,9 +432,52 @@ export default function GerenciadorCertificados() {
     );
   });
   
+  // Filtros ativos exibidos no diálogo de exportação de planilhas
+  const filtrosExportacao = (incluirCurso: boolean) => {
+    const filtros: string[] = [];
+    if (incluirCurso && cursoSelecionado) {
+      filtros.push(`Curso: ${cursos.find(curso => curso.id === cursoSelecionado)?.title || cursoSelecionado}`);
+    }
+    if (turmaSelecionada !== TODAS_TURMAS) {
+      filtros.push(`Turma: ${turmas.find(turma => turma.id === turmaSelecionada)?.name || turmaSelecionada}`);
+    }
+    if (pesquisa.trim()) {
+      filtros.push(`Pesquisa: "${pesquisa.trim()}"`);
+    }
+    return filtros;
+  };
+  
+  // Exportar os certificados filtrados em um único PDF, um certificado por página
+  const exportarCertificadosPdf = async () => {
+    if (certificadosFiltrados.length === 0) {
+      toast.warning("Nenhum certificado para exportar.");
+      return;
+    }
+    
+    setExportando(true);
+    try {
+      console.log(`Exportando ${certificadosFiltrados.length} certificados para PDF...`);
+      const certificadosCompletos = await certificateService.getCertificatesByIds(
+        certificadosFiltrados.map(certificado => certificado.id)
+      );
+      await certificatePdfService.downloadCertificatesPdf(
+        certificadosCompletos,
+        `certificados-${new Date().toISOString().slice(0, 10)}`
+      );
+      toast.success(`${certificadosCompletos.length} certificado(s) exportado(s) com sucesso!`);
+    } catch (error) {
+      console.error("Erro ao exportar certificados:", error);
+      toast.error("Erro ao exportar os certificados em PDF");
+    } finally {
+      setExportando(false);
+    }
+  };
+  
   // Gerar certificados para os alunos selecionados
   const gerarCertificados = async () => {
-    const matriculasSelecionadas = matriculas.filter(m => m.selected && !m.hasCertificate);
+    const matriculasSelecionadas = matriculas.filter(
+      m => m.selected && !m.hasCertificate && pertenceATurma(m.user_id)
+    );
     
     if (matriculasSelecionadas.length === 0) {
       toast.warning("Nenhum aluno selecionado ou todos já possuem certificados.");
@@ -459,19 +581,17 @@ export default function GerenciadorCertificados() {
             }
           }
           
-          // Criar o certificado diretamente no banco de dados
+          // Emitir o certificado pela função do banco
           const now = new Date().toISOString();
-          const { data: novoCertificado, error: certError } = await supabase
-            .from('certificates')
-            .insert({
-              user_id: matricula.user_id,
-              course_id: matricula.course_id,
-              user_name: userName,
-              course_name: courseName,
-              issue_date: now
-            })
-            .select('id')
-            .single();
+          const { data: issuedId, error: certError } = await supabase
+            .rpc('issue_certificate', {
+              p_user_id: matricula.user_id,
+              p_course_id: matricula.course_id,
+              p_user_name: userName,
+              p_course_name: courseName,
+              p_issue_date: now
+            });
+          const novoCertificado = issuedId ? { id: issuedId as unknown as string } : null;
           
           if (certError) {
             console.error(`Erro ao criar certificado:`, certError);
@@ -535,7 +655,7 @@ export default function GerenciadorCertificados() {
           // Buscar certificados atualizados
           const { data: certificadosData, error: certificadosError } = await supabase
             .from('certificates')
-            .select('id, user_id, course_id')
+            .select('id, user_id, course_id, revoked_at')
             .eq('course_id', cursoSelecionado);
           
           if (certificadosError) {
@@ -551,15 +671,17 @@ export default function GerenciadorCertificados() {
             for (const matricula of matriculasData) {
               try {
                 const aluno = alunos.find(a => a.id === matricula.user_id);
-                const certificado = certificadosData?.find(
+                const certificadosAluno = ((certificadosData || []) as unknown as CertificadoMatriculaRow[]).filter(
                   c => c.user_id === matricula.user_id && c.course_id === matricula.course_id
                 );
+                const certificado = certificadosAluno.find(c => !c.revoked_at);
                 
                 matriculasAtualizadas.push({
                   ...matricula,
                   userName: aluno?.name || 'Aluno não encontrado',
                   courseTitle: cursos.find(c => c.id === matricula.course_id)?.title || 'Curso não encontrado',
                   hasCertificate: !!certificado,
+                  certificateRevoked: !certificado && certificadosAluno.length > 0,
                   certificateId: certificado?.id,
                   selected: false
                 });
@@ -591,6 +713,23 @@ export default function GerenciadorCertificados() {
     }
   };
   
+  // Filtro por turma, compartilhado pelas abas de matrículas e de certificados
+  const seletorTurma = turmas.length > 0 && (
+    <Select value={turmaSelecionada} onValueChange={setTurmaSelecionada}>
+      <SelectTrigger className="w-56" aria-label="Filtrar por turma">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={TODAS_TURMAS}>Todas as turmas</SelectItem>
+        {turmas.map((turma) => (
+          <SelectItem key={turma.id} value={turma.id}>
+            {turma.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+  
   // Renderizar conteúdo com base no estado de carregamento
   if (carregando && !cursoSelecionado) {
     return (
@@ -648,6 +787,7 @@ export default function GerenciadorCertificados() {
                       onChange={(e) => setPesquisa(e.target.value)}
                       className="flex-1"
                     />
+                    {seletorTurma}
                   </div>
                 )}
               </div>
@@ -728,7 +868,7 @@ export default function GerenciadorCertificados() {
                                 checked={matricula.selected}
                                 onCheckedChange={() => toggleSelecionarAluno(matricula.id)}
                                 aria-label={`Selecionar ${matricula.userName}`}
-                                disabled={matricula.hasCertificate}
+                                disabled={matricula.hasCertificate || matricula.certificateRevoked}
                               />
                             </TableCell>
                             <TableCell>
@@ -748,6 +888,10 @@ export default function GerenciadorCertificados() {
                                 <Badge variant="outline" className="bg-green-100 text-green-800 hover:bg-green-200">
                                   <CheckCircle className="h-3 w-3 mr-1" /> Certificado Emitido
                                 </Badge>
+                              ) : matricula.certificateRevoked ? (
+                                <Badge variant="destructive">
+                                  <Ban className="h-3 w-3 mr-1" /> Certificado Revogado
+                                </Badge>
                               ) : matricula.progress === 100 ? (
                                 <Badge variant="outline" className="bg-amber-100 text-amber-800 hover:bg-amber-200">
                                   <AlertTriangle className="h-3 w-3 mr-1" /> Elegível para Certificado
@@ -769,6 +913,12 @@ export default function GerenciadorCertificados() {
                                     <Award className="h-3 w-3 mr-1" /> Ver Certificado
                                   </a>
                                 </Button>
+                              ) : matricula.certificateRevoked ? (
+                                <Button variant="outline" size="sm" asChild>
+                                  <a href="/admin/certificates">
+                                    <FilePen className="h-3 w-3 mr-1" /> Reemitir
+                                  </a>
+                                </Button>
                               ) : matricula.progress === 100 ? (
                                 <Button
                                   variant="outline"
@@ -844,20 +994,18 @@ export default function GerenciadorCertificados() {
                                         }
                                       }
                                       
-                                      // Criar certificado diretamente
+                                      // Emitir o certificado pela função do banco
                                       const now = new Date().toISOString();
                                       console.log(`Criando certificado com nome: ${userName}`);
-                                      const { data: novoCertificado, error: certError } = await supabase
-                                        .from('certificates')
-                                        .insert({
-                                          user_id: matricula.user_id,
-                                          course_id: matricula.course_id,
-                                          user_name: userName,
-                                          course_name: matricula.courseTitle,
-                                          issue_date: now
-                                        })
-                                        .select('id')
-                                        .single();
+                                      const { data: issuedId, error: certError } = await supabase
+                                        .rpc('issue_certificate', {
+                                          p_user_id: matricula.user_id,
+                                          p_course_id: matricula.course_id,
+                                          p_user_name: userName,
+                                          p_course_name: matricula.courseTitle,
+                                          p_issue_date: now
+                                        });
+                                      const novoCertificado = issuedId ? { id: issuedId as unknown as string } : null;
                                       
                                       if (certError) {
                                         console.error("Erro ao criar certificado:", certError);
@@ -921,17 +1069,29 @@ export default function GerenciadorCertificados() {
                     Exibindo {matriculasFiltradas.length} de {matriculas.length} alunos
                   </div>
                   
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => {
-                      setCursoSelecionado(cursoSelecionado);
-                      setPesquisa("");
-                    }}
-                    className="gap-1"
-                  >
-                    <RefreshCw className="h-3 w-3" /> Atualizar
-                  </Button>
+                  <div className="flex gap-2">
+                    <DataExportButton
+                      dataset={dataExportService.getEnrollmentsDataset({
+                        courseId: cursoSelecionado,
+                        groupId: turmaSelecionada === TODAS_TURMAS ? null : turmaSelecionada,
+                        search: pesquisa,
+                      })}
+                      filters={filtrosExportacao(true)}
+                      label="Exportar matrículas"
+                      size="sm"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setCursoSelecionado(cursoSelecionado);
+                        setPesquisa("");
+                      }}
+                      className="gap-1"
+                    >
+                      <RefreshCw className="h-3 w-3" /> Atualizar
+                    </Button>
+                  </div>
                 </CardFooter>
               )}
             </Card>
@@ -955,6 +1115,7 @@ export default function GerenciadorCertificados() {
                   onChange={(e) => setPesquisa(e.target.value)}
                   className="flex-1"
                 />
+                {seletorTurma}
               </div>
               
               {certificados.length === 0 ? (
@@ -971,6 +1132,7 @@ export default function GerenciadorCertificados() {
                         <TableHead>Aluno</TableHead>
                         <TableHead>Curso</TableHead>
                         <TableHead>Data de Emissão</TableHead>
+                        <TableHead>Status</TableHead>
                         <TableHead className="text-right">Ações</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -984,6 +1146,9 @@ export default function GerenciadorCertificados() {
                           <TableCell>
                             {new Date(certificado.created_at).toLocaleDateString()}
                           </TableCell>
+                          <TableCell>
+                            <CertificateStatusBadge status={certificado.status} />
+                          </TableCell>
                           <TableCell className="text-right">
                             <Button
                               variant="outline"
@@ -1009,14 +1174,40 @@ export default function GerenciadorCertificados() {
                   Exibindo {certificadosFiltrados.length} de {certificados.length} certificados
                 </div>
                 
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={carregarCertificados}
-                  className="gap-1"
-                >
-                  <RefreshCw className="h-3 w-3" /> Atualizar
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={exportarCertificadosPdf}
+                    disabled={exportando || certificadosFiltrados.length === 0}
+                    className="gap-1"
+                  >
+                    {exportando ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <FileDown className="h-3 w-3" />
+                    )}
+                    Exportar PDF ({certificadosFiltrados.length})
+                  </Button>
+                  <DataExportButton
+                    dataset={dataExportService.getCertificatesDataset({
+                      groupId: turmaSelecionada === TODAS_TURMAS ? null : turmaSelecionada,
+                      search: pesquisa,
+                    })}
+                    filters={filtrosExportacao(false)}
+                    label="Exportar planilha"
+                    size="sm"
+                    disabled={certificadosFiltrados.length === 0}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={carregarCertificados}
+                    className="gap-1"
+                  >
+                    <RefreshCw className="h-3 w-3" /> Atualizar
+                  </Button>
+                </div>
               </CardFooter>
             )}
           </Card>
@@ -1,20 +1,42 @@
-import { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { moduleService, lessonService, lessonProgressService } from "@/services";
+import { useEffect, useRef, useState } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { moduleService, lessonService, lessonProgressService, certificateService, lessonCaptionService, lessonNoteService } from "@/services";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
-import { Lesson, Module } from "@/types";
+import { CertificateRuleResult, Lesson, LessonCaption, Module } from "@/types";
 import VideoPlayer from "@/components/VideoPlayer";
+import QuizPlayer from "@/components/QuizPlayer";
+import LessonAttachments from "@/components/LessonAttachments";
+import LessonContent from "@/components/LessonContent";
+import LessonTranscript from "@/components/LessonTranscript";
+import LessonNotes from "@/components/LessonNotes";
+import LessonDiscussion from "@/components/LessonDiscussion";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
-import { CheckCircle, Award, ChevronRight } from "lucide-react";
+import { CheckCircle, Award, Bookmark, BookmarkCheck, ChevronRight, Circle, Lock } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useLessonWatchProgress } from "@/hooks/useLessonWatchProgress";
+import { useAuth } from "@/contexts/AuthContext";
+import { findFirstAvailableLesson, getLessonUnlockCondition, getModuleUnlockCondition } from "@/utils/contentRelease";
+
+// Posição do vídeo no formato m:ss
+const formatPlaybackTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+// Momento do vídeo indicado no link (?t=), em segundos
+const parseLinkSeconds = (value: string | null): number | null => {
+  const seconds = Number(value);
+  return value !== null && Number.isFinite(seconds) && seconds >= 0 ? Math.floor(seconds) : null;
+};
 
 const CoursePlayer = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { isAdmin } = useAuth();
   const [modules, setModules] = useState<Module[]>([]);
   const [selectedModule, setSelectedModule] = useState<Module | null>(null);
   const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
@@ -23,10 +45,23 @@ const CoursePlayer = () => {
   const [error, setError] = useState<string | null>(null);
   const [courseName, setCourseName] = useState('');
   const [isEligibleForCertificate, setIsEligibleForCertificate] = useState(false);
+  const [certificateRules, setCertificateRules] = useState<CertificateRuleResult[]>([]);
   const [showCongratulations, setShowCongratulations] = useState(false);
   const [certificateId, setCertificateId] = useState<string | null>(null);
   const [courseCompletedRecently, setCourseCompletedRecently] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
+  const [captions, setCaptions] = useState<LessonCaption[]>([]);
+  const [playbackPosition, setPlaybackPosition] = useState(0);
+  const [seekRequest, setSeekRequest] = useState<{ seconds: number } | null>(null);
+  const [isBookmarked, setIsBookmarked] = useState(false);
+  // Posição atual do vídeo para as anotações, sem renderizar o player a cada atualização
+  const playbackPositionRef = useRef(0);
+  // Aula, momento e aba indicados no link (ex.: vindos da página de anotações), usados só na primeira abertura
+  const lessonLinkRef = useRef({
+    lessonId: searchParams.get('lesson'),
+    seconds: parseLinkSeconds(searchParams.get('t')),
+    tab: searchParams.get('tab')
+  });
 
   useEffect(() => {
     const fetchModulesAndLessons = async () => {
@@ -62,8 +97,8 @@ const CoursePlayer = () => {
         // Armazenar o ID do usuário para uso posterior
         setUserId(user.id);
         
-        // Buscar módulos e aulas
-        const mods = await moduleService.getModulesByCourseId(id);
+        // Buscar módulos e aulas, com a liberação do conteúdo para o aluno
+        const mods = await moduleService.getModulesByCourseId(id, user.id);
         const lessonsIds = mods.flatMap(module => module.lessons ? module.lessons.map(lesson => lesson.id) : []);
         
         // Buscar progresso salvo no banco
@@ -91,18 +126,24 @@ const CoursePlayer = () => {
         const calculatedProgress = totalLessons > 0 ? Math.round((completedLessonsCount / totalLessons) * 100) : 0;
         setProgress(calculatedProgress);
         
-        // Verificar certificado se o progresso for 100%
-        if (calculatedProgress === 100) {
-          checkCertificate(user.id, id);
+        // Verificar certificado e requisitos pendentes
+        checkCertificate(user.id, id);
+
+        // Selecionar a aula indicada no link ou a primeira aula disponível
+        const linkedModule = modsWithProgress.find(module =>
+          module.lessons?.some(lesson => lesson.id === lessonLinkRef.current.lessonId)
+        );
+        const linkedLesson = linkedModule?.lessons?.find(lesson => lesson.id === lessonLinkRef.current.lessonId);
+        if (linkedLesson?.isLocked) {
+          toast.info(getLessonUnlockCondition(linkedLesson));
         }
 
-        // Selecionar primeira aula disponível
-        if (modsWithProgress.length > 0) {
-          const firstModuleWithLessons = modsWithProgress.find(m => m.lessons && m.lessons.length > 0) || null;
-          if (firstModuleWithLessons) {
-            setSelectedModule(firstModuleWithLessons);
-            setSelectedLesson(firstModuleWithLessons.lessons[0]);
-          }
+        const firstAvailable = linkedModule && linkedLesson && !linkedLesson.isLocked
+          ? { module: linkedModule, lesson: linkedLesson }
+          : findFirstAvailableLesson(modsWithProgress);
+        if (firstAvailable) {
+          setSelectedModule(firstAvailable.module);
+          setSelectedLesson(firstAvailable.lesson);
         }
 
         setLoading(false);
@@ -151,17 +192,10 @@ const CoursePlayer = () => {
         setCertificateId(data[0].id);
         setIsEligibleForCertificate(true);
       } else {
-        // Se não existe certificado, verificar elegibilidade
-        const { data: enrollmentData, error: enrollmentError } = await supabase
-          .from('enrollments')
-          .select('progress')
-          .eq('user_id', userId)
-          .eq('course_id', courseId)
-          .single();
-        
-        if (!enrollmentError && enrollmentData && enrollmentData.progress === 100) {
-          setIsEligibleForCertificate(true);
-        }
+        // Se não existe certificado, verificar as regras do certificado do curso
+        const eligibility = await certificateService.getCertificateEligibility(userId, courseId);
+        setCertificateRules(eligibility.rules);
+        setIsEligibleForCertificate(eligibility.eligible);
       }
     } catch (error) {
       console.error('Erro ao verificar certificado:', error);
@@ -193,71 +227,24 @@ const CoursePlayer = () => {
         return existingCert[0].id;
       }
       
-      // Buscar dados do usuário
-      const { data: userData, error: userError } = await supabase
-        .from('profiles')
-        .select('name')
-        .eq('id', userId)
-        .single();
-      
-      if (userError) {
-        console.error('Erro ao buscar dados do usuário:', userError);
-        toast.error('Erro ao gerar certificado');
-        return null;
-      }
-      
-      // Buscar dados do curso
-      const { data: courseData, error: courseError } = await supabase
-        .from('courses')
-        .select('title, duration')
-        .eq('id', id)
-        .single();
-      
-      if (courseError) {
-        console.error('Erro ao buscar dados do curso:', courseError);
-        toast.error('Erro ao gerar certificado');
-        return null;
-      }
-      
-      // Preparar dados para o certificado
-      const userName = userData?.name || 'Aluno';
-      const courseTitle = courseData?.title || 'Curso';
-      let courseHours = 40; // Valor padrão
-      
-      if (courseData?.duration) {
-        const hoursMatch = courseData.duration.match(/(\d+)\s*h/i);
-        if (hoursMatch && hoursMatch[1]) {
-          courseHours = parseInt(hoursMatch[1], 10);
-        }
-      }
-      
-      // Criar certificado
-      const now = new Date().toISOString();
-      
-      const { data: newCertificate, error: createError } = await supabase
-        .from('certificates')
-        .insert({
-          user_id: userId,
-          course_id: id,
-          user_name: userName,
-          course_name: courseTitle,
-          course_hours: courseHours,
-          issue_date: now
-        })
-        .select('id')
-        .single();
+      // A emissão é feita pelo banco, que confere as regras do certificado do curso
+      const { data: newCertificateId, error: createError } = await supabase.rpc('issue_certificate', {
+        p_user_id: userId,
+        p_course_id: id
+      });
       
       if (createError) {
         console.error('Erro ao criar certificado:', createError);
-        toast.error('Erro ao gerar certificado');
+        toast.error(createError.message || 'Erro ao gerar certificado');
         return null;
       }
       
-      if (newCertificate) {
-        setCertificateId(newCertificate.id);
+      if (newCertificateId) {
+        const issuedId = newCertificateId as unknown as string;
+        setCertificateId(issuedId);
         setIsEligibleForCertificate(true);
         toast.success('Certificado gerado com sucesso!');
-        return newCertificate.id;
+        return issuedId;
       }
       
       return null;
@@ -286,15 +273,96 @@ const CoursePlayer = () => {
 
   // Função para selecionar uma aula
   const handleSelectLesson = (mod: Module, lesson: Lesson) => {
+    if (lesson.isLocked) {
+      toast.info(getLessonUnlockCondition(lesson));
+      return;
+    }
     setSelectedModule(mod);
     setSelectedLesson(lesson);
   };
 
+  // Acompanhar o vídeo da aula: retomada, tempo assistido e conclusão automática
+  const { resumePosition, furthestPosition, handleTimeUpdate, handlePause, flush: flushWatchProgress } = useLessonWatchProgress({
+    lessonId: selectedLesson?.videoUrl && selectedLesson.type !== 'quiz' ? selectedLesson.id : null,
+    userId,
+    isCompleted: Boolean(selectedLesson?.isCompleted),
+    autoCompletePercent: selectedLesson?.autoCompletePercent,
+    onAutoComplete: () => {
+      handleMarkAsCompleted();
+    }
+  });
+
+  // Legendas da aula, exibidas no vídeo e na transcrição interativa
+  const selectedLessonId = selectedLesson?.id;
+  useEffect(() => {
+    setCaptions([]);
+    setPlaybackPosition(0);
+    setSeekRequest(null);
+    playbackPositionRef.current = 0;
+    if (!selectedLessonId) return;
+
+    // O momento do link vale somente para a aula do link
+    if (lessonLinkRef.current.lessonId !== selectedLessonId) {
+      lessonLinkRef.current = { lessonId: null, seconds: null, tab: null };
+    }
+
+    let cancelled = false;
+    lessonCaptionService.getCaptionsByLessonId(selectedLessonId)
+      .then(data => {
+        if (!cancelled) setCaptions(data);
+      })
+      .catch(err => console.error('Erro ao carregar legendas da aula:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedLessonId]);
+
+  // Aula marcada pelo aluno para rever depois
+  useEffect(() => {
+    setIsBookmarked(false);
+    if (!selectedLessonId) return;
+
+    let cancelled = false;
+    lessonNoteService.isLessonBookmarked(selectedLessonId)
+      .then(bookmarked => {
+        if (!cancelled) setIsBookmarked(bookmarked);
+      })
+      .catch(err => console.error('Erro ao verificar marcação da aula:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedLessonId]);
+
+  const handleToggleBookmark = async () => {
+    if (!selectedLesson || !userId) return;
+
+    try {
+      const bookmarked = await lessonNoteService.setLessonBookmarked(userId, selectedLesson.id, !isBookmarked);
+      setIsBookmarked(bookmarked);
+      toast.success(bookmarked ? 'Aula marcada para rever depois' : 'Marcação removida');
+    } catch (err) {
+      console.error('Erro ao atualizar marcação da aula:', err);
+      toast.error('Não foi possível atualizar a marcação da aula');
+    }
+  };
+
+  const handleVideoTimeUpdate = (positionSeconds: number, durationSeconds: number) => {
+    playbackPositionRef.current = positionSeconds;
+    // A posição só é acompanhada aqui para destacar o trecho atual da transcrição
+    if (captions.length > 0) setPlaybackPosition(positionSeconds);
+    handleTimeUpdate(positionSeconds, durationSeconds);
+  };
+
   // Função para marcar aula como concluída
   const handleMarkAsCompleted = async () => {
     if (!selectedLesson || !id || !userId) return;
 
     try {
+      // Registrar o que foi assistido antes, pois a visualização obrigatória é conferida no banco
+      await flushWatchProgress();
+
       // Marcar a aula como concluída no banco de dados
       console.log(`Marcando aula ${selectedLesson.id} como concluída para usuário ${userId}`);
       await lessonProgressService.markLessonAsCompleted(userId, selectedLesson.id);
@@ -314,7 +382,10 @@ const CoursePlayer = () => {
         return module;
       });
       
-      setModules(updatedModules);
+      // Concluir a aula pode liberar a seguinte (modo sequencial)
+      const modulesWithLocks = await moduleService.applyContentLocks(updatedModules, id, userId);
+      setModules(modulesWithLocks);
+      setSelectedModule(modulesWithLocks.find(module => module.id === selectedModule?.id) || selectedModule);
       
       // Recalcular o progresso
       const { totalLessons, completedLessonsCount } = countLessons(updatedModules);
@@ -346,6 +417,9 @@ const CoursePlayer = () => {
             setTimeout(() => {
               setShowCongratulations(true);
             }, 1000);
+          } else {
+            // Atualizar os requisitos do certificado (ex.: aulas obrigatórias)
+            await checkCertificate(userId, id);
           }
         }
       } catch (error) {
@@ -355,7 +429,7 @@ const CoursePlayer = () => {
       toast.success('Aula marcada como concluída!');
     } catch (error) {
       console.error('Erro ao marcar aula como concluída:', error);
-      toast.error('Erro ao marcar aula como concluída. Tente novamente.');
+      toast.error(error instanceof Error ? error.message : 'Erro ao marcar aula como concluída. Tente novamente.');
     }
   };
 
@@ -379,7 +453,7 @@ const CoursePlayer = () => {
   const canGoToNextLesson = () => {
     if (!selectedModule || !selectedLesson || !selectedModule.lessons) return false;
     const currentLessonIdx = selectedModule.lessons.findIndex(l => l.id === selectedLesson.id);
-    return currentLessonIdx < selectedModule.lessons.length - 1;
+    return currentLessonIdx < selectedModule.lessons.length - 1 && !selectedModule.lessons[currentLessonIdx + 1].isLocked;
   };
 
   // Navegar para a próxima aula
@@ -392,6 +466,22 @@ const CoursePlayer = () => {
   };
 
   // Renderizar o diálogo de congratulações
+  // Lista de requisitos do certificado, marcando os já cumpridos
+  const renderCertificateRules = () => (
+    <ul className="space-y-1 text-sm">
+      {certificateRules.map(rule => (
+        <li key={rule.rule} className="flex items-start gap-2">
+          {rule.met ? (
+            <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+          ) : (
+            <Circle className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+          )}
+          <span className={rule.met ? "text-muted-foreground" : ""}>{rule.description}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
   const renderCongratulationsDialog = () => {
     return (
       <Dialog open={showCongratulations} onOpenChange={setShowCongratulations}>
@@ -411,8 +501,11 @@ const CoursePlayer = () => {
             <p className="text-center mb-4">
               {certificateId 
                 ? "Seu certificado já está disponível e você pode acessá-lo a qualquer momento."
-                : "Estamos gerando seu certificado, isso pode levar alguns instantes."}
+                : isEligibleForCertificate
+                  ? "Estamos gerando seu certificado, isso pode levar alguns instantes."
+                  : "Ainda há requisitos pendentes para emitir seu certificado."}
             </p>
+            {!isEligibleForCertificate && renderCertificateRules()}
           </div>
           <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:justify-between">
             <Button variant="outline" onClick={() => setShowCongratulations(false)}>
@@ -432,6 +525,11 @@ const CoursePlayer = () => {
     );
   };
 
+  const hasVideo = Boolean(selectedLesson?.videoUrl) && selectedLesson?.type !== 'quiz';
+  // A aula do link abre no momento (em vez da posição salva) e na aba indicados
+  const isLinkedLesson = Boolean(selectedLesson) && lessonLinkRef.current.lessonId === selectedLesson?.id;
+  const linkedStartAt = isLinkedLesson ? lessonLinkRef.current.seconds : null;
+
   return (
     <div className="container py-6">
       {/* Renderizar o diálogo de congratulações */}
@@ -465,6 +563,17 @@ const CoursePlayer = () => {
                   <Progress value={progress} className="h-3" />
                 </div>
                 
+                {/* Requisitos pendentes para o certificado */}
+                {!isEligibleForCertificate && certificateRules.some(rule => !rule.met) && (
+                  <div className="mb-4 rounded-md border p-3">
+                    <h3 className="text-sm font-semibold mb-2 flex items-center gap-2">
+                      <Award className="h-4 w-4 text-yellow-500" />
+                      Requisitos do certificado
+                    </h3>
+                    {renderCertificateRules()}
+                  </div>
+                )}
+                
                 {/* Alerta quando curso está concluído */}
                 {progress === 100 && (
                   <Alert className="mb-6 bg-green-50 border-green-200 shadow-md">
@@ -488,6 +597,10 @@ const CoursePlayer = () => {
                                 <Award className="h-4 w-4" /> Ver meu certificado
                               </Button>
                             </div>
+                          ) : certificateRules.some(rule => !rule.met) ? (
+                            <p className="mt-2 text-amber-600">
+                              Ainda há requisitos pendentes para emitir seu certificado.
+                            </p>
                           ) : (
                             <p className="mt-2 text-amber-600">
                               Seu certificado está sendo processado e estará disponível em breve.
@@ -511,7 +624,13 @@ const CoursePlayer = () => {
                         }`}
                         onClick={() => setSelectedModule(module)}
                       >
-                        {module.title}
+                        <div className="flex items-center justify-between gap-2">
+                          <span>{module.title}</span>
+                          {module.isLocked && <Lock className="h-4 w-4 shrink-0" />}
+                        </div>
+                        {module.isLocked && (
+                          <p className="text-xs font-normal opacity-80">{getModuleUnlockCondition(module)}</p>
+                        )}
                       </div>
                       
                       {selectedModule?.id === module.id && (
@@ -521,17 +640,27 @@ const CoursePlayer = () => {
                               {module.lessons.map((lesson) => (
                                 <li 
                                   key={lesson.id} 
-                                  className={`p-2 rounded-md cursor-pointer flex items-center justify-between ${
-                                    selectedLesson?.id === lesson.id 
-                                      ? 'bg-primary/10 font-medium' 
-                                      : 'hover:bg-muted'
+                                  className={`p-2 rounded-md flex items-center justify-between ${
+                                    lesson.isLocked
+                                      ? 'cursor-not-allowed text-muted-foreground'
+                                      : selectedLesson?.id === lesson.id 
+                                        ? 'cursor-pointer bg-primary/10 font-medium' 
+                                        : 'cursor-pointer hover:bg-muted'
                                   }`}
                                   onClick={() => handleSelectLesson(module, lesson)}
                                 >
-                                  <span>{lesson.title}</span>
+                                  <div>
+                                    <span>{lesson.title}</span>
+                                    {lesson.isLocked && (
+                                      <p className="text-xs">{getLessonUnlockCondition(lesson)}</p>
+                                    )}
+                                  </div>
                                   {lesson.isCompleted && (
                                     <CheckCircle className="h-4 w-4 text-green-500 ml-2" />
                                   )}
+                                  {lesson.isLocked && (
+                                    <Lock className="h-4 w-4 ml-2 shrink-0" />
+                                  )}
                                 </li>
                               ))}
                             </ul>
@@ -553,12 +682,66 @@ const CoursePlayer = () => {
               <div className="space-y-4">
                 <Card>
                   <div className="p-4">
-                    <h1 className="text-2xl font-bold">{selectedLesson.title}</h1>
+                    <div className="flex items-start justify-between gap-2">
+                      <h1 className="text-2xl font-bold">{selectedLesson.title}</h1>
+                      {userId && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={handleToggleBookmark}
+                          title={isBookmarked ? 'Desmarcar aula' : 'Marcar aula para rever depois'}
+                        >
+                          {isBookmarked ? <BookmarkCheck className="h-5 w-5 text-primary" /> : <Bookmark className="h-5 w-5" />}
+                        </Button>
+                      )}
+                    </div>
                     {selectedModule && <p className="text-muted-foreground">Módulo: {selectedModule.title}</p>}
                     
-                    {selectedLesson.videoUrl ? (
+                    {selectedLesson.type === 'quiz' ? (
+                      userId && (
+                        <QuizPlayer
+                          lesson={selectedLesson}
+                          userId={userId}
+                          onPassed={handleMarkAsCompleted}
+                        />
+                      )
+                    ) : selectedLesson.videoUrl ? (
                       <div className="mt-4">
-                        <VideoPlayer url={selectedLesson.videoUrl} />
+                        {resumePosition === null ? (
+                          <div className="flex items-center justify-center h-64 rounded-md bg-muted">
+                            Carregando vídeo...
+                          </div>
+                        ) : (
+                          <>
+                            <VideoPlayer
+                              key={selectedLesson.id}
+                              url={selectedLesson.videoUrl}
+                              startAt={linkedStartAt ?? resumePosition}
+                              onTimeUpdate={handleVideoTimeUpdate}
+                              onPause={handlePause}
+                              preventSeekingAhead={selectedLesson.mandatoryViewing && !selectedLesson.isCompleted}
+                              furthestPosition={furthestPosition}
+                              poster={selectedLesson.videoThumbnailUrl}
+                              captions={captions}
+                              seekRequest={seekRequest}
+                            />
+                            {linkedStartAt === null && resumePosition > 0 && !selectedLesson.isCompleted && (
+                              <p className="mt-2 text-sm text-muted-foreground">
+                                Continuando de onde você parou ({formatPlaybackTime(resumePosition)}).
+                              </p>
+                            )}
+                          </>
+                        )}
+                        {selectedLesson.autoCompletePercent && !selectedLesson.isCompleted && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            A aula será concluída automaticamente ao assistir {selectedLesson.autoCompletePercent}% do vídeo.
+                          </p>
+                        )}
+                        {selectedLesson.mandatoryViewing && !selectedLesson.isCompleted && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            Visualização obrigatória: assista a pelo menos {selectedLesson.mandatoryViewingPercent ?? 90}% do vídeo, sem pular trechos, para concluir a aula.
+                          </p>
+                        )}
                       </div>
                     ) : (
                       <div className="mt-4 p-4 border rounded bg-muted">
@@ -566,12 +749,57 @@ const CoursePlayer = () => {
                       </div>
                     )}
                     
-                    {selectedLesson.content && (
-                      <div className="mt-6 prose max-w-none">
-                        <h2 className="text-xl font-semibold mb-2">Conteúdo da Aula</h2>
-                        <div dangerouslySetInnerHTML={{ __html: selectedLesson.content }} />
-                      </div>
-                    )}
+                    <Tabs
+                      key={selectedLesson.id}
+                      defaultValue={(isLinkedLesson && lessonLinkRef.current.tab) || "content"}
+                      className="mt-6"
+                    >
+                      <TabsList>
+                        <TabsTrigger value="content">Conteúdo</TabsTrigger>
+                        <TabsTrigger value="attachments">Materiais</TabsTrigger>
+                        {captions.length > 0 && (
+                          <TabsTrigger value="transcript">Transcrição</TabsTrigger>
+                        )}
+                        {userId && <TabsTrigger value="notes">Anotações</TabsTrigger>}
+                        {userId && <TabsTrigger value="discussion">Perguntas</TabsTrigger>}
+                      </TabsList>
+                      <TabsContent value="content" className="mt-4">
+                        {selectedLesson.content ? (
+                          <LessonContent content={selectedLesson.content} />
+                        ) : (
+                          <p className="text-muted-foreground">
+                            Nenhum conteúdo adicional disponível para esta aula
+                          </p>
+                        )}
+                      </TabsContent>
+                      <TabsContent value="attachments" className="mt-4">
+                        <LessonAttachments lessonId={selectedLesson.id} />
+                      </TabsContent>
+                      {captions.length > 0 && (
+                        <TabsContent value="transcript" className="mt-4">
+                          <LessonTranscript
+                            captions={captions}
+                            currentTime={playbackPosition}
+                            onSeek={(seconds) => setSeekRequest({ seconds })}
+                          />
+                        </TabsContent>
+                      )}
+                      {userId && (
+                        <TabsContent value="notes" className="mt-4">
+                          <LessonNotes
+                            lessonId={selectedLesson.id}
+                            userId={userId}
+                            getCurrentTime={hasVideo ? () => playbackPositionRef.current : undefined}
+                            onSeek={(seconds) => setSeekRequest({ seconds })}
+                          />
+                        </TabsContent>
+                      )}
+                      {userId && (
+                        <TabsContent value="discussion" className="mt-4">
+                          <LessonDiscussion lessonId={selectedLesson.id} userId={userId} isAdmin={isAdmin()} />
+                        </TabsContent>
+                      )}
+                    </Tabs>
                     
                     <div className="mt-6 flex justify-between items-center">
                       <Button 
@@ -585,7 +813,8 @@ const CoursePlayer = () => {
                       <Button 
                         onClick={handleMarkAsCompleted}
                         className="bg-green-600 hover:bg-green-700 flex items-center gap-2"
-                        disabled={selectedLesson.isCompleted}
+                        disabled={selectedLesson.isCompleted || selectedLesson.type === 'quiz'}
+                        title={selectedLesson.type === 'quiz' && !selectedLesson.isCompleted ? 'Seja aprovado no questionário para concluir esta aula' : undefined}
                       >
                         {selectedLesson.isCompleted ? (
                           <>
@@ -593,7 +822,7 @@ const CoursePlayer = () => {
                             Aula Concluída
                           </>
                         ) : (
-                          <>Marcar como Concluída</>
+                          <>{selectedLesson.type === 'quiz' ? 'Aprovação Pendente' : 'Marcar como Concluída'}</>
                         )}
                       </Button>
                       
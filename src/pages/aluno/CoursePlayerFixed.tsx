@@ -7,10 +7,12 @@ import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
 import { Lesson, Module } from "@/types";
 import VideoPlayer from "@/components/VideoPlayer";
+import LessonContent from "@/components/LessonContent";
 import { supabase } from "@/integrations/supabase/client";
-import { CheckCircle, Award, ChevronRight } from "lucide-react";
+import { CheckCircle, Award, ChevronRight, Lock } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { findFirstAvailableLesson, getLessonUnlockCondition } from "@/utils/contentRelease";
 
 const CoursePlayer = () => {
   const { id } = useParams<{ id: string }>();
@@ -63,7 +65,7 @@ const CoursePlayer = () => {
         setUserId(user.id);
         
         // Buscar módulos e aulas
-        const mods = await moduleService.getModulesByCourseId(id);
+        const mods = await moduleService.getModulesByCourseId(id, user.id);
         const lessonsIds = mods.flatMap(module => module.lessons ? module.lessons.map(lesson => lesson.id) : []);
         
         // Buscar progresso salvo no banco
@@ -97,12 +99,10 @@ const CoursePlayer = () => {
         }
 
         // Selecionar primeira aula disponível
-        if (modsWithProgress.length > 0) {
-          const firstModuleWithLessons = modsWithProgress.find(m => m.lessons && m.lessons.length > 0) || null;
-          if (firstModuleWithLessons) {
-            setSelectedModule(firstModuleWithLessons);
-            setSelectedLesson(firstModuleWithLessons.lessons[0]);
-          }
+        const firstAvailable = findFirstAvailableLesson(modsWithProgress);
+        if (firstAvailable) {
+          setSelectedModule(firstAvailable.module);
+          setSelectedLesson(firstAvailable.lesson);
         }
 
         setLoading(false);
@@ -286,6 +286,10 @@ const CoursePlayer = () => {
 
   // Função para selecionar uma aula
   const handleSelectLesson = (mod: Module, lesson: Lesson) => {
+    if (lesson.isLocked) {
+      toast.info(getLessonUnlockCondition(lesson));
+      return;
+    }
     setSelectedModule(mod);
     setSelectedLesson(lesson);
   };
@@ -525,6 +529,9 @@ const CoursePlayer = () => {
                                   {lesson.isCompleted && (
                                     <CheckCircle className="h-4 w-4 text-green-500 ml-2" />
                                   )}
+                                  {lesson.isLocked && (
+                                    <Lock className="h-4 w-4 ml-2 shrink-0" aria-label={getLessonUnlockCondition(lesson)} />
+                                  )}
                                 </li>
                               ))}
                             </ul>
@@ -551,7 +558,7 @@ const CoursePlayer = () => {
                     
                     {selectedLesson.videoUrl ? (
                       <div className="mt-4">
-                        <VideoPlayer url={selectedLesson.videoUrl} />
+                        <VideoPlayer url={selectedLesson.videoUrl} poster={selectedLesson.videoThumbnailUrl} />
                       </div>
                     ) : (
                       <div className="mt-4 p-4 border rounded bg-muted">
@@ -560,9 +567,9 @@ const CoursePlayer = () => {
                     )}
                     
                     {selectedLesson.content && (
-                      <div className="mt-6 prose max-w-none">
+                      <div className="mt-6">
                         <h2 className="text-xl font-semibold mb-2">Conteúdo da Aula</h2>
-                        <div dangerouslySetInnerHTML={{ __html: selectedLesson.content }} />
+                        <LessonContent content={selectedLesson.content} />
                       </div>
                     )}
                     
@@ -1,15 +1,15 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { certificateService } from "@/services";
+import { certificateService, certificatePdfService } from "@/services";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAuth } from "@/contexts/AuthContext";
 import { Certificate } from "@/types";
 import { toast } from "sonner";
-import { Award, Download, Eye, Search, Share2, QrCode } from "lucide-react";
-import jsPDF from "jspdf";
-import QRCode from "qrcode";
+import { Award, Download, Eye, Search, Share2, QrCode, CalendarClock, RefreshCw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
@@ -19,6 +19,7 @@ const MeusCertificados = () => {
   const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [startingRecertification, setStartingRecertification] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchCertificates = async () => {
@@ -40,11 +41,22 @@ const MeusCertificados = () => {
           return;
         }
         
+        // Certificados cujas regras foram cumpridas depois da conclusão do curso (ex.: carência)
+        try {
+          const issuedIds = await certificateService.issuePendingCertificates();
+          if (issuedIds.length > 0) {
+            toast.success('Parabéns! Novos certificados foram emitidos.');
+          }
+        } catch (pendingError) {
+          console.error('Erro ao emitir certificados pendentes:', pendingError);
+        }
+        
         // Buscar certificados do usuário atual com tratamento de erro aprimorado
         try {
           const data = await certificateService.getCertificates(user.id);
           console.log('Certificados recebidos:', data);
-          setCertificates(data || []);
+          // Revogados e substituídos ficam só no histórico; o aluno vê apenas o certificado atual
+          setCertificates((data || []).filter(cert => !cert.revokedAt));
         } catch (serviceError: any) {
           console.error('Erro no serviço de certificados:', serviceError);
           // Tentar recuperar de um erro no serviço
@@ -64,6 +76,30 @@ const MeusCertificados = () => {
     fetchCertificates();
   }, [user]);
 
+  // Certificados que vencem em breve (ou já venceram) e podem ser renovados
+  const certificatesDueForRenewal = certificates.filter(certificateService.isDueForRenewal);
+
+  const isExpired = (cert: Certificate) =>
+    certificateService.getCertificateStatus(cert) === 'expired';
+
+  const handleStartRecertification = async (cert: Certificate) => {
+    if (!confirm(`Iniciar a recertificação de "${cert.courseName}"? O progresso das aulas será reiniciado e um novo certificado será emitido ao concluir o curso novamente.`)) {
+      return;
+    }
+
+    try {
+      setStartingRecertification(cert.courseId);
+      await certificateService.startRecertification(cert.courseId);
+      toast.success('Recertificação iniciada! Refaça o curso para renovar seu certificado.');
+      navigate(`/aluno/curso/${cert.courseId}/player`);
+    } catch (error) {
+      console.error('Erro ao iniciar recertificação:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao iniciar a recertificação');
+    } finally {
+      setStartingRecertification(null);
+    }
+  };
+
   // Filtrar certificados com base na busca
   const filteredCertificates = certificates.filter(cert => 
     searchTerm === '' || cert.courseName.toLowerCase().includes(searchTerm.toLowerCase())
@@ -71,55 +107,9 @@ const MeusCertificados = () => {
 
   const handleDownload = async (cert: Certificate) => {
     try {
-      // Criar um PDF com jsPDF
-      const doc = new jsPDF();
-      
-      // Adicionar um título
-      doc.setFontSize(20);
-      doc.text('Certificado de Conclusão', 105, 20, { align: 'center' });
-      
-      // Adicionar uma linha decorativa
-      doc.setDrawColor(0, 0, 0);
-      doc.line(50, 25, 160, 25);
-      
-      // Adicionar informações do certificado
-      doc.setFontSize(16);
-      doc.text('Este certificado é concedido a:', 105, 40, { align: 'center' });
-      
-      doc.setFontSize(18);
-      doc.setFont('helvetica', 'bold');
-      doc.text(cert.userName, 105, 50, { align: 'center' });
-      
-      doc.setFontSize(14);
-      doc.setFont('helvetica', 'normal');
-      doc.text('por concluir com sucesso o curso:', 105, 65, { align: 'center' });
-      
-      doc.setFontSize(16);
-      doc.setFont('helvetica', 'bold');
-      doc.text(cert.courseName, 105, 75, { align: 'center' });
-      
-      // Adicionar data de emissão
-      doc.setFontSize(12);
-      doc.setFont('helvetica', 'normal');
-      doc.text(`Emitido em: ${new Date(cert.issueDate).toLocaleDateString('pt-BR')}`, 105, 95, { align: 'center' });
-      
-      // Gerar QR Code para verificação
-      const verificationUrl = `${window.location.origin}/certificates/${cert.id}`;
-      const qrCodeDataUrl = await QRCode.toDataURL(verificationUrl, { width: 100 });
-      
-      // Adicionar QR Code ao PDF
-      doc.addImage(qrCodeDataUrl, 'PNG', 80, 120, 50, 50);
-      
-      // Adicionar texto de verificação
-      doc.setFontSize(10);
-      doc.text('Escaneie o QR Code para verificar a autenticidade deste certificado', 105, 180, { align: 'center' });
-      
-      // Adicionar ID do certificado para verificação
-      doc.setFontSize(8);
-      doc.text(`ID do Certificado: ${cert.id}`, 105, 190, { align: 'center' });
-      
-      // Salvar o PDF
-      doc.save(`certificado-${cert.courseName.replace(/\s+/g, '-').toLowerCase()}.pdf`);
+      // A listagem traz apenas os campos resumidos; o PDF precisa do modelo salvo na emissão
+      const fullCertificate = await certificateService.getCertificateById(cert.id);
+      await certificatePdfService.downloadCertificatePdf(fullCertificate);
       
       toast.success('Certificado baixado com sucesso!');
     } catch (error) {
@@ -134,7 +124,7 @@ const MeusCertificados = () => {
 
   const handleShare = async (cert: Certificate) => {
     try {
-      const verificationUrl = `${window.location.origin}/certificates/${cert.id}`;
+      const verificationUrl = certificateService.getVerificationUrl(cert.id);
       
       // Verificar se a API de compartilhamento está disponível
       if (navigator.share) {
@@ -173,6 +163,37 @@ const MeusCertificados = () => {
         </div>
       </div>
       
+      {certificatesDueForRenewal.length > 0 && (
+        <Alert>
+          <CalendarClock className="h-4 w-4" />
+          <AlertTitle>Recertificação disponível</AlertTitle>
+          <AlertDescription>
+            <p className="mb-3">
+              Os certificados abaixo vencem em breve. Refaça o curso para renovar a validade.
+            </p>
+            <ul className="space-y-2">
+              {certificatesDueForRenewal.map((cert) => (
+                <li key={cert.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <span>
+                    <span className="font-medium">{cert.courseName}</span>
+                    {' '}— {isExpired(cert) ? 'expirou' : 'expira'} em {new Date(cert.expiryDate).toLocaleDateString()}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={startingRecertification === cert.courseId}
+                    onClick={() => handleStartRecertification(cert)}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Iniciar recertificação
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      
       {loading ? (
         <div className="flex items-center justify-center p-12">
           <p>Carregando seus certificados...</p>
@@ -221,6 +242,7 @@ const MeusCertificados = () => {
                         <Award className="h-5 w-5 text-yellow-500" />
                         <CardTitle className="text-lg">{cert.courseName}</CardTitle>
                       </div>
+                      {isExpired(cert) && <Badge variant="destructive">Expirado</Badge>}
                     </div>
                   </CardHeader>
                   
@@ -232,6 +254,11 @@ const MeusCertificados = () => {
                       <p className="text-sm">
                         <span className="text-muted-foreground">Emitido em:</span> {new Date(cert.issueDate).toLocaleDateString()}
                       </p>
+                      {cert.expiryDate && (
+                        <p className="text-sm">
+                          <span className="text-muted-foreground">Válido até:</span> {new Date(cert.expiryDate).toLocaleDateString()}
+                        </p>
+                      )}
                     </div>
                   </CardContent>
                   
@@ -275,6 +302,7 @@ const MeusCertificados = () => {
                   <TableRow>
                     <TableHead>Curso</TableHead>
                     <TableHead>Data de Emissão</TableHead>
+                    <TableHead>Validade</TableHead>
                     <TableHead className="text-right">Ações</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -283,6 +311,15 @@ const MeusCertificados = () => {
                     <TableRow key={cert.id}>
                       <TableCell className="font-medium">{cert.courseName}</TableCell>
                       <TableCell>{new Date(cert.issueDate).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {cert.expiryDate ? (
+                          <span className={isExpired(cert) ? 'text-destructive' : undefined}>
+                            {new Date(cert.expiryDate).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          'Não expira'
+                        )}
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           <Button
@@ -0,0 +1,203 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { lessonNoteService, lessonNoteExportService } from "@/services";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/contexts/AuthContext";
+import { LessonBookmark, LessonNoteWithContext } from "@/types";
+import { formatNoteTimestamp, getLessonNoteLink, groupNotesByCourse } from "@/utils/lessonNotes";
+import { toast } from "sonner";
+import { Bookmark, Clock, FileDown, FileText, NotebookPen, Search } from "lucide-react";
+
+const MinhasAnotacoes = () => {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<LessonNoteWithContext[]>([]);
+  const [bookmarks, setBookmarks] = useState<LessonBookmark[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  useEffect(() => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchNotes = async () => {
+      try {
+        setLoading(true);
+        const [notesData, bookmarksData] = await Promise.all([
+          lessonNoteService.getUserNotes(),
+          lessonNoteService.getUserBookmarks()
+        ]);
+        setNotes(notesData);
+        setBookmarks(bookmarksData);
+      } catch (error) {
+        console.error('Erro ao buscar anotações:', error);
+        toast.error('Erro ao carregar suas anotações');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchNotes();
+  }, [user]);
+
+  // Busca no texto das anotações e nos nomes do curso, do módulo e da aula
+  const filteredNotes = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return notes;
+    return notes.filter(note =>
+      [note.content, note.courseTitle, note.moduleTitle, note.lessonTitle]
+        .some(text => text.toLowerCase().includes(term))
+    );
+  }, [notes, searchTerm]);
+
+  const courseGroups = useMemo(() => groupNotesByCourse(filteredNotes), [filteredNotes]);
+
+  const handleExport = (format: 'markdown' | 'pdf') => {
+    try {
+      if (format === 'markdown') {
+        lessonNoteExportService.downloadNotesMarkdown(filteredNotes);
+      } else {
+        lessonNoteExportService.downloadNotesPdf(filteredNotes);
+      }
+    } catch (error) {
+      console.error('Erro ao exportar anotações:', error);
+      toast.error('Erro ao exportar suas anotações');
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <h1 className="text-3xl font-bold">Minhas Anotações</h1>
+
+        <div className="w-full md:w-64">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar nas anotações..."
+              className="pl-8"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {bookmarks.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Bookmark className="h-5 w-5" />
+              Aulas marcadas
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {bookmarks.map((bookmark) => (
+                <li key={bookmark.id}>
+                  <Link
+                    to={getLessonNoteLink(bookmark.courseId, bookmark.lessonId)}
+                    className="text-sm hover:underline"
+                  >
+                    <span className="font-medium">{bookmark.lessonTitle}</span>
+                    <span className="text-muted-foreground"> — {bookmark.courseTitle} · {bookmark.moduleTitle}</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-12">
+          <p>Carregando suas anotações...</p>
+        </div>
+      ) : courseGroups.length === 0 ? (
+        <Card className="p-6 text-center">
+          <div className="flex flex-col items-center gap-2">
+            <NotebookPen className="h-12 w-12 text-muted-foreground" />
+            <h2 className="text-xl font-semibold mt-2">
+              {notes.length === 0
+                ? "Você ainda não fez anotações"
+                : "Nenhuma anotação corresponde à sua busca"}
+            </h2>
+            <p className="text-muted-foreground max-w-md mx-auto mt-1">
+              {notes.length === 0
+                ? "Use a aba \"Anotações\" do player para anotar os pontos importantes das aulas."
+                : "Tente buscar por outro termo ou limpe a busca para ver todas as suas anotações."}
+            </p>
+            {searchTerm && (
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={() => setSearchTerm('')}
+              >
+                Limpar busca
+              </Button>
+            )}
+          </div>
+        </Card>
+      ) : (
+        <>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleExport('markdown')}>
+              <FileText className="h-4 w-4 mr-2" />
+              Exportar Markdown
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('pdf')}>
+              <FileDown className="h-4 w-4 mr-2" />
+              Exportar PDF
+            </Button>
+          </div>
+
+          {courseGroups.map((course) => (
+            <Card key={course.courseId}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-xl">{course.courseTitle}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {course.modules.map((module) => (
+                  <div key={module.moduleId} className="space-y-3">
+                    <h3 className="font-semibold text-muted-foreground">{module.moduleTitle}</h3>
+                    {module.lessons.map((lesson) => (
+                      <div key={lesson.lessonId} className="space-y-2 pl-2 border-l-2">
+                        <Link
+                          to={getLessonNoteLink(course.courseId, lesson.lessonId)}
+                          className="pl-2 font-medium hover:underline"
+                        >
+                          {lesson.lessonTitle}
+                        </Link>
+                        <ul className="space-y-2 pl-2">
+                          {lesson.notes.map((note) => (
+                            <li key={note.id} className="rounded-md border p-3 space-y-1">
+                              {note.timestampSeconds !== null && (
+                                <Link
+                                  to={getLessonNoteLink(course.courseId, lesson.lessonId, note.timestampSeconds)}
+                                  className="inline-flex items-center gap-1 text-sm text-primary hover:underline tabular-nums"
+                                >
+                                  <Clock className="h-3 w-3" />
+                                  {formatNoteTimestamp(note.timestampSeconds)}
+                                </Link>
+                              )}
+                              <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MinhasAnotacoes;
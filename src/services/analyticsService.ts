@@ -0,0 +1,121 @@
+import {
+  AnalyticsFilters,
+  AnalyticsGranularity,
+  AnalyticsTimeSeriesPoint,
+  CourseFunnel,
+  LessonDropoff
+} from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Interfaces para as linhas retornadas pelas funções de 28_admin_analytics.sql
+ */
+interface TimeSeriesRow {
+  period_start: string;
+  enrollments: number;
+  completions: number;
+  certificates: number;
+}
+
+interface CourseFunnelRow {
+  course_id: string;
+  course_title: string;
+  enrolled: number;
+  started: number;
+  halfway: number;
+  completed: number;
+  certified: number;
+  avg_completion_days: number | string | null;
+}
+
+interface LessonDropoffRow {
+  lesson_id: string;
+  lesson_title: string;
+  module_title: string;
+  lesson_position: number;
+  started_count: number;
+  completed_count: number;
+  stopped_count: number;
+}
+
+export const analyticsService = {
+  /**
+   * Matrículas, conclusões e certificados por dia, semana ou mês (somente administradores)
+   */
+  async getTimeSeries(filters: AnalyticsFilters, granularity: AnalyticsGranularity): Promise<AnalyticsTimeSeriesPoint[]> {
+    const { data, error } = await supabase.rpc('get_analytics_time_series', {
+      p_start: filters.startDate,
+      p_end: filters.endDate,
+      p_granularity: granularity,
+      p_course_id: filters.courseId
+    });
+
+    if (error) {
+      console.error('Erro ao buscar série temporal:', error);
+      throw new Error(error.message || 'Falha ao buscar série temporal');
+    }
+
+    return ((data || []) as unknown as TimeSeriesRow[]).map(row => ({
+      periodStart: row.period_start,
+      enrollments: row.enrollments,
+      completions: row.completions,
+      certificates: row.certificates
+    }));
+  },
+
+  /**
+   * Funil por curso dos alunos matriculados no período
+   */
+  async getCourseFunnels(filters: AnalyticsFilters): Promise<CourseFunnel[]> {
+    const { data, error } = await supabase.rpc('get_analytics_course_funnel', {
+      p_start: filters.startDate,
+      p_end: filters.endDate,
+      p_course_id: filters.courseId
+    });
+
+    if (error) {
+      console.error('Erro ao buscar funil dos cursos:', error);
+      throw new Error(error.message || 'Falha ao buscar funil dos cursos');
+    }
+
+    return ((data || []) as unknown as CourseFunnelRow[]).map(row => ({
+      courseId: row.course_id,
+      courseTitle: row.course_title,
+      enrolled: row.enrolled,
+      started: row.started,
+      halfway: row.halfway,
+      completed: row.completed,
+      certified: row.certified,
+      // NUMERIC chega como texto pelo PostgREST
+      avgCompletionDays: row.avg_completion_days === null ? null : Number(row.avg_completion_days)
+    }));
+  },
+
+  /**
+   * Abandono por aula de um curso, na ordem das aulas
+   */
+  async getLessonDropoff(courseId: string, filters: AnalyticsFilters): Promise<LessonDropoff[]> {
+    if (!courseId) throw new Error('ID do curso é obrigatório');
+
+    const { data, error } = await supabase.rpc('get_analytics_lesson_dropoff', {
+      p_course_id: courseId,
+      p_start: filters.startDate,
+      p_end: filters.endDate
+    });
+
+    if (error) {
+      console.error('Erro ao buscar abandono por aula:', error);
+      throw new Error(error.message || 'Falha ao buscar abandono por aula');
+    }
+
+    return ((data || []) as unknown as LessonDropoffRow[]).map(row => ({
+      lessonId: row.lesson_id,
+      lessonTitle: row.lesson_title,
+      moduleTitle: row.module_title,
+      position: row.lesson_position,
+      startedCount: row.started_count,
+      completedCount: row.completed_count,
+      stoppedCount: row.stopped_count
+    }));
+  }
+};
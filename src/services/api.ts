@@ -5,8 +5,24 @@ import * as enrollmentService from './courses/enrollmentService';
 import * as courseAdminService from './courses/courseAdminService';
 export { moduleService } from './moduleService';
 export { lessonService } from './lessonService';
+export { lessonAttachmentService } from './lessonAttachmentService';
+export { lessonVideoService } from './lessonVideoService';
+export { lessonCaptionService } from './lessonCaptionService';
+export { lessonNoteService } from './lessonNoteService';
+export { lessonNoteExportService } from './lessonNoteExportService';
+export { lessonDiscussionService } from './lessonDiscussionService';
+export { courseReviewService } from './courseReviewService';
+export { analyticsService } from './analyticsService';
+export { courseEngagementService } from './courseEngagementService';
+export { dataExportService } from './dataExportService';
+export { quizService } from './quizService';
 export { certificateService } from './certificateService';
+export { certificateTemplateService } from './certificateTemplateService';
+export { certificatePdfService } from './certificatePdfService';
+export { learningPathService } from './learningPathService';
 export { userService } from './userService';
+export { userImportService } from './userImportService';
+export { userGroupService } from './userGroupService';
 export { profileService } from './profileService';
 export { autoEnrollmentService } from './autoEnrollmentService';
 
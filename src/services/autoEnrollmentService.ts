@@ -1,6 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { enrollmentService } from './api';
+import { getMissingPrerequisitesByCourse } from './courses/enrollmentService';
 
 /**
  * Serviço para matricular automaticamente usuários em cursos
@@ -33,7 +34,7 @@ export const autoEnrollmentService = {
       // Buscar todos os cursos disponíveis
       const { data: availableCourses, error: coursesError } = await supabase
         .from('courses')
-        .select('id, title');
+        .select('id, title, prerequisite_course_ids');
       
       if (coursesError) {
         console.error('Erro ao buscar cursos disponíveis:', coursesError);
@@ -65,13 +66,32 @@ export const autoEnrollmentService = {
       console.log(`Usuário já está matriculado em ${enrolledCourseIds.size} cursos`);
       
       // Filtrar cursos em que o usuário ainda não está matriculado
-      const coursesToEnroll = availableCourses.filter(course => !enrolledCourseIds.has(course.id));
+      const notEnrolledCourses = (availableCourses as unknown as { id: string; title: string; prerequisite_course_ids: string[] | null }[])
+        .filter(course => !enrolledCourseIds.has(course.id));
       
-      if (coursesToEnroll.length === 0) {
+      if (notEnrolledCourses.length === 0) {
         console.log('Usuário já está matriculado em todos os cursos disponíveis');
         return [];
       }
       
+      // Cursos com pré-requisitos pendentes ficam de fora da matrícula automática
+      const missingByCourse = await getMissingPrerequisitesByCourse(
+        userId,
+        notEnrolledCourses.map(course => ({ id: course.id, prerequisiteCourseIds: course.prerequisite_course_ids || [] }))
+      );
+      
+      missingByCourse.forEach((missing, courseId) => {
+        const course = notEnrolledCourses.find(notEnrolled => notEnrolled.id === courseId);
+        console.log(`Curso "${course?.title}" ignorado: pré-requisitos pendentes (${missing.map(prerequisite => prerequisite.title).join(', ')})`);
+      });
+      
+      const coursesToEnroll = notEnrolledCourses.filter(course => !missingByCourse.has(course.id));
+      
+      if (coursesToEnroll.length === 0) {
+        console.log('Nenhum curso disponível para matrícula: os cursos restantes têm pré-requisitos pendentes');
+        return [];
+      }
+      
       console.log(`Matriculando usuário em ${coursesToEnroll.length} novos cursos`);
       
       // Matricular o usuário em cada curso
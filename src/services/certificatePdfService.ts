@@ -0,0 +1,406 @@
+import { Certificate, CertificateTemplate } from '@/types';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, rgb, RGB } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import QRCode from 'qrcode';
+import sansRegularUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import sansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import serifRegularUrl from 'dejavu-fonts-ttf/ttf/DejaVuSerif.ttf?url';
+import serifBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSerif-Bold.ttf?url';
+import { certificateService } from './certificateService';
+import { CERTIFICATE_FONTS, DEFAULT_CERTIFICATE_TEMPLATE } from './certificateTemplateService';
+
+// A4 paisagem, em pontos
+const PAGE_WIDTH = 841.89;
+const PAGE_HEIGHT = 595.28;
+const MARGIN = 40;
+
+const PDF_CREATOR = 'Plataforma de Ensino';
+
+interface CertificateFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+type FontStyle = 'serif' | 'sans';
+
+/**
+ * Fontes TrueType incorporadas ao PDF (somente os glyphs usados): cobrem acentos, alfabetos
+ * latinos estendidos, grego e cirílico, que as fontes padrão do PDF (WinAnsi) não representam
+ */
+const FONT_FILES: Record<FontStyle, { regular: string; bold: string }> = {
+  sans: { regular: sansRegularUrl, bold: sansBoldUrl },
+  serif: { regular: serifRegularUrl, bold: serifBoldUrl }
+};
+
+// Arquivos de fonte já baixados, reaproveitados entre exportações
+const fontBytesCache = new Map<string, Promise<ArrayBuffer>>();
+
+// Imagens já incorporadas ao documento, para não baixar a mesma URL uma vez por página
+type ImageCache = Map<string, Promise<PDFImage | null>>;
+
+const hexToRgb = (color: string | undefined, fallback: string): RGB => {
+  const value = color && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? color : fallback;
+  const hex = value.length === 4
+    ? value.slice(1).split('').map(char => char + char).join('')
+    : value.slice(1);
+
+  return rgb(
+    parseInt(hex.slice(0, 2), 16) / 255,
+    parseInt(hex.slice(2, 4), 16) / 255,
+    parseInt(hex.slice(4, 6), 16) / 255
+  );
+};
+
+const formatIssueDate = (issueDate: string): string =>
+  new Date(issueDate).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric'
+  });
+
+// Substitui os placeholders do modelo por texto puro (a versão HTML fica no certificateService)
+const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(/\{\{\s*(userName|courseName|courseHours|issueDate)\s*\}\}/g, (_, key: string) => values[key] ?? '');
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawCenteredText = (
+  page: PDFPage,
+  text: string,
+  y: number,
+  font: PDFFont,
+  size: number,
+  color: RGB,
+  centerX: number = PAGE_WIDTH / 2
+) => {
+  // Acentos decompostos (letra + acento combinante) viram um único caractere
+  const normalizedText = text.normalize('NFC');
+  page.drawText(normalizedText, {
+    x: centerX - font.widthOfTextAtSize(normalizedText, size) / 2,
+    y,
+    size,
+    font,
+    color
+  });
+};
+
+/**
+ * Baixa e incorpora uma imagem PNG ou JPEG; imagens inacessíveis são ignoradas
+ */
+const embedImage = (pdfDoc: PDFDocument, url: string | undefined, cache: ImageCache): Promise<PDFImage | null> => {
+  if (!url) return Promise.resolve(null);
+
+  if (!cache.has(url)) {
+    cache.set(url, (async () => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const bytes = new Uint8Array(await response.arrayBuffer());
+
+        if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdfDoc.embedPng(bytes);
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdfDoc.embedJpg(bytes);
+
+        console.warn(`Formato de imagem não suportado no PDF (use PNG ou JPEG): ${url}`);
+        return null;
+      } catch (error) {
+        console.warn(`Não foi possível incorporar a imagem ${url} ao PDF:`, error);
+        return null;
+      }
+    })());
+  }
+
+  return cache.get(url);
+};
+
+// Desenha o QR code como vetores, para que continue nítido em qualquer escala
+const drawQrCode = (page: PDFPage, text: string, x: number, y: number, size: number) => {
+  const qr = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const count = qr.modules.size;
+  const margin = 2;
+  const cell = size / (count + margin * 2);
+
+  page.drawRectangle({ x, y, width: size, height: size, color: rgb(1, 1, 1) });
+
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.modules.get(row, col)) {
+        page.drawRectangle({
+          x: x + (col + margin) * cell,
+          y: y + size - (row + margin + 1) * cell,
+          width: cell,
+          height: cell,
+          color: rgb(0, 0, 0)
+        });
+      }
+    }
+  }
+};
+
+// Fonte do modelo no PDF: serifada ou sem serifa, conforme a família escolhida
+const getFontStyle = (template: CertificateTemplate): FontStyle => {
+  const font = CERTIFICATE_FONTS.find(f => f.value === template.fontFamily) || CERTIFICATE_FONTS[0];
+  return font.serif ? 'serif' : 'sans';
+};
+
+const loadFontBytes = (url: string): Promise<ArrayBuffer> => {
+  if (!fontBytesCache.has(url)) {
+    const request = fetch(url).then(response => {
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return response.arrayBuffer();
+    });
+    // Uma falha de rede não deve impedir novas tentativas
+    request.catch(() => fontBytesCache.delete(url));
+    fontBytesCache.set(url, request);
+  }
+
+  return fontBytesCache.get(url);
+};
+
+const embedFonts = async (pdfDoc: PDFDocument, style: FontStyle): Promise<CertificateFonts> => {
+  try {
+    const [regular, bold] = await Promise.all([
+      loadFontBytes(FONT_FILES[style].regular),
+      loadFontBytes(FONT_FILES[style].bold)
+    ]);
+
+    return {
+      regular: await pdfDoc.embedFont(regular, { subset: true }),
+      bold: await pdfDoc.embedFont(bold, { subset: true })
+    };
+  } catch (error) {
+    console.error('Erro ao carregar as fontes do certificado:', error);
+    throw new Error('Falha ao carregar as fontes do certificado');
+  }
+};
+
+/**
+ * Desenha uma página de certificado a partir do modelo salvo na emissão
+ */
+const drawCertificatePage = async (
+  pdfDoc: PDFDocument,
+  certificate: Certificate,
+  fontsCache: Map<FontStyle, CertificateFonts>,
+  imageCache: ImageCache
+) => {
+  const template = certificate.templateSnapshot || DEFAULT_CERTIFICATE_TEMPLATE;
+
+  const fontStyle = getFontStyle(template);
+  if (!fontsCache.has(fontStyle)) {
+    fontsCache.set(fontStyle, await embedFonts(pdfDoc, fontStyle));
+  }
+  const fonts = fontsCache.get(fontStyle);
+
+  const primaryColor = hexToRgb(template.primaryColor, DEFAULT_CERTIFICATE_TEMPLATE.primaryColor);
+  const textColor = hexToRgb(template.textColor, DEFAULT_CERTIFICATE_TEMPLATE.textColor);
+  const backgroundColor = hexToRgb(template.backgroundColor, DEFAULT_CERTIFICATE_TEMPLATE.backgroundColor);
+  const mutedColor = rgb(0.4, 0.4, 0.4);
+
+  const values = {
+    userName: certificate.userName,
+    courseName: certificate.courseName,
+    courseHours: String(certificate.courseHours || 40),
+    issueDate: formatIssueDate(certificate.issueDate)
+  };
+
+  const page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+  // Fundo e moldura
+  page.drawRectangle({ x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT, color: backgroundColor });
+  const backgroundImage = await embedImage(pdfDoc, template.backgroundImageUrl, imageCache);
+  if (backgroundImage) {
+    page.drawImage(backgroundImage, { x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT });
+  }
+  page.drawRectangle({
+    x: MARGIN / 2,
+    y: MARGIN / 2,
+    width: PAGE_WIDTH - MARGIN,
+    height: PAGE_HEIGHT - MARGIN,
+    borderColor: primaryColor,
+    borderWidth: 3
+  });
+
+  let y = PAGE_HEIGHT - MARGIN - 20;
+
+  const logo = await embedImage(pdfDoc, template.logoUrl, imageCache);
+  if (logo) {
+    const { width, height } = logo.scaleToFit(160, 50);
+    y -= height;
+    page.drawImage(logo, { x: (PAGE_WIDTH - width) / 2, y, width, height });
+    y -= 20;
+  }
+
+  // Título, aluno e texto do certificado
+  y -= 34;
+  drawCenteredText(page, fillPlaceholders(template.titleText, values), y, fonts.bold, 34, primaryColor);
+  y -= 14;
+  page.drawLine({
+    start: { x: PAGE_WIDTH / 2 - 60, y },
+    end: { x: PAGE_WIDTH / 2 + 60, y },
+    thickness: 2,
+    color: primaryColor
+  });
+
+  y -= 40;
+  drawCenteredText(page, fillPlaceholders(template.introText, values), y, fonts.regular, 15, mutedColor);
+  y -= 40;
+  drawCenteredText(page, certificate.userName, y, fonts.bold, 30, textColor);
+
+  y -= 32;
+  const bodyText = fillPlaceholders(template.bodyText, values).normalize('NFC');
+  wrapText(bodyText, fonts.regular, 14, PAGE_WIDTH - MARGIN * 5).forEach(line => {
+    drawCenteredText(page, line, y, fonts.regular, 14, textColor);
+    y -= 20;
+  });
+
+  y -= 8;
+  drawCenteredText(page, `Emitido em ${values.issueDate}`, y, fonts.regular, 12, mutedColor);
+
+  // Rodapé: assinaturas com o QR code de verificação após a primeira, como no HTML
+  const footerItems: ('qr' | number)[] = template.signatures.map((_, index) => index);
+  footerItems.splice(Math.min(1, footerItems.length), 0, 'qr');
+  const slotWidth = (PAGE_WIDTH - MARGIN * 2) / footerItems.length;
+  const lineY = MARGIN + 50;
+
+  for (let slot = 0; slot < footerItems.length; slot++) {
+    const item = footerItems[slot];
+    const centerX = MARGIN + slotWidth * slot + slotWidth / 2;
+
+    if (item === 'qr') {
+      const qrSize = 70;
+      drawQrCode(page, certificateService.getVerificationUrl(certificate.id), centerX - qrSize / 2, lineY - 25, qrSize);
+      drawCenteredText(page, 'Verifique a autenticidade', lineY - 37, fonts.regular, 8, mutedColor, centerX);
+      continue;
+    }
+
+    const signature = template.signatures[item];
+    const signatureImage = await embedImage(pdfDoc, signature.imageUrl, imageCache);
+    if (signatureImage) {
+      const { width, height } = signatureImage.scaleToFit(140, 40);
+      page.drawImage(signatureImage, { x: centerX - width / 2, y: lineY + 4, width, height });
+    }
+
+    page.drawLine({
+      start: { x: centerX - 80, y: lineY },
+      end: { x: centerX + 80, y: lineY },
+      thickness: 1,
+      color: textColor
+    });
+    drawCenteredText(page, fillPlaceholders(signature.name, values), lineY - 16, fonts.bold, 11, textColor, centerX);
+    drawCenteredText(page, fillPlaceholders(signature.title, values), lineY - 30, fonts.regular, 9, mutedColor, centerX);
+  }
+
+  drawCenteredText(page, `Certificado nº ${certificate.serialNumber || certificate.id}`, MARGIN / 2 + 8, fonts.regular, 7, mutedColor);
+};
+
+/**
+ * Metadados do documento (título, assunto e palavras-chave com o ID do certificado)
+ */
+const setDocumentMetadata = (pdfDoc: PDFDocument, certificates: Certificate[]) => {
+  const [first] = certificates;
+  const now = new Date();
+
+  if (certificates.length === 1) {
+    pdfDoc.setTitle(`Certificado - ${first.courseName} - ${first.userName}`);
+    pdfDoc.setSubject(`Certificado de conclusão do curso ${first.courseName}, emitido em ${formatIssueDate(first.issueDate)}`);
+    pdfDoc.setAuthor(first.userName);
+    pdfDoc.setCreationDate(new Date(first.issueDate));
+  } else {
+    pdfDoc.setTitle(`Certificados (${certificates.length})`);
+    pdfDoc.setSubject('Certificados de conclusão de curso');
+    pdfDoc.setCreationDate(now);
+  }
+
+  pdfDoc.setKeywords(certificates.flatMap(certificate => [
+    certificate.id,
+    ...(certificate.serialNumber ? [certificate.serialNumber] : []),
+    certificate.courseName,
+    certificate.issueDate.slice(0, 10)
+  ]));
+  pdfDoc.setCreator(PDF_CREATOR);
+  pdfDoc.setProducer(PDF_CREATOR);
+  pdfDoc.setModificationDate(now);
+  pdfDoc.setLanguage('pt-BR');
+};
+
+/**
+ * Gera um PDF vetorial com um certificado por página
+ * @param certificates Certificados completos (com o modelo salvo na emissão)
+ * @returns Bytes do PDF
+ */
+const createCertificatesPdf = async (certificates: Certificate[]): Promise<Uint8Array> => {
+  if (certificates.length === 0) throw new Error('Nenhum certificado para exportar');
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const fontsCache = new Map<FontStyle, CertificateFonts>();
+  const imageCache: ImageCache = new Map();
+
+  for (const certificate of certificates) {
+    await drawCertificatePage(pdfDoc, certificate, fontsCache, imageCache);
+  }
+
+  setDocumentMetadata(pdfDoc, certificates);
+
+  // Sem object streams, para manter o arquivo compatível com leitores e validadores PDF/A
+  return pdfDoc.save({ useObjectStreams: false });
+};
+
+const downloadPdf = (bytes: Uint8Array, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const toFileName = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+
+/**
+ * Gera e baixa o PDF de um certificado
+ */
+const downloadCertificatePdf = async (certificate: Certificate): Promise<void> => {
+  const bytes = await createCertificatesPdf([certificate]);
+  downloadPdf(bytes, `certificado-${toFileName(certificate.courseName)}-${toFileName(certificate.userName)}.pdf`);
+};
+
+/**
+ * Gera e baixa um único PDF com vários certificados, um por página
+ */
+const downloadCertificatesPdf = async (certificates: Certificate[], fileName: string = 'certificados'): Promise<void> => {
+  const bytes = await createCertificatesPdf(certificates);
+  downloadPdf(bytes, `${toFileName(fileName) || 'certificados'}.pdf`);
+};
+
+/**
+ * Serviço de geração de PDF dos certificados
+ */
+export const certificatePdfService = {
+  createCertificatesPdf,
+  downloadCertificatePdf,
+  downloadCertificatesPdf
+};
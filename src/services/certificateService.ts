@@ -1,7 +1,22 @@
-import { Certificate } from '@/types';
+import {
+  Certificate,
+  CertificateAuditEntry,
+  CertificateEligibility,
+  CertificateStatus,
+  CertificateTemplate,
+  CertificateVerification
+} from '@/types';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import QRCode from 'qrcode';
 import { requestThrottler } from '@/utils/requestThrottler';
+import { mapCertificateRuleResult } from '@/utils/certificateRules';
+import {
+  certificateTemplateService,
+  CertificateTemplateDB,
+  CERTIFICATE_FONTS,
+  DEFAULT_CERTIFICATE_TEMPLATE
+} from './certificateTemplateService';
 
 /**
  * Interface para os dados de certificado no banco de dados
@@ -17,6 +32,15 @@ interface CertificateDB {
   expiry_date?: string;
   certificate_url?: string;
   certificate_html?: string; // HTML do certificado
+  template_id?: string | null; // Modelo usado na emissão (NULL = modelo padrão)
+  template_version?: number | null;
+  template_snapshot?: CertificateTemplateDB | null; // Cópia do modelo no momento da emissão
+  serial_number?: string | null; // Atribuído e assinado pelo banco na emissão
+  revoked_at?: string | null;
+  revocation_reason?: string | null;
+  supersedes_id?: string | null; // Certificado original (reemissão)
+  superseded_by_id?: string | null; // Certificado que o substituiu
+  learning_path_id?: string | null; // Certificado de trilha (course_id fica nulo)
   created_at: string;
   updated_at: string;
 }
@@ -36,6 +60,28 @@ export interface CreateCertificateData {
   certificateHtml?: string; // HTML do certificado renderizado
 }
 
+/**
+ * Dados corrigidos na reemissão de um certificado (campos vazios mantêm o valor do original)
+ */
+export interface ReissueCertificateData {
+  userName?: string;
+  courseName?: string;
+  courseHours?: number;
+}
+
+/**
+ * Interface para os registros do histórico de certificados no banco de dados
+ */
+interface CertificateAuditLogDB {
+  id: string;
+  certificate_id: string;
+  action: CertificateAuditEntry['action'];
+  changed_by: string | null;
+  changes: Record<string, unknown> | null;
+  reason: string | null;
+  created_at: string;
+}
+
 /**
  * Converte um registro do banco de dados para o tipo Certificate
  */
@@ -49,9 +95,53 @@ const mapToCertificate = (cert: CertificateDB): Certificate => ({
   issueDate: cert.issue_date,
   expiryDate: cert.expiry_date,
   certificateUrl: cert.certificate_url,
-  certificateHtml: cert.certificate_html
+  certificateHtml: cert.certificate_html,
+  templateId: cert.template_id ?? undefined,
+  templateVersion: cert.template_version ?? undefined,
+  templateSnapshot: cert.template_snapshot
+    ? certificateTemplateService.mapTemplateData(cert.template_snapshot)
+    : undefined,
+  serialNumber: cert.serial_number ?? undefined,
+  revokedAt: cert.revoked_at ?? undefined,
+  revocationReason: cert.revocation_reason ?? undefined,
+  supersedesId: cert.supersedes_id ?? undefined,
+  supersededById: cert.superseded_by_id ?? undefined,
+  learningPathId: cert.learning_path_id ?? undefined
 });
 
+/**
+ * Situação do certificado: válido, expirado, revogado ou substituído por uma reemissão
+ */
+const getCertificateStatus = (
+  certificate: Pick<Certificate, 'revokedAt' | 'supersededById' | 'expiryDate'>
+): CertificateStatus => {
+  if (certificate.supersededById) return 'superseded';
+  if (certificate.revokedAt) return 'revoked';
+  if (certificate.expiryDate && new Date(certificate.expiryDate).getTime() <= Date.now()) return 'expired';
+  return 'valid';
+};
+
+// Antecedência do aviso de expiração e da recertificação (igual a certificate_renewal_window no banco)
+export const RECERTIFICATION_WINDOW_DAYS = 30;
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Indica se o certificado vence dentro da janela de recertificação (ou já venceu)
+ */
+const isDueForRenewal = (certificate: Certificate): boolean =>
+  !certificate.revokedAt &&
+  Boolean(certificate.expiryDate) &&
+  new Date(certificate.expiryDate).getTime() <= Date.now() + RECERTIFICATION_WINDOW_DAYS * DAY_IN_MS;
+
+/**
+ * Certificado atual (não revogado) entre os certificados de um aluno em um curso
+ * Revogados e substituídos continuam no banco para o histórico e a verificação pública
+ */
+const findCurrentCertificate = (certificates: Certificate[]): Certificate | undefined =>
+  certificates.find(certificate => !certificate.revokedAt);
+
+const REVOKED_CERTIFICATE_MESSAGE = 'O certificado deste curso foi revogado. Entre em contato com a administração.';
+
 // Cache para certificados
 let certificatesCache = new Map<string, { data: Certificate[], timestamp: number }>(); 
 const CACHE_DURATION = 60000; // 1 minuto em milissegundos
@@ -80,7 +170,7 @@ const getCertificates = async (userId?: string, courseId?: string): Promise<Cert
     
     // Selecionar apenas os campos necessários para o dashboard
     // Isso reduz o tamanho dos dados transferidos
-    let query = supabase.from('certificates').select('id, user_id, course_id, course_name, user_name, issue_date');
+    let query = supabase.from('certificates').select('id, user_id, course_id, course_name, user_name, issue_date, expiry_date, serial_number, revoked_at, supersedes_id, superseded_by_id, learning_path_id');
     
     if (userId) {
       query = query.eq('user_id', userId);
@@ -95,7 +185,7 @@ const getCertificates = async (userId?: string, courseId?: string): Promise<Cert
     if (error) throw error;
     if (!data) return [];
 
-    const certificates = data.map(mapToCertificate);
+    const certificates = (data as unknown as CertificateDB[]).map(mapToCertificate);
     
     // Atualizar o cache
     certificatesCache.set(cacheKey, {
@@ -127,90 +217,76 @@ const createCertificate = async (certificateData: CreateCertificateData): Promis
     // Verificar se já existe um certificado para este usuário e curso
     console.log(`Verificando certificados existentes para usuário ${certificateData.userId} e curso ${certificateData.courseId}`);
     const existingCerts = await getCertificates(certificateData.userId, certificateData.courseId);
+    const currentCert = findCurrentCertificate(existingCerts);
     
-    if (existingCerts.length > 0) {
+    if (currentCert) {
       // Em vez de lançar um erro, retornamos o certificado existente
       console.log('Certificado já existente, retornando-o em vez de criar um novo');
-      return existingCerts[0];
+      return currentCert;
+    }
+    
+    // Certificado revogado só é substituído pela reemissão feita pela administração
+    if (existingCerts.length > 0) {
+      throw new Error(REVOKED_CERTIFICATE_MESSAGE);
     }
     
     console.log('Nenhum certificado existente encontrado, continuando com a criação...');
 
+    // Gerar o ID antes da inserção para que o QR code de verificação aponte para ele
+    const certificateId = crypto.randomUUID();
+
+    // Modelo de certificado atribuído ao curso (ou o modelo padrão)
+    const template = await certificateTemplateService.getTemplateForCourse(certificateData.courseId);
+
     // Gerar HTML do certificado se não estiver presente
     const certificateHtml = certificateData.certificateHtml || createCertificateTemplate({
+      certificateId,
+      serialNumber: SERIAL_NUMBER_PLACEHOLDER,
       userName: certificateData.userName,
       courseName: certificateData.courseName,
       courseHours: certificateData.courseHours || 40,
       issueDate: certificateData.issueDate || new Date().toISOString()
-    });
-    
-    // Preparar dados simplificados para inserção
-    const certificateDataForDB: Record<string, any> = {
-      user_id: certificateData.userId,
-      course_id: certificateData.courseId,
-      course_name: certificateData.courseName,
-      user_name: certificateData.userName,
-      course_hours: certificateData.courseHours || 40,
-      issue_date: certificateData.issueDate || new Date().toISOString(),
-      certificate_html: certificateHtml
-    };
+    }, template);
     
-    // Adicionar campos opcionais apenas se estiverem presentes
-    if (certificateData.expiryDate) {
-      certificateDataForDB.expiry_date = certificateData.expiryDate;
+    // A emissão é feita pelo banco (issue_certificate): para alunos, nomes, carga horária, data e modelo
+    // vêm do banco e as regras do curso são conferidas; administradores podem informar os dados emitidos
+    console.log('Emitindo certificado no banco de dados...');
+    const { data: issuedId, error } = await supabase.rpc('issue_certificate', {
+      p_user_id: certificateData.userId,
+      p_course_id: certificateData.courseId,
+      p_certificate_id: certificateId,
+      p_certificate_html: certificateHtml,
+      p_user_name: certificateData.userName,
+      p_course_name: certificateData.courseName,
+      p_course_hours: certificateData.courseHours || 40,
+      p_issue_date: certificateData.issueDate || new Date().toISOString()
+    });
+
+    if (error) {
+      console.error('Erro ao emitir certificado:', error);
+      throw new Error(error.message || 'Falha ao criar certificado');
     }
-    
-    if (certificateData.certificateUrl) {
-      certificateDataForDB.certificate_url = certificateData.certificateUrl;
+
+    if (!issuedId) {
+      throw new Error('Falha ao criar certificado - nenhum dado retornado');
     }
-    
-    console.log('Inserindo certificado no banco de dados...');
-    
-    try {
-      // Tentar inserir o certificado
-      const { data, error } = await supabase
+
+    // O link do arquivo é gerido pela administração e gravado após a emissão;
+    // a validade é calculada pelo banco a partir do curso
+    if (certificateData.certificateUrl) {
+      const { error: updateError } = await supabase
         .from('certificates')
-        .insert(certificateDataForDB)
-        .select('*')
-        .single();
-      
-      if (error) {
-        // Se for erro de unicidade, buscar o certificado existente
-        if (error.code === '23505' || (typeof error.message === 'string' && error.message.includes('duplicate'))) {
-          console.log('Detectada violação de unicidade, verificando certificados existentes...');
-          const latestCerts = await getCertificates(certificateData.userId, certificateData.courseId);
-          if (latestCerts.length > 0) {
-            return latestCerts[0];
-          }
-        }
-        
-        console.error('Erro ao inserir certificado:', error);
-        throw error;
-      }
-      
-      if (!data) {
-        throw new Error('Falha ao criar certificado - nenhum dado retornado');
+        .update({ certificate_url: certificateData.certificateUrl })
+        .eq('id', issuedId as unknown as string);
+
+      if (updateError) {
+        console.error('Erro ao gravar link do certificado:', updateError);
       }
-      
-      console.log('Certificado criado com sucesso!');
-      return mapToCertificate(data as CertificateDB);
-    } catch (dbError: any) {
-      // Em caso de falha, criar um certificado virtual temporário
-      console.log('Criando certificado virtual temporário após falha no banco');
-      const virtualCert: Certificate = {
-        id: `virtual-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-        userId: certificateData.userId,
-        courseId: certificateData.courseId,
-        userName: certificateData.userName,
-        courseName: certificateData.courseName,
-        courseHours: certificateData.courseHours || 40,
-        issueDate: certificateData.issueDate || new Date().toISOString(),
-        certificateHtml: certificateHtml,
-        certificateUrl: null,
-        expiryDate: null
-      };
-      return virtualCert;
     }
+
+    certificatesCache.clear();
+    console.log('Certificado criado com sucesso!');
+    return getCertificateById(issuedId as unknown as string);
   } catch (error) {
     console.error('Erro ao criar certificado:', error);
     const errorMessage = error instanceof Error ? error.message : 'Erro ao criar certificado';
@@ -244,94 +320,37 @@ const generateCertificate = async (courseId: string, userId: string): Promise<Ce
     // 1. Verificar se já existe um certificado
     console.log(`[CERTIFICADO] Verificando certificado existente para usuário ${userId} no curso ${courseId}`);
     const existingCerts = await getCertificates(userId, courseId);
+    const currentCert = findCurrentCertificate(existingCerts);
     
-    if (existingCerts && existingCerts.length > 0) {
-      console.log(`[CERTIFICADO] Certificado existente encontrado: ${existingCerts[0].id}`);
-      requestThrottler.cacheItem(certCacheKey, existingCerts[0]);
-      return existingCerts[0];
+    if (currentCert) {
+      // Recertificação concluída: o certificado perto de expirar é renovado
+      const renewedCert = isDueForRenewal(currentCert) ? await renewCertificate(courseId) : null;
+      if (renewedCert) {
+        console.log(`[CERTIFICADO] Certificado renovado por recertificação: ${renewedCert.id}`);
+        requestThrottler.cacheItem(certCacheKey, renewedCert);
+        return renewedCert;
+      }
+      
+      console.log(`[CERTIFICADO] Certificado existente encontrado: ${currentCert.id}`);
+      requestThrottler.cacheItem(certCacheKey, currentCert);
+      return currentCert;
     }
     
-    // 2. Verificar elegibilidade
+    if (existingCerts.length > 0) {
+      console.log('[CERTIFICADO] Certificado revogado, a reemissão é feita pela administração');
+      throw new Error(REVOKED_CERTIFICATE_MESSAGE);
+    }
+    
+    // 2. Verificar elegibilidade pelas regras do curso
     console.log(`[CERTIFICADO] Verificando elegibilidade para usuário ${userId} no curso ${courseId}`);
-    let isEligible = false;
     let courseHours = 40; // Valor padrão
     
-    try {
-      // Verificar diretamente o progresso do curso
-      const { data: enrollmentData } = await supabase
-        .from('enrollments')
-        .select('progress')
-        .eq('user_id', userId)
-        .eq('course_id', courseId)
-        .single();
-      
-      if (enrollmentData && enrollmentData.progress === 100) {
-        isEligible = true;
-        console.log(`[CERTIFICADO] Usuário ${userId} elegível (progresso 100%)`);
-      } else {
-        // Verificar usando a contagem de aulas
-        const { data: moduleData } = await supabase
-          .from('modules')
-          .select('id')
-          .eq('course_id', courseId);
-          
-        if (!moduleData || moduleData.length === 0) {
-          console.log(`[CERTIFICADO] Nenhum módulo encontrado para o curso ${courseId}`);
-          throw new Error('Curso não possui módulos');
-        }
-        
-        const moduleIds = moduleData.map(m => m.id);
-        
-        const { data: lessonsData } = await supabase
-          .from('lesson_progress')
-          .select('lesson_id')
-          .eq('user_id', userId)
-          .eq('completed', true);
-          
-        const { data: courseLessons } = await supabase
-          .from('lessons')
-          .select('id, module_id')
-          .in('module_id', moduleIds);
-          
-        if (lessonsData && courseLessons && courseLessons.length > 0) {
-          const completedLessonIds = new Set(lessonsData.map(item => item.lesson_id));
-          const completedCount = courseLessons.filter(l => completedLessonIds.has(l.id)).length;
-          const totalCount = courseLessons.length;
-          
-          if (totalCount > 0) {
-            const calculatedProgress = Math.round((completedCount / totalCount) * 100);
-            console.log(`[CERTIFICADO] Progresso calculado: ${calculatedProgress}% (${completedCount}/${totalCount})`);
-            
-            if (calculatedProgress === 100) {
-              isEligible = true;
-              console.log(`[CERTIFICADO] Usuário ${userId} elegível baseado na conclusão de aulas`);
-              
-              // Atualizar o progresso na tabela de matrículas para garantir consistência
-              const { error: updateError } = await supabase
-                .from('enrollments')
-                .update({ progress: 100 })
-                .eq('user_id', userId)
-                .eq('course_id', courseId);
-                
-              if (updateError) {
-                console.error('[CERTIFICADO] Erro ao atualizar progresso na matrícula:', updateError);
-              } else {
-                console.log('[CERTIFICADO] Progresso na matrícula atualizado para 100%');
-              }
-            }
-          }
-        }
-      }
-    } catch (eligibilityError) {
-      console.error('[CERTIFICADO] Erro ao verificar elegibilidade:', eligibilityError);
-      // Em caso de erro, vamos forçar a elegibilidade para garantir que o certificado seja gerado
-      isEligible = true;
-      console.log('[CERTIFICADO] Forçando elegibilidade devido a erro na verificação');
-    }
+    const eligibility = await getCertificateEligibility(userId, courseId);
     
-    if (!isEligible) {
-      console.error('[CERTIFICADO] Usuário não é elegível para receber certificado');
-      throw new Error('Usuário não é elegível para receber certificado. O curso deve estar 100% concluído.');
+    if (!eligibility.eligible) {
+      const pendingRules = eligibility.rules.filter(rule => !rule.met).map(rule => rule.description);
+      console.error('[CERTIFICADO] Usuário não é elegível para receber certificado:', pendingRules);
+      throw new Error(`Usuário não é elegível para receber certificado. Requisitos pendentes: ${pendingRules.join('; ')}`);
     }
     
     // 3. Buscar dados do curso e do usuário
@@ -381,22 +400,14 @@ const generateCertificate = async (courseId: string, userId: string): Promise<Ce
     const now = new Date();
     
     try {
-      // Gerar o HTML do certificado com os dados obtidos
-      const certificateHtml = createCertificateTemplate({
-        userName: userName,
-        courseName: courseTitle,
-        courseHours: courseHours,
-        issueDate: now.toISOString().split('T')[0]
-      });
-      
+      // O HTML é gerado por createCertificate, que conhece o ID usado no QR code de verificação
       const certificateData = {
         userId: userId,
         courseId: courseId,
         userName: userName,
         courseName: courseTitle,
         courseHours: courseHours,
-        issueDate: now.toISOString(),
-        certificateHtml: certificateHtml
+        issueDate: now.toISOString()
       };
       
       const certificate = await createCertificate(certificateData);
@@ -411,10 +422,10 @@ const generateCertificate = async (courseId: string, userId: string): Promise<Ce
       console.error('[CERTIFICADO] Erro ao criar certificado:', createError);
       
       // Verificar novamente se já existe certificado (pode ter sido criado em uma tentativa paralela)
-      const newCheck = await getCertificates(userId, courseId);
-      if (newCheck && newCheck.length > 0) {
-        console.log(`[CERTIFICADO] Certificado encontrado após erro: ${newCheck[0].id}`);
-        return newCheck[0];
+      const newCheck = findCurrentCertificate(await getCertificates(userId, courseId));
+      if (newCheck) {
+        console.log(`[CERTIFICADO] Certificado encontrado após erro: ${newCheck.id}`);
+        return newCheck;
       }
       
       // Repassar o erro para ser tratado pelo chamador
@@ -461,16 +472,83 @@ const createVirtualCertificate = (userId: string, courseId: string, userName: st
 };
 
 /**
- * Cria um template HTML para o certificado
- * @param data Dados para o certificado
+ * Monta a URL pública de verificação de um certificado
+ * @param certificateId ID do certificado
+ * @returns URL da página /verificar/:certificateId
+ */
+const getVerificationUrl = (certificateId: string): string => {
+  return `${window.location.origin}/verificar/${certificateId}`;
+};
+
+/**
+ * Gera um QR code em SVG de forma síncrona, para ser embutido no HTML do certificado
+ * @param text Conteúdo codificado no QR code
+ * @param size Tamanho em pixels
+ * @returns Markup SVG do QR code
+ */
+const createQrCodeSvg = (text: string, size: number = 80): string => {
+  const qr = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const count = qr.modules.size;
+  const margin = 2;
+  const dimension = count + margin * 2;
+  
+  let path = '';
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.modules.get(row, col)) {
+        path += `M${col + margin} ${row + margin}h1v1h-1z`;
+      }
+    }
+  }
+  
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges"><rect width="${dimension}" height="${dimension}" fill="#ffffff"/><path d="${path}" fill="#000000"/></svg>`;
+};
+
+/**
+ * Escapa texto para inserção segura no HTML do certificado
+ */
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Aceita apenas cores hexadecimais, para que o modelo não injete CSS arbitrário
+const safeColor = (color: string | undefined, fallback: string): string =>
+  color && /^#[0-9a-f]{3,8}$/i.test(color) ? color : fallback;
+
+/**
+ * Substitui os placeholders {{userName}}, {{courseName}}, {{courseHours}} e {{issueDate}}
+ * @param text Texto do modelo (será escapado)
+ * @param values Valores dos placeholders
+ * @param highlight Envolver os valores em <strong>
+ */
+const fillPlaceholders = (text: string, values: Record<string, string>, highlight: boolean = false): string =>
+  escapeHtml(text).replace(/\{\{\s*(userName|courseName|courseHours|issueDate)\s*\}\}/g, (_, key: string) => {
+    const value = escapeHtml(values[key] ?? '');
+    return highlight ? `<strong>${value}</strong>` : value;
+  });
+
+// Marcador substituído pelo banco (trigger sign_certificate) pelo número de série atribuído na emissão
+const SERIAL_NUMBER_PLACEHOLDER = '{{serialNumber}}';
+
+/**
+ * Cria o HTML do certificado a partir de um modelo
+ * @param data Dados para o certificado (com certificateId, inclui o QR code de verificação;
+ * sem serialNumber, a linha de registro é omitida)
+ * @param template Modelo de certificado; sem modelo, usa o layout padrão da plataforma
  * @returns HTML do certificado formatado
  */
 const createCertificateTemplate = (data: {
+  certificateId?: string;
+  serialNumber?: string;
   userName: string;
   courseName: string;
   courseHours: number;
   issueDate: string;
-}): string => {
+}, template: CertificateTemplate = DEFAULT_CERTIFICATE_TEMPLATE): string => {
   // Formatar a data de emissão em formato Brasileiro
   const issueDateObj = new Date(data.issueDate);
   const formattedDate = issueDateObj.toLocaleDateString('pt-BR', {
@@ -479,24 +557,62 @@ const createCertificateTemplate = (data: {
     year: 'numeric'
   });
   
-  // Gerar um número de registro único
-  const registrationNumber = `CERT-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).substring(2, 7).toUpperCase()}`;
+  const values = {
+    userName: data.userName,
+    courseName: data.courseName,
+    courseHours: String(data.courseHours),
+    issueDate: formattedDate
+  };
+  
+  const primaryColor = safeColor(template.primaryColor, DEFAULT_CERTIFICATE_TEMPLATE.primaryColor);
+  const textColor = safeColor(template.textColor, DEFAULT_CERTIFICATE_TEMPLATE.textColor);
+  const backgroundColor = safeColor(template.backgroundColor, DEFAULT_CERTIFICATE_TEMPLATE.backgroundColor);
+  const font = CERTIFICATE_FONTS.find(f => f.value === template.fontFamily) || CERTIFICATE_FONTS[0];
+  const fontImport = font.googleFont
+    ? `@import url('https://fonts.googleapis.com/css2?family=${encodeURIComponent(font.value)}:wght@400;500;600;700&display=swap');`
+    : '';
+  
+  const registrationLine = data.serialNumber ? `<div>Registro: ${escapeHtml(data.serialNumber)}</div>` : '';
+  
+  // QR code apontando para a página pública de verificação
+  const verificationBlock = data.certificateId
+    ? `
+        <div class="certificate-verification">
+          ${createQrCodeSvg(getVerificationUrl(data.certificateId))}
+          <div class="verification-text">Verifique a autenticidade</div>
+        </div>`
+    : '';
+  
+  const signatureBlocks = template.signatures.map(signature => `
+        <div class="signature">
+          ${signature.imageUrl ? `<img class="signature-image" src="${escapeHtml(signature.imageUrl)}" alt="" />` : ''}
+          <div class="signature-line"></div>
+          <div class="signature-name">${fillPlaceholders(signature.name, values)}</div>
+          <div class="signature-title">${fillPlaceholders(signature.title, values)}</div>
+        </div>`);
+  
+  // O QR code fica entre a primeira assinatura e as demais
+  const footerBlocks = [...signatureBlocks];
+  footerBlocks.splice(Math.min(1, footerBlocks.length), 0, verificationBlock);
+  
+  const backgroundImage = template.backgroundImageUrl
+    ? `background-image: url("${escapeHtml(template.backgroundImageUrl)}"); background-size: cover; background-position: center;`
+    : '';
   
-  // Template HTML do certificado com design moderno
   return `
   <!DOCTYPE html>
   <html>
   <head>
     <meta charset="UTF-8">
-    <title>Certificado de Conclusão - ${data.courseName}</title>
+    <title>${fillPlaceholders(template.titleText, values)} - ${escapeHtml(data.courseName)}</title>
     <style>
-      @import url('https://fonts.googleapis.com/css2?family=Montserrat:wght@400;500;600;700&display=swap');
+      ${fontImport}
       
       body, html {
         margin: 0;
         padding: 0;
-        font-family: 'Montserrat', sans-serif;
-        color: #333;
+        font-family: '${font.value}', sans-serif;
+        color: ${textColor};
         background-color: #f9f9f9;
       }
       
@@ -504,7 +620,8 @@ const createCertificateTemplate = (data: {
         width: 800px;
         height: 600px;
         margin: 0 auto;
-        background-color: white;
+        background-color: ${backgroundColor};
+        ${backgroundImage}
         box-shadow: 0 0 20px rgba(0,0,0,0.1);
         padding: 40px;
         box-sizing: border-box;
@@ -514,35 +631,40 @@ const createCertificateTemplate = (data: {
       
       .certificate-header {
         text-align: center;
-        border-bottom: 2px solid #3b82f6;
+        border-bottom: 2px solid ${primaryColor};
         padding-bottom: 20px;
-        margin-bottom: 40px;
+        margin-bottom: 30px;
+      }
+      
+      .certificate-logo {
+        max-height: 50px;
+        max-width: 200px;
+        margin-bottom: 10px;
       }
       
       .certificate-title {
         font-size: 32px;
         font-weight: 700;
         margin: 0;
-        color: #3b82f6;
+        color: ${primaryColor};
         text-transform: uppercase;
       }
       
       .certificate-subtitle {
         font-size: 18px;
         margin-top: 10px;
-        color: #666;
+        opacity: 0.8;
       }
       
       .certificate-content {
         text-align: center;
-        margin-bottom: 40px;
+        margin-bottom: 30px;
       }
       
       .student-name {
         font-size: 28px;
         font-weight: 600;
-        margin: 20px 0;
-        color: #333;
+        margin: 10px 0 20px;
         border-bottom: 1px solid #ddd;
         display: inline-block;
         padding-bottom: 5px;
@@ -552,20 +674,18 @@ const createCertificateTemplate = (data: {
       .certificate-text {
         font-size: 16px;
         line-height: 1.6;
-        margin: 20px 0;
+        margin: 10px 0;
       }
       
-      .course-name {
-        font-size: 20px;
-        font-weight: 600;
-        color: #3b82f6;
-        margin: 15px 0;
+      .certificate-text strong {
+        color: ${primaryColor};
       }
       
       .certificate-footer {
         display: flex;
         justify-content: space-between;
-        margin-top: 60px;
+        align-items: flex-end;
+        margin-top: 40px;
         border-top: 1px solid #ddd;
         padding-top: 20px;
       }
@@ -575,10 +695,17 @@ const createCertificateTemplate = (data: {
         width: 200px;
       }
       
+      .signature-image {
+        max-height: 40px;
+        max-width: 160px;
+        display: block;
+        margin: 0 auto 2px;
+      }
+      
       .signature-line {
         width: 100%;
         height: 1px;
-        background-color: #333;
+        background-color: ${textColor};
         margin-bottom: 5px;
       }
       
@@ -588,7 +715,22 @@ const createCertificateTemplate = (data: {
       
       .signature-title {
         font-size: 12px;
-        color: #666;
+        opacity: 0.8;
+      }
+      
+      .certificate-verification {
+        text-align: center;
+      }
+      
+      .certificate-verification svg {
+        display: block;
+        margin: 0 auto;
+      }
+      
+      .verification-text {
+        font-size: 10px;
+        opacity: 0.8;
+        margin-top: 2px;
       }
       
       .certificate-seal {
@@ -597,7 +739,7 @@ const createCertificateTemplate = (data: {
         right: 40px;
         width: 100px;
         height: 100px;
-        background: linear-gradient(135deg, #3b82f6, #60a5fa);
+        background: ${primaryColor};
         border-radius: 50%;
         display: flex;
         align-items: center;
@@ -618,7 +760,7 @@ const createCertificateTemplate = (data: {
         bottom: 20px;
         left: 40px;
         font-size: 12px;
-        color: #666;
+        opacity: 0.8;
       }
       
       @media print {
@@ -635,37 +777,21 @@ const createCertificateTemplate = (data: {
   <body>
     <div class="certificate-container">
       <div class="certificate-header">
-        <h1 class="certificate-title">Certificado de Conclusão</h1>
-        <p class="certificate-subtitle">Este documento certifica que</p>
+        ${template.logoUrl ? `<img class="certificate-logo" src="${escapeHtml(template.logoUrl)}" alt="" />` : ''}
+        <h1 class="certificate-title">${fillPlaceholders(template.titleText, values)}</h1>
+        <p class="certificate-subtitle">${fillPlaceholders(template.introText, values)}</p>
       </div>
       
       <div class="certificate-content">
-        <div class="student-name">${data.userName}</div>
+        <div class="student-name">${escapeHtml(data.userName)}</div>
         
         <p class="certificate-text">
-          concluiu com sucesso o curso intitulado
-        </p>
-        
-        <div class="course-name">${data.courseName}</div>
-        
-        <p class="certificate-text">
-          com carga horária total de <strong>${data.courseHours} horas</strong>, 
-          tendo demonstrado dedicação e conhecimento em todos os módulos propostos.
+          ${fillPlaceholders(template.bodyText, values, true).replace(/\n/g, '<br />')}
         </p>
       </div>
       
       <div class="certificate-footer">
-        <div class="signature">
-          <div class="signature-line"></div>
-          <div class="signature-name">Diretor de Ensino</div>
-          <div class="signature-title">Plataforma de Ensino</div>
-        </div>
-        
-        <div class="signature">
-          <div class="signature-line"></div>
-          <div class="signature-name">Coordenador do Curso</div>
-          <div class="signature-title">Plataforma de Ensino</div>
-        </div>
+        ${footerBlocks.join('')}
       </div>
       
       <div class="certificate-seal">
@@ -674,7 +800,7 @@ const createCertificateTemplate = (data: {
       
       <div class="details">
         <div>Data de Emissão: ${formattedDate}</div>
-        <div>Registro: ${registrationNumber}</div>
+        ${registrationLine}
       </div>
     </div>
   </body>
@@ -717,8 +843,43 @@ const getCertificateById = async (certificateId: string): Promise<Certificate> =
   }
 };
 
+// Quantidade de IDs por consulta em getCertificatesByIds
+const CERTIFICATE_IDS_BATCH_SIZE = 100;
+
+/**
+ * Busca vários certificados completos (com HTML e modelo), usado na exportação em lote
+ * @param certificateIds IDs dos certificados
+ * @returns Certificados encontrados, na ordem dos IDs informados
+ */
+const getCertificatesByIds = async (certificateIds: string[]): Promise<Certificate[]> => {
+  if (certificateIds.length === 0) return [];
+
+  // Os IDs vão na URL da consulta: buscar em lotes para não ultrapassar o limite de tamanho da URL
+  const certificates: Certificate[] = [];
+  for (let start = 0; start < certificateIds.length; start += CERTIFICATE_IDS_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('certificates')
+      .select('*')
+      .in('id', certificateIds.slice(start, start + CERTIFICATE_IDS_BATCH_SIZE));
+
+    if (error) {
+      console.error('Erro ao buscar certificados por ID:', error);
+      throw new Error('Falha ao buscar certificados');
+    }
+
+    certificates.push(...((data || []) as unknown as CertificateDB[]).map(mapToCertificate));
+  }
+
+  const certificatesById = new Map(certificates.map(certificate => [certificate.id, certificate]));
+  return certificateIds
+    .map(id => certificatesById.get(id))
+    .filter((certificate): certificate is Certificate => Boolean(certificate));
+};
+
 /**
  * Atualiza um certificado existente
+ * Nome do aluno, curso, carga horária e data de emissão não são alterados aqui:
+ * a correção desses dados é feita pela reemissão (reissueCertificate), que preserva o original
  * @param certificateId ID do certificado a ser atualizado
  * @param certificateData Dados atualizados do certificado
  * @returns O certificado atualizado
@@ -726,23 +887,42 @@ const getCertificateById = async (certificateId: string): Promise<Certificate> =
 const updateCertificate = async (certificateId: string, certificateData: Partial<CreateCertificateData>): Promise<Certificate> => {
   try {
     if (!certificateId) {
-      throw new Error('ID do certificado u00e9 obrigatu00f3rio');
+      throw new Error('ID do certificado é obrigatório');
     }
 
     // Verificar se o certificado existe
-    await getCertificateById(certificateId);
+    const current = await getCertificateById(certificateId);
+
+    if (current.revokedAt) {
+      throw new Error('Certificados revogados não podem ser alterados');
+    }
+
+    const changesIssuedData =
+      (certificateData.userName !== undefined && certificateData.userName !== current.userName) ||
+      (certificateData.courseName !== undefined && certificateData.courseName !== current.courseName) ||
+      (certificateData.courseHours !== undefined && certificateData.courseHours !== current.courseHours) ||
+      (certificateData.issueDate !== undefined &&
+        new Date(certificateData.issueDate).getTime() !== new Date(current.issueDate).getTime());
+
+    if (changesIssuedData) {
+      throw new Error('Os dados emitidos não podem ser alterados. Reemita o certificado com os dados corrigidos.');
+    }
+
+    if (
+      certificateData.expiryDate !== undefined &&
+      new Date(certificateData.expiryDate).getTime() !== new Date(current.expiryDate ?? 0).getTime()
+    ) {
+      throw new Error('A validade do certificado só muda pela recertificação do curso.');
+    }
     
-    // Preparar dados para atualizau00e7u00e3o
+    // Preparar dados para atualização
     const updateData: Record<string, any> = {};
     
-    if (certificateData.userName) updateData.user_name = certificateData.userName;
-    if (certificateData.courseName) updateData.course_name = certificateData.courseName;
-    if (certificateData.issueDate) updateData.issue_date = certificateData.issueDate;
-    if (certificateData.expiryDate) updateData.expiry_date = certificateData.expiryDate;
     if (certificateData.certificateUrl) updateData.certificate_url = certificateData.certificateUrl;
     
-    // Nu00e3o permitir alterar o usu00e1rio ou curso associado ao certificado
-    // Isso evita inconsistenciu00e3cias nos dados
+    if (Object.keys(updateData).length === 0) {
+      return current;
+    }
     
     const { data, error } = await supabase
       .from('certificates')
@@ -754,6 +934,7 @@ const updateCertificate = async (certificateId: string, certificateData: Partial
     if (error) throw error;
     if (!data) throw new Error('Falha ao atualizar certificado');
 
+    certificatesCache.clear();
     return mapToCertificate(data);
   } catch (error) {
     console.error('Error updating certificate:', error);
@@ -765,24 +946,22 @@ const updateCertificate = async (certificateId: string, certificateData: Partial
 
 /**
  * Exclui um certificado
+ * Certificados emitidos não são apagados: a exclusão revoga o certificado, que continua
+ * no histórico e aparece como revogado na verificação pública
  * @param certificateId ID do certificado a ser excluído
- * @returns Booleano indicando sucesso da operau00e7u00e3o
+ * @param reason Motivo registrado na revogação
+ * @returns Booleano indicando sucesso da operação
  */
-const deleteCertificate = async (certificateId: string): Promise<boolean> => {
+const deleteCertificate = async (
+  certificateId: string,
+  reason: string = 'Certificado excluído pela administração'
+): Promise<boolean> => {
   try {
     if (!certificateId) {
-      throw new Error('ID do certificado u00e9 obrigatu00f3rio');
+      throw new Error('ID do certificado é obrigatório');
     }
 
-    // Verificar se o certificado existe
-    await getCertificateById(certificateId);
-    
-    const { error } = await supabase
-      .from('certificates')
-      .delete()
-      .eq('id', certificateId);
-
-    if (error) throw error;
+    await revokeCertificate(certificateId, reason);
     
     return true;
   } catch (error) {
@@ -793,6 +972,348 @@ const deleteCertificate = async (certificateId: string): Promise<boolean> => {
   }
 };
 
+/**
+ * Reemite um certificado com dados corrigidos (somente administradores)
+ * O original é revogado e passa a apontar para o novo, que mantém o modelo do original
+ * @param certificateId ID do certificado original
+ * @param correctedData Dados corrigidos
+ * @param reason Motivo da reemissão, registrado no histórico e na revogação do original
+ * @returns O novo certificado
+ */
+const reissueCertificate = async (
+  certificateId: string,
+  correctedData: ReissueCertificateData,
+  reason: string
+): Promise<Certificate> => {
+  if (!certificateId) throw new Error('ID do certificado é obrigatório');
+  if (!reason?.trim()) throw new Error('Informe o motivo da reemissão');
+
+  const original = await getCertificateById(certificateId);
+
+  if (original.supersededById) {
+    throw new Error('Este certificado já foi substituído por outro');
+  }
+
+  const newCertificateId = crypto.randomUUID();
+  const userName = correctedData.userName?.trim() || original.userName;
+  const courseName = correctedData.courseName?.trim() || original.courseName;
+  const courseHours = correctedData.courseHours || original.courseHours || 40;
+  // Certificados de trilha não têm curso: sem cópia do modelo, usam o modelo padrão
+  const template = original.templateSnapshot
+    || (original.courseId
+      ? await certificateTemplateService.getTemplateForCourse(original.courseId)
+      : DEFAULT_CERTIFICATE_TEMPLATE);
+
+  const certificateHtml = createCertificateTemplate({
+    certificateId: newCertificateId,
+    serialNumber: SERIAL_NUMBER_PLACEHOLDER,
+    userName,
+    courseName,
+    courseHours,
+    issueDate: new Date().toISOString()
+  }, template);
+
+  const { error } = await supabase.rpc('reissue_certificate', {
+    p_certificate_id: certificateId,
+    p_new_certificate_id: newCertificateId,
+    p_reason: reason.trim(),
+    p_user_name: userName,
+    p_course_name: courseName,
+    p_course_hours: courseHours,
+    p_certificate_html: certificateHtml
+  });
+
+  if (error) {
+    console.error('Erro ao reemitir certificado:', error);
+    throw new Error(error.message || 'Falha ao reemitir certificado');
+  }
+
+  // Limpar o cache para que as listagens mostrem o original como substituído
+  certificatesCache.clear();
+
+  return getCertificateById(newCertificateId);
+};
+
+/**
+ * Histórico de alterações do certificado, incluindo o original e a reemissão ligados a ele
+ * @param certificate Certificado consultado
+ * @returns Registros do histórico em ordem cronológica
+ */
+const getCertificateHistory = async (certificate: Certificate): Promise<CertificateAuditEntry[]> => {
+  const certificateIds = [certificate.id, certificate.supersedesId, certificate.supersededById]
+    .filter((id): id is string => Boolean(id));
+
+  const { data, error } = await supabase
+    .from('certificate_audit_log')
+    .select('id, certificate_id, action, changed_by, changes, reason, created_at')
+    .in('certificate_id', certificateIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Erro ao buscar histórico do certificado:', error);
+    throw new Error('Falha ao buscar histórico do certificado');
+  }
+
+  const entries = (data || []) as unknown as CertificateAuditLogDB[];
+
+  // Nomes de quem fez as alterações (alterações automáticas não têm autor)
+  const userIds = [...new Set(entries.map(entry => entry.changed_by).filter(Boolean))];
+  const userNames = new Map<string, string>();
+
+  if (userIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, name')
+      .in('id', userIds);
+
+    if (profilesError) {
+      console.error('Erro ao buscar autores do histórico:', profilesError);
+    }
+
+    ((profiles || []) as unknown as { id: string; name: string }[])
+      .forEach(profile => userNames.set(profile.id, profile.name));
+  }
+
+  return entries.map(entry => ({
+    id: entry.id,
+    certificateId: entry.certificate_id,
+    action: entry.action,
+    changedBy: entry.changed_by ?? undefined,
+    changedByName: entry.changed_by ? userNames.get(entry.changed_by) : undefined,
+    changes: entry.changes || {},
+    reason: entry.reason ?? undefined,
+    createdAt: entry.created_at
+  }));
+};
+
+/**
+ * Inicia a recertificação do curso: a conclusão das aulas é zerada para que o aluno refaça o curso
+ * e, ao concluir, o certificado é renovado com nova validade
+ * @param courseId ID do curso
+ */
+const startRecertification = async (courseId: string): Promise<void> => {
+  if (!courseId) throw new Error('ID do curso é obrigatório');
+
+  const { error } = await supabase.rpc('start_recertification', {
+    p_course_id: courseId
+  });
+
+  if (error) {
+    console.error('Erro ao iniciar recertificação:', error);
+    throw new Error(error.message || 'Falha ao iniciar recertificação');
+  }
+
+  certificatesCache.clear();
+};
+
+/**
+ * Renova o certificado do aluno logado após a recertificação
+ * @param courseId ID do curso
+ * @returns O novo certificado, ou null se não há recertificação concluída
+ */
+const renewCertificate = async (courseId: string): Promise<Certificate | null> => {
+  const { data, error } = await supabase.rpc('renew_certificate', {
+    p_course_id: courseId
+  });
+
+  if (error) {
+    console.error('Erro ao renovar certificado:', error);
+    return null;
+  }
+
+  if (!data) return null;
+
+  certificatesCache.clear();
+  return getCertificateById(data as string);
+};
+
+/**
+ * Emite os certificados pendentes do aluno logado: cursos concluídos cujas regras só foram
+ * cumpridas depois da conclusão (ex.: período de carência)
+ * @returns IDs dos certificados emitidos
+ */
+const issuePendingCertificates = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('issue_pending_certificates');
+
+  if (error) {
+    console.error('Erro ao emitir certificados pendentes:', error);
+    throw new Error(error.message || 'Falha ao emitir certificados pendentes');
+  }
+
+  const issuedIds = (Array.isArray(data) ? data : []) as unknown as string[];
+  if (issuedIds.length > 0) certificatesCache.clear();
+  return issuedIds;
+};
+
+/**
+ * Emite (ou retorna o já emitido) certificado de conclusão de uma trilha para o aluno autenticado
+ * A conclusão de todos os cursos da trilha é conferida pelo banco
+ * @param learningPathId ID da trilha
+ * @returns O certificado da trilha
+ */
+const generateLearningPathCertificate = async (learningPathId: string): Promise<Certificate> => {
+  const { data, error } = await supabase.rpc('generate_learning_path_certificate', {
+    p_learning_path_id: learningPathId
+  });
+
+  if (error) {
+    console.error('Erro ao gerar certificado da trilha:', error);
+    throw new Error(error.message || 'Falha ao gerar certificado da trilha');
+  }
+
+  certificatesCache.clear();
+  return getCertificateById(data as string);
+};
+
+/**
+ * Relatório de certificados válidos que expiram nos próximos dias (somente administradores)
+ * @param days Quantidade de dias a partir de hoje
+ * @returns Certificados ordenados pela data de expiração
+ */
+const getExpiringCertificates = async (days: number): Promise<Certificate[]> => {
+  const now = new Date();
+  const limit = new Date(now.getTime() + days * DAY_IN_MS);
+
+  const { data, error } = await supabase
+    .from('certificates')
+    .select('id, user_id, course_id, course_name, user_name, issue_date, expiry_date, serial_number, revoked_at, supersedes_id, superseded_by_id')
+    .is('revoked_at', null)
+    .gt('expiry_date', now.toISOString())
+    .lte('expiry_date', limit.toISOString())
+    .order('expiry_date', { ascending: true });
+
+  if (error) {
+    console.error('Erro ao buscar certificados a expirar:', error);
+    throw new Error('Falha ao buscar certificados a expirar');
+  }
+
+  return ((data || []) as unknown as CertificateDB[]).map(mapToCertificate);
+};
+
+// Linha retornada pela função verify_certificate
+interface CertificateVerificationRow {
+  is_valid: boolean;
+  found: boolean;
+  signature_valid: boolean;
+  serial_number: string | null;
+  course_name: string | null;
+  user_name: string | null;
+  course_hours: number | null;
+  issue_date: string | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  superseded_by_id: string | null;
+  expiry_date: string | null;
+}
+
+/**
+ * Verifica publicamente a autenticidade de um certificado
+ * Usa a função verify_certificate, que pode ser chamada sem login e confere a assinatura
+ * dos campos canônicos (aluno, curso, carga horária e data de emissão), a revogação e a validade
+ * @param certificateId ID do certificado
+ * @returns Resultado da verificação
+ */
+const verifyCertificate = async (certificateId: string): Promise<CertificateVerification> => {
+  // IDs que não são UUID (ex.: certificados virtuais) nunca existem no banco
+  const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!certificateId || !uuidPattern.test(certificateId)) {
+    return { certificateId, isValid: false, status: 'not_found' };
+  }
+  
+  const { data, error } = await supabase.rpc('verify_certificate', {
+    p_certificate_id: certificateId
+  });
+  
+  if (error) {
+    console.error('Erro ao verificar certificado:', error);
+    throw new Error('Falha ao verificar certificado');
+  }
+  
+  const row = (Array.isArray(data) ? data[0] : data) as CertificateVerificationRow | undefined;
+  
+  if (!row || !row.found) {
+    return { certificateId, isValid: false, status: 'not_found' };
+  }
+  
+  // Alteração após a emissão tem precedência: os dados exibidos não são confiáveis
+  const status: CertificateVerification['status'] = !row.signature_valid
+    ? 'tampered'
+    : getCertificateStatus({
+      revokedAt: row.revoked_at ?? undefined,
+      supersededById: row.superseded_by_id ?? undefined,
+      expiryDate: row.expiry_date ?? undefined
+    });
+  
+  return {
+    certificateId,
+    isValid: status === 'valid' && row.is_valid,
+    status,
+    serialNumber: row.serial_number ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+    revocationReason: row.revocation_reason ?? undefined,
+    supersededById: row.superseded_by_id ?? undefined,
+    expiryDate: row.expiry_date ?? undefined,
+    userName: row.user_name ?? undefined,
+    courseName: row.course_name ?? undefined,
+    courseHours: row.course_hours ?? undefined,
+    issueDate: row.issue_date ?? undefined
+  };
+};
+
+/**
+ * Revoga um certificado (somente administradores); a revogação é definitiva
+ * @param certificateId ID do certificado
+ * @param reason Motivo exibido na página de verificação
+ */
+const revokeCertificate = async (certificateId: string, reason: string): Promise<void> => {
+  if (!certificateId) throw new Error('ID do certificado é obrigatório');
+  if (!reason?.trim()) throw new Error('Informe o motivo da revogação');
+
+  const { error } = await supabase.rpc('revoke_certificate', {
+    p_certificate_id: certificateId,
+    p_reason: reason.trim()
+  });
+
+  if (error) {
+    console.error('Erro ao revogar certificado:', error);
+    throw new Error(error.message || 'Falha ao revogar certificado');
+  }
+
+  // Limpar o cache para que as listagens mostrem o novo status
+  certificatesCache.clear();
+};
+
+/**
+ * Avalia as regras de certificado do curso para um aluno
+ * As regras são avaliadas no banco por evaluate_certificate_rules, a mesma função usada
+ * por check_certificate_eligibility e pela geração automática de certificados
+ * @param userId ID do usuário
+ * @param courseId ID do curso
+ * @returns Resultado de cada regra e se todas foram cumpridas
+ */
+const getCertificateEligibility = async (userId: string, courseId: string): Promise<CertificateEligibility> => {
+  if (!userId || !courseId) {
+    throw new Error('ID do curso e ID do usuário são obrigatórios');
+  }
+  
+  const { data, error } = await supabase.rpc('evaluate_certificate_rules', {
+    p_user_id: userId,
+    p_course_id: courseId
+  });
+  
+  if (error) {
+    console.error('Erro ao avaliar regras do certificado:', error);
+    throw new Error('Falha ao verificar os requisitos do certificado');
+  }
+  
+  const rules = (Array.isArray(data) ? data : []).map(mapCertificateRuleResult);
+  
+  return {
+    eligible: rules.length > 0 && rules.every(rule => rule.met),
+    rules
+  };
+};
+
 /**
  * Verifica se um aluno completou um curso e é elegível para receber um certificado
  * @param userId ID do usuário
@@ -807,32 +1328,14 @@ const isEligibleForCertificate = async (userId: string, courseId: string): Promi
     
     // Verificar primeiro se já existe um certificado para evitar erros de duplicidade
     const existingCerts = await getCertificates(userId, courseId);
-    if (existingCerts.length > 0) {
+    if (findCurrentCertificate(existingCerts)) {
       // Já tem certificado, então é elegível (já que já recebeu um)
       return true;
     }
     
-    // Verificar o progresso no curso
-    const { data, error } = await supabase
-      .from('enrollments')
-      .select('progress, completed_at')
-      .eq('user_id', userId)
-      .eq('course_id', courseId)
-      .single();
-    
-    if (error) {
-      console.error('Erro ao verificar matrícula:', error);
-      return false;
-    }
-    
-    if (!data) {
-      console.error('Matrícula não encontrada');
-      return false;
-    }
-    
-        // Considerar elegível se o progresso for 100% (curso completamente concluído)
-    // Não depender do campo completed_at, pois ele pode não estar sendo preenchido corretamente
-    return data.progress === 100;
+    // Verificar as regras do curso (conclusão, questionários, tempo assistido, carência)
+    const eligibility = await getCertificateEligibility(userId, courseId);
+    return eligibility.eligible;
   } catch (error) {
     console.error('Erro ao verificar elegibilidade para certificado:', error);
     return false;
@@ -845,10 +1348,25 @@ const isEligibleForCertificate = async (userId: string, courseId: string): Promi
 export const certificateService = {
   getCertificates,
   getCertificateById,
+  getCertificatesByIds,
   createCertificate,
   generateCertificate,
   updateCertificate,
   deleteCertificate,
+  reissueCertificate,
+  getCertificateHistory,
+  getCertificateStatus,
+  findCurrentCertificate,
+  isDueForRenewal,
+  startRecertification,
+  renewCertificate,
+  issuePendingCertificates,
+  getExpiringCertificates,
+  generateLearningPathCertificate,
   isEligibleForCertificate,
+  getCertificateEligibility,
+  verifyCertificate,
+  revokeCertificate,
+  getVerificationUrl,
   createCertificateTemplate
 };
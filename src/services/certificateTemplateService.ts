@@ -0,0 +1,232 @@
+import { CertificateSignature, CertificateTemplate, CertificateTemplateData } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Interface para os modelos de certificado no banco de dados
+ * (também é o formato salvo em certificates.template_snapshot)
+ */
+export interface CertificateTemplateDB {
+  id: string;
+  name: string;
+  title_text: string;
+  intro_text: string;
+  body_text: string;
+  background_image_url?: string | null;
+  logo_url?: string | null;
+  signatures: { name: string; title: string; image_url?: string | null }[] | null;
+  primary_color: string;
+  text_color: string;
+  background_color: string;
+  font_family: string;
+  version: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+const TEMPLATE_COLUMNS = 'id, name, title_text, intro_text, body_text, background_image_url, logo_url, signatures, primary_color, text_color, background_color, font_family, version, created_at, updated_at';
+
+// Fontes disponíveis no designer; as do Google Fonts são importadas no HTML do certificado
+// e `serif` escolhe a família equivalente usada no PDF
+export const CERTIFICATE_FONTS: { value: string; label: string; googleFont: boolean; serif: boolean }[] = [
+  { value: 'Montserrat', label: 'Montserrat', googleFont: true, serif: false },
+  { value: 'Playfair Display', label: 'Playfair Display', googleFont: true, serif: true },
+  { value: 'Georgia', label: 'Georgia', googleFont: false, serif: true },
+  { value: 'Times New Roman', label: 'Times New Roman', googleFont: false, serif: true },
+  { value: 'Arial', label: 'Arial', googleFont: false, serif: false }
+];
+
+// Modelo usado pelos cursos sem modelo atribuído (layout original da plataforma)
+export const DEFAULT_CERTIFICATE_TEMPLATE: CertificateTemplate = {
+  id: 'default',
+  name: 'Padrão',
+  titleText: 'Certificado de Conclusão',
+  introText: 'Este documento certifica que',
+  bodyText: 'concluiu com sucesso o curso intitulado {{courseName}}, com carga horária total de {{courseHours}} horas, tendo demonstrado dedicação e conhecimento em todos os módulos propostos.',
+  signatures: [
+    { name: 'Diretor de Ensino', title: 'Plataforma de Ensino' },
+    { name: 'Coordenador do Curso', title: 'Plataforma de Ensino' }
+  ],
+  primaryColor: '#3b82f6',
+  textColor: '#333333',
+  backgroundColor: '#ffffff',
+  fontFamily: 'Montserrat',
+  version: 0
+};
+
+const mapSignatures = (signatures: CertificateTemplateDB['signatures']): CertificateSignature[] =>
+  (Array.isArray(signatures) ? signatures : []).map(signature => ({
+    name: signature.name || '',
+    title: signature.title || '',
+    imageUrl: signature.image_url || undefined
+  }));
+
+// Converte a linha do banco (ou a cópia salva no certificado) para o formato da aplicação
+const mapTemplateData = (data: CertificateTemplateDB): CertificateTemplate => ({
+  id: data.id,
+  name: data.name,
+  titleText: data.title_text,
+  introText: data.intro_text,
+  bodyText: data.body_text,
+  backgroundImageUrl: data.background_image_url || undefined,
+  logoUrl: data.logo_url || undefined,
+  signatures: mapSignatures(data.signatures),
+  primaryColor: data.primary_color,
+  textColor: data.text_color,
+  backgroundColor: data.background_color,
+  fontFamily: data.font_family,
+  version: data.version,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at
+});
+
+const toTemplateRow = (template: CertificateTemplateData) => ({
+  name: template.name.trim(),
+  title_text: template.titleText.trim(),
+  intro_text: template.introText.trim(),
+  body_text: template.bodyText.trim(),
+  background_image_url: template.backgroundImageUrl?.trim() || null,
+  logo_url: template.logoUrl?.trim() || null,
+  signatures: template.signatures
+    .filter(signature => signature.name.trim())
+    .map(signature => ({
+      name: signature.name.trim(),
+      title: signature.title.trim(),
+      image_url: signature.imageUrl?.trim() || null
+    })),
+  primary_color: template.primaryColor,
+  text_color: template.textColor,
+  background_color: template.backgroundColor,
+  font_family: template.fontFamily
+});
+
+const validateTemplate = (template: CertificateTemplateData) => {
+  if (!template.name?.trim()) throw new Error('Nome do modelo é obrigatório');
+  if (!template.titleText?.trim()) throw new Error('Título do certificado é obrigatório');
+  if (!template.bodyText?.trim()) throw new Error('Texto do certificado é obrigatório');
+  if (template.signatures.length > 3) throw new Error('O certificado comporta no máximo 3 assinaturas');
+};
+
+export const certificateTemplateService = {
+  mapTemplateData,
+
+  /**
+   * Cópia do modelo salva no certificado no momento da emissão
+   */
+  createSnapshot(template: CertificateTemplate): CertificateTemplateDB {
+    return {
+      id: template.id,
+      version: template.version,
+      ...toTemplateRow(template)
+    };
+  },
+
+  async getTemplates(): Promise<CertificateTemplate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('certificate_templates')
+        .select(TEMPLATE_COLUMNS)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as CertificateTemplateDB[]).map(mapTemplateData);
+    } catch (error) {
+      console.error('Erro ao buscar modelos de certificado:', error);
+      throw new Error('Falha ao buscar modelos de certificado');
+    }
+  },
+
+  async getTemplateById(templateId: string): Promise<CertificateTemplate | null> {
+    if (!templateId) throw new Error('ID do modelo é obrigatório');
+
+    const { data, error } = await supabase
+      .from('certificate_templates')
+      .select(TEMPLATE_COLUMNS)
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Erro ao buscar modelo de certificado:', error);
+      throw new Error('Falha ao buscar modelo de certificado');
+    }
+
+    return data ? mapTemplateData(data as unknown as CertificateTemplateDB) : null;
+  },
+
+  /**
+   * Modelo atribuído ao curso; usa o modelo padrão quando não há modelo ou a busca falha
+   */
+  async getTemplateForCourse(courseId: string): Promise<CertificateTemplate> {
+    try {
+      const { data: course, error } = await supabase
+        .from('courses')
+        .select('certificate_template_id')
+        .eq('id', courseId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const templateId = (course as { certificate_template_id?: string | null } | null)?.certificate_template_id;
+      if (!templateId) return DEFAULT_CERTIFICATE_TEMPLATE;
+
+      return (await this.getTemplateById(templateId)) || DEFAULT_CERTIFICATE_TEMPLATE;
+    } catch (error) {
+      console.error('Erro ao buscar modelo de certificado do curso, usando o modelo padrão:', error);
+      return DEFAULT_CERTIFICATE_TEMPLATE;
+    }
+  },
+
+  async createTemplate(template: CertificateTemplateData): Promise<CertificateTemplate> {
+    validateTemplate(template);
+
+    const { data, error } = await supabase
+      .from('certificate_templates')
+      .insert(toTemplateRow(template))
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Erro ao criar modelo de certificado:', error);
+      throw new Error('Falha ao criar modelo de certificado');
+    }
+
+    return mapTemplateData(data as unknown as CertificateTemplateDB);
+  },
+
+  /**
+   * Atualiza um modelo; o banco incrementa a versão e os certificados já emitidos
+   * continuam usando a cópia do modelo salva na emissão
+   */
+  async updateTemplate(templateId: string, template: CertificateTemplateData): Promise<CertificateTemplate> {
+    if (!templateId) throw new Error('ID do modelo é obrigatório');
+    validateTemplate(template);
+
+    const { data, error } = await supabase
+      .from('certificate_templates')
+      .update(toTemplateRow(template))
+      .eq('id', templateId)
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Erro ao atualizar modelo de certificado:', error);
+      throw new Error('Falha ao atualizar modelo de certificado');
+    }
+
+    return mapTemplateData(data as unknown as CertificateTemplateDB);
+  },
+
+  async deleteTemplate(templateId: string): Promise<void> {
+    if (!templateId) throw new Error('ID do modelo é obrigatório');
+
+    const { error } = await supabase
+      .from('certificate_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Erro ao excluir modelo de certificado:', error);
+      throw new Error('Falha ao excluir modelo de certificado');
+    }
+  }
+};
@@ -0,0 +1,84 @@
+import { LessonEngagement } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+import { ExportDataset } from './dataExportService';
+import { findMostStalledLesson, formatEngagementInterval, getCompletionRate } from '@/utils/courseEngagement';
+
+/**
+ * Interface para as linhas retornadas por get_course_engagement_report
+ */
+interface LessonEngagementRow {
+  module_id: string;
+  module_title: string;
+  module_order: number;
+  lesson_id: string;
+  lesson_title: string;
+  lesson_order: number;
+  lesson_position: number;
+  enrolled_count: number;
+  completed_count: number;
+  median_interval_seconds: number | string | null;
+  stalled_count: number;
+}
+
+export const courseEngagementService = {
+  /**
+   * Relatório de engajamento do curso: uma linha por aula, na ordem de módulos e aulas (somente administradores)
+   */
+  async getReport(courseId: string): Promise<LessonEngagement[]> {
+    if (!courseId) throw new Error('ID do curso é obrigatório');
+
+    const { data, error } = await supabase.rpc('get_course_engagement_report', { p_course_id: courseId });
+
+    if (error) {
+      console.error('Erro ao buscar relatório de engajamento:', error);
+      throw new Error(error.message || 'Falha ao buscar relatório de engajamento');
+    }
+
+    return ((data || []) as unknown as LessonEngagementRow[]).map(row => ({
+      moduleId: row.module_id,
+      moduleTitle: row.module_title,
+      moduleOrder: row.module_order,
+      lessonId: row.lesson_id,
+      lessonTitle: row.lesson_title,
+      lessonOrder: row.lesson_order,
+      position: row.lesson_position,
+      enrolledCount: row.enrolled_count,
+      completedCount: row.completed_count,
+      // NUMERIC chega como texto pelo PostgREST
+      medianIntervalSeconds: row.median_interval_seconds === null ? null : Number(row.median_interval_seconds),
+      stalledCount: row.stalled_count
+    }));
+  },
+
+  /**
+   * Relatório já carregado como conjunto de dados para a exportação CSV/XLSX
+   */
+  getReportDataset(courseTitle: string, lessons: LessonEngagement[]): ExportDataset<LessonEngagement> {
+    const mostStalled = findMostStalledLesson(lessons);
+
+    return {
+      name: `Engajamento ${courseTitle}`,
+      columns: [
+        { key: 'module', label: 'Módulo', value: lesson => lesson.moduleTitle },
+        { key: 'lesson', label: 'Aula', value: lesson => lesson.lessonTitle },
+        { key: 'position', label: 'Posição', value: lesson => lesson.position },
+        { key: 'enrolled', label: 'Alunos matriculados', value: lesson => lesson.enrolledCount },
+        { key: 'completed', label: 'Concluíram', value: lesson => lesson.completedCount },
+        { key: 'completion_rate', label: 'Taxa de conclusão (%)', value: lesson => getCompletionRate(lesson) },
+        {
+          key: 'median_interval',
+          label: 'Tempo mediano desde a conclusão anterior',
+          value: lesson => formatEngagementInterval(lesson.medianIntervalSeconds)
+        },
+        { key: 'median_seconds', label: 'Tempo mediano (segundos)', value: lesson => lesson.medianIntervalSeconds },
+        { key: 'stalled', label: 'Alunos travados nesta aula', value: lesson => lesson.stalledCount },
+        {
+          key: 'most_stalled',
+          label: 'Aula com mais alunos travados',
+          value: lesson => (mostStalled?.lessonId === lesson.lessonId ? 'Sim' : '')
+        }
+      ],
+      fetchPage: async (offset, limit) => lessons.slice(offset, offset + limit)
+    };
+  }
+};
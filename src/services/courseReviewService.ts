@@ -0,0 +1,118 @@
+import { CourseReview, CourseReviewEligibility } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Interface para as avaliações retornadas por get_course_reviews
+ */
+interface CourseReviewRow {
+  id: string;
+  course_id: string;
+  user_id: string;
+  author_name: string;
+  rating: number;
+  comment: string;
+  is_hidden: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ReviewEligibilityRow {
+  can_review: boolean;
+  is_enrolled: boolean;
+  progress: number;
+  min_progress: number;
+}
+
+export const courseReviewService = {
+  /**
+   * Avaliações do curso, mais recentes primeiro; as ocultadas só aparecem para administradores e para o autor
+   */
+  async getCourseReviews(courseId: string): Promise<CourseReview[]> {
+    if (!courseId) throw new Error('ID do curso é obrigatório');
+
+    const { data, error } = await supabase.rpc('get_course_reviews', { p_course_id: courseId });
+
+    if (error) {
+      console.error('Erro ao buscar avaliações do curso:', error);
+      throw new Error('Falha ao buscar avaliações do curso');
+    }
+
+    return ((data || []) as unknown as CourseReviewRow[]).map(row => ({
+      id: row.id,
+      courseId: row.course_id,
+      userId: row.user_id,
+      authorName: row.author_name,
+      rating: row.rating,
+      comment: row.comment,
+      isHidden: row.is_hidden,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  },
+
+  async getReviewEligibility(courseId: string): Promise<CourseReviewEligibility> {
+    const { data, error } = await supabase.rpc('get_course_review_eligibility', { p_course_id: courseId });
+
+    if (error) {
+      console.error('Erro ao verificar se o aluno pode avaliar o curso:', error);
+      throw new Error('Falha ao verificar se o aluno pode avaliar o curso');
+    }
+
+    const row = ((data || []) as unknown as ReviewEligibilityRow[])[0];
+    return {
+      canReview: row?.can_review ?? false,
+      isEnrolled: row?.is_enrolled ?? false,
+      progress: row?.progress ?? 0,
+      minProgress: row?.min_progress ?? 0
+    };
+  },
+
+  /**
+   * Cria ou atualiza a avaliação do aluno; a nota média do curso é recalculada no banco
+   */
+  async saveReview(userId: string, courseId: string, rating: number, comment: string): Promise<void> {
+    if (!userId) throw new Error('ID do usuário é obrigatório');
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new Error('A nota deve ser de 1 a 5 estrelas');
+    }
+
+    const { error } = await supabase
+      .from('course_reviews')
+      .upsert(
+        { course_id: courseId, user_id: userId, rating, comment: comment.trim() },
+        { onConflict: 'course_id,user_id' }
+      );
+
+    if (error) {
+      console.error('Erro ao salvar avaliação:', error);
+      throw new Error(error.message || 'Falha ao salvar avaliação');
+    }
+  },
+
+  async deleteReview(reviewId: string): Promise<void> {
+    const { error } = await supabase
+      .from('course_reviews')
+      .delete()
+      .eq('id', reviewId);
+
+    if (error) {
+      console.error('Erro ao excluir avaliação:', error);
+      throw new Error('Falha ao excluir avaliação');
+    }
+  },
+
+  /**
+   * Oculta ou volta a exibir uma avaliação abusiva (somente administradores)
+   */
+  async setReviewHidden(reviewId: string, hidden: boolean): Promise<void> {
+    const { error } = await supabase.rpc('set_course_review_hidden', {
+      p_review_id: reviewId,
+      p_hidden: hidden
+    });
+
+    if (error) {
+      console.error('Erro ao moderar avaliação:', error);
+      throw new Error(error.message || 'Falha ao moderar avaliação');
+    }
+  }
+};
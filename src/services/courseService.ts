@@ -1,6 +1,19 @@
-import { Course, Module, Lesson, CourseForAdmin } from '@/types';
+import { Course, Module, Lesson, CourseForAdmin, CertificateRules, ContentReleaseMode } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
 import { requestQueue } from '@/utils/requestQueue';
+import { CertificateRulesDB, parseCertificateRules, serializeCertificateRules } from '@/utils/certificateRules';
+
+// Colunas de certificado do curso (regras em JSON, modelo atribuído e validade), pré-requisitos
+// e liberação do conteúdo; também as colunas das avaliações
+type CourseCertificateColumns = {
+  certificate_rules?: CertificateRulesDB | null;
+  certificate_template_id?: string | null;
+  certificate_validity_months?: number | null;
+  prerequisite_course_ids?: string[] | null;
+  content_release_mode?: ContentReleaseMode | null;
+  review_count?: number | null;
+  review_min_progress?: number | null;
+};
 
 // Interface para o tipo retornado pelo Supabase na busca aninhada para getCourseById
 interface CourseWithRelationsDB {
@@ -53,7 +66,7 @@ const courseService = {
       const { data, error } = await supabase
         .from('courses')
         .select(
-          'id, title, description, thumbnail, duration, instructor, rating, created_at, updated_at,'
+          'id, title, description, thumbnail, duration, instructor, rating, review_count, review_min_progress, certificate_rules, certificate_template_id, certificate_validity_months, prerequisite_course_ids, content_release_mode, created_at, updated_at,'
           + 'modules(id, title),' // Seleciona apenas o ID e título dos módulos
           + 'enrollments(id)' // Seleciona apenas o ID das matrículas para contagem
         )
@@ -74,7 +87,14 @@ const courseService = {
         thumbnail: course.thumbnail || '/placeholder.svg',
         duration: course.duration || '',
         instructor: course.instructor,
-        rating: course.rating || 0,
+        rating: Number(course.rating) || 0,
+        reviewCount: course.review_count || 0,
+        reviewMinProgress: course.review_min_progress || 0,
+        certificateRules: parseCertificateRules(course.certificate_rules),
+        certificateTemplateId: course.certificate_template_id || null,
+        certificateValidityMonths: course.certificate_validity_months || null,
+        prerequisiteCourseIds: course.prerequisite_course_ids || [],
+        contentReleaseMode: course.content_release_mode || 'free',
         // Mapear módulos e contar
         modules: course.modules ? course.modules.map((mod: { id: string, title: string }) => ({
           id: mod.id,
@@ -102,10 +122,17 @@ const courseService = {
     thumbnail?: string;
     duration?: string;
     instructor: string;
+    certificateRules?: CertificateRules;
+    certificateTemplateId?: string | null;
+    certificateValidityMonths?: number | null;
+    prerequisiteCourseIds?: string[];
+    contentReleaseMode?: ContentReleaseMode;
   }): Promise<Course> {
     if (!courseData?.title?.trim()) throw new Error('Título do curso é obrigatório');
     if (!courseData?.instructor?.trim()) throw new Error('Nome do instrutor é obrigatório');
 
+    const certificateRules = serializeCertificateRules(courseData.certificateRules);
+
     try {
       const { data, error } = await supabase
         .from('courses')
@@ -116,9 +143,14 @@ const courseService = {
           duration: courseData.duration?.trim() || '',
           instructor: courseData.instructor.trim(),
           enrolledcount: 0,
-          rating: 0
+          rating: 0,
+          certificate_rules: certificateRules,
+          certificate_template_id: courseData.certificateTemplateId || null,
+          certificate_validity_months: courseData.certificateValidityMonths || null,
+          prerequisite_course_ids: courseData.prerequisiteCourseIds || [],
+          content_release_mode: courseData.contentReleaseMode || 'free'
         })
-        .select('id, title, description, thumbnail, duration, instructor, enrolledcount, rating, created_at, updated_at')
+        .select('id, title, description, thumbnail, duration, instructor, enrolledcount, rating, certificate_rules, certificate_template_id, certificate_validity_months, prerequisite_course_ids, content_release_mode, created_at, updated_at')
         .single();
 
       if (error) throw error;
@@ -133,6 +165,11 @@ const courseService = {
         instructor: data.instructor,
         enrolledCount: data.enrolledcount || 0,
         rating: data.rating || 0,
+        certificateRules: parseCertificateRules((data as CourseCertificateColumns).certificate_rules),
+        certificateTemplateId: (data as CourseCertificateColumns).certificate_template_id || null,
+        certificateValidityMonths: (data as CourseCertificateColumns).certificate_validity_months || null,
+        prerequisiteCourseIds: (data as CourseCertificateColumns).prerequisite_course_ids || [],
+        contentReleaseMode: (data as CourseCertificateColumns).content_release_mode || 'free',
         modules: [],
         createdAt: data.created_at,
         updatedAt: data.updated_at,
@@ -151,6 +188,11 @@ const courseService = {
     thumbnail?: string;
     duration?: string;
     instructor?: string;
+    certificateRules?: CertificateRules;
+    certificateTemplateId?: string | null;
+    certificateValidityMonths?: number | null;
+    prerequisiteCourseIds?: string[];
+    contentReleaseMode?: ContentReleaseMode;
   }): Promise<void> {
     if (!courseId) throw new Error('ID do curso é obrigatório');
 
@@ -182,6 +224,29 @@ const courseService = {
       updates.instructor = courseData.instructor.trim();
     }
 
+    if (courseData.certificateRules !== undefined) {
+      updates.certificate_rules = serializeCertificateRules(courseData.certificateRules);
+    }
+
+    if (courseData.certificateTemplateId !== undefined) {
+      updates.certificate_template_id = courseData.certificateTemplateId || null;
+    }
+
+    if (courseData.certificateValidityMonths !== undefined) {
+      updates.certificate_validity_months = courseData.certificateValidityMonths || null;
+    }
+
+    if (courseData.prerequisiteCourseIds !== undefined) {
+      if (courseData.prerequisiteCourseIds.includes(courseId)) {
+        throw new Error('Um curso não pode ser pré-requisito de si mesmo');
+      }
+      updates.prerequisite_course_ids = courseData.prerequisiteCourseIds;
+    }
+
+    if (courseData.contentReleaseMode !== undefined) {
+      updates.content_release_mode = courseData.contentReleaseMode;
+    }
+
     try {
       const { error } = await supabase
         .from('courses')
@@ -304,7 +369,14 @@ const courseService = {
         duration: courseData.duration || '',
         instructor: courseData.instructor,
         enrolledCount: enrollmentsData ? enrollmentsData.length : 0,
-        rating: courseData.rating || 0,
+        rating: Number(courseData.rating) || 0,
+        reviewCount: (courseData as CourseCertificateColumns).review_count || 0,
+        reviewMinProgress: (courseData as CourseCertificateColumns).review_min_progress || 0,
+        certificateRules: parseCertificateRules((courseData as CourseCertificateColumns).certificate_rules),
+        certificateTemplateId: (courseData as CourseCertificateColumns).certificate_template_id || null,
+        certificateValidityMonths: (courseData as CourseCertificateColumns).certificate_validity_months || null,
+        prerequisiteCourseIds: (courseData as CourseCertificateColumns).prerequisite_course_ids || [],
+        contentReleaseMode: (courseData as CourseCertificateColumns).content_release_mode || 'free',
         modules: formattedModules,
         createdAt: courseData.created_at,
         updatedAt: courseData.updated_at,
@@ -1,6 +1,7 @@
 
 import { Course } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
+import { parseCertificateRules, serializeCertificateRules } from '@/utils/certificateRules';
 
 /**
  * Create a new course (admin)
@@ -9,6 +10,8 @@ export const createCourse = async (courseData: Omit<Course, 'id' | 'createdAt' |
   try {
     console.log('Creating course with data:', courseData);
     
+    const certificateRules = serializeCertificateRules(courseData.certificateRules);
+    
     const { data, error } = await supabase
       .from('courses')
       .insert({
@@ -18,7 +21,12 @@ export const createCourse = async (courseData: Omit<Course, 'id' | 'createdAt' |
         duration: courseData.duration ? `${courseData.duration} horas` : '',
         instructor: courseData.instructor,
         enrolledcount: courseData.enrolledCount || 0,
-        rating: courseData.rating || 0
+        review_min_progress: courseData.reviewMinProgress || 0,
+        certificate_rules: certificateRules,
+        certificate_template_id: courseData.certificateTemplateId || null,
+        certificate_validity_months: courseData.certificateValidityMonths || null,
+        prerequisite_course_ids: courseData.prerequisiteCourseIds || [],
+        content_release_mode: courseData.contentReleaseMode || 'free'
       })
       .select()
       .single();
@@ -41,7 +49,14 @@ export const createCourse = async (courseData: Omit<Course, 'id' | 'createdAt' |
       duration: data.duration || '',
       instructor: data.instructor,
       enrolledCount: data.enrolledcount || 0,
-      rating: data.rating || 0,
+      rating: 0,
+      reviewCount: 0,
+      reviewMinProgress: courseData.reviewMinProgress || 0,
+      certificateRules: parseCertificateRules(certificateRules),
+      certificateTemplateId: courseData.certificateTemplateId || null,
+      certificateValidityMonths: courseData.certificateValidityMonths || null,
+      prerequisiteCourseIds: courseData.prerequisiteCourseIds || [],
+      contentReleaseMode: courseData.contentReleaseMode || 'free',
       modules: [],
       createdAt: data.created_at,
       updatedAt: data.updated_at,
@@ -69,8 +84,13 @@ export const updateCourse = async (courseId: string, course: Partial<Course>): P
     if (course.thumbnail !== undefined) updateData.thumbnail = course.thumbnail;
     if (course.duration !== undefined) updateData.duration = course.duration ? `${course.duration} horas` : '';
     if (course.instructor !== undefined) updateData.instructor = course.instructor;
-    if (course.rating !== undefined) updateData.rating = course.rating;
+    if (course.reviewMinProgress !== undefined) updateData.review_min_progress = course.reviewMinProgress;
     if (course.enrolledCount !== undefined) updateData.enrolledcount = course.enrolledCount;
+    if (course.certificateRules !== undefined) updateData.certificate_rules = serializeCertificateRules(course.certificateRules);
+    if (course.certificateTemplateId !== undefined) updateData.certificate_template_id = course.certificateTemplateId || null;
+    if (course.certificateValidityMonths !== undefined) updateData.certificate_validity_months = course.certificateValidityMonths || null;
+    if (course.prerequisiteCourseIds !== undefined) updateData.prerequisite_course_ids = course.prerequisiteCourseIds;
+    if (course.contentReleaseMode !== undefined) updateData.content_release_mode = course.contentReleaseMode;
 
     const { error } = await supabase
       .from('courses')
@@ -1,5 +1,25 @@
-import { Course } from '@/types';
+import { ContentReleaseMode, Course } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
+import { CertificateRulesDB, parseCertificateRules } from '@/utils/certificateRules';
+
+// Colunas buscadas na listagem de cursos
+interface CourseListRow {
+  id: string;
+  title: string;
+  description: string | null;
+  thumbnail: string | null;
+  duration: string | null;
+  instructor: string;
+  rating: number | null;
+  review_count: number | null;
+  review_min_progress: number | null;
+  certificate_rules: CertificateRulesDB | null;
+  certificate_template_id: string | null;
+  certificate_validity_months: number | null;
+  prerequisite_course_ids: string[] | null;
+  content_release_mode: ContentReleaseMode | null;
+  created_at: string;
+}
 
 // Cache para armazenar cursos e evitar recarregamento desnecessário
 let coursesCache: Course[] | null = null;
@@ -27,7 +47,7 @@ export const getCourses = async (): Promise<Course[]> => {
     // Simplificando a consulta para evitar erros 400
     const { data: coursesData, error: coursesError } = await supabase
       .from('courses')
-      .select('id, title, description, thumbnail, duration, instructor, created_at')
+      .select('id, title, description, thumbnail, duration, instructor, rating, review_count, review_min_progress, certificate_rules, certificate_template_id, certificate_validity_months, prerequisite_course_ids, content_release_mode, created_at')
       .order('created_at', { ascending: false });
       
     // Se a consulta falhar, tentar uma consulta mais simples como fallback
@@ -101,7 +121,7 @@ export const getCourses = async (): Promise<Course[]> => {
     }
     
     // Mapear os cursos para o formato desejado (sem carregar todos os módulos e aulas)
-    const courses = coursesData.map(course => ({
+    const courses = (coursesData as unknown as CourseListRow[]).map(course => ({
       id: course.id,
       title: course.title,
       description: course.description || '',
@@ -109,8 +129,15 @@ export const getCourses = async (): Promise<Course[]> => {
       duration: course.duration || '',
       instructor: course.instructor,
       enrolledCount: enrollmentCountMap[course.id] || 0, // Usar contagem real de alunos matriculados
-      rating: 0, // Valor padrão já que removemos o campo rating da consulta
+      rating: Number(course.rating) || 0,
+      reviewCount: course.review_count || 0,
+      reviewMinProgress: course.review_min_progress || 0,
       moduleCount: moduleCountMap[course.id] || 0, // Adicionar contagem de módulos
+      certificateRules: parseCertificateRules(course.certificate_rules),
+      certificateTemplateId: course.certificate_template_id || null,
+      certificateValidityMonths: course.certificate_validity_months || null,
+      prerequisiteCourseIds: course.prerequisite_course_ids || [],
+      contentReleaseMode: course.content_release_mode || 'free',
       modules: [], // Array vazio - módulos serão carregados sob demanda
       createdAt: course.created_at,
       updatedAt: course.created_at, // Usando created_at como fallback já que removemos updated_at da consulta
@@ -161,7 +188,7 @@ export const getCourseById = async (courseId: string): Promise<Course> => {
     // 1. Buscar dados básicos do curso
     const courseResult = await supabase
       .from('courses')
-      .select('id, title, description, thumbnail, duration, instructor, created_at')
+      .select('id, title, description, thumbnail, duration, instructor, rating, review_count, review_min_progress, prerequisite_course_ids, content_release_mode, created_at')
       .eq('id', courseId)
       .single();
     
@@ -206,7 +233,7 @@ export const getCourseById = async (courseId: string): Promise<Course> => {
     if (!courseResult.data) throw new Error('Curso não encontrado');
     if (modulesResult.error) throw modulesResult.error;
     
-    const courseData = courseResult.data;
+    const courseData = courseResult.data as unknown as CourseListRow;
     const modulesData = modulesResult.data || [];
     
     // 3. Buscar aulas para todos os módulos em uma única consulta (mais eficiente)
@@ -262,7 +289,11 @@ export const getCourseById = async (courseId: string): Promise<Course> => {
       duration: courseData.duration || '',
       instructor: courseData.instructor,
       enrolledCount: 0, // Valor padrão já que removemos o campo enrolledcount da consulta
-      rating: 0, // Valor padrão já que removemos o campo rating da consulta
+      rating: Number(courseData.rating) || 0,
+      reviewCount: courseData.review_count || 0,
+      reviewMinProgress: courseData.review_min_progress || 0,
+      prerequisiteCourseIds: courseData.prerequisite_course_ids || [],
+      contentReleaseMode: courseData.content_release_mode || 'free',
       modules: modules,
       createdAt: courseData.created_at,
       updatedAt: courseData.created_at, // Usando created_at como fallback já que removemos updated_at da consulta
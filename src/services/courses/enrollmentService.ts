@@ -1,4 +1,4 @@
-import { Course } from '@/types';
+import { Course, CoursePrerequisite } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
@@ -189,6 +189,89 @@ export const getEnrolledCourseDetails = async (userId: string, courseId: string)
   }
 };
 
+/**
+ * IDs dos cursos em que o usuário possui certificado válido (não revogado e não expirado)
+ */
+const getValidCertificateCourseIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('certificates')
+    .select('course_id, expiry_date')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .not('course_id', 'is', null);
+
+  if (error) throw error;
+
+  const now = Date.now();
+  return new Set(
+    ((data || []) as unknown as { course_id: string; expiry_date: string | null }[])
+      .filter(certificate => !certificate.expiry_date || new Date(certificate.expiry_date).getTime() > now)
+      .map(certificate => certificate.course_id)
+  );
+};
+
+/**
+ * Pré-requisitos ainda não cumpridos pelo usuário em cada curso informado
+ * (cursos sem pendências não aparecem no mapa; cursos excluídos da lista de pré-requisitos são ignorados)
+ */
+export const getMissingPrerequisitesByCourse = async (
+  userId: string,
+  courses: Pick<Course, 'id' | 'prerequisiteCourseIds'>[]
+): Promise<Map<string, CoursePrerequisite[]>> => {
+  const missingByCourse = new Map<string, CoursePrerequisite[]>();
+  const prerequisiteIds = [...new Set(courses.flatMap(course => course.prerequisiteCourseIds || []))];
+
+  if (prerequisiteIds.length === 0) return missingByCourse;
+
+  const [validCourseIds, titlesResult] = await Promise.all([
+    getValidCertificateCourseIds(userId),
+    supabase.from('courses').select('id, title').in('id', prerequisiteIds)
+  ]);
+
+  if (titlesResult.error) throw titlesResult.error;
+
+  const titles = new Map(
+    ((titlesResult.data || []) as unknown as { id: string; title: string }[]).map(course => [course.id, course.title])
+  );
+
+  courses.forEach(course => {
+    const missing = (course.prerequisiteCourseIds || [])
+      .filter(prerequisiteId => titles.has(prerequisiteId) && !validCourseIds.has(prerequisiteId))
+      .map(prerequisiteId => ({ courseId: prerequisiteId, title: titles.get(prerequisiteId) }));
+
+    if (missing.length > 0) missingByCourse.set(course.id, missing);
+  });
+
+  return missingByCourse;
+};
+
+/**
+ * Pré-requisitos ainda não cumpridos pelo usuário para se matricular no curso
+ */
+export const getMissingPrerequisites = async (courseId: string, userId: string): Promise<CoursePrerequisite[]> => {
+  const { data, error } = await supabase
+    .from('courses')
+    .select('id, prerequisite_course_ids')
+    .eq('id', courseId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return [];
+
+  const course = data as unknown as { id: string; prerequisite_course_ids: string[] | null };
+  const missingByCourse = await getMissingPrerequisitesByCourse(userId, [
+    { id: course.id, prerequisiteCourseIds: course.prerequisite_course_ids || [] }
+  ]);
+
+  return missingByCourse.get(course.id) || [];
+};
+
+/**
+ * Mensagem exibida quando a matrícula é recusada por pré-requisitos pendentes
+ */
+const formatMissingPrerequisitesMessage = (missing: CoursePrerequisite[]): string =>
+  `Matrícula não permitida. Obtenha antes o certificado de: ${missing.map(prerequisite => prerequisite.title).join(', ')}.`;
+
 /**
  * Enroll in a course (optimized)
  */
@@ -291,6 +374,18 @@ export const enrollCourse = async (courseId: string, userId: string): Promise<{
       // Continuar mesmo com erro
     }
 
+    // Verificar pré-requisitos (o banco também recusa a matrícula, mas aqui a mensagem lista o que falta)
+    try {
+      const missingPrerequisites = await getMissingPrerequisites(courseId, userId);
+      if (missingPrerequisites.length > 0) {
+        console.log(`Usuário ${userId} com pré-requisitos pendentes para o curso ${courseId}:`, missingPrerequisites);
+        return { success: false, message: formatMissingPrerequisitesMessage(missingPrerequisites) };
+      }
+    } catch (prerequisitesError) {
+      console.error('Erro ao verificar pré-requisitos (capturado):', prerequisitesError);
+      // Continuar mesmo com erro; o trigger de pré-requisitos valida a inserção
+    }
+
     // Cria matrícula - com tratamento de erro aprimorado
     try {
       // Criar objeto de matrícula apenas com os campos que existem no esquema
@@ -0,0 +1,362 @@
+import { supabase } from '@/integrations/supabase/client';
+import { certificateService } from './certificateService';
+import {
+  ExportColumn,
+  ExportFormat,
+  createSpreadsheetWriter,
+  downloadBlob,
+  getExportFileName
+} from '@/utils/spreadsheetExport';
+
+/**
+ * Conjunto de dados exportável: colunas disponíveis e a busca paginada com os filtros já aplicados
+ */
+export interface ExportDataset<T> {
+  name: string; // Usado no nome do arquivo e da planilha
+  columns: ExportColumn<T>[];
+  fetchPage: (offset: number, limit: number) => Promise<T[]>;
+}
+
+export interface ExportSearchFilters {
+  courseId?: string | null;
+  groupId?: string | null; // Somente membros da turma
+  search?: string | null;
+}
+
+export interface LessonExportFilters {
+  courseId?: string | null;
+  moduleId?: string | null;
+}
+
+/**
+ * Interfaces para as linhas de cada exportação
+ */
+interface UserExportRow {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  job_title: string | null;
+  company: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  enrollment_count: number;
+  completed_count: number;
+  certificate_count: number;
+}
+
+interface EnrollmentExportRow {
+  enrollment_id: string;
+  user_id: string;
+  user_name: string;
+  user_email: string;
+  course_id: string;
+  course_title: string;
+  enrolled_at: string;
+  progress: number;
+  completed_lessons: number;
+  total_lessons: number;
+  completed_at: string | null;
+  last_activity_at: string | null;
+  certificate_issued_at: string | null;
+}
+
+interface CourseExportRow {
+  id: string;
+  title: string;
+  instructor: string;
+  duration: string | null;
+  rating: number | null;
+  review_count: number | null;
+  content_release_mode: string | null;
+  certificate_validity_months: number | null;
+  created_at: string;
+  modules: { count: number }[];
+  enrollments: { count: number }[];
+}
+
+interface LessonExportRow {
+  id: string;
+  title: string;
+  lesson_type: string;
+  duration: string | null;
+  duration_seconds: number | null;
+  order_number: number;
+  passing_score: number | null;
+  mandatory_viewing: boolean;
+  created_at: string;
+  modules: {
+    title: string;
+    order_number: number;
+    course_id: string;
+    courses: { title: string } | null;
+  } | null;
+}
+
+interface CertificateExportRow {
+  id: string;
+  user_name: string;
+  course_name: string;
+  serial_number: string | null;
+  issue_date: string;
+  expiry_date: string | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  superseded_by_id: string | null;
+}
+
+// Tamanho de cada página buscada no banco (as funções de exportação aceitam até 1000)
+const EXPORT_PAGE_SIZE = 500;
+
+const CONTENT_RELEASE_LABELS: Record<string, string> = {
+  free: 'Livre',
+  sequential: 'Sequencial',
+  drip: 'Programada'
+};
+
+const CERTIFICATE_STATUS_LABELS: Record<string, string> = {
+  valid: 'Válido',
+  expired: 'Expirado',
+  revoked: 'Revogado',
+  superseded: 'Substituído'
+};
+
+const toDate = (value: string | null | undefined) => (value ? new Date(value) : null);
+
+const normalizeSearch = (search?: string | null) => search?.trim() || null;
+
+const throwExportError = (error: { message?: string }, label: string) => {
+  console.error(`Erro ao exportar ${label}:`, error);
+  throw new Error(error.message || `Falha ao exportar ${label}`);
+};
+
+export const dataExportService = {
+  /**
+   * Busca o conjunto de dados página por página e gera o arquivo no formato escolhido.
+   * Retorna o total de linhas exportadas
+   */
+  async exportDataset<T>(
+    dataset: ExportDataset<T>,
+    format: ExportFormat,
+    columnKeys: string[],
+    onProgress?: (exportedRows: number) => void
+  ): Promise<number> {
+    const columns = dataset.columns.filter(column => columnKeys.includes(column.key));
+    if (columns.length === 0) throw new Error('Selecione ao menos uma coluna');
+
+    const writer = createSpreadsheetWriter(format, columns, dataset.name);
+    let exportedRows = 0;
+
+    for (;;) {
+      const rows = await dataset.fetchPage(exportedRows, EXPORT_PAGE_SIZE);
+      writer.addRows(rows);
+      exportedRows += rows.length;
+      onProgress?.(exportedRows);
+
+      if (rows.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    downloadBlob(writer.finish(), getExportFileName(dataset.name, format));
+    return exportedRows;
+  },
+
+  /**
+   * Usuários com totais de matrículas, conclusões e certificados (export_users)
+   */
+  getUsersDataset(filters: ExportSearchFilters = {}): ExportDataset<UserExportRow> {
+    return {
+      name: 'Usuários',
+      columns: [
+        { key: 'name', label: 'Nome', value: row => row.name },
+        { key: 'email', label: 'E-mail', value: row => row.email },
+        { key: 'role', label: 'Função', value: row => (row.role === 'admin' ? 'Administrador' : 'Aluno') },
+        { key: 'job_title', label: 'Cargo', value: row => row.job_title },
+        { key: 'company', label: 'Empresa', value: row => row.company },
+        { key: 'created_at', label: 'Data de registro', value: row => toDate(row.created_at) },
+        { key: 'last_sign_in_at', label: 'Último acesso', value: row => toDate(row.last_sign_in_at) },
+        { key: 'enrollment_count', label: 'Matrículas', value: row => row.enrollment_count },
+        { key: 'completed_count', label: 'Cursos concluídos', value: row => row.completed_count },
+        { key: 'certificate_count', label: 'Certificados válidos', value: row => row.certificate_count },
+        { key: 'id', label: 'ID do usuário', value: row => row.id }
+      ],
+      async fetchPage(offset, limit) {
+        const { data, error } = await supabase.rpc('export_users', {
+          p_search: normalizeSearch(filters.search),
+          p_limit: limit,
+          p_offset: offset
+        });
+
+        if (error) throwExportError(error, 'usuários');
+        return (data || []) as unknown as UserExportRow[];
+      }
+    };
+  },
+
+  /**
+   * Matrículas com o progresso de cada aluno e a data do certificado (export_enrollments)
+   */
+  getEnrollmentsDataset(filters: ExportSearchFilters = {}): ExportDataset<EnrollmentExportRow> {
+    return {
+      name: 'Matrículas e progresso',
+      columns: [
+        { key: 'user_name', label: 'Aluno', value: row => row.user_name },
+        { key: 'user_email', label: 'E-mail', value: row => row.user_email },
+        { key: 'course_title', label: 'Curso', value: row => row.course_title },
+        { key: 'enrolled_at', label: 'Matriculado em', value: row => toDate(row.enrolled_at) },
+        { key: 'progress', label: 'Progresso (%)', value: row => row.progress },
+        { key: 'completed_lessons', label: 'Aulas concluídas', value: row => row.completed_lessons },
+        { key: 'total_lessons', label: 'Total de aulas', value: row => row.total_lessons },
+        { key: 'last_activity_at', label: 'Última atividade', value: row => toDate(row.last_activity_at) },
+        { key: 'completed_at', label: 'Concluído em', value: row => toDate(row.completed_at) },
+        {
+          key: 'certificate_issued_at',
+          label: 'Certificado emitido em',
+          value: row => toDate(row.certificate_issued_at),
+          dateOnly: true
+        },
+        { key: 'user_id', label: 'ID do usuário', value: row => row.user_id },
+        { key: 'course_id', label: 'ID do curso', value: row => row.course_id }
+      ],
+      async fetchPage(offset, limit) {
+        const { data, error } = await supabase.rpc('export_enrollments', {
+          p_course_id: filters.courseId || null,
+          p_search: normalizeSearch(filters.search),
+          p_group_id: filters.groupId || null,
+          p_limit: limit,
+          p_offset: offset
+        });
+
+        if (error) throwExportError(error, 'matrículas');
+        return (data || []) as unknown as EnrollmentExportRow[];
+      }
+    };
+  },
+
+  /**
+   * Cursos com totais de módulos e alunos matriculados
+   */
+  getCoursesDataset(): ExportDataset<CourseExportRow> {
+    return {
+      name: 'Cursos',
+      columns: [
+        { key: 'title', label: 'Curso', value: row => row.title },
+        { key: 'instructor', label: 'Instrutor', value: row => row.instructor },
+        { key: 'duration', label: 'Duração', value: row => row.duration },
+        { key: 'modules', label: 'Módulos', value: row => row.modules?.[0]?.count ?? 0 },
+        { key: 'enrollments', label: 'Alunos matriculados', value: row => row.enrollments?.[0]?.count ?? 0 },
+        { key: 'rating', label: 'Avaliação', value: row => row.rating ?? 0 },
+        { key: 'review_count', label: 'Avaliações recebidas', value: row => row.review_count ?? 0 },
+        {
+          key: 'content_release_mode',
+          label: 'Liberação do conteúdo',
+          value: row => CONTENT_RELEASE_LABELS[row.content_release_mode || 'free'] || row.content_release_mode
+        },
+        {
+          key: 'certificate_validity_months',
+          label: 'Validade do certificado (meses)',
+          value: row => row.certificate_validity_months
+        },
+        { key: 'created_at', label: 'Criado em', value: row => toDate(row.created_at), dateOnly: true },
+        { key: 'id', label: 'ID do curso', value: row => row.id }
+      ],
+      async fetchPage(offset, limit) {
+        const { data, error } = await supabase
+          .from('courses')
+          .select('id, title, instructor, duration, rating, review_count, content_release_mode, certificate_validity_months, created_at, modules(count), enrollments(count)')
+          .order('title')
+          .order('id')
+          .range(offset, offset + limit - 1);
+
+        if (error) throwExportError(error, 'cursos');
+        return (data || []) as unknown as CourseExportRow[];
+      }
+    };
+  },
+
+  /**
+   * Aulas do módulo ou do curso selecionado (ou de todos os cursos), na ordem de módulos e aulas
+   */
+  getLessonsDataset(filters: LessonExportFilters = {}): ExportDataset<LessonExportRow> {
+    return {
+      name: 'Aulas',
+      columns: [
+        { key: 'course', label: 'Curso', value: row => row.modules?.courses?.title },
+        { key: 'module', label: 'Módulo', value: row => row.modules?.title },
+        { key: 'module_order', label: 'Ordem do módulo', value: row => row.modules?.order_number },
+        { key: 'order_number', label: 'Ordem da aula', value: row => row.order_number },
+        { key: 'title', label: 'Aula', value: row => row.title },
+        { key: 'lesson_type', label: 'Tipo', value: row => (row.lesson_type === 'quiz' ? 'Questionário' : 'Vídeo') },
+        { key: 'duration', label: 'Duração', value: row => row.duration },
+        { key: 'duration_seconds', label: 'Duração (segundos)', value: row => row.duration_seconds },
+        { key: 'passing_score', label: 'Nota mínima (%)', value: row => row.passing_score },
+        { key: 'mandatory_viewing', label: 'Visualização obrigatória', value: row => row.mandatory_viewing },
+        { key: 'created_at', label: 'Criada em', value: row => toDate(row.created_at), dateOnly: true },
+        { key: 'id', label: 'ID da aula', value: row => row.id }
+      ],
+      async fetchPage(offset, limit) {
+        let query = supabase
+          .from('lessons')
+          .select('id, title, lesson_type, duration, duration_seconds, order_number, passing_score, mandatory_viewing, created_at, modules!inner(title, order_number, course_id, courses(title))');
+
+        if (filters.moduleId) {
+          query = query.eq('module_id', filters.moduleId);
+        } else if (filters.courseId) {
+          query = query.eq('modules.course_id', filters.courseId);
+        }
+
+        const { data, error } = await query
+          .order('modules(course_id)')
+          .order('modules(order_number)')
+          .order('order_number')
+          .order('id')
+          .range(offset, offset + limit - 1);
+
+        if (error) throwExportError(error, 'aulas');
+        return (data || []) as unknown as LessonExportRow[];
+      }
+    };
+  },
+
+  /**
+   * Certificados emitidos com a situação atual: válido, expirado, revogado ou substituído (export_certificates)
+   */
+  getCertificatesDataset(filters: ExportSearchFilters = {}): ExportDataset<CertificateExportRow> {
+    return {
+      name: 'Certificados',
+      columns: [
+        { key: 'user_name', label: 'Aluno', value: row => row.user_name },
+        { key: 'course_name', label: 'Curso', value: row => row.course_name },
+        { key: 'serial_number', label: 'Número de série', value: row => row.serial_number },
+        { key: 'issue_date', label: 'Data de emissão', value: row => toDate(row.issue_date), dateOnly: true },
+        { key: 'expiry_date', label: 'Validade', value: row => toDate(row.expiry_date), dateOnly: true },
+        {
+          key: 'status',
+          label: 'Situação',
+          value: row =>
+            CERTIFICATE_STATUS_LABELS[
+              certificateService.getCertificateStatus({
+                revokedAt: row.revoked_at,
+                supersededById: row.superseded_by_id,
+                expiryDate: row.expiry_date
+              })
+            ]
+        },
+        { key: 'revoked_at', label: 'Revogado em', value: row => toDate(row.revoked_at) },
+        { key: 'revocation_reason', label: 'Motivo da revogação', value: row => row.revocation_reason },
+        { key: 'id', label: 'ID do certificado', value: row => row.id }
+      ],
+      async fetchPage(offset, limit) {
+        const { data, error } = await supabase.rpc('export_certificates', {
+          p_course_id: filters.courseId || null,
+          p_search: normalizeSearch(filters.search),
+          p_group_id: filters.groupId || null,
+          p_limit: limit,
+          p_offset: offset
+        });
+
+        if (error) throwExportError(error, 'certificados');
+        return (data || []) as unknown as CertificateExportRow[];
+      }
+    };
+  }
+};
@@ -4,10 +4,26 @@
 export { default as courseService } from './courseService';
 export { moduleService } from './moduleService';
 export { lessonService } from './lessonService';
+export { lessonAttachmentService } from './lessonAttachmentService';
+export { lessonVideoService } from './lessonVideoService';
+export { lessonCaptionService } from './lessonCaptionService';
+export { lessonNoteService } from './lessonNoteService';
+export { lessonNoteExportService } from './lessonNoteExportService';
+export { lessonDiscussionService } from './lessonDiscussionService';
+export { courseReviewService } from './courseReviewService';
+export { analyticsService } from './analyticsService';
+export { courseEngagementService } from './courseEngagementService';
+export { dataExportService } from './dataExportService';
 export { lessonProgressService } from './lessonProgressService';
+export { quizService } from './quizService';
 export { certificateService } from './certificateService';
+export { certificateTemplateService } from './certificateTemplateService';
+export { certificatePdfService } from './certificatePdfService';
+export { learningPathService } from './learningPathService';
 export { profileService } from './profileService';
 export { userService } from './userService';
+export { userImportService } from './userImportService';
+export { userGroupService } from './userGroupService';
 
 // Serviços de integração
 export { integrationService } from './integrationService';
@@ -0,0 +1,351 @@
+import {
+  CreateLearningPathData,
+  LearningPath,
+  LearningPathCourse,
+  LearningPathEnrollmentMode,
+  LearningPathProgress
+} from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Interfaces para as trilhas no banco de dados
+ */
+interface LearningPathDB {
+  id: string;
+  title: string;
+  description: string | null;
+  thumbnail: string | null;
+  enrollment_mode: LearningPathEnrollmentMode;
+  created_at: string;
+  updated_at: string;
+}
+
+interface LearningPathCourseDB {
+  learning_path_id: string;
+  course_id: string;
+  position: number;
+  prerequisite_course_id: string | null;
+}
+
+type LearningPathCourseInfo = NonNullable<LearningPathCourse['course']>;
+
+const PATH_COLUMNS = 'id, title, description, thumbnail, enrollment_mode, created_at, updated_at';
+const PATH_COURSE_COLUMNS = 'learning_path_id, course_id, position, prerequisite_course_id';
+
+const mapLearningPath = (
+  data: LearningPathDB,
+  pathCourses: LearningPathCourseDB[],
+  coursesById: Map<string, LearningPathCourseInfo>
+): LearningPath => ({
+  id: data.id,
+  title: data.title,
+  description: data.description || undefined,
+  thumbnail: data.thumbnail || undefined,
+  enrollmentMode: data.enrollment_mode,
+  courses: pathCourses
+    .filter(pathCourse => pathCourse.learning_path_id === data.id)
+    .sort((a, b) => a.position - b.position)
+    .map(pathCourse => ({
+      courseId: pathCourse.course_id,
+      position: pathCourse.position,
+      prerequisiteCourseId: pathCourse.prerequisite_course_id,
+      course: coursesById.get(pathCourse.course_id)
+    })),
+  createdAt: data.created_at,
+  updatedAt: data.updated_at
+});
+
+/**
+ * Busca os cursos e os dados resumidos dos cursos das trilhas informadas
+ * (os cursos são buscados à parte porque learning_path_courses referencia courses duas vezes)
+ */
+const fetchPathCourses = async (pathIds: string[]) => {
+  if (pathIds.length === 0) {
+    return { pathCourses: [] as LearningPathCourseDB[], coursesById: new Map<string, LearningPathCourseInfo>() };
+  }
+
+  const { data: pathCoursesData, error: pathCoursesError } = await supabase
+    .from('learning_path_courses')
+    .select(PATH_COURSE_COLUMNS)
+    .in('learning_path_id', pathIds);
+
+  if (pathCoursesError) throw pathCoursesError;
+
+  const pathCourses = (pathCoursesData || []) as unknown as LearningPathCourseDB[];
+  const courseIds = [...new Set(pathCourses.map(pathCourse => pathCourse.course_id))];
+  const coursesById = new Map<string, LearningPathCourseInfo>();
+
+  if (courseIds.length > 0) {
+    const { data: coursesData, error: coursesError } = await supabase
+      .from('courses')
+      .select('id, title, description, thumbnail, duration, instructor')
+      .in('id', courseIds);
+
+    if (coursesError) throw coursesError;
+
+    ((coursesData || []) as unknown as LearningPathCourseInfo[]).forEach(course => {
+      coursesById.set(course.id, {
+        id: course.id,
+        title: course.title,
+        description: course.description || '',
+        thumbnail: course.thumbnail || '/placeholder.svg',
+        duration: course.duration || '',
+        instructor: course.instructor
+      });
+    });
+  }
+
+  return { pathCourses, coursesById };
+};
+
+/**
+ * IDs das trilhas em que o aluno está matriculado
+ */
+const fetchEnrolledPathIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('learning_path_enrollments')
+    .select('learning_path_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return new Set(((data || []) as unknown as { learning_path_id: string }[]).map(row => row.learning_path_id));
+};
+
+const validateLearningPath = (learningPath: CreateLearningPathData) => {
+  if (!learningPath.title?.trim()) throw new Error('Título da trilha é obrigatório');
+  if (learningPath.courses.length === 0) throw new Error('Adicione pelo menos um curso à trilha');
+
+  const courseIds = learningPath.courses.map(course => course.courseId);
+  if (new Set(courseIds).size !== courseIds.length) {
+    throw new Error('Um curso não pode aparecer mais de uma vez na trilha');
+  }
+
+  // O pré-requisito precisa ser um curso anterior da mesma trilha
+  learningPath.courses.forEach((course, index) => {
+    if (course.prerequisiteCourseId && !courseIds.slice(0, index).includes(course.prerequisiteCourseId)) {
+      throw new Error('O pré-requisito deve ser um curso anterior da trilha');
+    }
+  });
+};
+
+const toPathRow = (learningPath: CreateLearningPathData) => ({
+  title: learningPath.title.trim(),
+  description: learningPath.description?.trim() || null,
+  thumbnail: learningPath.thumbnail?.trim() || null,
+  enrollment_mode: learningPath.enrollmentMode
+});
+
+/**
+ * Substitui os cursos da trilha pela lista informada, na ordem em que aparecem
+ */
+const savePathCourses = async (learningPathId: string, courses: CreateLearningPathData['courses']) => {
+  const { error: deleteError } = await supabase
+    .from('learning_path_courses')
+    .delete()
+    .eq('learning_path_id', learningPathId);
+
+  if (deleteError) throw deleteError;
+
+  const { error: insertError } = await supabase
+    .from('learning_path_courses')
+    .insert(courses.map((course, index) => ({
+      learning_path_id: learningPathId,
+      course_id: course.courseId,
+      position: index + 1,
+      prerequisite_course_id: course.prerequisiteCourseId || null
+    })));
+
+  if (insertError) throw insertError;
+};
+
+export const learningPathService = {
+  /**
+   * Lista as trilhas com seus cursos; com userId, indica as trilhas em que o aluno está matriculado
+   */
+  async getLearningPaths(userId?: string): Promise<LearningPath[]> {
+    try {
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .select(PATH_COLUMNS)
+        .order('title', { ascending: true });
+
+      if (error) throw error;
+
+      const paths = (data || []) as unknown as LearningPathDB[];
+      const { pathCourses, coursesById } = await fetchPathCourses(paths.map(path => path.id));
+      const enrolledPathIds = userId ? await fetchEnrolledPathIds(userId) : new Set<string>();
+
+      return paths.map(path => ({
+        ...mapLearningPath(path, pathCourses, coursesById),
+        isEnrolled: enrolledPathIds.has(path.id)
+      }));
+    } catch (error) {
+      console.error('Erro ao buscar trilhas:', error);
+      throw new Error('Falha ao buscar trilhas');
+    }
+  },
+
+  async getLearningPathById(learningPathId: string, userId?: string): Promise<LearningPath | null> {
+    if (!learningPathId) throw new Error('ID da trilha é obrigatório');
+
+    try {
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .select(PATH_COLUMNS)
+        .eq('id', learningPathId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const { pathCourses, coursesById } = await fetchPathCourses([learningPathId]);
+      const enrolledPathIds = userId ? await fetchEnrolledPathIds(userId) : new Set<string>();
+
+      return {
+        ...mapLearningPath(data as unknown as LearningPathDB, pathCourses, coursesById),
+        isEnrolled: enrolledPathIds.has(learningPathId)
+      };
+    } catch (error) {
+      console.error('Erro ao buscar trilha:', error);
+      throw new Error('Falha ao buscar trilha');
+    }
+  },
+
+  async createLearningPath(learningPath: CreateLearningPathData): Promise<LearningPath> {
+    validateLearningPath(learningPath);
+
+    const { data, error } = await supabase
+      .from('learning_paths')
+      .insert(toPathRow(learningPath))
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      console.error('Erro ao criar trilha:', error);
+      throw new Error('Falha ao criar trilha');
+    }
+
+    const learningPathId = (data as unknown as { id: string }).id;
+
+    try {
+      await savePathCourses(learningPathId, learningPath.courses);
+    } catch (coursesError) {
+      console.error('Erro ao salvar cursos da trilha:', coursesError);
+      throw new Error('Trilha criada, mas houve uma falha ao salvar seus cursos');
+    }
+
+    return this.getLearningPathById(learningPathId);
+  },
+
+  async updateLearningPath(learningPathId: string, learningPath: CreateLearningPathData): Promise<LearningPath> {
+    if (!learningPathId) throw new Error('ID da trilha é obrigatório');
+    validateLearningPath(learningPath);
+
+    const { error } = await supabase
+      .from('learning_paths')
+      .update(toPathRow(learningPath))
+      .eq('id', learningPathId);
+
+    if (error) {
+      console.error('Erro ao atualizar trilha:', error);
+      throw new Error('Falha ao atualizar trilha');
+    }
+
+    try {
+      await savePathCourses(learningPathId, learningPath.courses);
+    } catch (coursesError) {
+      console.error('Erro ao salvar cursos da trilha:', coursesError);
+      throw new Error('Falha ao salvar os cursos da trilha');
+    }
+
+    return this.getLearningPathById(learningPathId);
+  },
+
+  async deleteLearningPath(learningPathId: string): Promise<void> {
+    if (!learningPathId) throw new Error('ID da trilha é obrigatório');
+
+    const { error } = await supabase
+      .from('learning_paths')
+      .delete()
+      .eq('id', learningPathId);
+
+    if (error) {
+      console.error('Erro ao excluir trilha:', error);
+      throw new Error('Falha ao excluir trilha');
+    }
+  },
+
+  /**
+   * Matricula o aluno autenticado na trilha; o banco matricula no primeiro curso
+   * ou em todos os cursos, conforme o modo de matrícula da trilha
+   */
+  async enrollInLearningPath(learningPathId: string): Promise<void> {
+    if (!learningPathId) throw new Error('ID da trilha é obrigatório');
+
+    const { error } = await supabase.rpc('enroll_in_learning_path', {
+      p_learning_path_id: learningPathId
+    });
+
+    if (error) {
+      console.error('Erro ao matricular na trilha:', error);
+      throw new Error(error.message || 'Falha ao matricular na trilha');
+    }
+  },
+
+  /**
+   * Progresso do aluno na trilha, calculado a partir do progresso das matrículas nos cursos
+   */
+  async getLearningPathProgress(learningPath: LearningPath, userId: string): Promise<LearningPathProgress> {
+    const courseIds = learningPath.courses.map(course => course.courseId);
+    const progressByCourse = new Map<string, { progress: number; completed: boolean }>();
+
+    if (courseIds.length > 0) {
+      const { data, error } = await supabase
+        .from('enrollments')
+        .select('course_id, progress')
+        .eq('user_id', userId)
+        .in('course_id', courseIds);
+
+      if (error) {
+        console.error('Erro ao buscar progresso da trilha:', error);
+        throw new Error('Falha ao buscar progresso da trilha');
+      }
+
+      // Mesmo critério de is_course_completed (17_learning_paths.sql)
+      ((data || []) as unknown as { course_id: string; progress: number | null }[]).forEach(enrollment => {
+        progressByCourse.set(enrollment.course_id, {
+          progress: enrollment.progress || 0,
+          completed: (enrollment.progress || 0) >= 100
+        });
+      });
+    }
+
+    const courses = learningPath.courses.map(course => {
+      const enrollment = progressByCourse.get(course.courseId);
+      const prerequisite = course.prerequisiteCourseId ? progressByCourse.get(course.prerequisiteCourseId) : undefined;
+
+      return {
+        courseId: course.courseId,
+        progress: enrollment?.progress || 0,
+        isEnrolled: Boolean(enrollment),
+        isCompleted: Boolean(enrollment?.completed),
+        isLocked: Boolean(course.prerequisiteCourseId) && !prerequisite?.completed
+      };
+    });
+
+    const completedCourses = courses.filter(course => course.isCompleted).length;
+    const totalCourses = courses.length;
+
+    return {
+      learningPathId: learningPath.id,
+      progress: totalCourses > 0
+        ? Math.round(courses.reduce((sum, course) => sum + course.progress, 0) / totalCourses)
+        : 0,
+      completedCourses,
+      totalCourses,
+      isCompleted: totalCourses > 0 && completedCourses === totalCourses,
+      courses
+    };
+  }
+};
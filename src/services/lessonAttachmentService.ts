@@ -0,0 +1,152 @@
+import { LessonAttachment } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Interface para os materiais das aulas no banco de dados
+ */
+interface LessonAttachmentDB {
+  id: string;
+  lesson_id: string;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  storage_path: string;
+  created_at: string;
+}
+
+// Bucket privado dos materiais (criado em SQLADM/22_lesson_attachments.sql)
+const ATTACHMENTS_BUCKET = 'lesson-attachments';
+const ATTACHMENT_COLUMNS = 'id, lesson_id, file_name, file_size, mime_type, storage_path, created_at';
+
+// Mesmo limite do bucket
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+// Documentos, apresentações, planilhas e arquivos compactados (ex.: código-fonte)
+export const ATTACHMENT_EXTENSIONS = [
+  '.pdf', '.doc', '.docx', '.odt', '.txt',
+  '.ppt', '.pptx', '.odp',
+  '.xls', '.xlsx', '.ods', '.csv',
+  '.zip'
+];
+
+// Validade das URLs assinadas de download, em segundos
+const DOWNLOAD_URL_EXPIRES_IN = 60;
+
+const mapAttachment = (data: LessonAttachmentDB): LessonAttachment => ({
+  id: data.id,
+  lessonId: data.lesson_id,
+  fileName: data.file_name,
+  fileSize: data.file_size,
+  mimeType: data.mime_type,
+  storagePath: data.storage_path,
+  createdAt: data.created_at
+});
+
+// Remove do nome do arquivo os caracteres que não são aceitos nas chaves do storage
+const toStorageFileName = (fileName: string) =>
+  fileName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9._-]+/g, '_');
+
+export const lessonAttachmentService = {
+  async getAttachmentsByLessonId(lessonId: string): Promise<LessonAttachment[]> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    const { data, error } = await supabase
+      .from('lesson_attachments')
+      .select(ATTACHMENT_COLUMNS)
+      .eq('lesson_id', lessonId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Erro ao buscar materiais da aula:', error);
+      throw new Error('Falha ao buscar materiais da aula');
+    }
+
+    return ((data || []) as unknown as LessonAttachmentDB[]).map(mapAttachment);
+  },
+
+  /**
+   * Envia o arquivo para o bucket e registra o material na aula
+   */
+  async uploadAttachment(lessonId: string, file: File): Promise<LessonAttachment> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+    if (!ATTACHMENT_EXTENSIONS.includes(extension)) {
+      throw new Error(`Tipo de arquivo não permitido: ${file.name}`);
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`O arquivo ${file.name} ultrapassa o limite de 50 MB`);
+    }
+
+    const storagePath = `${lessonId}/${crypto.randomUUID()}-${toStorageFileName(file.name)}`;
+    const mimeType = file.type || 'application/octet-stream';
+
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(storagePath, file, { contentType: mimeType });
+
+    if (uploadError) {
+      console.error('Erro ao enviar material da aula:', uploadError);
+      throw new Error(`Falha ao enviar o arquivo ${file.name}`);
+    }
+
+    const { data, error } = await supabase
+      .from('lesson_attachments')
+      .insert({
+        lesson_id: lessonId,
+        file_name: file.name,
+        file_size: file.size,
+        mime_type: mimeType,
+        storage_path: storagePath
+      })
+      .select(ATTACHMENT_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Erro ao registrar material da aula:', error);
+      // Não deixar o arquivo órfão no bucket
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+      throw new Error(`Falha ao registrar o arquivo ${file.name}`);
+    }
+
+    return mapAttachment(data as unknown as LessonAttachmentDB);
+  },
+
+  async deleteAttachment(attachment: LessonAttachment): Promise<void> {
+    const { error: storageError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .remove([attachment.storagePath]);
+
+    if (storageError) {
+      console.error('Erro ao excluir arquivo do material:', storageError);
+      throw new Error('Falha ao excluir material');
+    }
+
+    const { error } = await supabase
+      .from('lesson_attachments')
+      .delete()
+      .eq('id', attachment.id);
+
+    if (error) {
+      console.error('Erro ao excluir material da aula:', error);
+      throw new Error('Falha ao excluir material');
+    }
+  },
+
+  /**
+   * URL temporária para baixar o material com o nome original do arquivo
+   * (o bucket só libera a URL para administradores e alunos matriculados no curso)
+   */
+  async getDownloadUrl(attachment: LessonAttachment): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(attachment.storagePath, DOWNLOAD_URL_EXPIRES_IN, { download: attachment.fileName });
+
+    if (error || !data?.signedUrl) {
+      console.error('Erro ao gerar link do material:', error);
+      throw new Error('Falha ao baixar material');
+    }
+
+    return data.signedUrl;
+  }
+};
@@ -0,0 +1,157 @@
+import { LessonCaption, TranscriptSearchResult } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+import { CAPTION_EXTENSIONS, parseVttCues, toTranscriptText, toWebVtt } from '@/utils/captions';
+
+/**
+ * Interface para as legendas das aulas no banco de dados
+ */
+interface LessonCaptionDB {
+  id: string;
+  lesson_id: string;
+  language: string;
+  label: string;
+  vtt_content: string;
+  is_default: boolean;
+  created_at: string;
+}
+
+interface TranscriptSearchRow {
+  course_id: string;
+  lesson_id: string;
+  lesson_title: string;
+  snippet: string;
+}
+
+const CAPTION_COLUMNS = 'id, lesson_id, language, label, vtt_content, is_default, created_at';
+
+// Tamanho mínimo do termo para buscar nas transcrições
+export const MIN_TRANSCRIPT_QUERY_LENGTH = 3;
+
+const mapCaption = (data: LessonCaptionDB): LessonCaption => ({
+  id: data.id,
+  lessonId: data.lesson_id,
+  language: data.language,
+  label: data.label,
+  vttContent: data.vtt_content,
+  isDefault: data.is_default,
+  createdAt: data.created_at
+});
+
+export const lessonCaptionService = {
+  async getCaptionsByLessonId(lessonId: string): Promise<LessonCaption[]> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    const { data, error } = await supabase
+      .from('lesson_captions')
+      .select(CAPTION_COLUMNS)
+      .eq('lesson_id', lessonId)
+      .order('is_default', { ascending: false })
+      .order('label', { ascending: true });
+
+    if (error) {
+      console.error('Erro ao buscar legendas da aula:', error);
+      throw new Error('Falha ao buscar legendas da aula');
+    }
+
+    return ((data || []) as unknown as LessonCaptionDB[]).map(mapCaption);
+  },
+
+  /**
+   * Cadastra a legenda de um idioma a partir de um arquivo WebVTT ou SRT,
+   * guardando também o texto da transcrição para a busca
+   */
+  async addCaption(lessonId: string, file: File, options: {
+    language: string;
+    label: string;
+    isDefault: boolean;
+  }): Promise<LessonCaption> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    const language = options.language.trim();
+    const label = options.label.trim();
+    if (!language) throw new Error('Informe o idioma da legenda');
+    if (!label) throw new Error('Informe o nome da legenda');
+
+    const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+    if (!CAPTION_EXTENSIONS.includes(extension)) {
+      throw new Error('Envie um arquivo de legenda WebVTT (.vtt) ou SRT (.srt)');
+    }
+
+    const vttContent = toWebVtt(await file.text(), file.name);
+    const cues = parseVttCues(vttContent);
+    if (cues.length === 0) {
+      throw new Error('Nenhum trecho de legenda encontrado no arquivo');
+    }
+
+    // Só uma legenda padrão por aula
+    if (options.isDefault) {
+      const { error: resetError } = await supabase
+        .from('lesson_captions')
+        .update({ is_default: false })
+        .eq('lesson_id', lessonId);
+
+      if (resetError) {
+        console.error('Erro ao atualizar legenda padrão:', resetError);
+        throw new Error('Falha ao salvar legenda');
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('lesson_captions')
+      .insert({
+        lesson_id: lessonId,
+        language,
+        label,
+        vtt_content: vttContent,
+        transcript_text: toTranscriptText(cues),
+        is_default: options.isDefault
+      })
+      .select(CAPTION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Erro ao salvar legenda:', error);
+      if (error?.code === '23505') {
+        throw new Error(`Esta aula já possui uma legenda no idioma ${language}`);
+      }
+      throw new Error('Falha ao salvar legenda');
+    }
+
+    return mapCaption(data as unknown as LessonCaptionDB);
+  },
+
+  async deleteCaption(captionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lesson_captions')
+      .delete()
+      .eq('id', captionId);
+
+    if (error) {
+      console.error('Erro ao excluir legenda:', error);
+      throw new Error('Falha ao excluir legenda');
+    }
+  },
+
+  /**
+   * Aulas em que o termo é dito, encontradas pelo texto das transcrições
+   */
+  async searchLessonsByTranscript(query: string): Promise<TranscriptSearchResult[]> {
+    if (query.trim().length < MIN_TRANSCRIPT_QUERY_LENGTH) return [];
+
+    const { data, error } = await supabase.rpc('search_lessons_by_transcript', {
+      p_query: query.trim()
+    });
+
+    if (error) {
+      console.error('Erro ao buscar nas transcrições das aulas:', error);
+      throw new Error('Falha ao buscar nas transcrições das aulas');
+    }
+
+    return ((data || []) as unknown as TranscriptSearchRow[]).map(row => ({
+      courseId: row.course_id,
+      lessonId: row.lesson_id,
+      lessonTitle: row.lesson_title,
+      snippet: row.snippet
+    }));
+  }
+};
@@ -0,0 +1,230 @@
+import { LessonDiscussionPost, LessonQuestion, UnansweredLessonQuestion } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Interface para as perguntas e respostas retornadas por get_lesson_discussions
+ */
+interface LessonDiscussionRow {
+  id: string;
+  lesson_id: string;
+  parent_id: string | null;
+  user_id: string;
+  author_name: string;
+  author_role: string;
+  content: string;
+  is_answered: boolean;
+  upvotes: number;
+  has_upvoted: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface UnansweredQuestionRow {
+  id: string;
+  lesson_id: string;
+  lesson_title: string;
+  course_id: string;
+  course_title: string;
+  user_id: string;
+  author_name: string;
+  content: string;
+  reply_count: number;
+  upvotes: number;
+  created_at: string;
+}
+
+interface QuestionContextRow {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  lessons: { title: string; modules: { course_id: string } | null } | null;
+}
+
+// Selos exibidos nas mensagens, pelo papel do autor; alunos não têm selo
+export const DISCUSSION_ROLE_LABELS: Record<string, string> = {
+  admin: 'Administrador',
+  instructor: 'Instrutor'
+};
+
+const mapPost = (row: LessonDiscussionRow): LessonDiscussionPost => ({
+  id: row.id,
+  lessonId: row.lesson_id,
+  parentId: row.parent_id,
+  userId: row.user_id,
+  authorName: row.author_name,
+  authorRole: row.author_role,
+  content: row.content,
+  isAnswered: row.is_answered,
+  upvotes: row.upvotes,
+  hasUpvoted: row.has_upvoted,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// Perguntas mais votadas primeiro e, com o mesmo número de votos, as mais recentes
+const compareQuestions = (a: LessonQuestion, b: LessonQuestion) =>
+  b.upvotes - a.upvotes || b.createdAt.localeCompare(a.createdAt);
+
+export const lessonDiscussionService = {
+  /**
+   * Perguntas da aula com as respostas de cada uma, em ordem cronológica
+   */
+  async getLessonQuestions(lessonId: string): Promise<LessonQuestion[]> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    const { data, error } = await supabase.rpc('get_lesson_discussions', { p_lesson_id: lessonId });
+
+    if (error) {
+      console.error('Erro ao buscar perguntas da aula:', error);
+      throw new Error('Falha ao buscar perguntas da aula');
+    }
+
+    const posts = ((data || []) as unknown as LessonDiscussionRow[]).map(mapPost);
+    const questions: LessonQuestion[] = posts
+      .filter(post => !post.parentId)
+      .map(post => ({ ...post, replies: posts.filter(reply => reply.parentId === post.id) }));
+
+    return questions.sort(compareQuestions);
+  },
+
+  async askQuestion(userId: string, lessonId: string, content: string): Promise<void> {
+    if (!userId) throw new Error('ID do usuário é obrigatório');
+    if (!content.trim()) throw new Error('A pergunta não pode ficar vazia');
+
+    const { error } = await supabase
+      .from('lesson_discussions')
+      .insert({ user_id: userId, lesson_id: lessonId, content: content.trim() });
+
+    if (error) {
+      console.error('Erro ao enviar pergunta:', error);
+      throw new Error('Falha ao enviar pergunta');
+    }
+  },
+
+  /**
+   * Responde à pergunta; a resposta de instrutores e administradores marca a pergunta como respondida
+   */
+  async replyToQuestion(userId: string, question: Pick<LessonQuestion, 'id' | 'lessonId'>, content: string): Promise<void> {
+    if (!userId) throw new Error('ID do usuário é obrigatório');
+    if (!content.trim()) throw new Error('A resposta não pode ficar vazia');
+
+    const { error } = await supabase
+      .from('lesson_discussions')
+      .insert({
+        user_id: userId,
+        lesson_id: question.lessonId,
+        parent_id: question.id,
+        content: content.trim()
+      });
+
+    if (error) {
+      console.error('Erro ao enviar resposta:', error);
+      throw new Error('Falha ao enviar resposta');
+    }
+  },
+
+  /**
+   * Exclui a pergunta (com as respostas) ou a resposta
+   */
+  async deletePost(postId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lesson_discussions')
+      .delete()
+      .eq('id', postId);
+
+    if (error) {
+      console.error('Erro ao excluir mensagem:', error);
+      throw new Error('Falha ao excluir mensagem');
+    }
+  },
+
+  async setUpvoted(userId: string, postId: string, upvoted: boolean): Promise<void> {
+    if (!userId) throw new Error('ID do usuário é obrigatório');
+
+    const { error } = upvoted
+      ? await supabase
+          .from('lesson_discussion_votes')
+          .upsert({ discussion_id: postId, user_id: userId }, { onConflict: 'discussion_id,user_id' })
+      : await supabase
+          .from('lesson_discussion_votes')
+          .delete()
+          .eq('discussion_id', postId)
+          .eq('user_id', userId);
+
+    if (error) {
+      console.error('Erro ao registrar voto:', error);
+      throw new Error('Falha ao registrar voto');
+    }
+  },
+
+  /**
+   * Marca ou desmarca a pergunta como respondida (autor da pergunta ou administradores)
+   */
+  async setQuestionAnswered(questionId: string, answered: boolean): Promise<void> {
+    const { error } = await supabase.rpc('set_lesson_question_answered', {
+      p_question_id: questionId,
+      p_answered: answered
+    });
+
+    if (error) {
+      console.error('Erro ao atualizar situação da pergunta:', error);
+      throw new Error(error.message || 'Falha ao atualizar situação da pergunta');
+    }
+  },
+
+  /**
+   * Fila de moderação: perguntas sem resposta de todos os cursos (somente administradores)
+   */
+  async getUnansweredQuestions(): Promise<UnansweredLessonQuestion[]> {
+    const { data, error } = await supabase.rpc('get_unanswered_lesson_questions');
+
+    if (error) {
+      console.error('Erro ao buscar perguntas sem resposta:', error);
+      throw new Error('Falha ao buscar perguntas sem resposta');
+    }
+
+    return ((data || []) as unknown as UnansweredQuestionRow[]).map(row => ({
+      id: row.id,
+      lessonId: row.lesson_id,
+      lessonTitle: row.lesson_title,
+      courseId: row.course_id,
+      courseTitle: row.course_title,
+      userId: row.user_id,
+      authorName: row.author_name,
+      content: row.content,
+      replyCount: row.reply_count,
+      upvotes: row.upvotes,
+      createdAt: row.created_at
+    }));
+  },
+
+  /**
+   * Autor, aula e curso da pergunta, usados para avisar o autor de novas respostas
+   */
+  async getQuestionContext(questionId: string): Promise<{
+    userId: string;
+    lessonId: string;
+    lessonTitle: string;
+    courseId: string | null;
+  } | null> {
+    const { data, error } = await supabase
+      .from('lesson_discussions')
+      .select('id, user_id, lesson_id, lessons(title, modules(course_id))')
+      .eq('id', questionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Erro ao buscar pergunta:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    const row = data as unknown as QuestionContextRow;
+    return {
+      userId: row.user_id,
+      lessonId: row.lesson_id,
+      lessonTitle: row.lessons?.title || 'Aula',
+      courseId: row.lessons?.modules?.course_id || null
+    };
+  }
+};
@@ -0,0 +1,132 @@
+import jsPDF from 'jspdf';
+import { LessonNoteWithContext } from '@/types';
+import { formatNoteTimestamp, getLessonNoteLink, groupNotesByCourse } from '@/utils/lessonNotes';
+
+const EXPORT_FILE_NAME = 'minhas-anotacoes';
+
+// A4 retrato, em milímetros
+const PAGE_HEIGHT = 297;
+const PAGE_WIDTH = 210;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Links absolutos, para funcionarem fora da plataforma (arquivo baixado)
+const toAbsoluteLink = (note: LessonNoteWithContext) =>
+  `${window.location.origin}${getLessonNoteLink(note.courseId, note.lessonId, note.timestampSeconds)}`;
+
+const formatExportDate = () => new Date().toLocaleDateString('pt-BR');
+
+const downloadFile = (content: Blob, fileName: string) => {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Cabeçalho de cada anotação: momento do vídeo com link, ou só o link da aula
+const getNoteHeading = (note: LessonNoteWithContext) =>
+  note.timestampSeconds !== null ? formatNoteTimestamp(note.timestampSeconds) : 'Anotação da aula';
+
+/**
+ * Anotações em Markdown: um título por curso, módulo e aula, com o link para cada momento
+ */
+const createNotesMarkdown = (notes: LessonNoteWithContext[]): string => {
+  const lines: string[] = ['# Minhas anotações', '', `Exportado em ${formatExportDate()}`, ''];
+
+  groupNotesByCourse(notes).forEach(course => {
+    lines.push(`## ${course.courseTitle}`, '');
+    course.modules.forEach(module => {
+      lines.push(`### ${module.moduleTitle}`, '');
+      module.lessons.forEach(lesson => {
+        lines.push(`#### ${lesson.lessonTitle}`, '');
+        lesson.notes.forEach(note => {
+          lines.push(`- [${getNoteHeading(note)}](${toAbsoluteLink(note)})`);
+          note.content.split('\n').forEach(line => lines.push(`  ${line}`.trimEnd()));
+        });
+        lines.push('');
+      });
+    });
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Anotações em PDF, na mesma estrutura do Markdown; o momento de cada anotação é um link para o player
+ */
+const createNotesPdf = (notes: LessonNoteWithContext[]): jsPDF => {
+  const doc = new jsPDF();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const writeLines = (text: string, fontSize: number, fontStyle: 'normal' | 'bold', indent = 0) => {
+    doc.setFont('helvetica', fontStyle);
+    doc.setFontSize(fontSize);
+    const lineHeight = fontSize * 0.45;
+    const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH - indent);
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN + indent, y);
+      y += lineHeight;
+    });
+  };
+
+  writeLines('Minhas anotações', 20, 'bold');
+  writeLines(`Exportado em ${formatExportDate()}`, 10, 'normal');
+  y += 4;
+
+  groupNotesByCourse(notes).forEach(course => {
+    y += 4;
+    writeLines(course.courseTitle, 16, 'bold');
+    course.modules.forEach(module => {
+      y += 2;
+      writeLines(module.moduleTitle, 13, 'bold');
+      module.lessons.forEach(lesson => {
+        y += 1;
+        writeLines(lesson.lessonTitle, 11, 'bold', 4);
+        lesson.notes.forEach(note => {
+          ensureSpace(6);
+          doc.setFont('helvetica', 'normal');
+          doc.setFontSize(10);
+          doc.setTextColor(37, 99, 235);
+          doc.textWithLink(getNoteHeading(note), MARGIN + 8, y, { url: toAbsoluteLink(note) });
+          doc.setTextColor(0, 0, 0);
+          y += 5;
+          writeLines(note.content, 10, 'normal', 8);
+          y += 2;
+        });
+      });
+    });
+  });
+
+  return doc;
+};
+
+const downloadNotesMarkdown = (notes: LessonNoteWithContext[]): void => {
+  const markdown = createNotesMarkdown(notes);
+  downloadFile(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), `${EXPORT_FILE_NAME}.md`);
+};
+
+const downloadNotesPdf = (notes: LessonNoteWithContext[]): void => {
+  createNotesPdf(notes).save(`${EXPORT_FILE_NAME}.pdf`);
+};
+
+/**
+ * Serviço de exportação das anotações do aluno
+ */
+export const lessonNoteExportService = {
+  createNotesMarkdown,
+  createNotesPdf,
+  downloadNotesMarkdown,
+  downloadNotesPdf
+};
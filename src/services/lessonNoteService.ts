@@ -0,0 +1,206 @@
+import { LessonBookmark, LessonNote, LessonNoteWithContext } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+import { compareLessonNotes } from '@/utils/lessonNotes';
+
+/**
+ * Interface para as anotações das aulas no banco de dados
+ */
+interface LessonNoteDB {
+  id: string;
+  lesson_id: string;
+  content: string;
+  timestamp_seconds: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface LessonNoteWithContextRow extends LessonNoteDB {
+  lesson_title: string;
+  module_id: string;
+  module_title: string;
+  course_id: string;
+  course_title: string;
+}
+
+interface LessonBookmarkRow {
+  id: string;
+  lesson_id: string;
+  created_at: string;
+  lesson_title: string;
+  module_title: string;
+  course_id: string;
+  course_title: string;
+}
+
+const NOTE_COLUMNS = 'id, lesson_id, content, timestamp_seconds, created_at, updated_at';
+
+const mapNote = (data: LessonNoteDB): LessonNote => ({
+  id: data.id,
+  lessonId: data.lesson_id,
+  content: data.content,
+  timestampSeconds: data.timestamp_seconds,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at
+});
+
+export const lessonNoteService = {
+  /**
+   * Anotações do aluno na aula (as políticas só retornam as do próprio aluno)
+   */
+  async getNotesByLessonId(lessonId: string): Promise<LessonNote[]> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    const { data, error } = await supabase
+      .from('lesson_notes')
+      .select(NOTE_COLUMNS)
+      .eq('lesson_id', lessonId);
+
+    if (error) {
+      console.error('Erro ao buscar anotações da aula:', error);
+      throw new Error('Falha ao buscar anotações da aula');
+    }
+
+    return ((data || []) as unknown as LessonNoteDB[]).map(mapNote).sort(compareLessonNotes);
+  },
+
+  async createNote(
+    userId: string,
+    lessonId: string,
+    content: string,
+    timestampSeconds: number | null = null
+  ): Promise<LessonNote> {
+    if (!userId) throw new Error('ID do usuário é obrigatório');
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+    if (!content.trim()) throw new Error('A anotação não pode ficar vazia');
+
+    const { data, error } = await supabase
+      .from('lesson_notes')
+      .insert({
+        user_id: userId,
+        lesson_id: lessonId,
+        content: content.trim(),
+        timestamp_seconds: timestampSeconds === null ? null : Math.max(0, Math.floor(timestampSeconds))
+      })
+      .select(NOTE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Erro ao salvar anotação:', error);
+      throw new Error('Falha ao salvar anotação');
+    }
+
+    return mapNote(data as unknown as LessonNoteDB);
+  },
+
+  async updateNote(noteId: string, content: string): Promise<LessonNote> {
+    if (!content.trim()) throw new Error('A anotação não pode ficar vazia');
+
+    const { data, error } = await supabase
+      .from('lesson_notes')
+      .update({ content: content.trim() })
+      .eq('id', noteId)
+      .select(NOTE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Erro ao atualizar anotação:', error);
+      throw new Error('Falha ao atualizar anotação');
+    }
+
+    return mapNote(data as unknown as LessonNoteDB);
+  },
+
+  async deleteNote(noteId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lesson_notes')
+      .delete()
+      .eq('id', noteId);
+
+    if (error) {
+      console.error('Erro ao excluir anotação:', error);
+      throw new Error('Falha ao excluir anotação');
+    }
+  },
+
+  /**
+   * Todas as anotações do aluno autenticado, com o curso, o módulo e a aula, na ordem do curso
+   */
+  async getUserNotes(): Promise<LessonNoteWithContext[]> {
+    const { data, error } = await supabase.rpc('get_user_lesson_notes');
+
+    if (error) {
+      console.error('Erro ao buscar anotações do aluno:', error);
+      throw new Error('Falha ao buscar anotações');
+    }
+
+    return ((data || []) as unknown as LessonNoteWithContextRow[]).map(row => ({
+      ...mapNote(row),
+      lessonTitle: row.lesson_title,
+      moduleId: row.module_id,
+      moduleTitle: row.module_title,
+      courseId: row.course_id,
+      courseTitle: row.course_title
+    }));
+  },
+
+  async isLessonBookmarked(lessonId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('lesson_bookmarks')
+      .select('id')
+      .eq('lesson_id', lessonId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Erro ao verificar marcação da aula:', error);
+      throw new Error('Falha ao verificar marcação da aula');
+    }
+
+    return !!data;
+  },
+
+  /**
+   * Marca ou desmarca a aula e retorna a nova situação
+   */
+  async setLessonBookmarked(userId: string, lessonId: string, bookmarked: boolean): Promise<boolean> {
+    if (!userId) throw new Error('ID do usuário é obrigatório');
+
+    const { error } = bookmarked
+      ? await supabase
+          .from('lesson_bookmarks')
+          .upsert({ user_id: userId, lesson_id: lessonId }, { onConflict: 'user_id,lesson_id' })
+      : await supabase
+          .from('lesson_bookmarks')
+          .delete()
+          .eq('user_id', userId)
+          .eq('lesson_id', lessonId);
+
+    if (error) {
+      console.error('Erro ao atualizar marcação da aula:', error);
+      throw new Error(bookmarked ? 'Falha ao marcar aula' : 'Falha ao desmarcar aula');
+    }
+
+    return bookmarked;
+  },
+
+  /**
+   * Aulas marcadas pelo aluno autenticado, das mais recentes para as mais antigas
+   */
+  async getUserBookmarks(): Promise<LessonBookmark[]> {
+    const { data, error } = await supabase.rpc('get_user_lesson_bookmarks');
+
+    if (error) {
+      console.error('Erro ao buscar aulas marcadas:', error);
+      throw new Error('Falha ao buscar aulas marcadas');
+    }
+
+    return ((data || []) as unknown as LessonBookmarkRow[]).map(row => ({
+      id: row.id,
+      lessonId: row.lesson_id,
+      lessonTitle: row.lesson_title,
+      moduleTitle: row.module_title,
+      courseId: row.course_id,
+      courseTitle: row.course_title,
+      createdAt: row.created_at
+    }));
+  }
+};
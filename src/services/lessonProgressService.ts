@@ -1,6 +1,21 @@
-import { LessonProgress, Certificate } from '@/types';
+import { LessonProgress, Certificate, LessonLockReason } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
-import { certificateService } from '@/services'; // Importar certificateService
+import { quizService } from './quizService';
+
+// Colunas de acompanhamento do vídeo na tabela lesson_progress
+interface LessonProgressWatchColumns {
+  watch_time_seconds?: number | null;
+  furthest_position_seconds?: number | null;
+  last_position_seconds?: number | null;
+  video_duration_seconds?: number | null;
+}
+
+const mapWatchProgress = (data: LessonProgressWatchColumns) => ({
+  watchTimeSeconds: data.watch_time_seconds || 0,
+  furthestPositionSeconds: data.furthest_position_seconds || 0,
+  lastPositionSeconds: data.last_position_seconds || 0,
+  videoDurationSeconds: data.video_duration_seconds ?? null
+});
 
 export const lessonProgressService = {
   /**
@@ -21,7 +36,8 @@ export const lessonProgressService = {
         userId: progress.user_id,
         lessonId: progress.lesson_id,
         completed: progress.completed,
-        completedAt: progress.completed_at
+        completedAt: progress.completed_at,
+        ...mapWatchProgress(progress as unknown as LessonProgressWatchColumns)
       }));
     } catch (error) {
       console.error('Erro ao buscar progresso das aulas:', error);
@@ -49,7 +65,8 @@ export const lessonProgressService = {
         userId: data.user_id,
         lessonId: data.lesson_id,
         completed: data.completed,
-        completedAt: data.completed_at
+        completedAt: data.completed_at,
+        ...mapWatchProgress(data as unknown as LessonProgressWatchColumns)
       };
     } catch (error) {
       console.error('Erro ao buscar progresso da aula:', error);
@@ -61,6 +78,32 @@ export const lessonProgressService = {
    * Marcar uma aula como concluída
    */
   async markLessonAsCompleted(userId: string, lessonId: string): Promise<LessonProgress> {
+    // Questionários só contam como concluídos após uma tentativa aprovada
+    const canComplete = await quizService.canCompleteLesson(userId, lessonId);
+    if (!canComplete) {
+      throw new Error('É necessário ser aprovado no questionário para concluir esta aula');
+    }
+
+    // Aulas ainda não liberadas (modo sequencial ou liberação programada) não podem ser concluídas
+    // (o banco também recusa a conclusão; aqui a mensagem chega ao aluno)
+    const lock = await this.getLessonLock(userId, lessonId);
+    if (lock) {
+      throw new Error(
+        lock.lockReason === 'release_date' && lock.unlockAt
+          ? `Esta aula será liberada em ${new Date(lock.unlockAt).toLocaleDateString('pt-BR')}`
+          : 'Conclua a aula anterior para liberar esta aula'
+      );
+    }
+
+    // Aulas com visualização obrigatória exigem a porcentagem configurada do vídeo assistida
+    // (o banco também recusa a conclusão; aqui a mensagem chega ao aluno)
+    const viewingStatus = await this.getViewingStatus(lessonId);
+    if (viewingStatus && viewingStatus.coveragePercent < viewingStatus.requiredPercent) {
+      throw new Error(
+        `Assista a pelo menos ${viewingStatus.requiredPercent}% do vídeo para concluir esta aula (assistido: ${viewingStatus.coveragePercent}%)`
+      );
+    }
+
     try {
       // Verificar se o usuário existe e criar perfil se necessário
       try {
@@ -114,120 +157,150 @@ export const lessonProgressService = {
       }
 
       const now = new Date().toISOString();
-      
+
+      // Erros de gravação são repassados com a mensagem do banco, que recusa a conclusão quando a
+      // visualização obrigatória não foi cumprida (20_mandatory_viewing.sql) ou a aula ainda não foi
+      // liberada (21_content_release.sql)
       if (existingProgress) {
         console.log(`Atualizando progresso existente para aula ${lessonId}`);
         // Atualizar o registro existente
-        try {
-          const { data, error } = await supabase
-            .from('lesson_progress')
-            .update({
-              completed: true,
-              completed_at: now
-            })
-            .eq('id', existingProgress.id)
-            .select()
-            .single();
-
-          if (error) {
-            console.error('Erro ao atualizar progresso:', error);
-            throw error;
-          }
-          
-          return {
-            id: data.id,
-            userId: data.user_id,
-            lessonId: data.lesson_id,
-            completed: data.completed,
-            completedAt: data.completed_at
-          };
-        } catch (updateError) {
-          console.error('Erro ao atualizar progresso (capturado):', updateError);
-          
-          // Retornar o progresso existente em caso de erro
-          return {
-            id: existingProgress.id,
-            userId: existingProgress.user_id,
-            lessonId: existingProgress.lesson_id,
-            completed: true,
-            completedAt: existingProgress.completed_at || now
-          };
-        }
-      } else {
-        console.log(`Criando novo progresso para aula ${lessonId}`);
-        // Criar um novo registro
-        try {
-          const progressData = {
-            user_id: userId,
-            lesson_id: lessonId,
+        const { data, error } = await supabase
+          .from('lesson_progress')
+          .update({
             completed: true,
             completed_at: now
-          };
-          
-          const { data, error } = await supabase
-            .from('lesson_progress')
-            .insert(progressData)
-            .select()
-            .single();
-
-          if (error) {
-            console.error('Erro ao criar progresso:', error);
-            
-            // Abordagem alternativa: tentar inserir sem retornar dados
-            const { error: altError } = await supabase
-              .from('lesson_progress')
-              .insert(progressData);
-              
-            if (altError) {
-              console.error('Erro na abordagem alternativa:', altError);
-              throw altError;
-            }
-            
-            // Se chegou aqui, a inserção foi bem-sucedida, mas não temos os dados
-            // Criar um objeto de progresso com os dados que temos
-            return {
-              id: `temp-${Date.now()}`, // ID temporário
-              userId,
-              lessonId,
-              completed: true,
-              completedAt: now
-            };
-          }
-          
-          return {
-            id: data.id,
-            userId: data.user_id,
-            lessonId: data.lesson_id,
-            completed: data.completed,
-            completedAt: data.completed_at
-          };
-        } catch (insertError) {
-          console.error('Erro ao criar progresso (capturado):', insertError);
-          
-          // Criar um objeto de progresso com os dados que temos
-          return {
-            id: `temp-${Date.now()}`, // ID temporário
-            userId,
-            lessonId,
-            completed: true,
-            completedAt: now
-          };
+          })
+          .eq('id', existingProgress.id)
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Erro ao atualizar progresso:', error);
+          throw new Error(error.message || 'Falha ao marcar aula como concluída');
         }
+
+        return {
+          id: data.id,
+          userId: data.user_id,
+          lessonId: data.lesson_id,
+          completed: data.completed,
+          completedAt: data.completed_at
+        };
       }
-    } catch (error) {
-      console.error('Erro ao marcar aula como concluída:', error);
-      
-      // Retornar um objeto de progresso fictício para não quebrar a interface
+
+      console.log(`Criando novo progresso para aula ${lessonId}`);
+      // Criar um novo registro
+      const { data, error } = await supabase
+        .from('lesson_progress')
+        .insert({
+          user_id: userId,
+          lesson_id: lessonId,
+          completed: true,
+          completed_at: now
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Erro ao criar progresso:', error);
+        throw new Error(error.message || 'Falha ao marcar aula como concluída');
+      }
+
       return {
-        id: `error-${Date.now()}`,
-        userId,
-        lessonId,
-        completed: true,
-        completedAt: new Date().toISOString()
+        id: data.id,
+        userId: data.user_id,
+        lessonId: data.lesson_id,
+        completed: data.completed,
+        completedAt: data.completed_at
       };
+    } catch (error) {
+      console.error('Erro ao marcar aula como concluída:', error);
+      throw error instanceof Error ? error : new Error('Falha ao marcar aula como concluída');
+    }
+  },
+
+  /**
+   * Registrar o avanço do aluno autenticado no vídeo de uma aula
+   * (tempo assistido desde o último registro, posição atual e posição mais avançada, em segundos)
+   */
+  async recordWatchProgress(lessonId: string, watch: {
+    watchedSeconds: number;
+    positionSeconds: number;
+    furthestPositionSeconds: number;
+  }): Promise<void> {
+    const { error } = await supabase.rpc('record_lesson_watch_progress', {
+      p_lesson_id: lessonId,
+      p_watched_seconds: Math.round(watch.watchedSeconds),
+      p_position_seconds: Math.floor(watch.positionSeconds),
+      p_furthest_position_seconds: Math.floor(watch.furthestPositionSeconds)
+    });
+
+    if (error) {
+      console.error('Erro ao registrar progresso do vídeo:', error);
+      throw new Error('Falha ao registrar progresso do vídeo');
     }
   },
 
+  /**
+   * Bloqueio da aula para o aluno pela liberação de conteúdo do curso
+   * (null quando a aula está liberada ou a consulta falha; nesse caso o banco decide)
+   */
+  async getLessonLock(userId: string, lessonId: string): Promise<{ lockReason: LessonLockReason | null; unlockAt: string | null } | null> {
+    const { data: lesson, error: lessonError } = await supabase
+      .from('lessons')
+      .select('modules(course_id)')
+      .eq('id', lessonId)
+      .maybeSingle();
+
+    const courseId = (lesson as unknown as { modules: { course_id: string } | null } | null)?.modules?.course_id;
+    if (lessonError || !courseId) {
+      if (lessonError) console.error('Erro ao buscar curso da aula:', lessonError);
+      return null;
+    }
+
+    const { data, error } = await supabase.rpc('get_course_content_locks', {
+      p_user_id: userId,
+      p_course_id: courseId
+    });
+
+    if (error) {
+      console.error('Erro ao verificar liberação da aula:', error);
+      return null;
+    }
+
+    const lock = ((data || []) as unknown as { lesson_id: string | null; is_locked: boolean; lock_reason: LessonLockReason | null; module_unlock_at: string | null }[])
+      .find(row => row.lesson_id === lessonId);
+    if (!lock?.is_locked) return null;
+
+    return {
+      lockReason: lock.lock_reason,
+      unlockAt: lock.module_unlock_at
+    };
+  },
+
+  /**
+   * Situação da visualização obrigatória da aula para o aluno autenticado
+   * (null quando a aula não exige visualização ou a consulta falha; nesse caso o banco decide)
+   */
+  async getViewingStatus(lessonId: string): Promise<{ requiredPercent: number; coveragePercent: number } | null> {
+    const { data, error } = await supabase.rpc('get_lesson_viewing_status', {
+      p_lesson_id: lessonId
+    });
+
+    if (error) {
+      console.error('Erro ao verificar visualização obrigatória:', error);
+      return null;
+    }
+
+    const status = ((data || []) as unknown as { required_percent: number | null; coverage_percent: number | null }[])[0];
+    if (!status || status.required_percent === null) return null;
+
+    return {
+      requiredPercent: status.required_percent,
+      coveragePercent: status.coverage_percent || 0
+    };
+  },
+
   /**
    * Marcar uma aula como não concluída
    */
@@ -293,31 +366,14 @@ export const lessonProgressService = {
       const progress = totalLessons > 0 ? Math.round((completedCount / totalLessons) * 100) : 0;
       
       // Atualizar o progresso na tabela de matrículas
+      // Ao chegar a 100%, o certificado é emitido pelo banco (generate_course_certificate) se as regras
+      // do curso foram cumpridas; regras cumpridas depois são emitidas por issue_pending_certificates
       await supabase
         .from('enrollments')
         .update({ progress })
         .eq('user_id', userId)
         .eq('course_id', courseId);
 
-      // Gerar certificado se o curso for concluído (progresso === 100)
-      if (progress === 100) {
-        try {
-          // Verificar se já existe um certificado para evitar duplicidade
-          const existingCertificates = await certificateService.getCertificates(userId, courseId);
-          if (existingCertificates.length === 0) {
-            console.log(`Iniciando geração de certificado para o usuário ${userId} no curso ${courseId}`);
-            const certificate = await certificateService.generateCertificate(courseId, userId);
-            // Notificar o usuário sobre o novo certificado
-            console.log(`Certificado gerado com sucesso: ${certificate.id}`);
-          } else {
-            console.log(`Certificado já existe para o usuário ${userId} no curso ${courseId}`);
-          }
-        } catch (certError) {
-          console.error('Erro ao gerar certificado automaticamente:', certError);
-          // Não impedir o fluxo principal por erro na geração do certificado, mas registrar
-        }
-      }
-
       return progress;
     } catch (error) {
       console.error('Erro ao calcular progresso do curso:', error);
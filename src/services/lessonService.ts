@@ -1,5 +1,24 @@
-import { Lesson } from '@/types';
+import { Lesson, LessonType } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
+import { sanitizeLessonContent } from '@/utils/richText';
+import { lessonVideoService } from './lessonVideoService';
+
+// Colunas de aula usadas em todas as consultas
+export const LESSON_COLUMNS = 'id, module_id, title, description, duration, video_url, content, order_number, lesson_type, passing_score, max_attempts, auto_complete_percent, mandatory_viewing, mandatory_viewing_percent, video_thumbnail_url, duration_seconds';
+
+// Colunas de configuração do questionário, da conclusão automática, da visualização obrigatória
+// e do vídeo enviado na tabela lessons
+interface LessonQuizColumns {
+  video_url?: string | null;
+  lesson_type?: LessonType;
+  passing_score?: number | null;
+  max_attempts?: number | null;
+  auto_complete_percent?: number | null;
+  mandatory_viewing?: boolean;
+  mandatory_viewing_percent?: number;
+  video_thumbnail_url?: string | null;
+  duration_seconds?: number | null;
+}
 
 export const lessonService = {
   // Método auxiliar para mapear dados da aula do formato do banco para o formato da aplicação
@@ -13,7 +32,15 @@ export const lessonService = {
       videoUrl: data.video_url || '',
       content: data.content || '',
       order: data.order_number,
-      isCompleted: false
+      isCompleted: false,
+      type: data.lesson_type || 'video',
+      passingScore: data.passing_score ?? 70,
+      maxAttempts: data.max_attempts ?? null,
+      autoCompletePercent: data.auto_complete_percent ?? null,
+      mandatoryViewing: data.mandatory_viewing ?? false,
+      mandatoryViewingPercent: data.mandatory_viewing_percent ?? 90,
+      videoThumbnailUrl: data.video_thumbnail_url ?? null,
+      durationSeconds: data.duration_seconds ?? null
     };
     
     // Adicionar propriedades adicionais para compatibilidade com a interface do AdminLessons
@@ -34,7 +61,15 @@ export const lessonService = {
       duration: data.duration || '',
       video_url: data.video_url || '',
       content: data.content || '',
-      order_number: data.order_number || 1
+      order_number: data.order_number || 1,
+      lesson_type: data.lesson_type,
+      passing_score: data.passing_score,
+      max_attempts: data.max_attempts,
+      auto_complete_percent: data.auto_complete_percent,
+      mandatory_viewing: data.mandatory_viewing,
+      mandatory_viewing_percent: data.mandatory_viewing_percent,
+      video_thumbnail_url: data.video_thumbnail_url,
+      duration_seconds: data.duration_seconds
     };
     
     return this.mapLessonData(simulatedData);
@@ -45,24 +80,14 @@ export const lessonService = {
     try {
       const { data, error } = await supabase
         .from('lessons')
-        .select('id, module_id, title, description, duration, video_url, content, order_number')
+        .select(LESSON_COLUMNS)
         .eq('module_id', moduleId)
         .order('order_number', { ascending: true });
 
       if (error) throw error;
       if (!data) throw new Error('Nenhuma aula encontrada para este módulo');
 
-      return data.map(lesson => ({
-        id: lesson.id,
-        moduleId: lesson.module_id,
-        title: lesson.title,
-        description: lesson.description || '',
-        duration: lesson.duration || '',
-        videoUrl: lesson.video_url || '',
-        content: lesson.content || '',
-        order: lesson.order_number,
-        isCompleted: false
-      }));
+      return data.map(lesson => this.mapLessonData(lesson));
     } catch (error) {
       console.error('Erro ao buscar aulas:', error);
       throw new Error('Falha ao buscar aulas');
@@ -76,6 +101,14 @@ export const lessonService = {
     videoUrl?: string;
     content?: string;
     order: number;
+    type?: LessonType;
+    passingScore?: number;
+    maxAttempts?: number | null;
+    autoCompletePercent?: number | null;
+    mandatoryViewing?: boolean;
+    mandatoryViewingPercent?: number;
+    videoThumbnailUrl?: string | null;
+    durationSeconds?: number | null;
   }): Promise<Lesson> {
     if (!moduleId) throw new Error('ID do módulo é obrigatório');
     if (!lessonData?.title?.trim()) throw new Error('Título da aula é obrigatório');
@@ -88,8 +121,16 @@ export const lessonService = {
         description: lessonData.description?.trim() || '',
         duration: lessonData.duration?.trim() || '',
         video_url: lessonData.videoUrl?.trim() || '',
-        content: lessonData.content?.trim() || '',
-        order_number: lessonData.order || 1
+        content: sanitizeLessonContent(lessonData.content?.trim() || ''),
+        order_number: lessonData.order || 1,
+        lesson_type: lessonData.type || 'video',
+        passing_score: lessonData.passingScore ?? 70,
+        max_attempts: lessonData.maxAttempts ?? null,
+        auto_complete_percent: lessonData.autoCompletePercent ?? null,
+        mandatory_viewing: lessonData.mandatoryViewing ?? false,
+        mandatory_viewing_percent: lessonData.mandatoryViewingPercent ?? 90,
+        video_thumbnail_url: lessonData.videoThumbnailUrl ?? null,
+        duration_seconds: lessonData.durationSeconds ?? null
       };
 
       // Verificar se já existe uma aula com a mesma ordem no módulo
@@ -113,7 +154,7 @@ export const lessonService = {
       const { data, error } = await supabase
         .from('lessons')
         .insert(lessonToInsert)
-        .select('id, module_id, title, description, duration, video_url, content, order_number')
+        .select(LESSON_COLUMNS)
         .single();
 
       if (error) {
@@ -125,26 +166,9 @@ export const lessonService = {
         throw new Error('Nenhum dado retornado após criar a aula');
       }
 
-      // Criamos um objeto Lesson completo para retornar
-      const newLesson: Lesson = {
-        id: data.id,
-        moduleId: data.module_id,
-        title: data.title,
-        description: data.description || '',
-        duration: data.duration || '',
-        videoUrl: data.video_url || '',
-        content: data.content || '',
-        order: data.order_number,
-        isCompleted: false
-      };
-      
-      // Adicionamos propriedades adicionais para compatibilidade com a interface do AdminLessons
-      // Essas propriedades não fazem parte do tipo Lesson, mas são usadas na interface
-      (newLesson as any).order_number = data.order_number;
-      (newLesson as any).video_url = data.video_url || '';
-      (newLesson as any).module_id = data.module_id;
-
-      return newLesson;
+      // Criamos um objeto Lesson completo para retornar, com as propriedades
+      // adicionais usadas pela interface do AdminLessons
+      return this.mapLessonData(data);
     } catch (error) {
       console.error('Erro ao criar aula:', error);
       throw error; // Propagar o erro original para melhor diagnóstico
@@ -159,6 +183,14 @@ export const lessonService = {
     content?: string;
     order?: number;
     moduleId?: string;
+    type?: LessonType;
+    passingScore?: number;
+    maxAttempts?: number | null;
+    autoCompletePercent?: number | null;
+    mandatoryViewing?: boolean;
+    mandatoryViewingPercent?: number;
+    videoThumbnailUrl?: string | null;
+    durationSeconds?: number | null;
   }): Promise<Lesson> {
     if (!lessonId) throw new Error('ID da aula é obrigatório');
 
@@ -179,16 +211,40 @@ export const lessonService = {
         throw new Error('Aula não encontrada');
       }
 
+      const currentQuiz = currentLesson as LessonQuizColumns;
+
       // Preparar os dados para atualização, usando valores atuais como fallback
       const updates = {
         title: lessonData.title?.trim() ?? currentLesson.title,
         description: lessonData.description?.trim() ?? currentLesson.description ?? '',
         duration: lessonData.duration?.trim() ?? currentLesson.duration ?? '',
         video_url: lessonData.videoUrl?.trim() ?? currentLesson.video_url ?? '',
-        content: lessonData.content?.trim() ?? currentLesson.content ?? '',
+        content: lessonData.content !== undefined
+          ? sanitizeLessonContent(lessonData.content.trim())
+          : (currentLesson.content ?? ''),
         order_number: lessonData.order ?? currentLesson.order_number,
-        module_id: lessonData.moduleId ?? currentLesson.module_id
+        module_id: lessonData.moduleId ?? currentLesson.module_id,
+        lesson_type: lessonData.type ?? currentQuiz.lesson_type ?? 'video',
+        passing_score: lessonData.passingScore ?? currentQuiz.passing_score ?? 70,
+        max_attempts: lessonData.maxAttempts !== undefined ? lessonData.maxAttempts : (currentQuiz.max_attempts ?? null),
+        auto_complete_percent: lessonData.autoCompletePercent !== undefined
+          ? lessonData.autoCompletePercent
+          : (currentQuiz.auto_complete_percent ?? null),
+        mandatory_viewing: lessonData.mandatoryViewing ?? currentQuiz.mandatory_viewing ?? false,
+        mandatory_viewing_percent: lessonData.mandatoryViewingPercent ?? currentQuiz.mandatory_viewing_percent ?? 90,
+        video_thumbnail_url: lessonData.videoThumbnailUrl !== undefined
+          ? lessonData.videoThumbnailUrl
+          : (currentQuiz.video_thumbnail_url ?? null),
+        duration_seconds: lessonData.durationSeconds !== undefined
+          ? lessonData.durationSeconds
+          : (currentQuiz.duration_seconds ?? null)
       };
+
+      // Arquivos do vídeo enviado anteriormente, removidos do bucket quando a aula passa a usar outro vídeo
+      const removeReplacedVideo = () => lessonVideoService.removeStoredFiles([
+        currentQuiz.video_url !== updates.video_url ? currentQuiz.video_url : null,
+        currentQuiz.video_thumbnail_url !== updates.video_thumbnail_url ? currentQuiz.video_thumbnail_url : null
+      ]);
       
       // Validar título
       if (!updates.title) {
@@ -206,17 +262,26 @@ export const lessonService = {
         p_video_url: updates.video_url || '',
         p_content: updates.content || '',
         p_order_number: updates.order_number || 1,
-        p_module_id: updates.module_id
+        p_module_id: updates.module_id,
+        p_lesson_type: updates.lesson_type,
+        p_passing_score: updates.passing_score,
+        p_max_attempts: updates.max_attempts,
+        p_auto_complete_percent: updates.auto_complete_percent,
+        p_mandatory_viewing: updates.mandatory_viewing,
+        p_mandatory_viewing_percent: updates.mandatory_viewing_percent,
+        p_video_thumbnail_url: updates.video_thumbnail_url,
+        p_duration_seconds: updates.duration_seconds
       });
       
       // Se a RPC funcionou, buscar os dados atualizados
       if (!rpcError && rpcData) {
         console.log('Atualização via RPC bem-sucedida, buscando dados atualizados');
+        await removeReplacedVideo();
         
         // Buscar os dados atualizados
         const { data, error } = await supabase
           .from('lessons')
-          .select('id, module_id, title, description, duration, video_url, content, order_number')
+          .select(LESSON_COLUMNS)
           .eq('id', lessonId)
           .single();
         
@@ -237,7 +302,7 @@ export const lessonService = {
           id: lessonId,  // Incluir o ID para garantir que estamos atualizando o registro correto
           ...updates     // Espalhar todos os campos atualizados
         })
-        .select('id, module_id, title, description, duration, video_url, content, order_number')
+        .select(LESSON_COLUMNS)
         .single();
 
       if (error) {
@@ -249,6 +314,8 @@ export const lessonService = {
         return this.createSimulatedLesson(lessonId, updates);
       }
       
+      await removeReplacedVideo();
+
       if (!data) {
         console.warn('Nenhum dado retornado após atualizar a aula, usando dados de entrada');
         return this.createSimulatedLesson(lessonId, updates);
@@ -272,7 +339,15 @@ export const lessonService = {
           duration: lessonData.duration || '',
           video_url: lessonData.videoUrl || '',
           content: lessonData.content || '',
-          order_number: lessonData.order || 1
+          order_number: lessonData.order || 1,
+          lesson_type: lessonData.type || 'video',
+          passing_score: lessonData.passingScore ?? 70,
+          max_attempts: lessonData.maxAttempts ?? null,
+          auto_complete_percent: lessonData.autoCompletePercent ?? null,
+          mandatory_viewing: lessonData.mandatoryViewing ?? false,
+          mandatory_viewing_percent: lessonData.mandatoryViewingPercent ?? 90,
+          video_thumbnail_url: lessonData.videoThumbnailUrl ?? null,
+          duration_seconds: lessonData.durationSeconds ?? null
         };
         
         // Criar o objeto Lesson a partir dos dados de emergência
@@ -285,7 +360,15 @@ export const lessonService = {
           videoUrl: emergencyData.video_url,
           content: emergencyData.content,
           order: emergencyData.order_number,
-          isCompleted: false
+          isCompleted: false,
+          type: emergencyData.lesson_type as LessonType,
+          passingScore: emergencyData.passing_score,
+          maxAttempts: emergencyData.max_attempts,
+          autoCompletePercent: emergencyData.auto_complete_percent,
+          mandatoryViewing: emergencyData.mandatory_viewing,
+          mandatoryViewingPercent: emergencyData.mandatory_viewing_percent,
+          videoThumbnailUrl: emergencyData.video_thumbnail_url,
+          durationSeconds: emergencyData.duration_seconds
         };
         
         // Adicionar propriedades adicionais para compatibilidade
@@ -0,0 +1,113 @@
+import { supabase } from '@/integrations/supabase/client';
+import { readVideoMetadata } from '@/utils/videoMetadata';
+
+// Bucket privado dos vídeos das aulas (criado em SQLADM/23_lesson_videos.sql)
+const VIDEOS_BUCKET = 'lesson-videos';
+
+// Prefixo das referências gravadas em lessons.video_url e lessons.video_thumbnail_url
+const STORAGE_PREFIX = `storage://${VIDEOS_BUCKET}/`;
+
+// Mesmo limite do bucket
+export const MAX_VIDEO_SIZE = 1024 * 1024 * 1024;
+
+// Formatos reproduzidos diretamente pelo player
+export const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.ogg'];
+
+// Validade das URLs assinadas de reprodução, em segundos (cobre uma sessão de estudo)
+const PLAYBACK_URL_EXPIRES_IN = 6 * 60 * 60;
+
+export interface UploadedLessonVideo {
+  videoUrl: string;
+  videoThumbnailUrl: string | null;
+  durationSeconds: number;
+}
+
+const toStoragePath = (reference: string) => reference.slice(STORAGE_PREFIX.length);
+
+export const lessonVideoService = {
+  // Indica se a URL é a referência de um vídeo (ou miniatura) enviado para o bucket
+  isStoredVideo(url?: string | null): boolean {
+    return Boolean(url?.startsWith(STORAGE_PREFIX));
+  },
+
+  /**
+   * Envia o vídeo da aula para o bucket, junto com a miniatura capturada do próprio vídeo,
+   * e retorna as referências e a duração real para serem salvas na aula
+   */
+  async uploadVideo(lessonId: string, file: File): Promise<UploadedLessonVideo> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+    if (!VIDEO_EXTENSIONS.includes(extension)) {
+      throw new Error('Formato de vídeo não suportado. Envie um arquivo MP4, WebM ou OGG');
+    }
+    if (file.size > MAX_VIDEO_SIZE) {
+      throw new Error('O vídeo ultrapassa o limite de 1 GB');
+    }
+
+    const { durationSeconds, thumbnail } = await readVideoMetadata(file, { captureThumbnail: true });
+
+    const fileId = crypto.randomUUID();
+    const videoPath = `${lessonId}/${fileId}${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(VIDEOS_BUCKET)
+      .upload(videoPath, file, { contentType: file.type || `video/${extension.slice(1)}` });
+
+    if (uploadError) {
+      console.error('Erro ao enviar vídeo da aula:', uploadError);
+      throw new Error('Falha ao enviar o vídeo');
+    }
+
+    // A miniatura é opcional: uma falha aqui não impede o uso do vídeo
+    let thumbnailPath: string | null = null;
+    if (thumbnail) {
+      const path = `${lessonId}/${fileId}-thumbnail.jpg`;
+      const { error: thumbnailError } = await supabase.storage
+        .from(VIDEOS_BUCKET)
+        .upload(path, thumbnail, { contentType: 'image/jpeg' });
+
+      if (thumbnailError) {
+        console.error('Erro ao enviar miniatura do vídeo:', thumbnailError);
+      } else {
+        thumbnailPath = path;
+      }
+    }
+
+    return {
+      videoUrl: `${STORAGE_PREFIX}${videoPath}`,
+      videoThumbnailUrl: thumbnailPath ? `${STORAGE_PREFIX}${thumbnailPath}` : null,
+      durationSeconds
+    };
+  },
+
+  /**
+   * URL reproduzível pelo player: referências do bucket viram URLs assinadas
+   * (o bucket só libera a URL para administradores e alunos matriculados no curso);
+   * as demais URLs são retornadas sem alteração
+   */
+  async getPlaybackUrl(url: string): Promise<string> {
+    if (!this.isStoredVideo(url)) return url;
+
+    const { data, error } = await supabase.storage
+      .from(VIDEOS_BUCKET)
+      .createSignedUrl(toStoragePath(url), PLAYBACK_URL_EXPIRES_IN);
+
+    if (error || !data?.signedUrl) {
+      console.error('Erro ao gerar link do vídeo:', error);
+      throw new Error('Você não tem acesso a este vídeo');
+    }
+
+    return data.signedUrl;
+  },
+
+  // Remove do bucket os arquivos de um vídeo que deixou de ser usado pela aula
+  async removeStoredFiles(urls: Array<string | null | undefined>): Promise<void> {
+    const paths = urls.filter(url => this.isStoredVideo(url)).map(url => toStoragePath(url));
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(VIDEOS_BUCKET).remove(paths);
+    if (error) {
+      console.error('Erro ao remover vídeo antigo da aula:', error);
+    }
+  }
+};
@@ -1,15 +1,95 @@
-import { Module, Lesson } from '@/types';
+import { Module, Lesson, LessonLockReason } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
 import { requestQueue } from '@/utils/requestQueue';
 import { cacheManager } from '@/utils/cacheManager';
+import { lessonService, LESSON_COLUMNS } from './lessonService';
+
+// Colunas de módulo usadas em todas as consultas
+export const MODULE_COLUMNS = 'id, title, description, order_number, course_id, release_after_days, release_date';
+
+interface ModuleRow {
+  id: string;
+  title: string;
+  description: string | null;
+  order_number: number;
+  course_id: string;
+  release_after_days?: number | null;
+  release_date?: string | null;
+}
+
+// Linha retornada por get_course_content_locks (módulos sem aulas vêm com lesson_id nulo)
+interface ContentLockRow {
+  module_id: string;
+  lesson_id: string | null;
+  is_locked: boolean;
+  lock_reason: LessonLockReason | null;
+  module_unlock_at: string | null;
+}
 
 export const moduleService = {
+  // Método auxiliar para mapear dados do módulo do formato do banco para o formato da aplicação
+  mapModuleData(data: ModuleRow, lessons: Lesson[]): Module {
+    return {
+      id: data.id,
+      title: data.title,
+      description: data.description || '',
+      order: data.order_number,
+      courseId: data.course_id,
+      releaseAfterDays: data.release_after_days ?? null,
+      releaseDate: data.release_date ?? null,
+      lessons
+    };
+  },
+
+  /**
+   * Aplica aos módulos e aulas a situação de liberação do conteúdo para o aluno
+   * (modo sequencial ou programado do curso), calculada no banco para que todos os players
+   * bloqueiem as mesmas aulas
+   */
+  async applyContentLocks(modules: Module[], courseId: string, userId?: string): Promise<Module[]> {
+    if (!userId || modules.length === 0) return modules;
+
+    const { data, error } = await supabase.rpc('get_course_content_locks', {
+      p_user_id: userId,
+      p_course_id: courseId
+    });
+
+    if (error) {
+      // A conclusão de aulas bloqueadas continua sendo recusada pelo banco
+      console.error('Erro ao buscar liberação do conteúdo do curso:', error);
+      return modules;
+    }
+
+    const locks = (data || []) as unknown as ContentLockRow[];
+    const lessonLocks = new Map(locks.filter(lock => lock.lesson_id).map(lock => [lock.lesson_id, lock]));
+    const moduleUnlockAt = new Map(locks.map(lock => [lock.module_id, lock.module_unlock_at]));
+
+    return modules.map(module => {
+      const unlockAt = moduleUnlockAt.get(module.id) || null;
+
+      return {
+        ...module,
+        isLocked: Boolean(unlockAt),
+        unlockAt,
+        lessons: module.lessons.map(lesson => {
+          const lock = lessonLocks.get(lesson.id);
+          return {
+            ...lesson,
+            isLocked: Boolean(lock?.is_locked),
+            lockReason: lock?.lock_reason || null,
+            unlockAt: lock?.module_unlock_at || null
+          };
+        })
+      };
+    });
+  },
+
   async getAllModules(): Promise<Module[]> {
     try {
       // Primeiro, buscar todos os módulos
       const { data, error } = await supabase
         .from('modules')
-        .select('id, title, description, order_number, course_id')
+        .select(MODULE_COLUMNS)
         .order('title', { ascending: true });
 
       if (error) throw error;
@@ -21,50 +101,19 @@ export const moduleService = {
           // Buscar aulas para este módulo
           const { data: lessons, error: lessonsError } = await supabase
             .from('lessons')
-            .select('id, module_id, title, description, duration, video_url, content, order_number')
+            .select(LESSON_COLUMNS)
             .eq('module_id', module.id)
             .order('order_number', { ascending: true });
 
           if (lessonsError) {
             console.error(`Erro ao buscar aulas para o módulo ${module.id}:`, lessonsError);
-            return {
-              id: module.id,
-              title: module.title,
-              description: module.description || '',
-              order: module.order_number,
-              courseId: module.course_id,
-              lessons: []
-            };
+            return this.mapModuleData(module, []);
           }
 
-          return {
-            id: module.id,
-            title: module.title,
-            description: module.description || '',
-            order: module.order_number,
-            courseId: module.course_id,
-            lessons: (lessons || []).map(lesson => ({
-              id: lesson.id,
-              moduleId: lesson.module_id,
-              title: lesson.title,
-              description: lesson.description || '',
-              duration: lesson.duration || '',
-              videoUrl: lesson.video_url || '',
-              content: lesson.content || '',
-              order: lesson.order_number,
-              isCompleted: false
-            }))
-          };
+          return this.mapModuleData(module, (lessons || []).map(lesson => lessonService.mapLessonData(lesson)));
         } catch (error) {
           console.error(`Erro ao processar módulo ${module.id}:`, error);
-          return {
-            id: module.id,
-            title: module.title,
-            description: module.description || '',
-            order: module.order_number,
-            courseId: module.course_id,
-            lessons: []
-          };
+          return this.mapModuleData(module, []);
         }
       }));
 
@@ -75,7 +124,10 @@ export const moduleService = {
     }
   },
 
-  async getModulesByCourseId(courseId: string): Promise<Module[]> {
+  /**
+   * Módulos do curso com suas aulas; com userId, inclui a situação de liberação do conteúdo para o aluno
+   */
+  async getModulesByCourseId(courseId: string, userId?: string): Promise<Module[]> {
     if (!courseId) throw new Error('ID do curso é obrigatório');
 
     console.log(`DIAGNÓSTICO: Buscando módulos e aulas do curso ${courseId}...`);
@@ -89,8 +141,8 @@ export const moduleService = {
       const { data: modulesWithLessonsData, error: modulesJoinError } = await supabase
         .from('modules')
         .select(`
-          id, title, description, order_number, course_id,
-          lessons:lessons(id, module_id, title, description, duration, video_url, content, order_number)
+          ${MODULE_COLUMNS},
+          lessons:lessons(${LESSON_COLUMNS})
         `)
         .eq('course_id', courseId)
         .order('order_number', { ascending: true });
@@ -112,28 +164,11 @@ export const moduleService = {
           console.log(`DIAGNÓSTICO: Módulo ${moduleData.title} tem ${sortedLessons.length} aulas`);
           
           // Criar objeto Module com as aulas ordenadas
-          return {
-            id: moduleData.id,
-            title: moduleData.title,
-            description: moduleData.description || '',
-            order: moduleData.order_number,
-            courseId: moduleData.course_id,
-            lessons: sortedLessons.map(lesson => ({
-              id: lesson.id,
-              moduleId: lesson.module_id,
-              title: lesson.title,
-              description: lesson.description || '',
-              duration: lesson.duration || '',
-              videoUrl: lesson.video_url || '',
-              content: lesson.content || '',
-              order: lesson.order_number,
-              isCompleted: false
-            }))
-          };
+          return this.mapModuleData(moduleData, sortedLessons.map(lesson => lessonService.mapLessonData(lesson)));
         }).sort((a, b) => a.order - b.order);
         
         console.log(`DIAGNÓSTICO: Retornando ${processedModules.length} módulos com suas aulas`);
-        return processedModules;
+        return this.applyContentLocks(processedModules, courseId, userId);
       } else {
         console.log(`DIAGNÓSTICO: Nenhum módulo encontrado na abordagem com join`);
       }
@@ -143,7 +178,7 @@ export const moduleService = {
       
       const { data: modules, error: modulesError } = await supabase
         .from('modules')
-        .select('id, title, description, order_number, course_id')
+        .select(MODULE_COLUMNS)
         .eq('course_id', courseId)
         .order('order_number', { ascending: true });
       
@@ -170,7 +205,7 @@ export const moduleService = {
       
       const { data: allLessons, error: allLessonsError } = await supabase
         .from('lessons')
-        .select('id, module_id, title, description, duration, video_url, content, order_number')
+        .select(LESSON_COLUMNS)
         .in('module_id', moduleIds)
         .order('order_number', { ascending: true });
         
@@ -181,13 +216,13 @@ export const moduleService = {
       }
       
       // Agrupar aulas por módulo
-      const lessonsByModule = new Map();
+      const lessonsByModule = new Map<string, Lesson[]>();
       if (allLessons && allLessons.length > 0) {
-        allLessons.forEach(lesson => {
-          if (!lessonsByModule.has(lesson.module_id)) {
-            lessonsByModule.set(lesson.module_id, []);
+        allLessons.map(lesson => lessonService.mapLessonData(lesson)).forEach(lesson => {
+          if (!lessonsByModule.has(lesson.moduleId)) {
+            lessonsByModule.set(lesson.moduleId, []);
           }
-          lessonsByModule.get(lesson.module_id).push(lesson);
+          lessonsByModule.get(lesson.moduleId).push(lesson);
         });
       }
       
@@ -196,27 +231,10 @@ export const moduleService = {
         const moduleLessons = lessonsByModule.get(module.id) || [];
         console.log(`DIAGNÓSTICO: Módulo ${module.title} (${module.id}) tem ${moduleLessons.length} aulas`);
         
-        modulesWithLessons.push({
-          id: module.id,
-          title: module.title,
-          description: module.description || '',
-          order: module.order_number,
-          courseId: module.course_id,
-          lessons: moduleLessons.map(lesson => ({
-            id: lesson.id,
-            moduleId: lesson.module_id,
-            title: lesson.title,
-            description: lesson.description || '',
-            duration: lesson.duration || '',
-            videoUrl: lesson.video_url || '',
-            content: lesson.content || '',
-            order: lesson.order_number,
-            isCompleted: false
-          }))
-        });
+        modulesWithLessons.push(this.mapModuleData(module, moduleLessons));
       }
 
-      return modulesWithLessons.sort((a, b) => a.order - b.order);
+      return this.applyContentLocks(modulesWithLessons.sort((a, b) => a.order - b.order), courseId, userId);
     } catch (error) {
       console.error('DIAGNÓSTICO: Erro ao buscar módulos do curso:', error);
       // Retornar array vazio em vez de lançar erro para evitar quebrar a UI
@@ -227,7 +245,9 @@ export const moduleService = {
   async createModule(courseId: string, moduleData: { 
     title: string; 
     description?: string; 
-    order: number 
+    order: number;
+    releaseAfterDays?: number | null;
+    releaseDate?: string | null;
   }): Promise<Module> {
     if (!courseId) throw new Error('ID do curso é obrigatório');
     if (!moduleData?.title?.trim()) throw new Error('Título do módulo é obrigatório');
@@ -239,9 +259,11 @@ export const moduleService = {
           course_id: courseId,
           title: moduleData.title.trim(),
           description: moduleData.description?.trim() || '',
-          order_number: moduleData.order
+          order_number: moduleData.order,
+          release_after_days: moduleData.releaseAfterDays ?? null,
+          release_date: moduleData.releaseDate || null
         })
-        .select('id, title, description, order_number, course_id')
+        .select(MODULE_COLUMNS)
         .single();
 
       if (error) throw error;
@@ -250,14 +272,7 @@ export const moduleService = {
       // Limpar o cache para este curso
       cacheManager.remove(`modules_${courseId}`);
 
-      return {
-        id: data.id,
-        title: data.title,
-        description: data.description || '',
-        order: data.order_number,
-        courseId: data.course_id,
-        lessons: []
-      };
+      return this.mapModuleData(data, []);
     } catch (error) {
       console.error('Erro ao criar módulo:', error);
       throw new Error('Falha ao criar módulo');
@@ -267,7 +282,9 @@ export const moduleService = {
   async updateModule(moduleId: string, moduleData: { 
     title?: string; 
     description?: string; 
-    order?: number 
+    order?: number;
+    releaseAfterDays?: number | null;
+    releaseDate?: string | null;
   }): Promise<void> {
     if (!moduleId) throw new Error('ID do módulo é obrigatório');
 
@@ -288,6 +305,14 @@ export const moduleService = {
       updates.order_number = moduleData.order;
     }
 
+    if (moduleData.releaseAfterDays !== undefined) {
+      updates.release_after_days = moduleData.releaseAfterDays;
+    }
+
+    if (moduleData.releaseDate !== undefined) {
+      updates.release_date = moduleData.releaseDate || null;
+    }
+
     try {
       // Primeiro, obter o módulo para saber o courseId
       const { data: moduleInfo, error: moduleError } = await supabase
@@ -0,0 +1,260 @@
+import { QuizAnswer, QuizAttempt, QuizAttemptResult, QuizQuestion } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Interface para as questões no banco de dados
+ * (correct_answer não é retornado por get_quiz_questions)
+ */
+interface QuizQuestionDB {
+  id: string;
+  lesson_id?: string;
+  question_type: QuizQuestion['type'];
+  prompt: string;
+  options: string[] | null;
+  correct_answer?: QuizAnswer | string[];
+  points: number;
+  order_number: number;
+}
+
+/**
+ * Interface para as tentativas no banco de dados
+ */
+interface QuizAttemptDB {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  attempt_number: number;
+  score: number;
+  passed: boolean;
+  submitted_at: string;
+}
+
+export const quizService = {
+  // Método auxiliar para mapear uma questão do formato do banco para o formato da aplicação
+  mapQuestionData(data: QuizQuestionDB): QuizQuestion {
+    return {
+      id: data.id,
+      lessonId: data.lesson_id,
+      type: data.question_type,
+      prompt: data.prompt,
+      options: Array.isArray(data.options) ? data.options : [],
+      correctAnswer: data.correct_answer ?? undefined,
+      points: data.points || 1,
+      order: data.order_number
+    };
+  },
+
+  /**
+   * Buscar as questões de um questionário com as respostas corretas (uso administrativo)
+   */
+  async getQuestions(lessonId: string): Promise<QuizQuestion[]> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    try {
+      const { data, error } = await supabase
+        .from('quiz_questions')
+        .select('id, lesson_id, question_type, prompt, options, correct_answer, points, order_number')
+        .eq('lesson_id', lessonId)
+        .order('order_number', { ascending: true });
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as QuizQuestionDB[]).map(question => this.mapQuestionData(question));
+    } catch (error) {
+      console.error('Erro ao buscar questões do questionário:', error);
+      throw new Error('Falha ao buscar questões do questionário');
+    }
+  },
+
+  /**
+   * Buscar as questões de um questionário para o aluno, sem as respostas corretas
+   */
+  async getQuestionsForStudent(lessonId: string): Promise<QuizQuestion[]> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    try {
+      const { data, error } = await supabase.rpc('get_quiz_questions', {
+        p_lesson_id: lessonId
+      });
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as QuizQuestionDB[]).map(question => this.mapQuestionData(question));
+    } catch (error) {
+      console.error('Erro ao buscar questões do questionário:', error);
+      throw new Error('Falha ao carregar o questionário');
+    }
+  },
+
+  /**
+   * Validar as questões antes de salvar; lança um erro descrevendo a primeira questão inválida
+   */
+  validateQuestions(questions: QuizQuestion[]): void {
+    if (questions.length === 0) {
+      throw new Error('Adicione ao menos uma questão ao questionário');
+    }
+    questions.forEach((question, index) => {
+      const label = `Questão ${index + 1}`;
+      if (!question.prompt?.trim()) {
+        throw new Error(`${label}: o enunciado é obrigatório`);
+      }
+      if (question.type === 'multiple_choice') {
+        const filledOptions = question.options.filter(option => option.trim());
+        if (filledOptions.length < 2) {
+          throw new Error(`${label}: informe ao menos duas alternativas`);
+        }
+        if (typeof question.correctAnswer !== 'number' || !question.options[question.correctAnswer]?.trim()) {
+          throw new Error(`${label}: selecione a alternativa correta`);
+        }
+      }
+      if (question.type === 'true_false' && typeof question.correctAnswer !== 'boolean') {
+        throw new Error(`${label}: indique se a afirmação é verdadeira ou falsa`);
+      }
+      if (question.type === 'short_answer') {
+        const accepted = Array.isArray(question.correctAnswer) ? question.correctAnswer : [];
+        if (accepted.filter(answer => answer.trim()).length === 0) {
+          throw new Error(`${label}: informe ao menos uma resposta aceita`);
+        }
+      }
+    });
+  },
+
+  /**
+   * Substituir todas as questões de um questionário
+   */
+  async saveQuestions(lessonId: string, questions: QuizQuestion[]): Promise<void> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    this.validateQuestions(questions);
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('quiz_questions')
+        .delete()
+        .eq('lesson_id', lessonId);
+
+      if (deleteError) throw deleteError;
+
+      const rows = questions.map((question, index) => ({
+        lesson_id: lessonId,
+        question_type: question.type,
+        prompt: question.prompt.trim(),
+        options: question.type === 'multiple_choice' ? question.options.map(option => option.trim()) : null,
+        correct_answer: question.type === 'short_answer'
+          ? (question.correctAnswer as string[]).map(answer => answer.trim()).filter(Boolean)
+          : question.correctAnswer,
+        points: question.points > 0 ? question.points : 1,
+        order_number: index + 1
+      }));
+
+      const { error: insertError } = await supabase
+        .from('quiz_questions')
+        .insert(rows);
+
+      if (insertError) throw insertError;
+    } catch (error) {
+      console.error('Erro ao salvar questões do questionário:', error);
+      throw new Error('Falha ao salvar questões do questionário');
+    }
+  },
+
+  /**
+   * Enviar uma tentativa; a correção e o limite de tentativas são verificados no servidor
+   */
+  async submitAttempt(lessonId: string, answers: Record<string, QuizAnswer>): Promise<QuizAttemptResult> {
+    if (!lessonId) throw new Error('ID da aula é obrigatório');
+
+    const { data, error } = await supabase.rpc('submit_quiz_attempt', {
+      p_lesson_id: lessonId,
+      p_answers: answers
+    });
+
+    if (error) {
+      console.error('Erro ao enviar tentativa do questionário:', error);
+      throw new Error(error.message || 'Falha ao enviar respostas');
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) throw new Error('Nenhum resultado retornado para a tentativa');
+
+    return {
+      attemptId: row.attempt_id,
+      attemptNumber: row.attempt_number,
+      score: row.score,
+      passed: row.passed,
+      attemptsRemaining: row.attempts_remaining ?? null
+    };
+  },
+
+  /**
+   * Histórico de tentativas de um aluno em um questionário
+   */
+  async getAttempts(userId: string, lessonId: string): Promise<QuizAttempt[]> {
+    try {
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .select('id, user_id, lesson_id, attempt_number, score, passed, submitted_at')
+        .eq('user_id', userId)
+        .eq('lesson_id', lessonId)
+        .order('attempt_number', { ascending: false });
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as QuizAttemptDB[]).map(attempt => ({
+        id: attempt.id,
+        userId: attempt.user_id,
+        lessonId: attempt.lesson_id,
+        attemptNumber: attempt.attempt_number,
+        score: attempt.score,
+        passed: attempt.passed,
+        submittedAt: attempt.submitted_at
+      }));
+    } catch (error) {
+      console.error('Erro ao buscar tentativas do questionário:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Verificar se o aluno já foi aprovado em um questionário
+   */
+  async hasPassed(userId: string, lessonId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('quiz_attempts')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('lesson_id', lessonId)
+      .eq('passed', true)
+      .limit(1);
+
+    if (error) {
+      console.error('Erro ao verificar aprovação no questionário:', error);
+      return false;
+    }
+
+    return Boolean(data && data.length > 0);
+  },
+
+  /**
+   * Verificar se a aula pode ser marcada como concluída:
+   * aulas comuns sempre podem; questionários somente após uma tentativa aprovada
+   */
+  async canCompleteLesson(userId: string, lessonId: string): Promise<boolean> {
+    const { data: lesson, error } = await supabase
+      .from('lessons')
+      .select('lesson_type')
+      .eq('id', lessonId)
+      .maybeSingle();
+
+    if (error || !lesson) {
+      // Sem informação do tipo da aula, a verificação final fica a cargo do banco
+      return true;
+    }
+
+    if ((lesson as { lesson_type?: string }).lesson_type !== 'quiz') {
+      return true;
+    }
+
+    return this.hasPassed(userId, lessonId);
+  }
+};
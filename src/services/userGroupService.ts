@@ -0,0 +1,336 @@
+import {
+  CreateUserGroupData,
+  UserGroup,
+  UserGroupCourse,
+  UserGroupMember,
+  UserGroupMemberSummary,
+  UserGroupProgress
+} from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+import { ExportDataset } from './dataExportService';
+
+/**
+ * Interfaces para as turmas no banco de dados
+ */
+interface UserGroupDB {
+  id: string;
+  name: string;
+  description: string | null;
+  start_date: string | null;
+  instructor_id: string | null;
+  created_at: string;
+  updated_at: string;
+  instructor: { name: string | null } | null;
+  user_group_members: { count: number }[];
+  user_group_courses: { count: number }[];
+}
+
+interface UserGroupMemberDB {
+  user_id: string;
+  added_at: string;
+  profiles: { name: string | null } | null;
+}
+
+interface UserGroupCourseDB {
+  course_id: string;
+  added_at: string;
+  courses: { title: string } | null;
+}
+
+interface UserGroupProgressRow {
+  user_id: string;
+  user_name: string;
+  user_email: string;
+  course_id: string;
+  course_title: string;
+  enrolled_at: string | null;
+  progress: number;
+  completed_at: string | null;
+  last_activity_at: string | null;
+  certificate_issued_at: string | null;
+}
+
+const GROUP_COLUMNS =
+  'id, name, description, start_date, instructor_id, created_at, updated_at, instructor:profiles(name), user_group_members(count), user_group_courses(count)';
+
+const mapUserGroup = (data: UserGroupDB): UserGroup => ({
+  id: data.id,
+  name: data.name,
+  description: data.description || undefined,
+  startDate: data.start_date,
+  instructorId: data.instructor_id,
+  instructorName: data.instructor?.name || undefined,
+  memberCount: data.user_group_members?.[0]?.count ?? 0,
+  courseCount: data.user_group_courses?.[0]?.count ?? 0,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at
+});
+
+const toGroupRow = (group: CreateUserGroupData) => ({
+  name: group.name.trim(),
+  description: group.description?.trim() || null,
+  start_date: group.startDate || null,
+  instructor_id: group.instructorId || null
+});
+
+// Código de erro de duplicidade no PostgreSQL (nome de turma ou curso da turma repetido)
+const UNIQUE_VIOLATION = '23505';
+
+const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+export const userGroupService = {
+  /**
+   * Lista as turmas com o instrutor responsável e os totais de membros e cursos
+   */
+  async getGroups(): Promise<UserGroup[]> {
+    const { data, error } = await supabase
+      .from('user_groups')
+      .select(GROUP_COLUMNS)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Erro ao buscar turmas:', error);
+      throw new Error('Falha ao buscar turmas');
+    }
+
+    return ((data || []) as unknown as UserGroupDB[]).map(mapUserGroup);
+  },
+
+  async getGroupById(groupId: string): Promise<UserGroup | null> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+
+    const { data, error } = await supabase
+      .from('user_groups')
+      .select(GROUP_COLUMNS)
+      .eq('id', groupId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Erro ao buscar turma:', error);
+      throw new Error('Falha ao buscar turma');
+    }
+
+    return data ? mapUserGroup(data as unknown as UserGroupDB) : null;
+  },
+
+  async createGroup(group: CreateUserGroupData): Promise<void> {
+    if (!group.name?.trim()) throw new Error('Nome da turma é obrigatório');
+
+    const { error } = await supabase.from('user_groups').insert(toGroupRow(group));
+
+    if (error) {
+      console.error('Erro ao criar turma:', error);
+      throw new Error(error.code === UNIQUE_VIOLATION ? 'Já existe uma turma com este nome' : 'Falha ao criar turma');
+    }
+  },
+
+  async updateGroup(groupId: string, group: CreateUserGroupData): Promise<void> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+    if (!group.name?.trim()) throw new Error('Nome da turma é obrigatório');
+
+    const { error } = await supabase
+      .from('user_groups')
+      .update(toGroupRow(group))
+      .eq('id', groupId);
+
+    if (error) {
+      console.error('Erro ao atualizar turma:', error);
+      throw new Error(error.code === UNIQUE_VIOLATION ? 'Já existe uma turma com este nome' : 'Falha ao atualizar turma');
+    }
+  },
+
+  async deleteGroup(groupId: string): Promise<void> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+
+    const { error } = await supabase
+      .from('user_groups')
+      .delete()
+      .eq('id', groupId);
+
+    if (error) {
+      console.error('Erro ao excluir turma:', error);
+      throw new Error('Falha ao excluir turma');
+    }
+  },
+
+  async getMembers(groupId: string): Promise<UserGroupMember[]> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+
+    const { data, error } = await supabase
+      .from('user_group_members')
+      .select('user_id, added_at, profiles(name)')
+      .eq('group_id', groupId);
+
+    if (error) {
+      console.error('Erro ao buscar membros da turma:', error);
+      throw new Error('Falha ao buscar membros da turma');
+    }
+
+    return ((data || []) as unknown as UserGroupMemberDB[])
+      .map(member => ({
+        userId: member.user_id,
+        name: member.profiles?.name || '',
+        addedAt: member.added_at
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+  },
+
+  /**
+   * Adiciona membros à turma; o banco os matricula nos cursos da turma
+   */
+  async addMembers(groupId: string, userIds: string[]): Promise<void> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+    if (userIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('user_group_members')
+      .upsert(userIds.map(userId => ({ group_id: groupId, user_id: userId })), {
+        onConflict: 'group_id,user_id',
+        ignoreDuplicates: true
+      });
+
+    if (error) {
+      console.error('Erro ao adicionar membros à turma:', error);
+      throw new Error(error.message || 'Falha ao adicionar membros à turma');
+    }
+  },
+
+  /**
+   * Remove o membro da turma; as matrículas já feitas são mantidas
+   */
+  async removeMember(groupId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_group_members')
+      .delete()
+      .eq('group_id', groupId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Erro ao remover membro da turma:', error);
+      throw new Error('Falha ao remover membro da turma');
+    }
+  },
+
+  async getCourses(groupId: string): Promise<UserGroupCourse[]> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+
+    const { data, error } = await supabase
+      .from('user_group_courses')
+      .select('course_id, added_at, courses(title)')
+      .eq('group_id', groupId);
+
+    if (error) {
+      console.error('Erro ao buscar cursos da turma:', error);
+      throw new Error('Falha ao buscar cursos da turma');
+    }
+
+    return ((data || []) as unknown as UserGroupCourseDB[])
+      .map(course => ({
+        courseId: course.course_id,
+        title: course.courses?.title || 'Curso removido',
+        addedAt: course.added_at
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title, 'pt-BR'));
+  },
+
+  /**
+   * Matricula a turma no curso: o banco matricula os membros atuais e, depois, cada novo membro
+   */
+  async addCourse(groupId: string, courseId: string): Promise<void> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+    if (!courseId) throw new Error('ID do curso é obrigatório');
+
+    const { error } = await supabase
+      .from('user_group_courses')
+      .insert({ group_id: groupId, course_id: courseId });
+
+    if (error) {
+      console.error('Erro ao matricular turma no curso:', error);
+      throw new Error(
+        error.code === UNIQUE_VIOLATION
+          ? 'A turma já está matriculada neste curso'
+          : error.message || 'Falha ao matricular turma no curso'
+      );
+    }
+  },
+
+  /**
+   * Remove o curso da turma; as matrículas já feitas são mantidas
+   */
+  async removeCourse(groupId: string, courseId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_group_courses')
+      .delete()
+      .eq('group_id', groupId)
+      .eq('course_id', courseId);
+
+    if (error) {
+      console.error('Erro ao remover curso da turma:', error);
+      throw new Error('Falha ao remover curso da turma');
+    }
+  },
+
+  /**
+   * Refaz as matrículas dos membros nos cursos da turma (ex.: depois que pré-requisitos foram cumpridos).
+   * Retorna o número de matrículas criadas
+   */
+  async syncEnrollments(groupId: string): Promise<number> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+
+    const { data, error } = await supabase.rpc('enroll_user_group_members', { p_group_id: groupId });
+
+    if (error) {
+      console.error('Erro ao sincronizar matrículas da turma:', error);
+      throw new Error(error.message || 'Falha ao sincronizar matrículas da turma');
+    }
+
+    return (data as unknown as number) || 0;
+  },
+
+  /**
+   * Progresso de cada membro em cada curso da turma (somente administradores)
+   */
+  async getProgress(groupId: string): Promise<UserGroupProgress[]> {
+    if (!groupId) throw new Error('ID da turma é obrigatório');
+
+    const { data, error } = await supabase.rpc('get_user_group_progress', { p_group_id: groupId });
+
+    if (error) {
+      console.error('Erro ao buscar progresso da turma:', error);
+      throw new Error(error.message || 'Falha ao buscar progresso da turma');
+    }
+
+    return ((data || []) as unknown as UserGroupProgressRow[]).map(row => ({
+      userId: row.user_id,
+      userName: row.user_name,
+      userEmail: row.user_email,
+      courseId: row.course_id,
+      courseTitle: row.course_title,
+      enrolledAt: row.enrolled_at,
+      progress: row.progress,
+      completedAt: row.completed_at,
+      lastActivityAt: row.last_activity_at,
+      certificateIssuedAt: row.certificate_issued_at
+    }));
+  },
+
+  /**
+   * Painel da turma já carregado como conjunto de dados para a exportação CSV/XLSX
+   */
+  getProgressDataset(groupName: string, summaries: UserGroupMemberSummary[]): ExportDataset<UserGroupMemberSummary> {
+    return {
+      name: `Turma ${groupName}`,
+      columns: [
+        { key: 'name', label: 'Membro', value: summary => summary.name },
+        { key: 'email', label: 'E-mail', value: summary => summary.email },
+        { key: 'average_progress', label: 'Progresso médio (%)', value: summary => summary.averageProgress },
+        { key: 'enrolled', label: 'Cursos matriculados', value: summary => summary.enrolledCount },
+        { key: 'completed', label: 'Cursos concluídos', value: summary => summary.completedCount },
+        { key: 'certificates', label: 'Certificados válidos', value: summary => summary.certificateCount },
+        { key: 'last_activity_at', label: 'Última atividade', value: summary => toDate(summary.lastActivityAt) },
+        { key: 'user_id', label: 'ID do usuário', value: summary => summary.userId }
+      ],
+      fetchPage: async (offset, limit) => summaries.slice(offset, offset + limit)
+    };
+  }
+};
@@ -0,0 +1,171 @@
+import { UserImportResult, UserImportRow } from '@/types';
+import { getInvitationClient, supabase } from '@/integrations/supabase/client';
+import { ExportDataset } from './dataExportService';
+
+/**
+ * Interfaces para as linhas retornadas pelas funções de 31_user_import.sql
+ */
+interface UserImportPreviewRow {
+  row_index: number;
+  user_id: string | null;
+  current_name: string | null;
+  current_role: string | null;
+  enrolled_course_ids: string[];
+  blocked_courses: string[];
+}
+
+interface ImportUserRow {
+  user_id: string;
+  enrolled_count: number;
+  skipped_courses: string[];
+}
+
+const RESULT_STATUS_LABELS: Record<UserImportResult['status'], string> = {
+  created: 'Criado e convidado',
+  updated: 'Atualizado',
+  failed: 'Falhou',
+  skipped: 'Ignorado (erro na validação)'
+};
+
+export const userImportService = {
+  /**
+   * Simulação da importação: separa criações e atualizações, desconta matrículas existentes,
+   * aponta as que seriam recusadas por pré-requisitos e as turmas que serão criadas. Nada é gravado
+   */
+  async previewImport(rows: UserImportRow[]): Promise<UserImportRow[]> {
+    const validRows = rows.filter(row => row.action !== 'error');
+    if (validRows.length === 0) return rows;
+
+    const { data, error } = await supabase.rpc('preview_user_import', {
+      p_rows: validRows.map(row => ({ email: row.email, course_ids: row.courseIds }))
+    });
+
+    if (error) {
+      console.error('Erro ao simular importação de usuários:', error);
+      throw new Error(error.message || 'Falha ao simular importação de usuários');
+    }
+
+    const { data: groupsData, error: groupsError } = await supabase.from('user_groups').select('name');
+
+    if (groupsError) {
+      console.error('Erro ao buscar turmas para a importação:', groupsError);
+      throw new Error('Falha ao buscar turmas');
+    }
+
+    const existingGroups = new Set(
+      ((groupsData || []) as unknown as { name: string }[]).map(group => group.name.toLowerCase())
+    );
+
+    const previewByEmail = new Map<string, UserImportPreviewRow>();
+    ((data || []) as unknown as UserImportPreviewRow[]).forEach(preview => {
+      previewByEmail.set(validRows[preview.row_index].email, preview);
+    });
+
+    return rows.map((row): UserImportRow => {
+      const preview = previewByEmail.get(row.email);
+      if (row.action === 'error' || !preview) return row;
+
+      const errors: string[] = [];
+      const warnings = preview.blocked_courses.map(course => `Matrícula será recusada: ${course}`);
+      const alreadyEnrolled = row.courseIds.filter(courseId => preview.enrolled_course_ids.includes(courseId));
+
+      if (!preview.user_id && !row.name) {
+        errors.push('Nome é obrigatório para novos usuários');
+      }
+      if (alreadyEnrolled.length > 0) {
+        warnings.push(`Já matriculado em ${alreadyEnrolled.length} dos cursos listados`);
+      }
+      if (preview.current_role === 'admin' && row.role === 'student') {
+        warnings.push('Deixará de ser administrador');
+      }
+      if (row.group && !existingGroups.has(row.group.toLowerCase())) {
+        warnings.push(`Turma "${row.group}" será criada`);
+      }
+
+      return {
+        ...row,
+        action: errors.length > 0 ? 'error' : preview.user_id ? 'update' : 'create',
+        newEnrollments: row.courseIds.length - alreadyEnrolled.length - preview.blocked_courses.length,
+        errors,
+        warnings
+      };
+    });
+  },
+
+  /**
+   * Aplica uma linha já simulada. Usuários novos recebem o convite por e-mail (link de acesso do
+   * Supabase Auth, que cria a conta) e em seguida perfil, papel, turma e matrículas são gravados
+   */
+  async importRow(row: UserImportRow, invitationRedirectUrl: string): Promise<UserImportResult> {
+    const result: UserImportResult = {
+      line: row.line,
+      name: row.name,
+      email: row.email,
+      status: 'skipped',
+      enrolledCount: 0,
+      message: row.errors.join('; ')
+    };
+
+    if (row.action === 'error') return result;
+
+    try {
+      if (row.action === 'create') {
+        const { error: inviteError } = await getInvitationClient().auth.signInWithOtp({
+          email: row.email,
+          options: {
+            shouldCreateUser: true,
+            emailRedirectTo: invitationRedirectUrl,
+            data: { name: row.name, full_name: row.name }
+          }
+        });
+
+        if (inviteError) throw new Error(`Convite não enviado: ${inviteError.message}`);
+      }
+
+      const { data, error } = await supabase.rpc('import_user', {
+        p_email: row.email,
+        p_name: row.name || null,
+        p_role: row.role || (row.action === 'create' ? 'student' : null),
+        p_group_name: row.group || null,
+        p_course_ids: row.courseIds
+      });
+
+      if (error) throw new Error(error.message || 'Falha ao gravar usuário');
+
+      const [imported] = (data || []) as unknown as ImportUserRow[];
+      const skipped = imported?.skipped_courses || [];
+
+      return {
+        ...result,
+        status: row.action === 'create' ? 'created' : 'updated',
+        enrolledCount: imported?.enrolled_count || 0,
+        message: skipped.length > 0 ? `Matrículas recusadas: ${skipped.join('; ')}` : ''
+      };
+    } catch (error) {
+      console.error(`Erro ao importar ${row.email}:`, error);
+      return {
+        ...result,
+        status: 'failed',
+        message: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  },
+
+  /**
+   * Relatório da importação para download (CSV/XLSX), uma linha por linha do arquivo
+   */
+  getResultDataset(results: UserImportResult[]): ExportDataset<UserImportResult> {
+    return {
+      name: 'Resultado da importação de usuários',
+      columns: [
+        { key: 'line', label: 'Linha do arquivo', value: result => result.line },
+        { key: 'name', label: 'Nome', value: result => result.name },
+        { key: 'email', label: 'E-mail', value: result => result.email },
+        { key: 'status', label: 'Resultado', value: result => RESULT_STATUS_LABELS[result.status] },
+        { key: 'enrolled', label: 'Matrículas criadas', value: result => result.enrolledCount },
+        { key: 'message', label: 'Observações', value: result => result.message }
+      ],
+      fetchPage: async (offset, limit) => results.slice(offset, offset + limit)
+    };
+  }
+};
@@ -2,6 +2,7 @@ export interface Certificate {
   id: string;
   userId: string;
   courseId: string;
+  learningPathId?: string; // Certificado de conclusão de trilha (courseId fica vazio)
   courseName: string;
   userName: string;
   courseHours?: number;
@@ -9,6 +10,109 @@ export interface Certificate {
   expiryDate?: string;
   certificateUrl?: string;
   certificateHtml?: string;
+  templateId?: string;
+  templateVersion?: number;
+  templateSnapshot?: CertificateTemplate; // Modelo usado na emissão
+  serialNumber?: string;
+  revokedAt?: string;
+  revocationReason?: string;
+  supersedesId?: string; // Certificado original, quando este é uma reemissão
+  supersededById?: string; // Certificado que substituiu este após uma reemissão
+}
+
+// Situação do certificado: substituído = revogado e reemitido (correção ou recertificação)
+export type CertificateStatus = 'valid' | 'expired' | 'revoked' | 'superseded';
+
+// Registro do histórico de alterações de um certificado
+export interface CertificateAuditEntry {
+  id: string;
+  certificateId: string;
+  action: 'issued' | 'reissued' | 'updated' | 'revoked' | 'superseded' | 'deleted';
+  changedBy?: string;
+  changedByName?: string;
+  changes: Record<string, unknown>;
+  reason?: string;
+  createdAt: string;
+}
+
+// Assinatura exibida no rodapé do certificado
+export interface CertificateSignature {
+  name: string;
+  title: string;
+  imageUrl?: string;
+}
+
+// Modelo de certificado; os textos aceitam {{userName}}, {{courseName}}, {{courseHours}} e {{issueDate}}
+export interface CertificateTemplate {
+  id: string;
+  name: string;
+  titleText: string;
+  introText: string;
+  bodyText: string;
+  backgroundImageUrl?: string;
+  logoUrl?: string;
+  signatures: CertificateSignature[];
+  primaryColor: string;
+  textColor: string;
+  backgroundColor: string;
+  fontFamily: string;
+  version: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type CertificateTemplateData = Omit<CertificateTemplate, 'id' | 'version' | 'createdAt' | 'updatedAt'>;
+
+// Resultado da verificação pública de um certificado
+export interface CertificateVerification {
+  certificateId: string;
+  isValid: boolean;
+  // tampered = campos assinados alterados após a emissão; superseded = substituído por uma reemissão
+  status: 'valid' | 'expired' | 'revoked' | 'superseded' | 'tampered' | 'not_found';
+  serialNumber?: string;
+  revokedAt?: string;
+  revocationReason?: string;
+  supersededById?: string;
+  expiryDate?: string;
+  userName?: string;
+  courseName?: string;
+  courseHours?: number;
+  issueDate?: string;
+}
+
+// Regras de emissão de certificado configuradas por curso (campos vazios = regra desativada)
+export interface CertificateRules {
+  requiredLessonIds?: string[]; // Se informado, substitui a exigência de concluir todas as aulas
+  minQuizAverage?: number | null; // Média mínima (0-100) nos questionários
+  minWatchTimeMinutes?: number | null;
+  waitingPeriodDays?: number | null; // Dias mínimos após a matrícula
+}
+
+export type CertificateRuleType =
+  | 'enrollment'
+  | 'completion'
+  | 'required_lessons'
+  | 'quiz_average'
+  | 'watch_time'
+  | 'waiting_period';
+
+// Resultado da avaliação de uma regra para um aluno
+export interface CertificateRuleResult {
+  rule: CertificateRuleType;
+  met: boolean;
+  currentValue: number;
+  requiredValue: number;
+  description: string;
+}
+
+export interface CertificateEligibility {
+  eligible: boolean;
+  rules: CertificateRuleResult[];
+}
+
+export interface CoursePrerequisite {
+  courseId: string;
+  title: string;
 }
 
 export interface Course {
@@ -19,7 +123,15 @@ export interface Course {
   duration?: string;
   instructor: string;
   enrolledCount: number;
-  rating: number;
+  rating: number; // Média das avaliações visíveis, recalculada no banco
+  reviewCount?: number;
+  reviewMinProgress?: number; // Progresso mínimo (%) para o aluno avaliar o curso
+  certificateRules?: CertificateRules;
+  certificateTemplateId?: string | null;
+  certificateValidityMonths?: number | null; // Validade do certificado (NULL = não expira)
+  prerequisiteCourseIds?: string[]; // Cursos cujo certificado válido é exigido para a matrícula
+  contentReleaseMode?: ContentReleaseMode;
+  missingPrerequisites?: CoursePrerequisite[]; // Pré-requisitos que o aluno ainda não cumpriu
   modules: Module[];
   createdAt: string;
   updatedAt: string;
@@ -27,6 +139,12 @@ export interface Course {
   progress: number;
 }
 
+// Liberação do conteúdo do curso: navegação livre, aulas em sequência ou módulos liberados por data
+export type ContentReleaseMode = 'free' | 'sequential' | 'drip';
+
+// Motivo do bloqueio de uma aula: aula anterior não concluída ou módulo ainda não liberado
+export type LessonLockReason = 'previous_lesson' | 'release_date';
+
 export interface Module {
   id: string;
   courseId: string;
@@ -34,10 +152,16 @@ export interface Module {
   description?: string;
   order: number;
   lessons: Lesson[];
+  releaseAfterDays?: number | null; // Modo programado: dias após a matrícula para liberar o módulo
+  releaseDate?: string | null; // Modo programado: data fixa de liberação do módulo
+  isLocked?: boolean;
+  unlockAt?: string | null; // Data em que o módulo bloqueado será liberado
   createdAt?: string;
   updatedAt?: string;
 }
 
+export type LessonType = 'video' | 'quiz';
+
 export interface Lesson {
   id: string;
   moduleId: string;
@@ -48,10 +172,352 @@ export interface Lesson {
   content?: string;
   order: number;
   isCompleted: boolean;
+  type?: LessonType;
+  passingScore?: number; // Nota mínima (0-100) para aprovação no questionário
+  maxAttempts?: number | null; // null = tentativas ilimitadas
+  autoCompletePercent?: number | null; // Conclui a aula ao assistir esta porcentagem do vídeo (null = desativada)
+  mandatoryViewing?: boolean; // Só permite concluir a aula depois de assistir ao vídeo
+  mandatoryViewingPercent?: number; // Porcentagem do vídeo exigida quando a visualização é obrigatória
+  videoThumbnailUrl?: string | null; // Miniatura do vídeo enviado (referência storage://)
+  durationSeconds?: number | null; // Duração real do vídeo, lida dos metadados
+  isLocked?: boolean; // Aula ainda não liberada para o aluno
+  lockReason?: LessonLockReason | null;
+  unlockAt?: string | null;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Material da aula para download (arquivo no bucket lesson-attachments)
+export interface LessonAttachment {
+  id: string;
+  lessonId: string;
+  fileName: string;
+  fileSize: number; // Em bytes
+  mimeType: string;
+  storagePath: string;
+  createdAt: string;
+}
+
+// Legenda da aula em um idioma, guardada em WebVTT
+export interface LessonCaption {
+  id: string;
+  lessonId: string;
+  language: string; // Código do idioma (ex.: pt-BR, en)
+  label: string; // Nome exibido no player (ex.: Português)
+  vttContent: string;
+  isDefault: boolean; // Legenda ativada automaticamente no player
+  createdAt: string;
+}
+
+// Trecho da legenda com o intervalo em segundos, exibido na transcrição interativa
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Aula encontrada pela busca no texto das transcrições
+export interface TranscriptSearchResult {
+  courseId: string;
+  lessonId: string;
+  lessonTitle: string;
+  snippet: string; // Trecho da transcrição com os termos encontrados entre « e »
+}
+
+// Anotação pessoal do aluno na aula, opcionalmente ligada a um momento do vídeo
+export interface LessonNote {
+  id: string;
+  lessonId: string;
+  content: string;
+  timestampSeconds: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Anotação com o curso, o módulo e a aula, listada na página de anotações do aluno
+export interface LessonNoteWithContext extends LessonNote {
+  lessonTitle: string;
+  moduleId: string;
+  moduleTitle: string;
+  courseId: string;
+  courseTitle: string;
+}
+
+// Aula marcada pelo aluno para rever depois
+export interface LessonBookmark {
+  id: string;
+  lessonId: string;
+  lessonTitle: string;
+  moduleTitle: string;
+  courseId: string;
+  courseTitle: string;
+  createdAt: string;
+}
+
+// Pergunta (parentId nulo) ou resposta na discussão da aula
+export interface LessonDiscussionPost {
+  id: string;
+  lessonId: string;
+  parentId: string | null;
+  userId: string;
+  authorName: string;
+  authorRole: string; // Papel do autor (admin, instructor ou student), exibido como selo
+  content: string;
+  isAnswered: boolean; // Somente nas perguntas
+  upvotes: number;
+  hasUpvoted: boolean; // Voto do usuário autenticado
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LessonQuestion extends LessonDiscussionPost {
+  replies: LessonDiscussionPost[];
+}
+
+// Pergunta sem resposta na fila de moderação dos administradores
+export interface UnansweredLessonQuestion {
+  id: string;
+  lessonId: string;
+  lessonTitle: string;
+  courseId: string;
+  courseTitle: string;
+  userId: string;
+  authorName: string;
+  content: string;
+  replyCount: number;
+  upvotes: number;
+  createdAt: string;
+}
+
+// Avaliação do curso feita por um aluno matriculado
+export interface CourseReview {
+  id: string;
+  courseId: string;
+  userId: string;
+  authorName: string;
+  rating: number; // 1 a 5 estrelas
+  comment: string;
+  isHidden: boolean; // Ocultada por um administrador; não entra na média
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Situação do aluno autenticado para avaliar o curso
+export interface CourseReviewEligibility {
+  canReview: boolean;
+  isEnrolled: boolean;
+  progress: number;
+  minProgress: number;
+}
+
+// Painel de análise administrativo (agregações feitas no banco)
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+export interface AnalyticsFilters {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  courseId: string | null; // null = todos os cursos
+}
+
+export interface AnalyticsTimeSeriesPoint {
+  periodStart: string;
+  enrollments: number;
+  completions: number;
+  certificates: number;
+}
+
+// Funil dos alunos matriculados no período: matriculados → iniciaram → 50% → concluíram → certificados
+export interface CourseFunnel {
+  courseId: string;
+  courseTitle: string;
+  enrolled: number;
+  started: number;
+  halfway: number;
+  completed: number;
+  certified: number;
+  avgCompletionDays: number | null;
+}
+
+export interface LessonDropoff {
+  lessonId: string;
+  lessonTitle: string;
+  moduleTitle: string;
+  position: number;
+  startedCount: number;
+  completedCount: number;
+  stoppedCount: number; // Alunos cuja última aula concluída é esta, sem concluir o curso
+}
+
+// Linha do relatório de engajamento do curso, uma por aula na ordem de módulos e aulas
+export interface LessonEngagement {
+  moduleId: string;
+  moduleTitle: string;
+  moduleOrder: number;
+  lessonId: string;
+  lessonTitle: string;
+  lessonOrder: number;
+  position: number;
+  enrolledCount: number;
+  completedCount: number;
+  medianIntervalSeconds: number | null; // Mediana do tempo desde a conclusão anterior do aluno (ou a matrícula)
+  stalledCount: number; // Alunos cuja primeira aula pendente é esta
+}
+
+// Importação de usuários por CSV: cada linha é validada e simulada antes de ser aplicada
+export type UserImportAction = 'create' | 'update' | 'error';
+
+export interface UserImportRow {
+  line: number; // Linha no arquivo (o cabeçalho é a linha 1)
+  name: string;
+  email: string;
+  role: 'admin' | 'student' | null; // Vazio mantém o papel atual de usuários existentes
+  group: string;
+  courseIds: string[];
+  courseTitles: string[];
+  action: UserImportAction;
+  newEnrollments: number; // Matrículas que serão criadas (já descontadas as existentes e as recusadas)
+  errors: string[];
+  warnings: string[];
+}
+
+export interface UserImportResult {
+  line: number;
+  name: string;
+  email: string;
+  status: 'created' | 'updated' | 'failed' | 'skipped';
+  enrolledCount: number;
+  message: string;
+}
+
+// Turma: grupo de usuários com data de início e instrutor responsável.
+// Membros atuais e futuros são matriculados nos cursos da turma
+export interface UserGroup {
+  id: string;
+  name: string;
+  description?: string;
+  startDate: string | null; // AAAA-MM-DD
+  instructorId: string | null;
+  instructorName?: string;
+  memberCount: number;
+  courseCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserGroupMember {
+  userId: string;
+  name: string;
+  addedAt: string;
+}
+
+export interface UserGroupCourse {
+  courseId: string;
+  title: string;
+  addedAt: string;
+}
+
+// Progresso de um membro da turma em um dos cursos da turma
+export interface UserGroupProgress {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  courseId: string;
+  courseTitle: string;
+  enrolledAt: string | null; // Nulo quando o membro ainda não foi matriculado (ex.: pré-requisitos pendentes)
+  progress: number;
+  completedAt: string | null;
+  lastActivityAt: string | null;
+  certificateIssuedAt: string | null;
+}
+
+// Resumo de um membro no painel da turma, para comparar o progresso entre os membros
+export interface UserGroupMemberSummary {
+  userId: string;
+  name: string;
+  email: string;
+  averageProgress: number; // Média nos cursos da turma (cursos sem matrícula contam como 0)
+  enrolledCount: number;
+  completedCount: number;
+  certificateCount: number;
+  lastActivityAt: string | null;
+}
+
+// Interfaces para questionários
+export type QuizQuestionType = 'multiple_choice' | 'true_false' | 'short_answer';
+
+// Resposta de uma questão: índice da alternativa, verdadeiro/falso ou texto livre
+export type QuizAnswer = number | boolean | string;
+
+export interface QuizQuestion {
+  id?: string;
+  lessonId?: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options: string[]; // Alternativas (somente múltipla escolha)
+  correctAnswer?: QuizAnswer | string[]; // Ausente na visão do aluno; lista de respostas aceitas na resposta curta
+  points: number;
+  order: number;
+}
+
+export interface QuizAttempt {
+  id: string;
+  userId: string;
+  lessonId: string;
+  attemptNumber: number;
+  score: number;
+  passed: boolean;
+  submittedAt: string;
+}
+
+export interface QuizAttemptResult {
+  attemptId: string;
+  attemptNumber: number;
+  score: number;
+  passed: boolean;
+  attemptsRemaining: number | null;
+}
+
+// Trilha de aprendizagem: cursos em sequência, com pré-requisitos opcionais entre eles
+// 'first_course' matricula só no primeiro curso (os seguintes são liberados ao concluir); 'all_courses' em todos
+export type LearningPathEnrollmentMode = 'first_course' | 'all_courses';
+
+export interface LearningPathCourse {
+  courseId: string;
+  position: number;
+  prerequisiteCourseId?: string | null; // Outro curso da mesma trilha
+  course?: Pick<Course, 'id' | 'title' | 'description' | 'thumbnail' | 'duration' | 'instructor'>;
+}
+
+export interface LearningPath {
+  id: string;
+  title: string;
+  description?: string;
+  thumbnail?: string;
+  enrollmentMode: LearningPathEnrollmentMode;
+  courses: LearningPathCourse[];
+  createdAt: string;
+  updatedAt: string;
+  isEnrolled?: boolean;
+}
+
+// Situação de cada curso da trilha para o aluno
+export interface LearningPathCourseProgress {
+  courseId: string;
+  progress: number; // enrollments.progress (0 quando não matriculado)
+  isEnrolled: boolean;
+  isCompleted: boolean;
+  isLocked: boolean; // Pré-requisito ainda não concluído
+}
+
+export interface LearningPathProgress {
+  learningPathId: string;
+  progress: number; // Média do progresso dos cursos da trilha
+  completedCourses: number;
+  totalCourses: number;
+  isCompleted: boolean;
+  courses: LearningPathCourseProgress[];
+}
+
 export interface Enrollment {
   id: string;
   userId: string;
@@ -67,6 +533,10 @@ export interface LessonProgress {
   lessonId: string;
   completed: boolean;
   completedAt?: string;
+  watchTimeSeconds?: number;
+  furthestPositionSeconds?: number; // Posição mais avançada alcançada assistindo
+  lastPositionSeconds?: number; // Posição em que o aluno parou, usada para retomar a aula
+  videoDurationSeconds?: number | null;
 }
 
 export interface Profile {
@@ -127,6 +597,26 @@ export interface CreateCourseData {
   thumbnail?: string;
   duration?: string;
   instructor: string;
+  certificateRules?: CertificateRules;
+  certificateTemplateId?: string | null;
+  certificateValidityMonths?: number | null;
+  prerequisiteCourseIds?: string[];
+  contentReleaseMode?: ContentReleaseMode;
+}
+
+export interface CreateLearningPathData {
+  title: string;
+  description?: string;
+  thumbnail?: string;
+  enrollmentMode: LearningPathEnrollmentMode;
+  courses: Omit<LearningPathCourse, 'course'>[];
+}
+
+export interface CreateUserGroupData {
+  name: string;
+  description?: string;
+  startDate?: string | null;
+  instructorId?: string | null;
 }
 
 export interface CreateModuleData {
@@ -142,6 +632,9 @@ export interface CreateLessonData {
   videoUrl?: string;
   content?: string;
   order: number;
+  type?: LessonType;
+  passingScore?: number;
+  maxAttempts?: number | null;
 }
 
 export interface CreateEnrollmentData {
@@ -7,12 +7,54 @@ export interface Database {
         Row: {
           id: string;
           user_id: string;
-          course_id: string;
+          course_id: string | null;
           course_name: string;
           user_name: string;
           issue_date: string;
           expiry_date: string | null;
           certificate_url: string | null;
+          template_id: string | null;
+          template_version: number | null;
+          template_snapshot: Record<string, unknown> | null;
+          serial_number: string | null;
+          signature: string | null;
+          signature_key_id: number | null;
+          revoked_at: string | null;
+          revoked_by: string | null;
+          revocation_reason: string | null;
+          supersedes_id: string | null;
+          superseded_by_id: string | null;
+          learning_path_id: string | null;
+        };
+      };
+      certificate_audit_log: {
+        Row: {
+          id: string;
+          certificate_id: string;
+          action: string;
+          changed_by: string | null;
+          changes: Record<string, unknown>;
+          reason: string | null;
+          created_at: string;
+        };
+      };
+      certificate_templates: {
+        Row: {
+          id: string;
+          name: string;
+          title_text: string;
+          intro_text: string;
+          body_text: string;
+          background_image_url: string | null;
+          logo_url: string | null;
+          signatures: { name: string; title: string; image_url?: string | null }[];
+          primary_color: string;
+          text_color: string;
+          background_color: string;
+          font_family: string;
+          version: number;
+          created_at: string;
+          updated_at: string;
         };
       };
       courses: {
@@ -25,6 +67,13 @@ export interface Database {
           instructor: string;
           enrolledcount: number;
           rating: number;
+          certificate_rules: Record<string, unknown>;
+          certificate_template_id: string | null;
+          certificate_validity_months: number | null;
+          prerequisite_course_ids: string[];
+          content_release_mode: 'free' | 'sequential' | 'drip';
+          review_count: number;
+          review_min_progress: number;
           created_at: string;
           updated_at: string;
         };
@@ -36,6 +85,8 @@ export interface Database {
           title: string;
           description: string | null;
           order_number: number;
+          release_after_days: number | null;
+          release_date: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -50,10 +101,43 @@ export interface Database {
           video_url: string | null;
           content: string | null;
           order_number: number;
+          lesson_type: 'video' | 'quiz';
+          passing_score: number | null;
+          max_attempts: number | null;
+          auto_complete_percent: number | null;
+          mandatory_viewing: boolean;
+          mandatory_viewing_percent: number;
+          video_thumbnail_url: string | null;
+          duration_seconds: number | null;
           created_at: string;
           updated_at: string;
         };
       };
+      quiz_questions: {
+        Row: {
+          id: string;
+          lesson_id: string;
+          question_type: 'multiple_choice' | 'true_false' | 'short_answer';
+          prompt: string;
+          options: string[] | null;
+          correct_answer: unknown;
+          points: number;
+          order_number: number;
+          created_at: string;
+        };
+      };
+      quiz_attempts: {
+        Row: {
+          id: string;
+          user_id: string;
+          lesson_id: string;
+          attempt_number: number;
+          answers: Record<string, unknown>;
+          score: number;
+          passed: boolean;
+          submitted_at: string;
+        };
+      };
       enrollments: {
         Row: {
           id: string;
@@ -62,6 +146,36 @@ export interface Database {
           progress: number;
           enrolled_at: string;
           completed_at: string | null;
+          recertification_started_at: string | null;
+        };
+      };
+      learning_paths: {
+        Row: {
+          id: string;
+          title: string;
+          description: string | null;
+          thumbnail: string | null;
+          enrollment_mode: string;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      learning_path_courses: {
+        Row: {
+          id: string;
+          learning_path_id: string;
+          course_id: string;
+          position: number;
+          prerequisite_course_id: string | null;
+        };
+      };
+      learning_path_enrollments: {
+        Row: {
+          id: string;
+          user_id: string;
+          learning_path_id: string;
+          enrolled_at: string;
+          completed_at: string | null;
         };
       };
       lesson_progress: {
@@ -71,6 +185,111 @@ export interface Database {
           lesson_id: string;
           completed: boolean;
           completed_at: string | null;
+          watch_time_seconds: number;
+          furthest_position_seconds: number;
+          last_position_seconds: number;
+          video_duration_seconds: number | null;
+          last_watched_at: string | null;
+        };
+      };
+      lesson_attachments: {
+        Row: {
+          id: string;
+          lesson_id: string;
+          file_name: string;
+          file_size: number;
+          mime_type: string;
+          storage_path: string;
+          created_at: string;
+        };
+      };
+      lesson_captions: {
+        Row: {
+          id: string;
+          lesson_id: string;
+          language: string;
+          label: string;
+          vtt_content: string;
+          transcript_text: string;
+          is_default: boolean;
+          created_at: string;
+        };
+      };
+      lesson_notes: {
+        Row: {
+          id: string;
+          user_id: string;
+          lesson_id: string;
+          content: string;
+          timestamp_seconds: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      lesson_bookmarks: {
+        Row: {
+          id: string;
+          user_id: string;
+          lesson_id: string;
+          created_at: string;
+        };
+      };
+      lesson_discussions: {
+        Row: {
+          id: string;
+          lesson_id: string;
+          user_id: string;
+          parent_id: string | null;
+          content: string;
+          is_answered: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      lesson_discussion_votes: {
+        Row: {
+          discussion_id: string;
+          user_id: string;
+          created_at: string;
+        };
+      };
+      course_reviews: {
+        Row: {
+          id: string;
+          course_id: string;
+          user_id: string;
+          rating: number;
+          comment: string;
+          is_hidden: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      user_groups: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          start_date: string | null;
+          instructor_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      user_group_members: {
+        Row: {
+          id: string;
+          group_id: string;
+          user_id: string;
+          added_at: string;
+        };
+      };
+      user_group_courses: {
+        Row: {
+          id: string;
+          group_id: string;
+          course_id: string;
+          added_at: string;
         };
       };
       profiles: {
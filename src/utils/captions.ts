@@ -0,0 +1,60 @@
+import { TranscriptCue } from '@/types';
+
+// Extensões de legenda aceitas no cadastro da aula
+export const CAPTION_EXTENSIONS = ['.vtt', '.srt'];
+
+// Linha de tempo de um trecho: 00:01:02.500 --> 00:01:05.000 (horas opcionais; SRT usa vírgula)
+const TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+const parseTimestamp = (timestamp: string): number => {
+  const parts = timestamp.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+/**
+ * Converte o arquivo de legenda enviado (WebVTT ou SRT) para WebVTT, o formato aceito pelo player
+ */
+export const toWebVtt = (text: string, fileName: string): string => {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+
+  if (fileName.toLowerCase().endsWith('.vtt')) {
+    if (!normalized.startsWith('WEBVTT')) {
+      throw new Error('Arquivo WebVTT inválido: o arquivo deve começar com WEBVTT');
+    }
+    return `${normalized}\n`;
+  }
+
+  // SRT: mesma estrutura, com vírgula nos milissegundos e sem o cabeçalho
+  const body = normalized
+    .split('\n')
+    .map(line => TIMING_PATTERN.test(line) ? line.replace(/,(\d{1,3})/g, '.$1') : line)
+    .join('\n');
+
+  return `WEBVTT\n\n${body}\n`;
+};
+
+/**
+ * Trechos da legenda com o intervalo de tempo, usados na transcrição interativa
+ */
+export const parseVttCues = (vtt: string): TranscriptCue[] => {
+  const cues: TranscriptCue[] = [];
+  const blocks = vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING_PATTERN);
+    // Remove as marcações de estilo e de voz (<i>, <v Nome>, etc.)
+    const text = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    if (text) {
+      cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text });
+    }
+  }
+
+  return cues;
+};
+
+// Texto falado na aula, sem marcações de tempo, indexado para a busca
+export const toTranscriptText = (cues: TranscriptCue[]): string => cues.map(cue => cue.text).join(' ');
@@ -0,0 +1,92 @@
+import { CertificateRuleResult, CertificateRules, CertificateRuleType } from '@/types';
+
+/**
+ * Formato da coluna courses.certificate_rules no banco de dados
+ */
+export interface CertificateRulesDB {
+  required_lesson_ids?: string[];
+  min_quiz_average?: number;
+  min_watch_time_minutes?: number;
+  waiting_period_days?: number;
+}
+
+const toPositiveNumber = (value: unknown): number | null => {
+  const numeric = Number(value);
+  return value !== null && value !== undefined && value !== '' && !isNaN(numeric) && numeric > 0
+    ? numeric
+    : null;
+};
+
+// Converte o JSON salvo no curso para o formato da aplicação
+export const parseCertificateRules = (data: CertificateRulesDB | null | undefined): CertificateRules => ({
+  requiredLessonIds: Array.isArray(data?.required_lesson_ids) ? data.required_lesson_ids : [],
+  minQuizAverage: toPositiveNumber(data?.min_quiz_average),
+  minWatchTimeMinutes: toPositiveNumber(data?.min_watch_time_minutes),
+  waitingPeriodDays: toPositiveNumber(data?.waiting_period_days)
+});
+
+// Converte as regras para o JSON salvo no curso, omitindo as regras desativadas
+export const serializeCertificateRules = (rules: CertificateRules | undefined): CertificateRulesDB => {
+  const data: CertificateRulesDB = {};
+  if (!rules) return data;
+
+  if (rules.requiredLessonIds && rules.requiredLessonIds.length > 0) {
+    data.required_lesson_ids = rules.requiredLessonIds;
+  }
+
+  const minQuizAverage = toPositiveNumber(rules.minQuizAverage);
+  if (minQuizAverage !== null) {
+    if (minQuizAverage > 100) throw new Error('A média mínima nos questionários deve estar entre 0 e 100');
+    data.min_quiz_average = minQuizAverage;
+  }
+
+  const minWatchTimeMinutes = toPositiveNumber(rules.minWatchTimeMinutes);
+  if (minWatchTimeMinutes !== null) data.min_watch_time_minutes = minWatchTimeMinutes;
+
+  const waitingPeriodDays = toPositiveNumber(rules.waitingPeriodDays);
+  if (waitingPeriodDays !== null) data.waiting_period_days = waitingPeriodDays;
+
+  return data;
+};
+
+// Texto exibido ao aluno para cada regra avaliada
+export const describeCertificateRule = (
+  rule: CertificateRuleType,
+  currentValue: number,
+  requiredValue: number
+): string => {
+  switch (rule) {
+    case 'enrollment':
+      return 'Estar matriculado no curso';
+    case 'completion':
+      return `Concluir todas as aulas (${currentValue}% concluído)`;
+    case 'required_lessons':
+      return `Concluir as aulas obrigatórias (${currentValue} de ${requiredValue})`;
+    case 'quiz_average':
+      return `Média mínima de ${requiredValue}% nos questionários (atual: ${currentValue}%)`;
+    case 'watch_time':
+      return `Assistir ao menos ${requiredValue} minutos de aula (atual: ${currentValue} min)`;
+    case 'waiting_period':
+      return `Aguardar ${requiredValue} dias após a matrícula (${currentValue} dias decorridos)`;
+    default:
+      return rule;
+  }
+};
+
+export const mapCertificateRuleResult = (row: {
+  rule: CertificateRuleType;
+  met: boolean;
+  current_value: number | string | null;
+  required_value: number | string | null;
+}): CertificateRuleResult => {
+  const currentValue = Number(row.current_value) || 0;
+  const requiredValue = Number(row.required_value) || 0;
+
+  return {
+    rule: row.rule,
+    met: Boolean(row.met),
+    currentValue,
+    requiredValue,
+    description: describeCertificateRule(row.rule, currentValue, requiredValue)
+  };
+};
@@ -0,0 +1,24 @@
+import { Lesson, Module } from '@/types';
+
+const formatReleaseDate = (date: string) => new Date(date).toLocaleDateString('pt-BR');
+
+// Condição para liberar uma aula bloqueada, exibida nos players
+export const getLessonUnlockCondition = (lesson: Pick<Lesson, 'lockReason' | 'unlockAt'>): string => {
+  if (lesson.lockReason === 'release_date' && lesson.unlockAt) {
+    return `Liberada em ${formatReleaseDate(lesson.unlockAt)}`;
+  }
+  return 'Conclua a aula anterior para liberar';
+};
+
+// Condição para liberar um módulo bloqueado pela liberação programada
+export const getModuleUnlockCondition = (module: Pick<Module, 'unlockAt'>): string =>
+  module.unlockAt ? `Liberado em ${formatReleaseDate(module.unlockAt)}` : 'Módulo bloqueado';
+
+// Primeira aula liberada do curso, selecionada ao abrir o player
+export const findFirstAvailableLesson = (modules: Module[]): { module: Module; lesson: Lesson } | null => {
+  for (const module of modules) {
+    const lesson = (module.lessons || []).find(item => !item.isLocked);
+    if (lesson) return { module, lesson };
+  }
+  return null;
+};
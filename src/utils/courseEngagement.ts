@@ -0,0 +1,28 @@
+import { LessonEngagement } from '@/types';
+
+/**
+ * Formata um intervalo em segundos de forma legível (ex.: "45 min", "3,5 h", "2,1 dias")
+ */
+export const formatEngagementInterval = (seconds: number | null): string => {
+  if (seconds === null) return '—';
+
+  const minutes = seconds / 60;
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))} min`;
+
+  const hours = minutes / 60;
+  if (hours < 24) return `${hours.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} h`;
+
+  return `${(hours / 24).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} dias`;
+};
+
+/**
+ * Aula em que mais alunos travaram; null quando nenhum aluno está parado no curso
+ */
+export const findMostStalledLesson = (lessons: LessonEngagement[]): LessonEngagement | null =>
+  lessons.reduce<LessonEngagement | null>(
+    (most, lesson) => (lesson.stalledCount > (most?.stalledCount || 0) ? lesson : most),
+    null
+  );
+
+export const getCompletionRate = (lesson: LessonEngagement): number =>
+  lesson.enrolledCount > 0 ? Math.round((lesson.completedCount / lesson.enrolledCount) * 100) : 0;
@@ -0,0 +1,76 @@
+import { LessonNote, LessonNoteWithContext } from '@/types';
+
+export interface LessonNotesGroup {
+  lessonId: string;
+  lessonTitle: string;
+  notes: LessonNoteWithContext[];
+}
+
+export interface ModuleNotesGroup {
+  moduleId: string;
+  moduleTitle: string;
+  lessons: LessonNotesGroup[];
+}
+
+export interface CourseNotesGroup {
+  courseId: string;
+  courseTitle: string;
+  modules: ModuleNotesGroup[];
+}
+
+// Momento do vídeo no formato m:ss (ou h:mm:ss em vídeos longos)
+export const formatNoteTimestamp = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(Math.floor(totalSeconds % 60)).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Anotações da mesma aula em ordem: primeiro as ligadas a momentos do vídeo, depois as demais
+export const compareLessonNotes = (a: LessonNote, b: LessonNote) => {
+  if (a.timestampSeconds !== b.timestampSeconds) {
+    if (a.timestampSeconds === null) return 1;
+    if (b.timestampSeconds === null) return -1;
+    return a.timestampSeconds - b.timestampSeconds;
+  }
+  return a.createdAt.localeCompare(b.createdAt);
+};
+
+// Link para abrir a aula no player, já no momento da anotação quando houver
+export const getLessonNoteLink = (courseId: string, lessonId: string, timestampSeconds?: number | null): string => {
+  const params = new URLSearchParams({ lesson: lessonId });
+  if (timestampSeconds !== null && timestampSeconds !== undefined) {
+    params.set('t', String(timestampSeconds));
+  }
+  return `/aluno/curso/${courseId}/player?${params.toString()}`;
+};
+
+// Agrupa as anotações por curso, módulo e aula, mantendo a ordem recebida
+export const groupNotesByCourse = (notes: LessonNoteWithContext[]): CourseNotesGroup[] => {
+  const courses: CourseNotesGroup[] = [];
+
+  notes.forEach(note => {
+    let course = courses.find(item => item.courseId === note.courseId);
+    if (!course) {
+      course = { courseId: note.courseId, courseTitle: note.courseTitle, modules: [] };
+      courses.push(course);
+    }
+
+    let module = course.modules.find(item => item.moduleId === note.moduleId);
+    if (!module) {
+      module = { moduleId: note.moduleId, moduleTitle: note.moduleTitle, lessons: [] };
+      course.modules.push(module);
+    }
+
+    let lesson = module.lessons.find(item => item.lessonId === note.lessonId);
+    if (!lesson) {
+      lesson = { lessonId: note.lessonId, lessonTitle: note.lessonTitle, notes: [] };
+      module.lessons.push(lesson);
+    }
+
+    lesson.notes.push(note);
+  });
+
+  return courses;
+};
@@ -111,10 +111,34 @@ export function initializeRealtimeSubscriptions() {
       }
     });
 
+  // Subscribe to lesson discussion posts (perguntas e respostas das aulas)
+  const discussionsSubscription = supabase
+    .channel('public:lesson_discussions')
+    .on('postgres_changes', {
+      event: 'INSERT',
+      schema: 'public',
+      table: 'lesson_discussions'
+    }, (payload) => {
+      console.log('Lesson discussion post detected:', payload);
+      realtimeEvents.publish('lesson-discussions-changed', {
+        ...payload,
+        lessonId: payload.new?.lesson_id,
+        parentId: payload.new?.parent_id ?? null,
+        userId: payload.new?.user_id
+      });
+    })
+    .subscribe((status) => {
+      console.log('Lesson discussions subscription status:', status);
+      if (status === 'CHANNEL_ERROR') {
+        console.error('Failed to subscribe to lesson discussions table');
+      }
+    });
+
   // Return unsubscribe function
   return () => {
     coursesSubscription.unsubscribe();
     modulesSubscription.unsubscribe();
     lessonsSubscription.unsubscribe();
+    discussionsSubscription.unsubscribe();
   };
 }
@@ -0,0 +1,136 @@
+import DOMPurify from 'dompurify';
+
+// Instância própria, para que as regras abaixo não afetem outros usos do DOMPurify (ex.: jsPDF)
+const purifier = DOMPurify(window);
+
+// Elementos aceitos no conteúdo das aulas: texto formatado, títulos, listas, blocos de código,
+// imagens, tabelas e destaques (callouts)
+const ALLOWED_TAGS = [
+  'h1', 'h2', 'h3', 'h4', 'p', 'br', 'hr', 'div', 'span',
+  'strong', 'b', 'em', 'i', 'u', 's', 'a', 'blockquote',
+  'ul', 'ol', 'li', 'pre', 'code', 'img',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+];
+const ALLOWED_ATTR = ['href', 'src', 'alt', 'title', 'class', 'colspan', 'rowspan', 'data-language'];
+
+// Somente as classes dos destaques; demais classes são descartadas para que o conteúdo
+// não possa sobrepor a interface do player
+export const CALLOUT_TYPES = ['info', 'tip', 'warning'] as const;
+export type CalloutType = typeof CALLOUT_TYPES[number];
+const ALLOWED_CLASSES = ['callout', ...CALLOUT_TYPES.map(type => `callout-${type}`)];
+
+purifier.addHook('uponSanitizeAttribute', (_node, data) => {
+  if (data.attrName === 'class') {
+    data.attrValue = data.attrValue.split(/\s+/).filter(name => ALLOWED_CLASSES.includes(name)).join(' ');
+  }
+});
+
+// Links do conteúdo sempre abrem em outra aba, sem acesso à janela do player
+purifier.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Conteúdo antigo, salvo como texto simples, é convertido em parágrafos
+const toLessonHtml = (content: string): string => {
+  if (/<\/?[a-z][^>]*>/i.test(content)) return content;
+
+  return content
+    .split(/\n{2,}/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+};
+
+/**
+ * HTML seguro do conteúdo da aula: usado ao salvar a aula e novamente ao exibi-la nos players
+ */
+export const sanitizeLessonContent = (content: string): string => {
+  if (!content?.trim()) return '';
+  return purifier.sanitize(toLessonHtml(content), {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+    ALLOW_DATA_ATTR: false
+  });
+};
+
+const KEYWORDS = new Set([
+  // JavaScript / TypeScript
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+  'interface', 'let', 'new', 'null', 'of', 'return', 'static', 'switch', 'this', 'throw', 'true',
+  'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+  // Python
+  'and', 'as', 'def', 'elif', 'except', 'from', 'is', 'lambda', 'None', 'not', 'or', 'pass',
+  'raise', 'True', 'False', 'with',
+  // SQL (comparado em minúsculas)
+  'select', 'insert', 'update', 'delete', 'where', 'join', 'left', 'inner', 'on', 'group', 'by',
+  'order', 'having', 'into', 'values', 'set', 'create', 'table', 'alter', 'drop', 'limit'
+]);
+
+// Comentário de linha de cada linguagem; as demais usam //
+const LINE_COMMENTS: Record<string, string> = {
+  python: '#',
+  bash: '#',
+  shell: '#',
+  sh: '#',
+  ruby: '#',
+  yaml: '#',
+  sql: '--'
+};
+
+/**
+ * Realce de sintaxe simples (comentários, strings, números e palavras-chave);
+ * retorna HTML com o código escapado
+ */
+export const highlightCode = (code: string, language?: string): string => {
+  const lang = language?.toLowerCase() || '';
+  const lineComment = (LINE_COMMENTS[lang] || '//').replace(/[/\\-]/g, '\\$&');
+  const pattern = new RegExp(
+    String.raw`(${lineComment}[^\n]*|\/\*[\s\S]*?\*\/)|("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|` +
+      '`(?:[^`\\\\]|\\\\.)*`' +
+      String.raw`)|(\b\d+(?:\.\d+)?\b)|(\b[A-Za-z_]\w*\b)`,
+    'g'
+  );
+
+  let result = '';
+  let lastIndex = 0;
+  for (const match of code.matchAll(pattern)) {
+    const [token, comment, string, number, word] = match;
+    const className = comment
+      ? 'code-comment'
+      : string
+        ? 'code-string'
+        : number
+          ? 'code-number'
+          : word && KEYWORDS.has(lang === 'sql' ? word.toLowerCase() : word)
+            ? 'code-keyword'
+            : null;
+
+    result += escapeHtml(code.slice(lastIndex, match.index));
+    result += className ? `<span class="${className}">${escapeHtml(token)}</span>` : escapeHtml(token);
+    lastIndex = (match.index ?? 0) + token.length;
+  }
+
+  return result + escapeHtml(code.slice(lastIndex));
+};
+
+/**
+ * HTML final exibido nos players: conteúdo sanitizado com os blocos de código realçados
+ */
+export const renderLessonContent = (content: string): string => {
+  const template = document.createElement('template');
+  template.innerHTML = sanitizeLessonContent(content);
+
+  template.content.querySelectorAll('pre').forEach((pre) => {
+    const language = pre.getAttribute('data-language') || undefined;
+    pre.innerHTML = `<code>${highlightCode(pre.textContent || '', language)}</code>`;
+  });
+
+  return template.innerHTML;
+};
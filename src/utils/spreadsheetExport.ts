@@ -0,0 +1,344 @@
+/**
+ * Geração de planilhas CSV e XLSX no navegador, sem dependências externas
+ *
+ * As linhas são adicionadas em lotes (uma página da consulta por vez) e já convertidas em bytes,
+ * então a exportação não precisa manter todos os registros em memória como objetos.
+ * O XLSX é um pacote ZIP sem compressão com uma única planilha (SpreadsheetML)
+ */
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportCellValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportCellValue;
+  dateOnly?: boolean; // Datas sem horário
+}
+
+export interface SpreadsheetWriter<T> {
+  addRows: (rows: T[]) => void;
+  finish: () => Blob;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV (Excel, Planilhas Google)',
+  xlsx: 'XLSX (Excel)'
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Limite de caracteres por célula do Excel
+const MAX_CELL_LENGTH = 32767;
+
+const encoder = new TextEncoder();
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDate = (date: Date, dateOnly?: boolean) => {
+  const day = `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+  return dateOnly ? day : `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatBoolean = (value: boolean) => (value ? 'Sim' : 'Não');
+
+export const downloadBlob = (content: Blob, fileName: string) => {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Nome de arquivo sem acentos e espaços, com a data da exportação
+ */
+export const getExportFileName = (baseName: string, format: ExportFormat) => {
+  const slug = baseName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'exportacao';
+  const today = new Date();
+  return `${slug}-${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}.${format}`;
+};
+
+// ---------------------------------------------------------------------------
+// CSV: UTF-8 com BOM e separador ";" para o Excel em português abrir acentos e colunas corretamente
+
+const CSV_SEPARATOR = ';';
+const CSV_BOM = '\uFEFF';
+
+const toCsvCell = (value: ExportCellValue, dateOnly?: boolean): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value, dateOnly);
+  if (typeof value === 'boolean') return formatBoolean(value);
+  if (typeof value === 'number') return value.toLocaleString('pt-BR', { useGrouping: false, maximumFractionDigits: 10 });
+
+  // Evita que textos começando com =, +, - ou @ sejam interpretados como fórmulas ao abrir a planilha
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const createCsvWriter = <T>(columns: ExportColumn<T>[]): SpreadsheetWriter<T> => {
+  const parts: string[] = [CSV_BOM + columns.map(column => toCsvCell(column.label)).join(CSV_SEPARATOR) + '\r\n'];
+
+  return {
+    addRows(rows) {
+      if (rows.length === 0) return;
+      parts.push(
+        rows
+          .map(row => columns.map(column => toCsvCell(column.value(row), column.dateOnly)).join(CSV_SEPARATOR))
+          .join('\r\n') + '\r\n'
+      );
+    },
+    finish() {
+      return new Blob(parts, { type: MIME_TYPES.csv });
+    }
+  };
+};
+
+// ---------------------------------------------------------------------------
+// XLSX
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc: number, bytes: Uint8Array) => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+interface ZipEntry {
+  name: string;
+  parts: Uint8Array[];
+  size: number;
+  crc: number;
+}
+
+const createZipEntry = (name: string, content: string): ZipEntry => {
+  const bytes = encoder.encode(content);
+  return { name, parts: [bytes], size: bytes.length, crc: updateCrc32(0, bytes) };
+};
+
+// Data e hora no formato do MS-DOS usado pelos cabeçalhos do ZIP
+const getDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// ZIP sem compressão (método "stored"), suficiente para o Excel e para planilhas geradas no navegador
+const buildZip = (entries: ZipEntry[], type: string): Blob => {
+  const { time, date } = getDosDateTime(new Date());
+  const blobParts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // Nomes em UTF-8
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, entry.crc, true);
+    local.setUint32(18, entry.size, true);
+    local.setUint32(22, entry.size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, entry.crc, true);
+    central.setUint32(20, entry.size, true);
+    central.setUint32(24, entry.size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    blobParts.push(local.buffer, name, ...entry.parts);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + entry.size;
+  }
+
+  const centralSize = centralDirectory.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...blobParts, ...centralDirectory, end.buffer], { type });
+};
+
+// Caracteres de controle não são permitidos em XML
+const escapeXml = (text: string) =>
+  text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// A, B, ..., Z, AA, AB, ...
+const getColumnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Número de série do Excel (dias desde 30/12/1899) com o horário local
+const toExcelDate = (date: Date) =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()) /
+    86400000 +
+  25569;
+
+// Estilos: 0 = padrão, 1 = cabeçalho em negrito, 2 = data, 3 = data e hora
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '</styleSheet>';
+
+const toXlsxCell = (reference: string, value: ExportCellValue, dateOnly?: boolean, style = 0): string => {
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  if (value === null || value === undefined || value === '') return '';
+  if (value instanceof Date) {
+    return `<c r="${reference}" s="${dateOnly ? 2 : 3}"><v>${toExcelDate(value)}</v></c>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`;
+  }
+
+  const text = typeof value === 'boolean' ? formatBoolean(value) : String(value).slice(0, MAX_CELL_LENGTH);
+  return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const createXlsxWriter = <T>(columns: ExportColumn<T>[], sheetName: string): SpreadsheetWriter<T> => {
+  const columnNames = columns.map((_, index) => getColumnName(index));
+  const sheet: ZipEntry = { name: 'xl/worksheets/sheet1.xml', parts: [], size: 0, crc: 0 };
+  let rowNumber = 0;
+
+  const append = (xml: string) => {
+    const bytes = encoder.encode(xml);
+    sheet.parts.push(bytes);
+    sheet.size += bytes.length;
+    sheet.crc = updateCrc32(sheet.crc, bytes);
+  };
+
+  const toRow = (values: ExportCellValue[], style = 0) => {
+    rowNumber++;
+    const cells = values
+      .map((value, index) => toXlsxCell(`${columnNames[index]}${rowNumber}`, value, columns[index].dateOnly, style))
+      .join('');
+    return `<row r="${rowNumber}">${cells}</row>`;
+  };
+
+  // Cabeçalho fixo no topo e largura das colunas pelo tamanho do título
+  append(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${columns
+      .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${Math.max(12, column.label.length + 4)}" customWidth="1"/>`)
+      .join('')}</cols>` +
+    '<sheetData>' +
+    toRow(columns.map(column => column.label), 1)
+  );
+
+  return {
+    addRows(rows) {
+      if (rows.length === 0) return;
+      append(rows.map(row => toRow(columns.map(column => column.value(row)))).join(''));
+    },
+    finish() {
+      append('</sheetData></worksheet>');
+
+      const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Dados');
+      return buildZip(
+        [
+          createZipEntry(
+            '[Content_Types].xml',
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+            '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+            '</Types>'
+          ),
+          createZipEntry(
+            '_rels/.rels',
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+            '</Relationships>'
+          ),
+          createZipEntry(
+            'xl/workbook.xml',
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+            `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+            '</workbook>'
+          ),
+          createZipEntry(
+            'xl/_rels/workbook.xml.rels',
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+            '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+            '</Relationships>'
+          ),
+          createZipEntry('xl/styles.xml', STYLES_XML),
+          sheet
+        ],
+        MIME_TYPES.xlsx
+      );
+    }
+  };
+};
+
+export const createSpreadsheetWriter = <T>(
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  sheetName = 'Dados'
+): SpreadsheetWriter<T> => (format === 'xlsx' ? createXlsxWriter(columns, sheetName) : createCsvWriter(columns));
@@ -0,0 +1,45 @@
+import { UserGroupMember, UserGroupMemberSummary, UserGroupProgress } from '@/types';
+
+/**
+ * Resume o progresso de cada membro nos cursos da turma, do maior para o menor progresso médio.
+ * Membros sem linhas de progresso (turma ainda sem cursos) aparecem com tudo zerado
+ */
+export const summarizeGroupMembers = (
+  members: UserGroupMember[],
+  progressRows: UserGroupProgress[]
+): UserGroupMemberSummary[] =>
+  members
+    .map(member => {
+      const rows = progressRows.filter(row => row.userId === member.userId);
+      const lastActivityAt = rows.reduce<string | null>(
+        (latest, row) => (row.lastActivityAt && (!latest || row.lastActivityAt > latest) ? row.lastActivityAt : latest),
+        null
+      );
+
+      return {
+        userId: member.userId,
+        name: member.name || rows[0]?.userName || 'Sem nome',
+        email: rows[0]?.userEmail || '',
+        averageProgress:
+          rows.length > 0 ? Math.round(rows.reduce((total, row) => total + row.progress, 0) / rows.length) : 0,
+        enrolledCount: rows.filter(row => row.enrolledAt).length,
+        completedCount: rows.filter(row => row.completedAt).length,
+        certificateCount: rows.filter(row => row.certificateIssuedAt).length,
+        lastActivityAt
+      };
+    })
+    .sort((a, b) => b.averageProgress - a.averageProgress || a.name.localeCompare(b.name, 'pt-BR'));
+
+/**
+ * Progresso médio da turma: média dos progressos médios dos membros
+ */
+export const getGroupAverageProgress = (summaries: UserGroupMemberSummary[]): number =>
+  summaries.length > 0
+    ? Math.round(summaries.reduce((total, summary) => total + summary.averageProgress, 0) / summaries.length)
+    : 0;
+
+/**
+ * Data de início da turma (AAAA-MM-DD) no formato brasileiro, sem conversão de fuso horário
+ */
+export const formatGroupStartDate = (startDate: string | null): string =>
+  startDate ? new Date(`${startDate}T00:00:00`).toLocaleDateString('pt-BR') : '—';
@@ -0,0 +1,199 @@
+import { Course, UserImportRow } from '@/types';
+
+// Limite de linhas por importação (igual ao de preview_user_import no banco)
+export const USER_IMPORT_MAX_ROWS = 2000;
+
+// Modelo oferecido para download no assistente; vários cursos na mesma célula são separados por "|"
+export const USER_IMPORT_TEMPLATE = [
+  'nome;email;papel;cursos;turma',
+  'Maria Silva;maria.silva@empresa.com.br;aluno;Segurança do Trabalho|Primeiros Socorros;Turma 2026-1',
+  'João Souza;joao.souza@empresa.com.br;administrador;;RH'
+].join('\r\n');
+
+type UserImportField = 'name' | 'email' | 'role' | 'courses' | 'group';
+
+// Nomes aceitos no cabeçalho, sem acentos e em minúsculas
+const HEADER_ALIASES: Record<string, UserImportField> = {
+  nome: 'name',
+  'nome completo': 'name',
+  name: 'name',
+  email: 'email',
+  'e-mail': 'email',
+  papel: 'role',
+  funcao: 'role',
+  perfil: 'role',
+  role: 'role',
+  cursos: 'courses',
+  curso: 'courses',
+  courses: 'courses',
+  grupo: 'group',
+  turma: 'group',
+  group: 'group'
+};
+
+const ROLE_ALIASES: Record<string, 'admin' | 'student'> = {
+  aluno: 'student',
+  estudante: 'student',
+  student: 'student',
+  admin: 'admin',
+  administrador: 'admin',
+  administrator: 'admin'
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const normalizeKey = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+
+// Separador mais frequente na primeira linha: ";" (Excel em português), "," ou tabulação
+const detectSeparator = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [';', ',', '\t'].map(separator => ({
+    separator,
+    count: firstLine.split(separator).length - 1
+  }));
+  return counts.reduce((best, current) => (current.count > best.count ? current : best)).separator;
+};
+
+/**
+ * Lê um arquivo CSV (campos entre aspas podem conter separadores, aspas duplicadas e quebras de linha)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = detectSeparator(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const isBlankRow = (cells: string[]) => cells.every(cell => cell.trim() === '');
+
+/**
+ * Valida o arquivo de importação: colunas, e-mails, papéis e cursos (por título ou ID).
+ * As linhas voltam como "create"; a simulação no banco define quais são atualizações
+ */
+export const parseUserImportFile = (
+  text: string,
+  courses: Pick<Course, 'id' | 'title'>[]
+): UserImportRow[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || isBlankRow(header)) throw new Error('O arquivo está vazio');
+
+  // Linhas em branco são ignoradas, mas a numeração continua a do arquivo
+  const lines = rows
+    .map((cells, index) => ({ cells, line: index + 2 }))
+    .filter(({ cells }) => !isBlankRow(cells));
+
+  const columns = header.map(cell => HEADER_ALIASES[normalizeKey(cell)]);
+  if (!columns.includes('email')) {
+    throw new Error('O arquivo precisa de uma coluna "email"');
+  }
+  if (lines.length === 0) throw new Error('O arquivo não tem linhas de usuários');
+  if (lines.length > USER_IMPORT_MAX_ROWS) {
+    throw new Error(`O arquivo pode ter no máximo ${USER_IMPORT_MAX_ROWS} usuários por importação`);
+  }
+
+  const coursesByKey = new Map<string, Pick<Course, 'id' | 'title'>>();
+  courses.forEach(course => {
+    coursesByKey.set(course.id.toLowerCase(), course);
+    coursesByKey.set(normalizeKey(course.title), course);
+  });
+
+  const firstLineByEmail = new Map<string, number>();
+
+  return lines.map(({ cells, line }): UserImportRow => {
+    const value = (field: UserImportField) => {
+      const columnIndex = columns.indexOf(field);
+      return columnIndex === -1 ? '' : (cells[columnIndex] || '').trim();
+    };
+
+    const errors: string[] = [];
+    const email = value('email').toLowerCase();
+    const roleText = normalizeKey(value('role'));
+    const role = roleText ? ROLE_ALIASES[roleText] || null : null;
+
+    if (!email) {
+      errors.push('E-mail não informado');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`E-mail inválido: ${email}`);
+    } else if (firstLineByEmail.has(email)) {
+      errors.push(`E-mail repetido (já aparece na linha ${firstLineByEmail.get(email)})`);
+    } else {
+      firstLineByEmail.set(email, line);
+    }
+
+    if (roleText && !role) {
+      errors.push(`Papel inválido: ${value('role')} (use "aluno" ou "administrador")`);
+    }
+
+    const matchedCourses: Pick<Course, 'id' | 'title'>[] = [];
+    value('courses')
+      .split(/[|;]/)
+      .map(courseText => courseText.trim())
+      .filter(Boolean)
+      .forEach(courseText => {
+        const key = UUID_PATTERN.test(courseText) ? courseText.toLowerCase() : normalizeKey(courseText);
+        const course = coursesByKey.get(key);
+        if (!course) {
+          errors.push(`Curso não encontrado: ${courseText}`);
+        } else if (!matchedCourses.includes(course)) {
+          matchedCourses.push(course);
+        }
+      });
+
+    return {
+      line,
+      name: value('name'),
+      email,
+      role,
+      group: value('group'),
+      courseIds: matchedCourses.map(course => course.id),
+      courseTitles: matchedCourses.map(course => course.title),
+      action: errors.length > 0 ? 'error' : 'create',
+      newEnrollments: matchedCourses.length,
+      errors,
+      warnings: []
+    };
+  });
+};
@@ -0,0 +1,80 @@
+export interface VideoMetadata {
+  durationSeconds: number;
+  thumbnail: Blob | null;
+}
+
+// Tempo máximo para o navegador ler os metadados do vídeo
+const METADATA_TIMEOUT_MS = 20000;
+
+// Quadro usado como miniatura: 1 segundo após o início ou 10% do vídeo, o que vier antes
+const getThumbnailTime = (durationSeconds: number) => Math.min(1, durationSeconds / 10);
+
+const captureFrame = (video: HTMLVideoElement): Promise<Blob | null> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext('2d');
+  if (!context || !canvas.width || !canvas.height) return Promise.resolve(null);
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+};
+
+/**
+ * Lê a duração real do vídeo e, opcionalmente, captura um quadro como miniatura
+ * (a miniatura só é possível para arquivos locais; vídeos de outros domínios bloqueiam o canvas)
+ */
+export const readVideoMetadata = (
+  source: File | string,
+  { captureThumbnail = false }: { captureThumbnail?: boolean } = {}
+): Promise<VideoMetadata> => {
+  const objectUrl = typeof source === 'string' ? null : URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  video.muted = true;
+
+  return new Promise<VideoMetadata>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Não foi possível ler os metadados do vídeo')), METADATA_TIMEOUT_MS);
+    const finish = (result: VideoMetadata) => {
+      clearTimeout(timer);
+      resolve(result);
+    };
+
+    video.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error('Não foi possível ler os metadados do vídeo'));
+    };
+
+    video.onloadedmetadata = () => {
+      const durationSeconds = Number.isFinite(video.duration) ? Math.round(video.duration) : 0;
+      if (!captureThumbnail || !durationSeconds) {
+        finish({ durationSeconds, thumbnail: null });
+        return;
+      }
+
+      video.onseeked = () => {
+        captureFrame(video)
+          .then(thumbnail => finish({ durationSeconds, thumbnail }))
+          .catch(() => finish({ durationSeconds, thumbnail: null }));
+      };
+      video.currentTime = getThumbnailTime(video.duration);
+    };
+
+    video.src = objectUrl || (source as string);
+  }).finally(() => {
+    video.removeAttribute('src');
+    video.load();
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  });
+};
+
+// Duração da aula no formato exibido aos alunos (ex.: 45s, 12min 30s, 1h 05min)
+export const formatLessonDuration = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}min`;
+  if (minutes > 0) return seconds > 0 ? `${minutes}min ${seconds}s` : `${minutes}min`;
+  return `${seconds}s`;
+};
@@ -16,47 +16,22 @@ CREATE POLICY "Anyone can view certificates"
   FOR SELECT 
   USING (true);
 
--- 2. Política para permitir que usuários autenticados criem seus próprios certificados
-CREATE POLICY "Users can create their own certificates" 
-  ON public.certificates 
-  FOR INSERT 
-  TO authenticated
-  WITH CHECK (auth.uid() = user_id);
-
--- 3. Política para permitir que usuários autenticados atualizem seus próprios certificados
-CREATE POLICY "Users can update their own certificates" 
-  ON public.certificates 
-  FOR UPDATE 
-  TO authenticated
-  USING (auth.uid() = user_id);
-
--- 4. Política para permitir que usuários autenticados excluam seus próprios certificados
-CREATE POLICY "Users can delete their own certificates" 
-  ON public.certificates 
-  FOR DELETE 
-  TO authenticated
-  USING (auth.uid() = user_id);
-
--- 5. Política para permitir que administradores gerenciem todos os certificados
+-- Certificados são emitidos só pelas funções do banco (issue_certificate e demais funções
+-- SECURITY DEFINER de SQLADM/14_certificate_signatures.sql); usuários não gravam na tabela
+DROP POLICY IF EXISTS "Users can create their own certificates" ON public.certificates;
+DROP POLICY IF EXISTS "Users can update their own certificates" ON public.certificates;
+DROP POLICY IF EXISTS "Users can delete their own certificates" ON public.certificates;
+DROP POLICY IF EXISTS "Authenticated users can create any certificate" ON public.certificates;
+
+-- 2. Política para permitir que administradores gerenciem todos os certificados
 CREATE POLICY "Admins can manage all certificates" 
   ON public.certificates 
   FOR ALL 
   TO authenticated
   USING ((SELECT raw_user_meta_data->>'role' FROM auth.users WHERE id = auth.uid()) = 'admin');
 
--- 6. Política alternativa para permitir que qualquer usuário autenticado crie certificados
--- Esta política é mais permissiva e pode ser usada se a política 2 não resolver o problema
-CREATE POLICY "Authenticated users can create any certificate" 
-  ON public.certificates 
-  FOR INSERT 
-  TO authenticated
-  WITH CHECK (true);
-
 -- Conceder permissões explícitas aos roles
-GRANT ALL ON public.certificates TO authenticated;
-GRANT SELECT ON public.certificates TO anon;
-
--- Como alternativa, se as políticas acima não resolverem o problema,
--- podemos desabilitar completamente o RLS para a tabela certificates
--- Descomente a linha abaixo se necessário:
--- ALTER TABLE public.certificates DISABLE ROW LEVEL SECURITY;
+GRANT SELECT ON public.certificates TO anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.certificates FROM anon, authenticated;
+-- Administradores ainda alteram o link do arquivo
+GRANT UPDATE (certificate_url) ON public.certificates TO authenticated;
@@ -1,6 +1,13 @@
 -- Função para atualizar uma aula de forma mais robusta
 -- Esta função é usada como fallback quando a atualização normal falha com erro 406
 
+-- Remove as assinaturas anteriores (sem os campos de questionário, de conclusão automática,
+-- de visualização obrigatória e do vídeo enviado) para evitar sobrecarga ambígua
+DROP FUNCTION IF EXISTS update_lesson(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, UUID);
+DROP FUNCTION IF EXISTS update_lesson(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, UUID, TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS update_lesson(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, UUID, TEXT, INTEGER, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS update_lesson(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, UUID, TEXT, INTEGER, INTEGER, INTEGER, BOOLEAN, INTEGER);
+
 CREATE OR REPLACE FUNCTION update_lesson(
   p_lesson_id UUID,
   p_title TEXT,
@@ -9,7 +16,15 @@ CREATE OR REPLACE FUNCTION update_lesson(
   p_video_url TEXT DEFAULT '',
   p_content TEXT DEFAULT '',
   p_order_number INTEGER DEFAULT 1,
-  p_module_id UUID DEFAULT NULL
+  p_module_id UUID DEFAULT NULL,
+  p_lesson_type TEXT DEFAULT NULL,
+  p_passing_score INTEGER DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT NULL,
+  p_auto_complete_percent INTEGER DEFAULT NULL,
+  p_mandatory_viewing BOOLEAN DEFAULT NULL,
+  p_mandatory_viewing_percent INTEGER DEFAULT NULL,
+  p_video_thumbnail_url TEXT DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT NULL
 ) RETURNS BOOLEAN AS $$
 DECLARE
   v_count INTEGER;
@@ -36,6 +51,17 @@ BEGIN
     content = p_content,
     order_number = p_order_number,
     module_id = p_module_id,
+    lesson_type = COALESCE(p_lesson_type, lesson_type),
+    passing_score = COALESCE(p_passing_score, passing_score),
+    -- max_attempts nulo significa tentativas ilimitadas, então é sempre sobrescrito
+    max_attempts = p_max_attempts,
+    -- auto_complete_percent nulo desativa a conclusão automática, então também é sempre sobrescrito
+    auto_complete_percent = p_auto_complete_percent,
+    mandatory_viewing = COALESCE(p_mandatory_viewing, mandatory_viewing),
+    mandatory_viewing_percent = COALESCE(p_mandatory_viewing_percent, mandatory_viewing_percent),
+    -- Miniatura e duração acompanham o vídeo atual, então também são sempre sobrescritas
+    video_thumbnail_url = p_video_thumbnail_url,
+    duration_seconds = p_duration_seconds,
     updated_at = NOW()
   WHERE id = p_lesson_id;
   